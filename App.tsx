@@ -1,7 +1,20 @@
 
 import React, { useState, useEffect } from 'react';
 import FluidSimulator from './components/FluidSimulator';
-import { FluidConfig } from './types';
+import BrushEditor from './components/BrushEditor';
+import ContainerEditor from './components/ContainerEditor';
+import ObstacleEditor from './components/ObstacleEditor';
+import EmitterEditor from './components/EmitterEditor';
+import ForceFieldEditor from './components/ForceFieldEditor';
+import MotionEditor from './components/MotionEditor';
+import DiffuseEditor from './components/DiffuseEditor';
+import PhaseEditor from './components/PhaseEditor';
+import ThermalEditor from './components/ThermalEditor';
+import RheologyEditor from './components/RheologyEditor';
+import { FluidConfig, RigidBodyShape } from './types';
+import { MAX_BODIES } from './services/rigidBodies';
+import { DEFAULT_CONTAINER_SDF } from './services/sdfExpression';
+import { FlowStats } from './services/readback';
 import { Droplets, Trash2, Info, Settings2, Waves, CircleDot, Zap, Box, ChevronDown, RotateCcw } from 'lucide-react';
 
 const STORAGE_KEY = 'aquaflow-config';
@@ -14,17 +27,65 @@ const defaultConfig: FluidConfig = {
   restDensity: 50.0,
   stiffness: 500.0,
   surfaceTension: 0.05,
+  adhesion: 0,
+  material: 'fluid',
+  solver: 'pressure',
+  pbfRelaxation: 0.1,
+  pbfTensileK: 0.05,
+  vorticityEpsilon: 0,
+  staticFriction: 0.6,
+  kineticFriction: 0.4,
+  rheology: { model: 'newtonian', flowIndex: 1, yieldStress: 0 },
+  substeps: 1,
+  solverIterations: 3,
+  timeScale: 1.0,
+  adaptiveTimestep: false,
+  cflNumber: 0.4,
   maxParticles: 6000,
+  backend: 'gpu',
+  seed: 1,
   rotationX: 0,
   rotationY: 0,
   rotationZ: 0,
   boundarySize: 10,
+  container: { shape: 'box', extents: [1, 1, 1], sdf: DEFAULT_CONTAINER_SDF },
+  wallRestitution: 0.2,
+  wallStaticFriction: 0,
+  wallKineticFriction: 0,
+  inertialForces: 1,
+  shaking: false,
+  shakeAmplitude: [0.6, 0, 0],
+  shakeFrequency: 1,
+  interaction: 'rotate',
+  brushMode: 'push',
+  brushRadius: 1.5,
+  brushStrength: 0.5,
+  obstacles: [],
+  emitters: [],
+  drains: [],
+  forceFields: [],
+  rigidBodyDensity: 0.5,
+  rigidBodySize: 0.8,
+  phases: [],
+  interfaceTension: 0.3,
+  injectPhase: 0,
+  injectTemperature: 0.5,
+  heatDiffusion: 1.0,
+  floorTemperature: 0.5,
+  wallTemperature: 0.5,
+  wallHeatTransfer: 0,
+  viscosityCurve: { cold: 1, hot: 1 },
+  cohesionCurve: { cold: 1, hot: 1 },
   renderMode: 'surface',
+  colorMode: 'phase',
   renderScale: 0.5,
   // Rendering debug
   blurRadius: 0,
   blurDepthFalloff: 5,
   showContainer: true,
+  diffuseParticles: false,
+  diffuseEmission: 4,
+  diffuseLifetime: 3,
   // Advanced rendering
   ior: 1.33,
   refractionStrength: 0.05,
@@ -44,6 +105,9 @@ const defaultConfig: FluidConfig = {
   reflectionIntensity: 3.0,
 };
 
+// Particle caps offered in the settings panel (higher ones cost memory and frame time)
+const CAPACITIES = [6000, 20000, 50000];
+
 const loadConfig = (): FluidConfig => {
   try {
     const saved = localStorage.getItem(STORAGE_KEY);
@@ -60,7 +124,11 @@ const loadConfig = (): FluidConfig => {
 const App: React.FC = () => {
   const [config, setConfig] = useState<FluidConfig>(loadConfig);
   const [particleCount, setParticleCount] = useState(0);
+  const [timeStep, setTimeStep] = useState({ dt: 1 / 60, substeps: 1 });
+  const [flow, setFlow] = useState<FlowStats>({ meanSpeed: 0, maxSpeed: 0 });
   const [injectTrigger, setInjectTrigger] = useState(0);
+  const [dropTrigger, setDropTrigger] = useState<{ shape: RigidBodyShape; serial: number } | null>(null);
+  const [bodyCount, setBodyCount] = useState(0);
   const [resetRotation, setResetRotation] = useState(0);
   const [showInfo, setShowInfo] = useState(false);
   const [showSettings, setShowSettings] = useState(true);
@@ -72,6 +140,7 @@ const App: React.FC = () => {
   }, [config]);
 
   const handleInject = () => setInjectTrigger(prev => prev + 1);
+  const handleDrop = (shape: RigidBodyShape) => setDropTrigger(prev => ({ shape, serial: (prev?.serial ?? 0) + 1 }));
   const handleReset = () => window.location.reload();
   const handleResetRotation = () => {
     setResetRotation(prev => prev + 1);
@@ -90,9 +159,14 @@ const App: React.FC = () => {
     <div className="relative w-full h-screen text-slate-200 select-none overflow-hidden bg-[#010308]">
       <div className="absolute inset-0 z-0">
         <FluidSimulator
+          key={config.maxParticles}  // Textures and buffers are sized once, so a new cap remounts
           config={config}
           onStatsUpdate={setParticleCount}
+          onTimeStepUpdate={(dt, substeps) => setTimeStep({ dt, substeps })}
+          onFlowStatsUpdate={setFlow}
           triggerInject={injectTrigger}
+          triggerDrop={dropTrigger}
+          onBodyCountUpdate={setBodyCount}
           resetRotation={resetRotation}
         />
       </div>
@@ -117,6 +191,20 @@ const App: React.FC = () => {
             <span className="text-[9px] uppercase text-blue-300/60 font-bold tracking-wider">Particles</span>
             <span className="text-xl font-mono text-white leading-none">{particleCount.toLocaleString()}</span>
           </div>
+          <div className="bg-black/60 backdrop-blur-xl px-4 py-2 rounded-xl border border-white/10 flex items-center gap-3"
+            title="Simulation time step and substeps per frame">
+            <span className="text-[9px] uppercase text-blue-300/60 font-bold tracking-wider">Step</span>
+            <span className="text-xl font-mono text-white leading-none">
+              {(timeStep.dt * 1000).toFixed(2)}<span className="text-[10px] text-white/50">ms ×{timeStep.substeps}</span>
+            </span>
+          </div>
+          <div className="bg-black/60 backdrop-blur-xl px-4 py-2 rounded-xl border border-white/10 flex items-center gap-3"
+            title="Mean and peak fluid speed, read back from the simulation every few frames">
+            <span className="text-[9px] uppercase text-blue-300/60 font-bold tracking-wider">Speed</span>
+            <span className="text-xl font-mono text-white leading-none">
+              {flow.meanSpeed.toFixed(1)}<span className="text-[10px] text-white/50"> / {flow.maxSpeed.toFixed(1)}</span>
+            </span>
+          </div>
           <button
             onClick={() => setShowSettings(!showSettings)}
             className={`p-2.5 rounded-xl border transition-all duration-300 ${showSettings ? 'bg-blue-600 border-blue-400 shadow-[0_0_20px_rgba(37,99,235,0.3)]' : 'bg-black/60 border-white/10'}`}
@@ -162,32 +250,181 @@ const App: React.FC = () => {
             </div>
 
             <div className="space-y-2.5 pt-1">
-              <div className="space-y-1">
-                <div className="flex justify-between text-[9px] font-bold text-white/50 uppercase tracking-wider">
-                  <span>Stiffness</span>
-                  <span className="text-blue-400">{config.stiffness.toFixed(0)}</span>
-                </div>
-                <input
-                  type="range" min="0" max="5000" step="50"
-                  value={config.stiffness}
-                  onChange={e => setConfig(prev => ({ ...prev, stiffness: parseFloat(e.target.value) }))}
-                  className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-blue-500"
-                />
+              <div className="flex justify-between items-center">
+                <span className="text-[9px] font-bold text-white/50 uppercase tracking-wider">Backend</span>
+                <button
+                  onClick={() => setConfig(prev => ({ ...prev, backend: prev.backend === 'gpu' ? 'cpu' : 'gpu' }))}
+                  className={`text-[8px] px-2 py-0.5 rounded transition-colors ${config.backend === 'gpu' ? 'bg-blue-500/20 text-blue-400' : 'bg-white/10 text-white/40'}`}
+                  title="Run the simulation on the GPU or the CPU (particles are kept)"
+                >
+                  {config.backend === 'gpu' ? 'GPU' : 'CPU'}
+                </button>
               </div>
 
-              <div className="space-y-1">
-                <div className="flex justify-between text-[9px] font-bold text-white/50 uppercase tracking-wider">
-                  <span>Surface Tension</span>
-                  <span className="text-blue-400">{config.surfaceTension.toFixed(4)}</span>
-                </div>
+              <div className="flex justify-between items-center">
+                <span className="text-[9px] font-bold text-white/50 uppercase tracking-wider">Seed</span>
                 <input
-                  type="range" min="0" max="0.1" step="0.0025"
-                  value={config.surfaceTension}
-                  onChange={e => setConfig(prev => ({ ...prev, surfaceTension: parseFloat(e.target.value) }))}
-                  className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-blue-500"
+                  type="number" min="0" step="1"
+                  value={config.seed}
+                  onChange={e => setConfig(prev => ({ ...prev, seed: Math.max(0, Math.floor(Number(e.target.value) || 0)) }))}
+                  className="w-16 text-[9px] text-right px-1 py-0.5 rounded bg-white/10 text-cyan-400 outline-none"
+                  title="Spawn seed for reproducible runs (applied on reset)"
                 />
               </div>
 
+              <div className="flex justify-between items-center">
+                <span className="text-[9px] font-bold text-white/50 uppercase tracking-wider">Capacity</span>
+                <button
+                  onClick={() => setConfig(prev => ({ ...prev, maxParticles: CAPACITIES[(CAPACITIES.indexOf(prev.maxParticles) + 1) % CAPACITIES.length] }))}
+                  className="text-[8px] px-2 py-0.5 rounded bg-white/10 text-cyan-400 transition-colors"
+                  title="Most particles the simulation holds; changing it restarts the simulation"
+                >
+                  {(config.maxParticles / 1000).toFixed(0)}k
+                </button>
+              </div>
+
+              <div className="flex justify-between items-center">
+                <span className="text-[9px] font-bold text-white/50 uppercase tracking-wider">Material</span>
+                <button
+                  onClick={() => setConfig(prev => ({ ...prev, material: prev.material === 'granular' ? 'fluid' : 'granular' }))}
+                  className={`text-[8px] px-2 py-0.5 rounded transition-colors ${config.material === 'granular' ? 'bg-amber-500/20 text-amber-400' : 'bg-blue-500/20 text-blue-400'}`}
+                  title="Liquid or dry sand (frictional grains, no tension)"
+                >
+                  {config.material === 'granular' ? 'SAND' : 'FLUID'}
+                </button>
+              </div>
+
+              {config.material !== 'granular' && (
+                <div className="flex justify-between items-center">
+                  <span className="text-[9px] font-bold text-white/50 uppercase tracking-wider">Solver</span>
+                  <button
+                    onClick={() => setConfig(prev => ({ ...prev, solver: prev.solver === 'pbf' ? 'pressure' : 'pbf' }))}
+                    className={`text-[8px] px-2 py-0.5 rounded transition-colors ${config.solver === 'pbf' ? 'bg-blue-500/20 text-blue-400' : 'bg-white/10 text-white/40'}`}
+                    title="Position-Based Fluids or legacy pressure push"
+                  >
+                    {config.solver === 'pbf' ? 'PBF' : 'PRESSURE'}
+                  </button>
+                </div>
+              )}
+
+              {config.material === 'granular' ? (
+                <>
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-[9px] font-bold text-white/50 uppercase tracking-wider">
+                      <span>Static Friction</span>
+                      <span className="text-amber-400">{config.staticFriction.toFixed(2)} ({(Math.atan(config.staticFriction) * 180 / Math.PI).toFixed(0)}°)</span>
+                    </div>
+                    <input
+                      type="range" min="0" max="1.5" step="0.05"
+                      value={config.staticFriction}
+                      onChange={e => setConfig(prev => ({ ...prev, staticFriction: parseFloat(e.target.value) }))}
+                      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-amber-500"
+                      title="Grains stick below this ratio; sets the angle of repose"
+                    />
+                  </div>
+
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-[9px] font-bold text-white/50 uppercase tracking-wider">
+                      <span>Kinetic Friction</span>
+                      <span className="text-amber-400">{config.kineticFriction.toFixed(2)}</span>
+                    </div>
+                    <input
+                      type="range" min="0" max="1.5" step="0.05"
+                      value={config.kineticFriction}
+                      onChange={e => setConfig(prev => ({ ...prev, kineticFriction: parseFloat(e.target.value) }))}
+                      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-amber-500"
+                      title="Friction while grains slide (capped at the static friction)"
+                    />
+                  </div>
+                </>
+              ) : config.solver === 'pbf' ? (
+                <>
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-[9px] font-bold text-white/50 uppercase tracking-wider">
+                      <span>Relaxation</span>
+                      <span className="text-blue-400">{config.pbfRelaxation.toFixed(3)}</span>
+                    </div>
+                    <input
+                      type="range" min="0.001" max="1" step="0.001"
+                      value={config.pbfRelaxation}
+                      onChange={e => setConfig(prev => ({ ...prev, pbfRelaxation: parseFloat(e.target.value) }))}
+                      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-blue-500"
+                    />
+                  </div>
+
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-[9px] font-bold text-white/50 uppercase tracking-wider">
+                      <span>Tensile Correction</span>
+                      <span className="text-blue-400">{config.pbfTensileK.toFixed(3)}</span>
+                    </div>
+                    <input
+                      type="range" min="0" max="0.3" step="0.005"
+                      value={config.pbfTensileK}
+                      onChange={e => setConfig(prev => ({ ...prev, pbfTensileK: parseFloat(e.target.value) }))}
+                      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-blue-500"
+                    />
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-[9px] font-bold text-white/50 uppercase tracking-wider">
+                      <span>Stiffness</span>
+                      <span className="text-blue-400">{config.stiffness.toFixed(0)}</span>
+                    </div>
+                    <input
+                      type="range" min="0" max="5000" step="50"
+                      value={config.stiffness}
+                      onChange={e => setConfig(prev => ({ ...prev, stiffness: parseFloat(e.target.value) }))}
+                      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-blue-500"
+                    />
+                  </div>
+
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-[9px] font-bold text-white/50 uppercase tracking-wider">
+                      <span>Surface Tension</span>
+                      <span className="text-blue-400">{config.surfaceTension.toFixed(4)}</span>
+                    </div>
+                    <input
+                      type="range" min="0" max="0.1" step="0.0025"
+                      value={config.surfaceTension}
+                      onChange={e => setConfig(prev => ({ ...prev, surfaceTension: parseFloat(e.target.value) }))}
+                      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-blue-500"
+                    />
+                  </div>
+
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-[9px] font-bold text-white/50 uppercase tracking-wider">
+                      <span>Adhesion</span>
+                      <span className="text-blue-400">{config.adhesion.toFixed(2)}</span>
+                    </div>
+                    <input
+                      type="range" min="0" max="1" step="0.05"
+                      value={config.adhesion}
+                      onChange={e => setConfig(prev => ({ ...prev, adhesion: parseFloat(e.target.value) }))}
+                      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-blue-500"
+                      title="Fluid clinging to container walls and obstacles"
+                    />
+                  </div>
+                </>
+              )}
+
+              {config.material !== 'granular' && (
+                <div className="space-y-1">
+                  <div className="flex justify-between text-[9px] font-bold text-white/50 uppercase tracking-wider">
+                    <span>Vorticity</span>
+                    <span className="text-blue-400">{config.vorticityEpsilon.toFixed(2)}</span>
+                  </div>
+                  <input
+                    type="range" min="0" max="2" step="0.05"
+                    value={config.vorticityEpsilon}
+                    onChange={e => setConfig(prev => ({ ...prev, vorticityEpsilon: parseFloat(e.target.value) }))}
+                    className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-blue-500"
+                    title="Vorticity confinement: restores small-scale swirl lost to damping"
+                  />
+                </div>
+              )}
+
               <div className="space-y-1">
                 <div className="flex justify-between text-[9px] font-bold text-white/50 uppercase tracking-wider">
                   <span>Particle Size</span>
@@ -235,7 +472,7 @@ const App: React.FC = () => {
                     className={`text-[8px] px-2 py-0.5 rounded flex items-center gap-1 transition-colors ${config.showContainer ? 'bg-blue-500/20 text-blue-400' : 'bg-white/10 text-white/40'}`}
                   >
                     <Box size={10} />
-                    Cube
+                    Glass
                   </button>
                 </div>
                 <div className="space-y-2">
@@ -266,6 +503,11 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              <DiffuseEditor
+                config={config}
+                onChange={patch => setConfig(prev => ({ ...prev, ...patch }))}
+              />
+
               <div className="border-t border-white/5 pt-2 mt-2">
                 <div className="flex justify-between items-center mb-2">
                   <button
@@ -478,6 +720,174 @@ const App: React.FC = () => {
                 )}
               </div>
 
+              <div className="border-t border-white/5 pt-2 mt-2">
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-[9px] font-bold text-white/50 uppercase tracking-wider">Time Step</span>
+                  <button
+                    onClick={() => setConfig(prev => ({ ...prev, adaptiveTimestep: !prev.adaptiveTimestep }))}
+                    className={`text-[8px] px-2 py-0.5 rounded transition-colors uppercase ${config.adaptiveTimestep ? 'bg-cyan-500/30 text-cyan-300' : 'bg-white/10 hover:bg-white/20 text-white/60 hover:text-white'}`}
+                    title="Add substeps when the fluid speeds up (CFL condition); Substeps sets the minimum"
+                  >
+                    Adaptive
+                  </button>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-[8px] font-bold text-white/40">
+                      <span className="flex items-center gap-1">Substeps <Zap size={8} className="text-yellow-500" title="Affects performance" /></span>
+                      <span className="text-cyan-400">{config.substeps}</span>
+                    </div>
+                    <input
+                      type="range" min="1" max="8" step="1"
+                      value={config.substeps}
+                      onChange={e => setConfig(prev => ({ ...prev, substeps: parseFloat(e.target.value) }))}
+                      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-cyan-500"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-[8px] font-bold text-white/40">
+                      <span>Iters</span>
+                      <span className="text-cyan-400">{config.solverIterations}</span>
+                    </div>
+                    <input
+                      type="range" min="1" max="10" step="1"
+                      value={config.solverIterations}
+                      onChange={e => setConfig(prev => ({ ...prev, solverIterations: parseFloat(e.target.value) }))}
+                      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-cyan-500"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-[8px] font-bold text-white/40">
+                      <span>Speed</span>
+                      <span className="text-cyan-400">{config.timeScale.toFixed(2)}</span>
+                    </div>
+                    <input
+                      type="range" min="0" max="2" step="0.05"
+                      value={config.timeScale}
+                      onChange={e => setConfig(prev => ({ ...prev, timeScale: parseFloat(e.target.value) }))}
+                      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-cyan-500"
+                    />
+                  </div>
+                  {config.adaptiveTimestep && (
+                    <div className="space-y-1" title="Kernel radii the fastest particle may cross per step (lower = more substeps)">
+                      <div className="flex justify-between text-[8px] font-bold text-white/40">
+                        <span>CFL</span>
+                        <span className="text-cyan-400">{config.cflNumber.toFixed(2)}</span>
+                      </div>
+                      <input
+                        type="range" min="0.1" max="1" step="0.05"
+                        value={config.cflNumber}
+                        onChange={e => setConfig(prev => ({ ...prev, cflNumber: parseFloat(e.target.value) }))}
+                        className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-cyan-500"
+                      />
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <BrushEditor
+                config={config}
+                onChange={patch => setConfig(prev => ({ ...prev, ...patch }))}
+              />
+
+              <ContainerEditor
+                container={config.container}
+                onChange={container => setConfig(prev => ({ ...prev, container }))}
+                surface={{ restitution: config.wallRestitution, staticFriction: config.wallStaticFriction, kineticFriction: config.wallKineticFriction }}
+                onSurfaceChange={surface => setConfig(prev => ({
+                  ...prev,
+                  wallRestitution: surface.restitution,
+                  wallStaticFriction: surface.staticFriction,
+                  wallKineticFriction: surface.kineticFriction
+                }))}
+              />
+
+              <MotionEditor
+                config={config}
+                onChange={patch => setConfig(prev => ({ ...prev, ...patch }))}
+              />
+
+              <ObstacleEditor
+                obstacles={config.obstacles}
+                boundarySize={config.boundarySize}
+                onChange={obstacles => setConfig(prev => ({ ...prev, obstacles }))}
+              />
+
+              <EmitterEditor
+                config={config}
+                onChange={patch => setConfig(prev => ({ ...prev, ...patch }))}
+              />
+
+              <ForceFieldEditor
+                config={config}
+                onChange={patch => setConfig(prev => ({ ...prev, ...patch }))}
+              />
+
+              <PhaseEditor
+                phases={config.phases}
+                interfaceTension={config.interfaceTension}
+                injectPhase={config.injectPhase}
+                onChange={patch => setConfig(prev => ({ ...prev, ...patch }))}
+              />
+
+              <ThermalEditor
+                config={config}
+                onChange={patch => setConfig(prev => ({ ...prev, ...patch }))}
+              />
+
+              <RheologyEditor
+                config={config}
+                onChange={patch => setConfig(prev => ({ ...prev, ...patch }))}
+              />
+
+              <div className="border-t border-white/5 pt-2 mt-2">
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-[9px] font-bold text-white/50 uppercase tracking-wider">Rigid Bodies</span>
+                  <div className="flex items-center gap-1">
+                    <span className="text-[8px] text-white/30 mr-1">{bodyCount}/{MAX_BODIES}</span>
+                    {(['box', 'sphere'] as RigidBodyShape[]).map(shape => (
+                      <button
+                        key={shape}
+                        onClick={() => handleDrop(shape)}
+                        disabled={bodyCount >= MAX_BODIES}
+                        className="text-[8px] px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 text-white/60 hover:text-white transition-colors uppercase disabled:opacity-30"
+                        title="Drop a floating body into the container"
+                      >
+                        + {shape === 'box' ? 'Box' : 'Ball'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-[8px] font-bold text-white/40">
+                      <span>Density</span>
+                      <span className="text-cyan-400">{config.rigidBodyDensity.toFixed(2)}</span>
+                    </div>
+                    <input
+                      type="range" min="0.2" max="3" step="0.05"
+                      value={config.rigidBodyDensity}
+                      onChange={e => setConfig(prev => ({ ...prev, rigidBodyDensity: parseFloat(e.target.value) }))}
+                      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-cyan-500"
+                      title="Relative to the fluid: below 1 floats, above 1 sinks (applies to new bodies)"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-[8px] font-bold text-white/40">
+                      <span>Size</span>
+                      <span className="text-cyan-400">{config.rigidBodySize.toFixed(2)}</span>
+                    </div>
+                    <input
+                      type="range" min="0.3" max="2" step="0.05"
+                      value={config.rigidBodySize}
+                      onChange={e => setConfig(prev => ({ ...prev, rigidBodySize: parseFloat(e.target.value) }))}
+                      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-cyan-500"
+                      title="Half extent / radius of new bodies"
+                    />
+                  </div>
+                </div>
+              </div>
+
               <div className="border-t border-white/5 pt-2 mt-2">
                 <div className="flex justify-between items-center mb-2">
                   <span className="text-[9px] font-bold text-white/50 uppercase tracking-wider">Spin Speed</span>
@@ -0,0 +1,68 @@
+import React from 'react';
+import { BrushMode, FluidConfig } from '../types';
+
+interface Props {
+  config: FluidConfig;
+  onChange: (patch: Partial<FluidConfig>) => void;
+}
+
+const MODES: { mode: BrushMode; title: string }[] = [
+  { mode: 'push', title: 'Push the fluid away from the cursor' },
+  { mode: 'pull', title: 'Pull the fluid towards the cursor' },
+  { mode: 'vortex', title: 'Swirl the fluid around the view direction' },
+  { mode: 'spoon', title: 'Drag the fluid along with the cursor' }
+];
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; step: number; onChange: (v: number) => void; title?: string }> = ({ label, value, min, max, step, onChange, title }) => (
+  <div className="space-y-1" title={title}>
+    <div className="flex justify-between text-[8px] font-bold text-white/40">
+      <span>{label}</span>
+      <span className="text-pink-400">{value.toFixed(2)}</span>
+    </div>
+    <input
+      type="range" min={min} max={max} step={step}
+      value={value}
+      onChange={e => onChange(parseFloat(e.target.value))}
+      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-pink-500"
+    />
+  </div>
+);
+
+const BrushEditor: React.FC<Props> = ({ config, onChange }) => {
+  const brushing = config.interaction === 'brush';
+
+  return (
+    <div className="border-t border-white/5 pt-2 mt-2">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-[9px] font-bold text-white/50 uppercase tracking-wider">Brush</span>
+        <button
+          onClick={() => onChange({ interaction: brushing ? 'rotate' : 'brush' })}
+          className={`text-[8px] px-2 py-0.5 rounded transition-colors uppercase ${brushing ? 'bg-pink-500/30 text-pink-300' : 'bg-white/10 hover:bg-white/20 text-white/60 hover:text-white'}`}
+          title="What dragging in the view does; hold Shift to rotate (or brush while rotating is the default)"
+        >
+          {`Drag: ${config.interaction}`}
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {MODES.map(({ mode, title }) => (
+          <button
+            key={mode}
+            onClick={() => onChange({ brushMode: mode })}
+            className={`text-[8px] px-2 py-0.5 rounded transition-colors uppercase ${config.brushMode === mode ? 'bg-pink-500/30 text-pink-300' : 'bg-white/10 hover:bg-white/20 text-white/60 hover:text-white'}`}
+            title={title}
+          >
+            {mode}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <Slider label="Radius" value={config.brushRadius} min={0.5} max={4} step={0.1}
+          onChange={brushRadius => onChange({ brushRadius })} />
+        <Slider label="Strength" value={config.brushStrength} min={0} max={1} step={0.05}
+          onChange={brushStrength => onChange({ brushStrength })} />
+      </div>
+    </div>
+  );
+};
+
+export default BrushEditor;
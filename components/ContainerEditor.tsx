@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { ContainerConfig, ContainerFace, ContainerShape, WallSurface } from '../types';
+import { CONTAINER_FACES } from '../services/container';
+import { compileSdf, DEFAULT_CONTAINER_SDF } from '../services/sdfExpression';
+
+interface Props {
+  container: ContainerConfig;
+  onChange: (container: ContainerConfig) => void;
+  surface: WallSurface;  // Restitution and friction of the faces without an override
+  onSurfaceChange: (surface: WallSurface) => void;
+}
+
+const SHAPES: ContainerShape[] = ['box', 'cylinder', 'sphere', 'capsule', 'bowl', 'custom'];
+
+// Labels of the extents each shape uses (see ContainerConfig.extents)
+const EXTENT_LABELS: Record<ContainerShape, string[]> = {
+  box: ['Width', 'Height', 'Depth'],
+  cylinder: ['Radius', 'Height'],
+  sphere: ['Radius'],
+  capsule: ['Radius', 'Height'],
+  bowl: ['Radius'],
+  custom: []
+};
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; step: number; onChange: (v: number) => void; title?: string }> = ({ label, value, min, max, step, onChange, title }) => (
+  <div className="space-y-1" title={title}>
+    <div className="flex justify-between text-[8px] font-bold text-white/40">
+      <span>{label}</span>
+      <span className="text-teal-400">{value.toFixed(2)}</span>
+    </div>
+    <input
+      type="range" min={min} max={max} step={step}
+      value={value}
+      onChange={e => onChange(parseFloat(e.target.value))}
+      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-teal-500"
+    />
+  </div>
+);
+
+const ContainerEditor: React.FC<Props> = ({ container, onChange, surface, onSurfaceChange }) => {
+  // The expression being typed; only valid expressions reach the config
+  const [draft, setDraft] = useState(container.sdf);
+  const [error, setError] = useState<string | null>(null);
+  // Face whose wall surface is being edited (null = every face without an override)
+  const [face, setFace] = useState<ContainerFace | null>(null);
+  const faces = container.faces ?? {};
+  const override = face ? faces[face] : undefined;
+  const shown = override ?? surface;
+
+  const editSdf = (source: string) => {
+    setDraft(source);
+    try {
+      compileSdf(source);
+      setError(null);
+      onChange({ ...container, sdf: source });
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const setSurface = (key: keyof WallSurface, value: number) => {
+    const next = { ...shown, [key]: value };
+    if (face && override) onChange({ ...container, faces: { ...faces, [face]: next } });
+    else onSurfaceChange(next);
+  };
+
+  // Start a face override from the shared values, or drop it
+  const toggleOverride = () => {
+    if (!face) return;
+    const next = { ...faces };
+    if (override) delete next[face];
+    else next[face] = { ...surface };
+    onChange({ ...container, faces: next });
+  };
+
+  const setExtent = (axis: number, value: number) => {
+    const extents = [...container.extents] as [number, number, number];
+    extents[axis] = value;
+    onChange({ ...container, extents });
+  };
+
+  return (
+    <div className="border-t border-white/5 pt-2 mt-2">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-[9px] font-bold text-white/50 uppercase tracking-wider">Container</span>
+      </div>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {SHAPES.map(shape => (
+          <button
+            key={shape}
+            onClick={() => onChange({ ...container, shape })}
+            className={`text-[8px] px-2 py-0.5 rounded transition-colors uppercase ${container.shape === shape ? 'bg-teal-500/30 text-teal-300' : 'bg-white/10 hover:bg-white/20 text-white/60 hover:text-white'}`}
+          >
+            {shape}
+          </button>
+        ))}
+      </div>
+
+      {EXTENT_LABELS[container.shape].length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {EXTENT_LABELS[container.shape].map((label, axis) => (
+            <Slider key={label} label={label} value={container.extents[axis]} min={0.2} max={1} step={0.05}
+              title="Fraction of the boundary cube"
+              onChange={v => setExtent(axis, v)} />
+          ))}
+        </div>
+      )}
+
+      {container.shape === 'custom' && (
+        <div className="space-y-1">
+          <div className="flex justify-between items-center text-[8px] font-bold text-white/40">
+            <span title="Signed distance (negative inside) in x, y, z and s = half the cube size">SDF</span>
+            <button
+              onClick={() => editSdf(DEFAULT_CONTAINER_SDF)}
+              className="text-white/40 hover:text-white transition-colors uppercase"
+              title="Restore the hourglass example"
+            >
+              Example
+            </button>
+          </div>
+          <textarea
+            value={draft}
+            onChange={e => editSdf(e.target.value)}
+            rows={3}
+            spellCheck={false}
+            className={`w-full bg-black/30 rounded p-1.5 text-[9px] font-mono text-white/80 resize-none outline-none border ${error ? 'border-red-500/50' : 'border-white/10 focus:border-teal-500/50'}`}
+          />
+          {error && <div className="text-[8px] text-red-400">{error}</div>}
+          <div className="text-[8px] text-white/30">
+            + - * / abs sqrt sin cos exp floor pow min max clamp mix length
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-between items-center mt-2 mb-1">
+        <span className="text-[8px] font-bold text-white/40 uppercase tracking-wider">Walls</span>
+        {face && (
+          <button
+            onClick={toggleOverride}
+            className="text-[8px] text-white/40 hover:text-white transition-colors uppercase"
+            title={override ? 'Use the shared wall values on this face' : 'Give this face its own restitution and friction'}
+          >
+            {override ? 'Reset' : 'Override'}
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {[null, ...CONTAINER_FACES].map(f => (
+          <button
+            key={f ?? 'all'}
+            onClick={() => setFace(f)}
+            className={`text-[8px] px-2 py-0.5 rounded transition-colors uppercase ${face === f ? 'bg-teal-500/30 text-teal-300' : 'bg-white/10 hover:bg-white/20 text-white/60 hover:text-white'}`}
+            title={f ? 'Walls whose outward normal points this way' : 'Faces without an override'}
+          >
+            {f ?? 'all'}{f && faces[f] ? ' •' : ''}
+          </button>
+        ))}
+      </div>
+      <div className={`grid grid-cols-3 gap-2 ${face && !override ? 'opacity-40 pointer-events-none' : ''}`}>
+        <Slider label="Bounce" value={shown.restitution} min={0} max={1} step={0.05}
+          title="Restitution: share of the outward velocity bounced back"
+          onChange={v => setSurface('restitution', v)} />
+        <Slider label="Static" value={shown.staticFriction} min={0} max={2} step={0.05}
+          title="Static friction: particles stick below this tangential / normal speed ratio"
+          onChange={v => setSurface('staticFriction', v)} />
+        <Slider label="Kinetic" value={shown.kineticFriction} min={0} max={2} step={0.05}
+          title="Kinetic friction: sliding friction (at most static)"
+          onChange={v => setSurface('kineticFriction', v)} />
+      </div>
+    </div>
+  );
+};
+
+export default ContainerEditor;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Power } from 'lucide-react';
+import { FluidConfig } from '../types';
+
+interface Props {
+  config: FluidConfig;
+  onChange: (patch: Partial<FluidConfig>) => void;
+}
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; step: number; onChange: (v: number) => void; title?: string }> = ({ label, value, min, max, step, onChange, title }) => (
+  <div className="space-y-1" title={title}>
+    <div className="flex justify-between text-[8px] font-bold text-white/40">
+      <span>{label}</span>
+      <span className="text-slate-300">{value.toFixed(1)}</span>
+    </div>
+    <input
+      type="range" min={min} max={max} step={step}
+      value={value}
+      onChange={e => onChange(parseFloat(e.target.value))}
+      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-slate-300"
+    />
+  </div>
+);
+
+const DiffuseEditor: React.FC<Props> = ({ config, onChange }) => {
+  const enabled = config.diffuseParticles;
+  const unavailable = config.material === 'granular' ? 'Sand has no whitewater' :
+    config.renderMode !== 'surface' ? 'Shown in liquid mode' : null;
+
+  return (
+    <div className="border-t border-white/5 pt-2 mt-2">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-[9px] font-bold text-white/50 uppercase tracking-wider">Whitewater</span>
+        <div className="flex items-center gap-2">
+          {enabled && unavailable && <span className="text-[8px] text-white/30">{unavailable}</span>}
+          <button
+            onClick={() => onChange({ diffuseParticles: !enabled })}
+            className={`transition-colors ${enabled ? 'text-slate-300 hover:text-white' : 'text-white/40 hover:text-white/70'}`}
+            title={enabled ? 'Switch spray, foam and bubbles off' : 'Switch spray, foam and bubbles on'}
+          >
+            <Power size={11} />
+          </button>
+        </div>
+      </div>
+      <div className={`grid grid-cols-2 gap-2 ${enabled ? '' : 'opacity-60'}`}>
+        <Slider label="Emission" value={config.diffuseEmission ?? 4} min={0} max={20} step={0.5}
+          title="Particles per second a fluid particle sheds where it traps air or breaks into a crest"
+          onChange={diffuseEmission => onChange({ diffuseEmission })} />
+        <Slider label="Lifetime s" value={config.diffuseLifetime ?? 3} min={0.5} max={10} step={0.5}
+          title="Seconds foam floats before it dissolves"
+          onChange={diffuseLifetime => onChange({ diffuseLifetime })} />
+      </div>
+    </div>
+  );
+};
+
+export default DiffuseEditor;
@@ -0,0 +1,218 @@
+import React from 'react';
+import { Power, Trash2 } from 'lucide-react';
+import { Drain, Emitter, EmitterShape, FluidConfig } from '../types';
+import { MAX_DRAINS, MAX_EMITTERS } from '../services/emitters';
+
+interface Props {
+  config: FluidConfig;
+  onChange: (patch: Partial<FluidConfig>) => void;
+}
+
+const SHAPES: EmitterShape[] = ['point', 'disc', 'box'];
+
+// Default size per shape (see Emitter.size)
+const DEFAULT_SIZE: Record<EmitterShape, [number, number, number]> = {
+  point: [0, 0, 0],
+  disc: [0.6, 0, 0],
+  box: [0.5, 0.5, 0.5]
+};
+
+// Labels of the size components each shape uses
+const SIZE_LABELS: Record<EmitterShape, string[]> = {
+  point: [],
+  disc: ['Radius'],
+  box: ['Half X', 'Half Y', 'Half Z']
+};
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; step: number; onChange: (v: number) => void; title?: string }> = ({ label, value, min, max, step, onChange, title }) => (
+  <div className="space-y-1" title={title}>
+    <div className="flex justify-between text-[8px] font-bold text-white/40">
+      <span>{label}</span>
+      <span className="text-sky-400">{value.toFixed(step < 1 ? 2 : 0)}</span>
+    </div>
+    <input
+      type="range" min={min} max={max} step={step}
+      value={value}
+      onChange={e => onChange(parseFloat(e.target.value))}
+      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-sky-500"
+    />
+  </div>
+);
+
+const setComponent = (values: [number, number, number], axis: number, value: number): [number, number, number] => {
+  const next: [number, number, number] = [...values];
+  next[axis] = value;
+  return next;
+};
+
+const nextId = (items: { id: number }[]) => items.reduce((max, item) => Math.max(max, item.id), 0) + 1;
+
+const EmitterEditor: React.FC<Props> = ({ config, onChange }) => {
+  const half = config.boundarySize / 2;
+  const emitters = config.emitters ?? [];
+  const drains = config.drains ?? [];
+  const phaseNames = ['Water', ...(config.phases ?? []).map(p => p.name)];
+
+  const addEmitter = (shape: EmitterShape) => {
+    onChange({
+      emitters: [...emitters, {
+        id: nextId(emitters),
+        shape,
+        position: [0, half * 0.6, 0],
+        direction: [0, -1, 0],
+        size: [...DEFAULT_SIZE[shape]],
+        speed: 3,
+        rate: 300,
+        phase: config.injectPhase ?? 0,
+        temperature: config.injectTemperature ?? 0.5,
+        enabled: true
+      }]
+    });
+  };
+
+  const updateEmitter = (id: number, patch: Partial<Emitter>) => {
+    onChange({ emitters: emitters.map(e => e.id === id ? { ...e, ...patch } : e) });
+  };
+
+  const addDrain = () => {
+    onChange({ drains: [...drains, { id: nextId(drains), position: [0, -half + 0.5, 0], size: [1, 0.5, 1] }] });
+  };
+
+  const updateDrain = (id: number, patch: Partial<Drain>) => {
+    onChange({ drains: drains.map(d => d.id === id ? { ...d, ...patch } : d) });
+  };
+
+  return (
+    <div className="border-t border-white/5 pt-2 mt-2">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-[9px] font-bold text-white/50 uppercase tracking-wider">Emitters</span>
+        <span className="text-[8px] text-white/30">{emitters.length}/{MAX_EMITTERS}</span>
+      </div>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {SHAPES.map(shape => (
+          <button
+            key={shape}
+            onClick={() => addEmitter(shape)}
+            disabled={emitters.length >= MAX_EMITTERS}
+            className="text-[8px] px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 text-white/60 hover:text-white transition-colors uppercase disabled:opacity-30"
+          >
+            + {shape}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-3 mb-3">
+        {emitters.map(e => (
+          <div key={e.id} className={`bg-white/5 rounded-lg p-2 space-y-2 ${e.enabled ? '' : 'opacity-60'}`}>
+            <div className="flex justify-between items-center">
+              <span className="text-[9px] font-bold text-sky-400 uppercase tracking-wider">{e.shape} #{e.id}</span>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => updateEmitter(e.id, { enabled: !e.enabled })}
+                  className={`transition-colors ${e.enabled ? 'text-sky-400 hover:text-sky-300' : 'text-white/40 hover:text-white/70'}`}
+                  title={e.enabled ? 'Pause emitter' : 'Resume emitter'}
+                >
+                  <Power size={11} />
+                </button>
+                <button
+                  onClick={() => onChange({ emitters: emitters.filter(other => other.id !== e.id) })}
+                  className="text-red-400/70 hover:text-red-400 transition-colors"
+                  title="Remove emitter"
+                >
+                  <Trash2 size={11} />
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {['X', 'Y', 'Z'].map((label, axis) => (
+                <Slider key={label} label={label} value={e.position[axis]} min={-half} max={half} step={0.1}
+                  onChange={v => updateEmitter(e.id, { position: setComponent(e.position, axis, v) })} />
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {['Dir X', 'Dir Y', 'Dir Z'].map((label, axis) => (
+                <Slider key={label} label={label} value={e.direction[axis]} min={-1} max={1} step={0.05}
+                  onChange={v => updateEmitter(e.id, { direction: setComponent(e.direction, axis, v) })} />
+              ))}
+            </div>
+            {SIZE_LABELS[e.shape].length > 0 && (
+              <div className="grid grid-cols-3 gap-2">
+                {SIZE_LABELS[e.shape].map((label, axis) => (
+                  <Slider key={label} label={label} value={e.size[axis]} min={0.1} max={half} step={0.05}
+                    onChange={v => updateEmitter(e.id, { size: setComponent(e.size, axis, v) })} />
+                ))}
+              </div>
+            )}
+            <div className="grid grid-cols-3 gap-2">
+              <Slider label="Speed" value={e.speed} min={0} max={15} step={0.1}
+                onChange={v => updateEmitter(e.id, { speed: v })} />
+              <Slider label="Rate /s" value={e.rate} min={0} max={2000} step={10}
+                onChange={v => updateEmitter(e.id, { rate: v })} />
+              <Slider label="Temp" value={e.temperature} min={0} max={1} step={0.05}
+                onChange={v => updateEmitter(e.id, { temperature: v })} />
+            </div>
+            {phaseNames.length > 1 && (
+              <div className="flex flex-wrap gap-1">
+                {phaseNames.map((name, k) => (
+                  <button
+                    key={k}
+                    onClick={() => updateEmitter(e.id, { phase: k })}
+                    className={`text-[8px] px-2 py-0.5 rounded transition-colors uppercase ${e.phase === k ? 'bg-sky-500/30 text-sky-300' : 'bg-white/10 hover:bg-white/20 text-white/60 hover:text-white'}`}
+                  >
+                    {name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-[9px] font-bold text-white/50 uppercase tracking-wider">Drains</span>
+        <div className="flex items-center gap-2">
+          <span className="text-[8px] text-white/30">{drains.length}/{MAX_DRAINS}</span>
+          <button
+            onClick={addDrain}
+            disabled={drains.length >= MAX_DRAINS}
+            className="text-[8px] px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 text-white/60 hover:text-white transition-colors uppercase disabled:opacity-30"
+            title="Box that removes the fluid entering it"
+          >
+            + Drain
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {drains.map(d => (
+          <div key={d.id} className="bg-white/5 rounded-lg p-2 space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="text-[9px] font-bold text-rose-400 uppercase tracking-wider">Drain #{d.id}</span>
+              <button
+                onClick={() => onChange({ drains: drains.filter(other => other.id !== d.id) })}
+                className="text-red-400/70 hover:text-red-400 transition-colors"
+                title="Remove drain"
+              >
+                <Trash2 size={11} />
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {['X', 'Y', 'Z'].map((label, axis) => (
+                <Slider key={label} label={label} value={d.position[axis]} min={-half} max={half} step={0.1}
+                  onChange={v => updateDrain(d.id, { position: setComponent(d.position, axis, v) })} />
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {['Half X', 'Half Y', 'Half Z'].map((label, axis) => (
+                <Slider key={label} label={label} value={d.size[axis]} min={0.1} max={half} step={0.05}
+                  onChange={v => updateDrain(d.id, { size: setComponent(d.size, axis, v) })} />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default EmitterEditor;
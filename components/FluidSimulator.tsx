@@ -2,8 +2,22 @@
 import React, { useEffect, useRef } from 'react';
 import * as THREE from 'three';
 import { EXRLoader } from 'three/examples/jsm/loaders/EXRLoader.js';
-import { GPUFluidEngine } from '../services/GPUFluidEngine';
-import { FluidConfig } from '../types';
+import { createBackend, SimulationBackend } from '../services/SimulationBackend';
+import { SimulationClock } from '../services/SimulationClock';
+import { syncObstacleMeshes } from './obstacleMeshes';
+import { syncEmitterMeshes } from './emitterMeshes';
+import { poseForceFieldMeshes, syncForceFieldMeshes } from './forceFieldMeshes';
+import { syncContainerMesh } from './containerMeshes';
+import { syncBodyMeshes } from './bodyMeshes';
+import { boundarySpacing } from '../services/rigidBodies';
+import { brushCenter, BrushStroke } from '../services/brush';
+import { ContainerMotion } from '../services/containerMotion';
+import { cflSubsteps } from '../services/timeStep';
+import { DiffuseParticles } from '../services/DiffuseParticles';
+import { FlowStats, flowStats, ReadbackThrottle } from '../services/readback';
+import { createPackedContainer, packContainer } from '../services/container';
+import { createPackedPhases, PackedPhases, packPhases } from '../services/phases';
+import { ContainerConfig, Drain, Emitter, FluidConfig, ForceField, Obstacle, RigidBodyShape } from '../types';
 import {
   depthVertexShaderGPU,
   createDepthFragmentShader,
@@ -13,6 +27,8 @@ import {
   createThicknessFragmentShader,
   dotVertexShaderGPU,
   dotFragmentShaderGPU,
+  sandVertexShaderGPU,
+  sandFragmentShaderGPU,
   finalVertexShader,
   createFinalFragmentShader,
   FinalShaderParams
@@ -21,24 +37,37 @@ import {
 interface Props {
   config: FluidConfig;
   onStatsUpdate: (count: number) => void;
+  onTimeStepUpdate: (dt: number, substeps: number) => void;  // Called when the step changes
+  onFlowStatsUpdate: (stats: FlowStats) => void;  // Every few frames, from a throttled particle readback
   triggerInject: number;
+  triggerDrop: { shape: RigidBodyShape; serial: number } | null;
+  onBodyCountUpdate: (count: number) => void;
   resetRotation: number;
 }
 
-const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, triggerInject, resetRotation }) => {
+const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, onTimeStepUpdate, onFlowStatsUpdate, triggerInject, triggerDrop, onBodyCountUpdate, resetRotation }) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const engineRef = useRef<GPUFluidEngine | null>(null);
+  const engineRef = useRef<SimulationBackend | null>(null);
   const configRef = useRef<FluidConfig>(config);
 
-  // Mouse drag state with inertia
+  // Pointer drag state: scene rotation with inertia, the brush or shaking the
+  // container (config.interaction decides which; Shift rotates instead, or
+  // brushes when rotating is the default)
   const dragState = useRef({
     isDown: false,
+    brushing: false,
+    shaking: false,
+    startX: 0,
+    startY: 0,
     lastX: 0,
     lastY: 0,
     velocityX: 0,
     velocityY: 0
   });
 
+  // Container translation (drag-shaking, shaker table) and the pseudo-forces of its motion
+  const motionRef = useRef(new ContainerMotion());
+
   const resourcesRef = useRef<{
     renderer: THREE.WebGLRenderer;
     scene: THREE.Scene;
@@ -51,8 +80,19 @@ const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, triggerInject,
     particlesDepth: THREE.Points;
     particlesThickness: THREE.Points;
     particlesDots: THREE.Points;
-    container: THREE.Mesh;
-    helper: THREE.BoxHelper;
+    particlesSand: THREE.Points;
+    container: THREE.Group;
+    helper: THREE.Group;
+    obstacleGroup: THREE.Group;
+    emitterGroup: THREE.Group;
+    forceFieldGroup: THREE.Group;
+    bodyGroup: THREE.Group;
+    brushMesh: THREE.Mesh;
+    currentContainer: ContainerConfig | null;
+    currentObstacles: Obstacle[] | null;
+    currentEmitters: Emitter[] | null;
+    currentDrains: Drain[] | null;
+    currentForceFields: ForceField[] | null;
     quadCamera: THREE.OrthographicCamera;
     quadScene: THREE.Scene;
     quadMesh: THREE.Mesh;
@@ -61,7 +101,10 @@ const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, triggerInject,
     depthMaterial: THREE.ShaderMaterial;
     thicknessMaterial: THREE.ShaderMaterial;
     dotMaterial: THREE.ShaderMaterial;
+    sandMaterial: THREE.ShaderMaterial;
     particleGeometry: THREE.BufferGeometry;
+    diffuse: DiffuseParticles;
+    phases: PackedPhases;
     envTexture: THREE.Texture | null;
     currentRenderScale: number;
     currentBlurRadius: number;
@@ -120,10 +163,13 @@ const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, triggerInject,
     camera.position.set(0, 0, 22);
     camera.lookAt(0, 0, 0);
 
-    const engine = new GPUFluidEngine(configRef.current, renderer);
+    const engine = createBackend(configRef.current.backend, configRef.current, renderer);
     engineRef.current = engine;
     engine.addParticles(300, [0, 3, 0]);
 
+    // Spray, foam and bubbles over the liquid, fed from the engine's textures
+    const diffuse = new DiffuseParticles(renderer);
+
     const renderScale = configRef.current.renderScale;
     const rtWidth = Math.floor(width * renderScale);
     const rtHeight = Math.floor(height * renderScale);
@@ -134,45 +180,36 @@ const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, triggerInject,
     const thicknessRT = new THREE.WebGLRenderTarget(rtWidth, rtHeight, rtOptions);
     const refractionRT = new THREE.WebGLRenderTarget(rtWidth, rtHeight, rtOptions);
 
-    // Create elegant glass container with mesh faces
-    const boundSize = configRef.current.boundarySize;
+    // Glass container, rebuilt whenever config.container changes
     const containerGroup = new THREE.Group();
-
-    // Glass material for container faces - use BackSide (front face culling) for proper glass effect
-    const glassMaterial = new THREE.MeshPhysicalMaterial({
-      color: 0xaaddff,
-      transparent: true,
-      opacity: 0.12,
-      roughness: 0.05,
-      metalness: 0,
-      side: THREE.BackSide, // Front face culling - only render back faces
-      envMapIntensity: 0.3,
-      depthWrite: false
-    });
-
-    // Create 6 faces as separate planes for better glass effect
-    const faceGeo = new THREE.PlaneGeometry(1, 1);
-    const faces = [
-      { pos: [0, 0, 0.5], rot: [0, 0, 0] },       // front
-      { pos: [0, 0, -0.5], rot: [0, Math.PI, 0] }, // back
-      { pos: [0.5, 0, 0], rot: [0, Math.PI/2, 0] }, // right
-      { pos: [-0.5, 0, 0], rot: [0, -Math.PI/2, 0] }, // left
-      { pos: [0, 0.5, 0], rot: [-Math.PI/2, 0, 0] }, // top
-      { pos: [0, -0.5, 0], rot: [Math.PI/2, 0, 0] }  // bottom
-    ];
-
-    faces.forEach(f => {
-      const face = new THREE.Mesh(faceGeo, glassMaterial);
-      face.position.set(f.pos[0] * boundSize, f.pos[1] * boundSize, f.pos[2] * boundSize);
-      face.rotation.set(f.rot[0], f.rot[1], f.rot[2]);
-      face.scale.setScalar(boundSize);
-      containerGroup.add(face);
-    });
-
     scene.add(containerGroup);
     const container = containerGroup;
     const helper = containerGroup; // Keep reference for compatibility
 
+    // Static obstacles, rebuilt whenever config.obstacles changes
+    const obstacleGroup = new THREE.Group();
+    scene.add(obstacleGroup);
+
+    // Emitter and drain gizmos, rebuilt whenever config.emitters / drains change
+    const emitterGroup = new THREE.Group();
+    scene.add(emitterGroup);
+
+    // Force field gizmos, rebuilt whenever config.forceFields changes and posed every frame
+    const forceFieldGroup = new THREE.Group();
+    scene.add(forceFieldGroup);
+
+    // Rigid bodies, moved to the simulated poses every frame
+    const bodyGroup = new THREE.Group();
+    scene.add(bodyGroup);
+
+    // Reach of the brush around the cursor point while brushing
+    const brushMesh = new THREE.Mesh(
+      new THREE.SphereGeometry(1, 24, 16),
+      new THREE.MeshBasicMaterial({ color: 0x5eead4, wireframe: true, transparent: true, opacity: 0.25, depthWrite: false })
+    );
+    brushMesh.visible = false;
+    scene.add(brushMesh);
+
     scene.add(new THREE.AmbientLight(0xffffff, 0.5));
     const dLight = new THREE.DirectionalLight(0xffffff, 0.8);
     dLight.position.set(10, 20, 20);
@@ -232,6 +269,8 @@ const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, triggerInject,
         uScale: { value: renderScale },
         uRadius: { value: visualRadius },
         tPosition: { value: null },
+        tPrevPosition: { value: null },
+        uAlpha: { value: 1.0 },
         uParticleRes: { value: particleRes },
         uParticleCount: { value: 0 }
       },
@@ -247,15 +286,25 @@ const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, triggerInject,
       fragmentShader: createBlurFragmentShader(blurRadius, blurDepthFalloff)
     });
 
+    // Phase colors for the thickness tint and the dots, repacked every frame
+    const phases = packPhases(configRef.current, createPackedPhases());
+
+    // Every channel is summed: R = thickness, GBA = tint-weighted thickness
     const thicknessMaterial = new THREE.ShaderMaterial({
       uniforms: {
         uScale: { value: renderScale },
         uRadius: { value: visualRadius },
         tPosition: { value: null },
+        tPrevPosition: { value: null },
+        uAlpha: { value: 1.0 },
         uParticleRes: { value: particleRes },
-        uParticleCount: { value: 0 }
+        uParticleCount: { value: 0 },
+        tPhase: { value: null },
+        uPhaseColor: { value: phases.colors },
+        tTemperature: { value: null },
+        uShowTemperature: { value: false }
       },
-      transparent: true, blending: THREE.AdditiveBlending, depthWrite: false,
+      transparent: true, blending: THREE.CustomBlending, blendSrc: THREE.OneFactor, blendDst: THREE.OneFactor, depthWrite: false,
       vertexShader: thicknessVertexShaderGPU,
       fragmentShader: createThicknessFragmentShader(initialShaderParams.thicknessIntensity)
     });
@@ -287,8 +336,14 @@ const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, triggerInject,
         uColor: { value: new THREE.Vector3(0.376, 0.647, 0.980) }, // 0x60a5fa
         uOpacity: { value: 0.9 },
         tPosition: { value: null },
+        tPrevPosition: { value: null },
+        uAlpha: { value: 1.0 },
         uParticleRes: { value: particleRes },
-        uParticleCount: { value: 0 }
+        uParticleCount: { value: 0 },
+        tPhase: { value: null },
+        uPhaseColor: { value: phases.colors },
+        tTemperature: { value: null },
+        uShowTemperature: { value: false }
       },
       vertexShader: dotVertexShaderGPU,
       fragmentShader: dotFragmentShaderGPU,
@@ -297,10 +352,35 @@ const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, triggerInject,
     });
     const particlesDots = new THREE.Points(particleGeometry, dotMaterial);
 
+    // Opaque grain impostors for the granular material
+    const sandMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        uSize: { value: visualRadius * 5.0 },
+        uColor: { value: new THREE.Vector3(0.82, 0.67, 0.42) },
+        tPosition: { value: null },
+        tPrevPosition: { value: null },
+        uAlpha: { value: 1.0 },
+        uParticleRes: { value: particleRes },
+        uParticleCount: { value: 0 },
+        tPhase: { value: null },
+        uPhaseColor: { value: phases.colors },
+        tTemperature: { value: null },
+        uShowTemperature: { value: false }
+      },
+      vertexShader: sandVertexShaderGPU,
+      fragmentShader: sandFragmentShaderGPU
+    });
+    const particlesSand = new THREE.Points(particleGeometry, sandMaterial);
+
     resourcesRef.current = {
       renderer, scene, camera, depthRT, blurRT1, blurRT2, thicknessRT, refractionRT,
-      particlesDepth, particlesThickness, particlesDots, container, helper, quadCamera, quadScene, quadMesh, blurMaterial, finalMaterial, depthMaterial, thicknessMaterial, dotMaterial, particleGeometry,
+      particlesDepth, particlesThickness, particlesDots, particlesSand, container, helper, obstacleGroup, emitterGroup, forceFieldGroup, bodyGroup, brushMesh, quadCamera, quadScene, quadMesh, blurMaterial, finalMaterial, depthMaterial, thicknessMaterial, dotMaterial, sandMaterial, particleGeometry, diffuse, phases,
       envTexture: null,
+      currentContainer: null,
+      currentObstacles: null,
+      currentEmitters: null,
+      currentDrains: null,
+      currentForceFields: null,
       currentRenderScale: renderScale,
       currentBlurRadius: blurRadius,
       currentBlurDepthFalloff: blurDepthFalloff,
@@ -309,38 +389,65 @@ const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, triggerInject,
       baseHeight: height
     };
 
-    // Mouse drag handlers with inertia
-    const onMouseDown = (e: MouseEvent) => {
+    // Pointer drag handlers (mouse and touch)
+    const onPointerDown = (e: PointerEvent) => {
       const target = e.target as HTMLElement;
-      if (target.closest('button, input, [data-ui-panel]') || !containerRef.current?.contains(target)) {
+      if (target.closest('button, input, textarea, [data-ui-panel]') || !containerRef.current?.contains(target)) {
         return;
       }
+      const interaction = configRef.current.interaction;
       dragState.current.isDown = true;
+      dragState.current.brushing = interaction === 'rotate' ? e.shiftKey : interaction === 'brush' && !e.shiftKey;
+      dragState.current.shaking = interaction === 'shake' && !e.shiftKey;
+      dragState.current.startX = e.clientX;
+      dragState.current.startY = e.clientY;
       dragState.current.lastX = e.clientX;
       dragState.current.lastY = e.clientY;
     };
 
-    const onMouseMove = (e: MouseEvent) => {
+    const onPointerMove = (e: PointerEvent) => {
       if (!dragState.current.isDown) return;
-      const dx = e.clientX - dragState.current.lastX;
-      const dy = e.clientY - dragState.current.lastY;
-      // Set velocity from drag movement
-      dragState.current.velocityX = dx * 0.005;
-      dragState.current.velocityY = dy * 0.005;
+      if (!dragState.current.brushing && !dragState.current.shaking) {
+        const dx = e.clientX - dragState.current.lastX;
+        const dy = e.clientY - dragState.current.lastY;
+        // Set velocity from drag movement
+        dragState.current.velocityX = dx * 0.005;
+        dragState.current.velocityY = dy * 0.005;
+      }
       dragState.current.lastX = e.clientX;
       dragState.current.lastY = e.clientY;
     };
 
-    const onMouseUp = () => {
+    const onPointerUp = () => {
       dragState.current.isDown = false;
+      dragState.current.brushing = false;
+      dragState.current.shaking = false;
     };
 
-    window.addEventListener('mousedown', onMouseDown);
-    window.addEventListener('mousemove', onMouseMove);
-    window.addEventListener('mouseup', onMouseUp);
+    window.addEventListener('pointerdown', onPointerDown);
+    window.addEventListener('pointermove', onPointerMove);
+    window.addEventListener('pointerup', onPointerUp);
+    window.addEventListener('pointercancel', onPointerUp);
+
+    // Brush ray casting: the container in container space (the scene's local frame)
+    const brushContainer = createPackedContainer();
+    const raycaster = new THREE.Raycaster();
+    const pointer = new THREE.Vector2();
+    const sceneInverse = new THREE.Quaternion();
+    let lastBrushCenter: [number, number, number] | null = null;
+    const brushVelocity = new THREE.Vector3();
+
+    // Drag-shake: the pointer offset on the plane through the container center
+    const shakeTarget = new THREE.Vector3();
+    const cameraRight = new THREE.Vector3();
+    const cameraUp = new THREE.Vector3();
 
     let animationId: number;
     let isRunning = true;
+    const clock = new SimulationClock();
+    let reportedSubsteps = 0;
+    let diffuseActive = false;
+    const readback = new ReadbackThrottle();
 
     const animate = () => {
       if (!isRunning) return;
@@ -350,14 +457,53 @@ const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, triggerInject,
           animationId = requestAnimationFrame(animate);
           return;
         }
-        const { renderer, scene, camera, depthRT, blurRT1, blurRT2, thicknessRT, refractionRT, particlesDepth, particlesThickness, particlesDots, container, helper, quadScene, quadCamera, quadMesh, blurMaterial, finalMaterial, depthMaterial, thicknessMaterial, particleGeometry } = resourcesRef.current;
+        const { renderer, scene, camera, depthRT, blurRT1, blurRT2, thicknessRT, refractionRT, particlesDepth, particlesThickness, particlesDots, particlesSand, container, helper, obstacleGroup, emitterGroup, forceFieldGroup, bodyGroup, brushMesh, quadScene, quadCamera, quadMesh, blurMaterial, finalMaterial, depthMaterial, thicknessMaterial, particleGeometry, diffuse } = resourcesRef.current;
         const cfg = configRef.current;
-        const dt = 0.016;
+
+        // Switch simulation backend live, carrying the particles over
+        if (cfg.backend !== engineRef.current.kind) {
+          const state = engineRef.current.exportState();
+          engineRef.current.dispose();
+          engineRef.current = createBackend(cfg.backend, cfg, renderer);
+          engineRef.current.importState(state);
+          readback.reset();
+        }
+
+        if (cfg.container !== resourcesRef.current.currentContainer) {
+          syncContainerMesh(container, cfg.container, cfg.boundarySize);
+          resourcesRef.current.currentContainer = cfg.container;
+        }
+
+        if (cfg.obstacles !== resourcesRef.current.currentObstacles) {
+          syncObstacleMeshes(obstacleGroup, cfg.obstacles ?? [], cfg.boundarySize);
+          resourcesRef.current.currentObstacles = cfg.obstacles;
+        }
+
+        if (cfg.emitters !== resourcesRef.current.currentEmitters || cfg.drains !== resourcesRef.current.currentDrains) {
+          syncEmitterMeshes(emitterGroup, cfg.emitters ?? [], cfg.drains ?? []);
+          resourcesRef.current.currentEmitters = cfg.emitters;
+          resourcesRef.current.currentDrains = cfg.drains;
+        }
+
+        if (cfg.forceFields !== resourcesRef.current.currentForceFields) {
+          syncForceFieldMeshes(forceFieldGroup, cfg.forceFields ?? []);
+          resourcesRef.current.currentForceFields = cfg.forceFields;
+        }
+
+        // Fixed simulation steps for the wall time since the last frame, as
+        // many per frame as the fastest particle needs (adaptive time step)
+        const substeps = cflSubsteps(cfg.adaptiveTimestep ? engineRef.current.maxSpeed() : 0, cfg.gravity, cfg);
+        const tick = clock.advance(performance.now(), substeps, cfg.timeScale);
+        if (substeps !== reportedSubsteps) {
+          reportedSubsteps = substeps;
+          onTimeStepUpdate(tick.dt, substeps);
+        }
+        const frameDt = tick.frameTime;
 
         // Apply continuous rotation from config speeds
-        scene.rotateOnWorldAxis(new THREE.Vector3(1, 0, 0), cfg.rotationX * dt);
-        scene.rotateOnWorldAxis(new THREE.Vector3(0, 1, 0), cfg.rotationY * dt);
-        scene.rotateOnWorldAxis(new THREE.Vector3(0, 0, 1), cfg.rotationZ * dt);
+        scene.rotateOnWorldAxis(new THREE.Vector3(1, 0, 0), cfg.rotationX * frameDt);
+        scene.rotateOnWorldAxis(new THREE.Vector3(0, 1, 0), cfg.rotationY * frameDt);
+        scene.rotateOnWorldAxis(new THREE.Vector3(0, 0, 1), cfg.rotationZ * frameDt);
 
         // Apply drag velocity with inertia
         if (!dragState.current.isDown) {
@@ -431,6 +577,8 @@ const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, triggerInject,
               uScale: { value: cfg.renderScale },
               uRadius: { value: cfg.particleRadius }, // particleRadius IS visual radius
               tPosition: { value: engineRef.current?.getPositionTexture() || null },
+              tPrevPosition: { value: engineRef.current?.getPreviousPositionTexture() || null },
+              uAlpha: { value: 1.0 },
               uParticleRes: { value: new THREE.Vector2(textureSize, textureSize) },
               uParticleCount: { value: engineRef.current?.particleCount || 0 }
             },
@@ -449,10 +597,16 @@ const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, triggerInject,
               uScale: { value: cfg.renderScale },
               uRadius: { value: cfg.particleRadius }, // particleRadius IS visual radius
               tPosition: { value: engineRef.current?.getPositionTexture() || null },
+              tPrevPosition: { value: engineRef.current?.getPreviousPositionTexture() || null },
+              uAlpha: { value: 1.0 },
               uParticleRes: { value: new THREE.Vector2(textureSize, textureSize) },
-              uParticleCount: { value: engineRef.current?.particleCount || 0 }
+              uParticleCount: { value: engineRef.current?.particleCount || 0 },
+              tPhase: { value: engineRef.current?.getPhaseTexture() || null },
+              uPhaseColor: { value: resourcesRef.current.phases.colors },
+              tTemperature: { value: engineRef.current?.getTemperatureTexture() || null },
+              uShowTemperature: { value: cfg.colorMode === 'temperature' }
             },
-            transparent: true, blending: THREE.AdditiveBlending, depthWrite: false,
+            transparent: true, blending: THREE.CustomBlending, blendSrc: THREE.OneFactor, blendDst: THREE.OneFactor, depthWrite: false,
             vertexShader: thicknessVertexShaderGPU,
             fragmentShader: createThicknessFragmentShader(newParams.thicknessIntensity)
           });
@@ -499,26 +653,106 @@ const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, triggerInject,
         resourcesRef.current.depthMaterial.uniforms.uRadius.value = cfg.particleRadius;
         resourcesRef.current.thicknessMaterial.uniforms.uRadius.value = cfg.particleRadius;
         resourcesRef.current.dotMaterial.uniforms.uSize.value = cfg.particleRadius * 5.0;
+        resourcesRef.current.sandMaterial.uniforms.uSize.value = cfg.particleRadius * 5.0;
 
         const grav = new THREE.Vector3(0, -cfg.gravity, 0).applyMatrix4(new THREE.Matrix4().makeRotationFromQuaternion(scene.quaternion).invert());
 
-        engineRef.current.step(dt, cfg, [grav.x, grav.y, grav.z]);
+        // Container motion: follow the drag-shake offset and the shaker table,
+        // and hand the resulting pseudo-forces to the engine for this frame's steps
+        const motion = motionRef.current;
+        if (dragState.current.shaking) {
+          const rect = renderer.domElement.getBoundingClientRect();
+          const perPixel = 2 * camera.position.length() * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2) / rect.height;
+          cameraRight.setFromMatrixColumn(camera.matrixWorld, 0);
+          cameraUp.setFromMatrixColumn(camera.matrixWorld, 1);
+          shakeTarget.set(0, 0, 0)
+            .addScaledVector(cameraRight, (dragState.current.lastX - dragState.current.startX) * perPixel)
+            .addScaledVector(cameraUp, -(dragState.current.lastY - dragState.current.startY) * perPixel)
+            .clampLength(0, cfg.boundarySize * 0.3);
+          motion.dragTarget = shakeTarget;
+        } else {
+          motion.dragTarget = null;
+        }
+        motion.update(tick.steps * tick.dt, scene.quaternion, cfg);
+        scene.position.copy(motion.offset);
+        engineRef.current.setFrameMotion(motion.frameMotion(scene.quaternion));
+
+        // Brush: the cursor ray in container space meets the container at the
+        // brush point; its motion since the last frame is the spoon velocity
+        let stroke: BrushStroke | null = null;
+        if (dragState.current.brushing) {
+          const rect = renderer.domElement.getBoundingClientRect();
+          pointer.set(
+            (dragState.current.lastX - rect.left) / rect.width * 2 - 1,
+            -(dragState.current.lastY - rect.top) / rect.height * 2 + 1
+          );
+          raycaster.setFromCamera(pointer, camera);
+          sceneInverse.copy(scene.quaternion).invert();
+          const origin = raycaster.ray.origin.clone().sub(scene.position).applyQuaternion(sceneInverse);
+          const dir = raycaster.ray.direction.clone().applyQuaternion(sceneInverse);
+          packContainer(cfg.container, cfg.boundarySize, brushContainer);
+          const center = brushCenter(brushContainer, origin.toArray(), dir.toArray());
+          if (center) {
+            if (lastBrushCenter && frameDt > 0) {
+              brushVelocity.lerp(new THREE.Vector3(...center).sub(new THREE.Vector3(...lastBrushCenter)).divideScalar(frameDt), 0.5);
+            }
+            stroke = { center, velocity: brushVelocity.toArray(), axis: dir.toArray() };
+            brushMesh.position.set(...center);
+            brushMesh.scale.setScalar(cfg.brushRadius);
+          }
+          lastBrushCenter = center;
+        } else {
+          lastBrushCenter = null;
+          brushVelocity.set(0, 0, 0);
+        }
+        const showBrush = stroke !== null;
+        engineRef.current.setBrush(stroke);
+
+        for (let s = 0; s < tick.steps; s++) {
+          engineRef.current.step(tick.dt, cfg, [grav.x, grav.y, grav.z]);
+        }
+        readback.tick(engineRef.current, result => onFlowStatsUpdate(flowStats(result)));
 
         const count = engineRef.current.particleCount;
+        const bodies = engineRef.current.rigidBodies.bodies;
+        syncBodyMeshes(bodyGroup, bodies);
+        poseForceFieldMeshes(forceFieldGroup, cfg.forceFields ?? [], engineRef.current.time);
         // Update GPU texture reference and particle count in shaders (no CPU position copy needed)
         const posTexture = engineRef.current.getPositionTexture();
-        resourcesRef.current.depthMaterial.uniforms.tPosition.value = posTexture;
-        resourcesRef.current.depthMaterial.uniforms.uParticleCount.value = count;
-        resourcesRef.current.thicknessMaterial.uniforms.tPosition.value = posTexture;
-        resourcesRef.current.thicknessMaterial.uniforms.uParticleCount.value = count;
-        resourcesRef.current.dotMaterial.uniforms.tPosition.value = posTexture;
-        resourcesRef.current.dotMaterial.uniforms.uParticleCount.value = count;
+        const prevPosTexture = engineRef.current.getPreviousPositionTexture();
+        for (const mat of [resourcesRef.current.depthMaterial, resourcesRef.current.thicknessMaterial, resourcesRef.current.dotMaterial, resourcesRef.current.sandMaterial]) {
+          mat.uniforms.tPosition.value = posTexture;
+          mat.uniforms.tPrevPosition.value = prevPosTexture;
+          mat.uniforms.uAlpha.value = tick.alpha;
+          mat.uniforms.uParticleCount.value = count;
+        }
+        packPhases(cfg, resourcesRef.current.phases);
+        const phaseTexture = engineRef.current.getPhaseTexture();
+        const temperatureTexture = engineRef.current.getTemperatureTexture();
+        for (const mat of [resourcesRef.current.thicknessMaterial, resourcesRef.current.dotMaterial, resourcesRef.current.sandMaterial]) {
+          mat.uniforms.tPhase.value = phaseTexture;
+          mat.uniforms.tTemperature.value = temperatureTexture;
+          mat.uniforms.uShowTemperature.value = cfg.colorMode === 'temperature';
+        }
         // Draw all particles - shader checks if active via texture
         particleGeometry.setDrawRange(0, count);
-        onStatsUpdate(count);
+        onStatsUpdate(count - bodies.reduce((sum, body) => sum + body.pointCount, 0));
+        onBodyCountUpdate(bodies.length);
+
+
+        // Sand always renders as grains; the surface reconstruction is for liquids
+        const granular = cfg.material === 'granular';
+        const particlesPoints = granular ? particlesSand : particlesDots;
 
+        // Whitewater follows this frame's steps; it starts over whenever it was off
+        const whitewater = cfg.diffuseParticles && cfg.renderMode === 'surface' && !granular;
+        if (whitewater) {
+          if (!diffuseActive) diffuse.reset();
+          diffuse.update(engineRef.current, cfg, tick.steps * tick.dt, [grav.x, grav.y, grav.z]);
+        }
+        diffuseActive = whitewater;
 
-        if (cfg.renderMode === 'surface') {
+        if (cfg.renderMode === 'surface' && !granular) {
           camera.updateMatrixWorld();
           // Update view matrix inverse for HDRI reflection calculations
           resourcesRef.current.finalMaterial.uniforms.uViewMatrixInverse.value = camera.matrixWorld;
@@ -527,8 +761,9 @@ const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, triggerInject,
           const tempEnv = scene.environment;
           const showCube = cfg.showContainer !== false;
 
-          // Render refraction background (cube visible for refraction)
+          // Render refraction background (cube and obstacles visible for refraction)
           container.visible = showCube; helper.visible = showCube; particlesDepth.visible = false;
+          obstacleGroup.visible = true; bodyGroup.visible = true; emitterGroup.visible = false; forceFieldGroup.visible = false; brushMesh.visible = false;
           renderer.setRenderTarget(refractionRT);
           renderer.clear();
           renderer.render(scene, camera);
@@ -536,6 +771,7 @@ const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, triggerInject,
           scene.background = null;
           scene.environment = null;
           container.visible = false; helper.visible = false; particlesDepth.visible = true; scene.add(particlesDepth);
+          obstacleGroup.visible = false; bodyGroup.visible = false;
           renderer.setRenderTarget(depthRT);
           renderer.setClearColor(0x000000, 1);
           renderer.clear();
@@ -588,18 +824,23 @@ const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, triggerInject,
           renderer.clear();
           container.visible = showCube;
           helper.visible = showCube;
+          obstacleGroup.visible = true; bodyGroup.visible = true; emitterGroup.visible = true; forceFieldGroup.visible = true; brushMesh.visible = showBrush;
           renderer.render(scene, camera);
 
           // Then render water composite on top (no clear, blend with scene)
           quadMesh.material = resourcesRef.current.finalMaterial;
           renderer.render(quadScene, quadCamera);
+
+          // Whitewater sprites added over the liquid
+          if (whitewater) diffuse.render(camera, scene, blurRT2.texture, cfg.particleRadius * 2.0);
         } else {
           const showCube = cfg.showContainer !== false;
-          container.visible = showCube; helper.visible = showCube; scene.add(particlesDots);
+          container.visible = showCube; helper.visible = showCube; scene.add(particlesPoints);
+          obstacleGroup.visible = true; bodyGroup.visible = true; emitterGroup.visible = true; forceFieldGroup.visible = true; brushMesh.visible = showBrush;
           renderer.setRenderTarget(null);
           renderer.clear();
           renderer.render(scene, camera);
-          scene.remove(particlesDots);
+          scene.remove(particlesPoints);
         }
       } catch (error) {
         console.error('Animation error:', error);
@@ -612,14 +853,16 @@ const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, triggerInject,
       isRunning = false;
       if (animationId) cancelAnimationFrame(animationId);
 
-      window.removeEventListener('mousedown', onMouseDown);
-      window.removeEventListener('mousemove', onMouseMove);
-      window.removeEventListener('mouseup', onMouseUp);
+      window.removeEventListener('pointerdown', onPointerDown);
+      window.removeEventListener('pointermove', onPointerMove);
+      window.removeEventListener('pointerup', onPointerUp);
+      window.removeEventListener('pointercancel', onPointerUp);
 
-      // Dispose GPU engine resources
+      // Dispose simulation backend resources
       if (engineRef.current) {
         engineRef.current.dispose();
       }
+      diffuse.dispose();
 
       renderer.dispose();
 
@@ -632,16 +875,37 @@ const FluidSimulator: React.FC<Props> = ({ config, onStatsUpdate, triggerInject,
     };
   }, []);
 
-  useEffect(() => { if (triggerInject > 0 && engineRef.current) engineRef.current.addParticles(100, [0, 3, 0]); }, [triggerInject]);
+  useEffect(() => {
+    if (triggerInject > 0 && engineRef.current) {
+      const cfg = configRef.current;
+      engineRef.current.addParticles(100, [0, 3, 0], Math.min(cfg.injectPhase ?? 0, cfg.phases?.length ?? 0), cfg.injectTemperature);
+    }
+  }, [triggerInject]);
+
+  // Drop a rigid body near the top of the container
+  useEffect(() => {
+    if (!triggerDrop || !engineRef.current) return;
+    const cfg = configRef.current;
+    const size = cfg.rigidBodySize;
+    engineRef.current.addRigidBody({
+      shape: triggerDrop.shape,
+      halfExtents: [size, size, size],
+      density: cfg.rigidBodyDensity,
+      position: [0, cfg.boundarySize / 2 - size - 0.5, 0],
+      spacing: boundarySpacing(cfg.particleRadius, cfg.visualRatio)
+    });
+  }, [triggerDrop]);
 
-  // Reset scene rotation to identity
+  // Reset scene rotation to identity and bring the container back to rest
   useEffect(() => {
     if (resetRotation > 0 && resourcesRef.current) {
       resourcesRef.current.scene.quaternion.identity();
+      resourcesRef.current.scene.position.set(0, 0, 0);
+      motionRef.current.reset();
       dragState.current.velocityX = 0;
       dragState.current.velocityY = 0;
     }
   }, [resetRotation]);
-  return <div ref={containerRef} className="w-full h-full cursor-grab active:cursor-grabbing" />;
+  return <div ref={containerRef} className={`w-full h-full touch-none ${config.interaction === 'brush' ? 'cursor-crosshair' : config.interaction === 'shake' ? 'cursor-move' : 'cursor-grab active:cursor-grabbing'}`} />;
 };
 export default FluidSimulator;
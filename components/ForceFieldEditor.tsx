@@ -0,0 +1,178 @@
+import React from 'react';
+import { Power, Trash2 } from 'lucide-react';
+import { FluidConfig, ForceField, ForceFieldAnimation, ForceFieldType } from '../types';
+import { MAX_FORCE_FIELDS } from '../services/forceFields';
+
+interface Props {
+  config: FluidConfig;
+  onChange: (patch: Partial<FluidConfig>) => void;
+}
+
+const TYPES: { type: ForceFieldType; title: string }[] = [
+  { type: 'wind', title: 'Blows the fluid along its direction' },
+  { type: 'attractor', title: 'Pulls the fluid towards its center (negative strength repels)' },
+  { type: 'vortex', title: 'Swirls the fluid around its axis' },
+  { type: 'turbulence', title: 'Stirs the fluid with drifting eddies' }
+];
+
+const ANIMATIONS: { animation: ForceFieldAnimation; title: string }[] = [
+  { animation: 'none', title: 'Constant field' },
+  { animation: 'pulse', title: 'Strength rises and falls' },
+  { animation: 'orbit', title: 'Position circles the vertical axis' },
+  { animation: 'spin', title: 'Direction turns around the vertical axis' }
+];
+
+// Fields that use their direction
+const DIRECTED: ForceFieldType[] = ['wind', 'vortex'];
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; step: number; onChange: (v: number) => void; title?: string }> = ({ label, value, min, max, step, onChange, title }) => (
+  <div className="space-y-1" title={title}>
+    <div className="flex justify-between text-[8px] font-bold text-white/40">
+      <span>{label}</span>
+      <span className="text-violet-400">{value.toFixed(step < 1 ? 2 : 0)}</span>
+    </div>
+    <input
+      type="range" min={min} max={max} step={step}
+      value={value}
+      onChange={e => onChange(parseFloat(e.target.value))}
+      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-violet-500"
+    />
+  </div>
+);
+
+const setComponent = (values: [number, number, number], axis: number, value: number): [number, number, number] => {
+  const next: [number, number, number] = [...values];
+  next[axis] = value;
+  return next;
+};
+
+const nextId = (items: { id: number }[]) => items.reduce((max, item) => Math.max(max, item.id), 0) + 1;
+
+const ForceFieldEditor: React.FC<Props> = ({ config, onChange }) => {
+  const half = config.boundarySize / 2;
+  const fields = config.forceFields ?? [];
+
+  const addField = (type: ForceFieldType) => {
+    onChange({
+      forceFields: [...fields, {
+        id: nextId(fields),
+        type,
+        position: [0, type === 'wind' ? -half * 0.5 : 0, 0],
+        direction: type === 'wind' ? [1, 0, 0] : [0, 1, 0],
+        radius: half * 0.6,
+        falloff: 1,
+        strength: 20,
+        scale: 1,
+        animation: 'none',
+        frequency: 0.5,
+        enabled: true
+      }]
+    });
+  };
+
+  const updateField = (id: number, patch: Partial<ForceField>) => {
+    onChange({ forceFields: fields.map(f => f.id === id ? { ...f, ...patch } : f) });
+  };
+
+  return (
+    <div className="border-t border-white/5 pt-2 mt-2">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-[9px] font-bold text-white/50 uppercase tracking-wider">Force Fields</span>
+        <span className="text-[8px] text-white/30">{fields.length}/{MAX_FORCE_FIELDS}</span>
+      </div>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {TYPES.map(({ type, title }) => (
+          <button
+            key={type}
+            onClick={() => addField(type)}
+            disabled={fields.length >= MAX_FORCE_FIELDS}
+            className="text-[8px] px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 text-white/60 hover:text-white transition-colors uppercase disabled:opacity-30"
+            title={title}
+          >
+            + {type}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        {fields.map(f => (
+          <div key={f.id} className={`bg-white/5 rounded-lg p-2 space-y-2 ${f.enabled ? '' : 'opacity-60'}`}>
+            <div className="flex justify-between items-center">
+              <span className="text-[9px] font-bold text-violet-400 uppercase tracking-wider">{f.type} #{f.id}</span>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => updateField(f.id, { enabled: !f.enabled })}
+                  className={`transition-colors ${f.enabled ? 'text-violet-400 hover:text-violet-300' : 'text-white/40 hover:text-white/70'}`}
+                  title={f.enabled ? 'Switch field off' : 'Switch field on'}
+                >
+                  <Power size={11} />
+                </button>
+                <button
+                  onClick={() => onChange({ forceFields: fields.filter(other => other.id !== f.id) })}
+                  className="text-red-400/70 hover:text-red-400 transition-colors"
+                  title="Remove field"
+                >
+                  <Trash2 size={11} />
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {['X', 'Y', 'Z'].map((label, axis) => (
+                <Slider key={label} label={label} value={f.position[axis]} min={-half} max={half} step={0.1}
+                  onChange={v => updateField(f.id, { position: setComponent(f.position, axis, v) })} />
+              ))}
+            </div>
+            {DIRECTED.includes(f.type) && (
+              <div className="grid grid-cols-3 gap-2">
+                {['Dir X', 'Dir Y', 'Dir Z'].map((label, axis) => (
+                  <Slider key={label} label={label} value={f.direction[axis]} min={-1} max={1} step={0.05}
+                    title={f.type === 'vortex' ? 'Spin axis' : 'Blowing direction'}
+                    onChange={v => updateField(f.id, { direction: setComponent(f.direction, axis, v) })} />
+                ))}
+              </div>
+            )}
+            <div className="grid grid-cols-3 gap-2">
+              <Slider label="Radius" value={f.radius} min={0.5} max={config.boundarySize} step={0.1}
+                title={f.type === 'vortex' ? 'Reach from the axis' : 'Reach from the center'}
+                onChange={v => updateField(f.id, { radius: v })} />
+              <Slider label="Falloff" value={f.falloff} min={0} max={4} step={0.1}
+                title="0 = even strength, 1 = linear, higher = concentrated at the center"
+                onChange={v => updateField(f.id, { falloff: v })} />
+              <Slider label="Strength" value={f.strength} min={f.type === 'attractor' ? -100 : 0} max={100} step={1}
+                title={f.type === 'attractor' ? 'Acceleration at the center; negative repels' : 'Acceleration at the center'}
+                onChange={v => updateField(f.id, { strength: v })} />
+            </div>
+            {f.type === 'turbulence' && (
+              <div className="grid grid-cols-3 gap-2">
+                <Slider label="Scale" value={f.scale} min={0.2} max={4} step={0.05}
+                  title="Eddy size"
+                  onChange={v => updateField(f.id, { scale: v })} />
+              </div>
+            )}
+            <div className="flex flex-wrap gap-1">
+              {ANIMATIONS.filter(({ animation }) => animation !== 'spin' || DIRECTED.includes(f.type)).map(({ animation, title }) => (
+                <button
+                  key={animation}
+                  onClick={() => updateField(f.id, { animation })}
+                  className={`text-[8px] px-2 py-0.5 rounded transition-colors uppercase ${f.animation === animation ? 'bg-violet-500/30 text-violet-300' : 'bg-white/10 hover:bg-white/20 text-white/60 hover:text-white'}`}
+                  title={title}
+                >
+                  {animation}
+                </button>
+              ))}
+            </div>
+            {f.animation !== 'none' && (
+              <div className="grid grid-cols-3 gap-2">
+                <Slider label="Freq Hz" value={f.frequency} min={0.05} max={3} step={0.05}
+                  title="Animation cycles per second"
+                  onChange={v => updateField(f.id, { frequency: v })} />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ForceFieldEditor;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Power } from 'lucide-react';
+import { FluidConfig } from '../types';
+
+interface Props {
+  config: FluidConfig;
+  onChange: (patch: Partial<FluidConfig>) => void;
+}
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; step: number; onChange: (v: number) => void; title?: string }> = ({ label, value, min, max, step, onChange, title }) => (
+  <div className="space-y-1" title={title}>
+    <div className="flex justify-between text-[8px] font-bold text-white/40">
+      <span>{label}</span>
+      <span className="text-amber-400">{value.toFixed(2)}</span>
+    </div>
+    <input
+      type="range" min={min} max={max} step={step}
+      value={value}
+      onChange={e => onChange(parseFloat(e.target.value))}
+      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-amber-500"
+    />
+  </div>
+);
+
+const MotionEditor: React.FC<Props> = ({ config, onChange }) => {
+  const shakeDrag = config.interaction === 'shake';
+  const amplitude = config.shakeAmplitude ?? [0, 0, 0];
+
+  const setAmplitude = (axis: number, value: number) => {
+    const next = [...amplitude] as [number, number, number];
+    next[axis] = value;
+    onChange({ shakeAmplitude: next });
+  };
+
+  return (
+    <div className="border-t border-white/5 pt-2 mt-2">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-[9px] font-bold text-white/50 uppercase tracking-wider">Container Motion</span>
+        <button
+          onClick={() => onChange({ interaction: shakeDrag ? 'rotate' : 'shake' })}
+          className={`text-[8px] px-2 py-0.5 rounded transition-colors uppercase ${shakeDrag ? 'bg-amber-500/30 text-amber-300' : 'bg-white/10 hover:bg-white/20 text-white/60 hover:text-white'}`}
+          title="Drag in the view to shake the container; it springs back when released (Shift + drag rotates)"
+        >
+          Drag: Shake
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <Slider label="Inertia" value={config.inertialForces ?? 1} min={0} max={1} step={0.05}
+          title="Pseudo-forces of the moving and turning container (0 = off, 1 = physical)"
+          onChange={inertialForces => onChange({ inertialForces })} />
+      </div>
+
+      <div className="flex justify-between items-center mb-1">
+        <span className="text-[8px] font-bold text-white/40 uppercase tracking-wider">Shaker Table</span>
+        <button
+          onClick={() => onChange({ shaking: !config.shaking })}
+          className={`transition-colors ${config.shaking ? 'text-amber-400 hover:text-amber-300' : 'text-white/40 hover:text-white/70'}`}
+          title={config.shaking ? 'Stop the shaker table' : 'Start the shaker table'}
+        >
+          <Power size={11} />
+        </button>
+      </div>
+      <div className={`grid grid-cols-4 gap-2 ${config.shaking ? '' : 'opacity-60'}`}>
+        {['Amp X', 'Amp Y', 'Amp Z'].map((label, axis) => (
+          <Slider key={label} label={label} value={amplitude[axis]} min={0} max={2} step={0.05}
+            title="Displacement amplitude along the world axis"
+            onChange={v => setAmplitude(axis, v)} />
+        ))}
+        <Slider label="Freq Hz" value={config.shakeFrequency ?? 1} min={0.2} max={4} step={0.05}
+          title="Shaker cycles per second"
+          onChange={shakeFrequency => onChange({ shakeFrequency })} />
+      </div>
+    </div>
+  );
+};
+
+export default MotionEditor;
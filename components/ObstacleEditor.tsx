@@ -0,0 +1,148 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { Obstacle, ObstacleShape } from '../types';
+import { MAX_OBSTACLES } from '../services/obstacles';
+
+interface Props {
+  obstacles: Obstacle[];
+  boundarySize: number;
+  onChange: (obstacles: Obstacle[]) => void;
+}
+
+const SHAPES: ObstacleShape[] = ['sphere', 'box', 'capsule', 'cylinder', 'plane'];
+
+// Default size per shape (see Obstacle.size)
+const DEFAULT_SIZE: Record<ObstacleShape, [number, number, number]> = {
+  sphere: [1, 0, 0],
+  box: [1, 0.5, 1],
+  capsule: [0.5, 1, 0],
+  cylinder: [0.75, 1, 0],
+  plane: [0, 0, 0]
+};
+
+// Labels of the size components each shape uses
+const SIZE_LABELS: Record<ObstacleShape, string[]> = {
+  sphere: ['Radius'],
+  box: ['Half X', 'Half Y', 'Half Z'],
+  capsule: ['Radius', 'Half Len'],
+  cylinder: ['Radius', 'Half Len'],
+  plane: []
+};
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; step: number; onChange: (v: number) => void }> = ({ label, value, min, max, step, onChange }) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-[8px] font-bold text-white/40">
+      <span>{label}</span>
+      <span className="text-cyan-400">{value.toFixed(step < 1 ? 2 : 0)}</span>
+    </div>
+    <input
+      type="range" min={min} max={max} step={step}
+      value={value}
+      onChange={e => onChange(parseFloat(e.target.value))}
+      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-cyan-500"
+    />
+  </div>
+);
+
+const ObstacleEditor: React.FC<Props> = ({ obstacles, boundarySize, onChange }) => {
+  const half = boundarySize / 2;
+
+  const add = (shape: ObstacleShape) => {
+    const id = obstacles.reduce((max, o) => Math.max(max, o.id), 0) + 1;
+    onChange([...obstacles, {
+      id,
+      shape,
+      position: [0, shape === 'plane' ? -half * 0.6 : -half * 0.4, 0],
+      rotation: [0, 0, 0],
+      size: [...DEFAULT_SIZE[shape]],
+      friction: 0.1,
+      restitution: 0.2,
+      temperature: 0.5,
+      heatTransfer: 0
+    }]);
+  };
+
+  const update = (id: number, patch: Partial<Obstacle>) => {
+    onChange(obstacles.map(o => o.id === id ? { ...o, ...patch } : o));
+  };
+
+  const setComponent = (values: [number, number, number], axis: number, value: number): [number, number, number] => {
+    const next: [number, number, number] = [...values];
+    next[axis] = value;
+    return next;
+  };
+
+  return (
+    <div className="border-t border-white/5 pt-2 mt-2">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-[9px] font-bold text-white/50 uppercase tracking-wider">Obstacles</span>
+        <span className="text-[8px] text-white/30">{obstacles.length}/{MAX_OBSTACLES}</span>
+      </div>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {SHAPES.map(shape => (
+          <button
+            key={shape}
+            onClick={() => add(shape)}
+            disabled={obstacles.length >= MAX_OBSTACLES}
+            className="text-[8px] px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 text-white/60 hover:text-white transition-colors uppercase disabled:opacity-30"
+          >
+            + {shape}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        {obstacles.map(o => (
+          <div key={o.id} className="bg-white/5 rounded-lg p-2 space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="text-[9px] font-bold text-blue-400 uppercase tracking-wider">{o.shape} #{o.id}</span>
+              <button
+                onClick={() => onChange(obstacles.filter(other => other.id !== o.id))}
+                className="text-red-400/70 hover:text-red-400 transition-colors"
+                title="Remove obstacle"
+              >
+                <Trash2 size={11} />
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {['X', 'Y', 'Z'].map((label, axis) => (
+                <Slider key={label} label={label} value={o.position[axis]} min={-half} max={half} step={0.1}
+                  onChange={v => update(o.id, { position: setComponent(o.position, axis, v) })} />
+              ))}
+            </div>
+            {o.shape !== 'sphere' && (
+              <div className="grid grid-cols-3 gap-2">
+                {['Rot X', 'Rot Y', 'Rot Z'].map((label, axis) => (
+                  <Slider key={label} label={label} value={o.rotation[axis]} min={-180} max={180} step={5}
+                    onChange={v => update(o.id, { rotation: setComponent(o.rotation, axis, v) })} />
+                ))}
+              </div>
+            )}
+            {SIZE_LABELS[o.shape].length > 0 && (
+              <div className="grid grid-cols-3 gap-2">
+                {SIZE_LABELS[o.shape].map((label, axis) => (
+                  <Slider key={label} label={label} value={o.size[axis]} min={0.1} max={half} step={0.05}
+                    onChange={v => update(o.id, { size: setComponent(o.size, axis, v) })} />
+                ))}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+              <Slider label="Friction" value={o.friction} min={0} max={1} step={0.05}
+                onChange={v => update(o.id, { friction: v })} />
+              <Slider label="Bounce" value={o.restitution} min={0} max={1} step={0.05}
+                onChange={v => update(o.id, { restitution: v })} />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Slider label="Temp" value={o.temperature ?? 0.5} min={0} max={1} step={0.05}
+                onChange={v => update(o.id, { temperature: v })} />
+              <Slider label="Heat Xfer" value={o.heatTransfer ?? 0} min={0} max={5} step={0.1}
+                onChange={v => update(o.id, { heatTransfer: v })} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ObstacleEditor;
@@ -0,0 +1,133 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { FluidPhase } from '../types';
+import { MAX_PHASES } from '../services/phases';
+
+interface Props {
+  phases: FluidPhase[];
+  interfaceTension: number;
+  injectPhase: number;
+  onChange: (patch: { phases?: FluidPhase[]; interfaceTension?: number; injectPhase?: number }) => void;
+}
+
+// Starting points for new phases; every value stays editable afterwards
+const PRESETS: FluidPhase[] = [
+  { name: 'Oil', density: 0.7, viscosity: 0.3, surfaceTension: 0.03, color: [0.9, 0.65, 0.1] },
+  { name: 'Honey', density: 1.4, viscosity: 3.0, surfaceTension: 0.08, color: [0.75, 0.4, 0.05] },
+  { name: 'Mercury', density: 3.0, viscosity: 0.05, surfaceTension: 0.1, color: [0.6, 0.6, 0.65] }
+];
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; step: number; onChange: (v: number) => void }> = ({ label, value, min, max, step, onChange }) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-[8px] font-bold text-white/40">
+      <span>{label}</span>
+      <span className="text-cyan-400">{value.toFixed(step < 0.01 ? 3 : 2)}</span>
+    </div>
+    <input
+      type="range" min={min} max={max} step={step}
+      value={value}
+      onChange={e => onChange(parseFloat(e.target.value))}
+      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-cyan-500"
+    />
+  </div>
+);
+
+const toCss = (color: [number, number, number]) =>
+  `rgb(${color.map(c => Math.round(c * 255)).join(',')})`;
+
+const PhaseEditor: React.FC<Props> = ({ phases, interfaceTension, injectPhase, onChange }) => {
+  const update = (index: number, patch: Partial<FluidPhase>) => {
+    onChange({ phases: phases.map((p, k) => k === index ? { ...p, ...patch } : p) });
+  };
+
+  const setChannel = (color: [number, number, number], channel: number, value: number): [number, number, number] => {
+    const next: [number, number, number] = [...color];
+    next[channel] = value;
+    return next;
+  };
+
+  // Particles store their phase index, so only the last phase can be removed
+  // without relabelling the ones already in the container
+  const removeLast = () => {
+    onChange({ phases: phases.slice(0, -1), injectPhase: Math.min(injectPhase, phases.length - 1) });
+  };
+
+  return (
+    <div className="border-t border-white/5 pt-2 mt-2">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-[9px] font-bold text-white/50 uppercase tracking-wider">Phases</span>
+        <span className="text-[8px] text-white/30">{phases.length}/{MAX_PHASES - 1}</span>
+      </div>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {PRESETS.map(preset => (
+          <button
+            key={preset.name}
+            onClick={() => onChange({ phases: [...phases, { ...preset, color: [...preset.color] }] })}
+            disabled={phases.length >= MAX_PHASES - 1}
+            className="text-[8px] px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 text-white/60 hover:text-white transition-colors uppercase disabled:opacity-30"
+          >
+            + {preset.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-1 mb-2">
+        <span className="text-[8px] font-bold text-white/40">Inject</span>
+        <div className="flex flex-wrap gap-1">
+          {['Water', ...phases.map(p => p.name)].map((name, k) => (
+            <button
+              key={k}
+              onClick={() => onChange({ injectPhase: k })}
+              className={`text-[8px] px-2 py-0.5 rounded transition-colors uppercase ${injectPhase === k ? 'bg-cyan-500/30 text-cyan-300' : 'bg-white/10 hover:bg-white/20 text-white/60 hover:text-white'}`}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-2">
+        <Slider label="Interface Tension" value={interfaceTension} min={0} max={1} step={0.05}
+          onChange={v => onChange({ interfaceTension: v })} />
+      </div>
+
+      <div className="space-y-3">
+        {phases.map((p, k) => (
+          <div key={k} className="bg-white/5 rounded-lg p-2 space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="flex items-center gap-1.5 text-[9px] font-bold text-blue-400 uppercase tracking-wider">
+                <span className="w-2 h-2 rounded-full" style={{ background: toCss(p.color) }} />
+                {p.name} #{k + 1}
+              </span>
+              {k === phases.length - 1 && (
+                <button
+                  onClick={removeLast}
+                  className="text-red-400/70 hover:text-red-400 transition-colors"
+                  title="Remove phase (its particles fall back to water)"
+                >
+                  <Trash2 size={11} />
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <Slider label="Density" value={p.density} min={0.3} max={3} step={0.05}
+                onChange={v => update(k, { density: v })} />
+              <Slider label="Viscosity" value={p.viscosity} min={0} max={5} step={0.05}
+                onChange={v => update(k, { viscosity: v })} />
+              <Slider label="Tension" value={p.surfaceTension} min={0} max={0.1} step={0.005}
+                onChange={v => update(k, { surfaceTension: v })} />
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {['R', 'G', 'B'].map((label, channel) => (
+                <Slider key={label} label={label} value={p.color[channel]} min={0} max={1} step={0.05}
+                  onChange={v => update(k, { color: setChannel(p.color, channel, v) })} />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PhaseEditor;
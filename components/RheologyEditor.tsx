@@ -0,0 +1,96 @@
+import React from 'react';
+import { FluidConfig, Rheology, RheologyModel } from '../types';
+
+interface Props {
+  config: FluidConfig;
+  onChange: (patch: Partial<FluidConfig>) => void;
+}
+
+const MODELS: { model: RheologyModel; label: string; title: string }[] = [
+  { model: 'newtonian', label: 'Newton', title: 'Constant viscosity (per-step damping)' },
+  { model: 'powerLaw', label: 'Power', title: 'Viscosity K * rate^(n-1): n < 1 thins, n > 1 thickens under shear' },
+  { model: 'bingham', label: 'Bingham', title: 'Rigid below the yield stress, then flows with viscosity K' },
+  { model: 'herschelBulkley', label: 'H-B', title: 'Yield stress plus power-law flow' }
+];
+
+// Base fluid presets: the viscosity slider is the consistency K of the model
+const PRESETS: { name: string; title: string; viscosity: number; rheology: Rheology }[] = [
+  { name: 'Ketchup', title: 'Shear thinning with a yield stress', viscosity: 2, rheology: { model: 'herschelBulkley', flowIndex: 0.4, yieldStress: 3 } },
+  { name: 'Toothpaste', title: 'Holds its shape until pushed', viscosity: 3, rheology: { model: 'bingham', flowIndex: 1, yieldStress: 8 } },
+  { name: 'Oobleck', title: 'Stiffens when hit', viscosity: 1, rheology: { model: 'powerLaw', flowIndex: 2, yieldStress: 0 } }
+];
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; step: number; onChange: (v: number) => void; title?: string }> = ({ label, value, min, max, step, onChange, title }) => (
+  <div className="space-y-1" title={title}>
+    <div className="flex justify-between text-[8px] font-bold text-white/40">
+      <span>{label}</span>
+      <span className="text-emerald-400">{value.toFixed(2)}</span>
+    </div>
+    <input
+      type="range" min={min} max={max} step={step}
+      value={value}
+      onChange={e => onChange(parseFloat(e.target.value))}
+      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-emerald-500"
+    />
+  </div>
+);
+
+const RheologyEditor: React.FC<Props> = ({ config, onChange }) => {
+  const rheology = config.rheology;
+  const update = (patch: Partial<Rheology>) => onChange({ rheology: { ...rheology, ...patch } });
+  const hasFlowIndex = rheology.model === 'powerLaw' || rheology.model === 'herschelBulkley';
+  const hasYield = rheology.model === 'bingham' || rheology.model === 'herschelBulkley';
+
+  return (
+    <div className="border-t border-white/5 pt-2 mt-2">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-[9px] font-bold text-white/50 uppercase tracking-wider">Rheology</span>
+        <div className="flex items-center gap-1">
+          {PRESETS.map(preset => (
+            <button
+              key={preset.name}
+              onClick={() => onChange({ viscosity: preset.viscosity, rheology: { ...preset.rheology } })}
+              className="text-[8px] px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 text-white/60 hover:text-white transition-colors uppercase"
+              title={preset.title}
+            >
+              {preset.name}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <div className="flex gap-1">
+          {MODELS.map(({ model, label, title }) => (
+            <button
+              key={model}
+              onClick={() => update({ model })}
+              className={`flex-1 text-[8px] px-1 py-0.5 rounded transition-colors uppercase ${rheology.model === model ? 'bg-emerald-500/30 text-emerald-300' : 'bg-white/10 hover:bg-white/20 text-white/60 hover:text-white'}`}
+              title={title}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <Slider label="Viscosity (K)" value={config.viscosity} min={0} max={5} step={0.01}
+          title="Base fluid viscosity; the consistency K of the non-Newtonian models"
+          onChange={viscosity => onChange({ viscosity })} />
+        {(hasFlowIndex || hasYield) && (
+          <div className="grid grid-cols-2 gap-2">
+            {hasFlowIndex && (
+              <Slider label="Flow Index (n)" value={rheology.flowIndex} min={0.2} max={2.5} step={0.05}
+                title="< 1 shear thinning, > 1 shear thickening"
+                onChange={flowIndex => update({ flowIndex })} />
+            )}
+            {hasYield && (
+              <Slider label="Yield Stress" value={rheology.yieldStress} min={0} max={20} step={0.1}
+                title="Stress the fluid resists before it starts to flow"
+                onChange={yieldStress => update({ yieldStress })} />
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RheologyEditor;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { FluidConfig, TemperatureCurve } from '../types';
+
+interface Props {
+  config: FluidConfig;
+  onChange: (patch: Partial<FluidConfig>) => void;
+}
+
+// Hot floor, cool walls and fluid that stiffens as it cools
+const LAVA: Partial<FluidConfig> = {
+  floorTemperature: 1,
+  wallTemperature: 0.1,
+  wallHeatTransfer: 2,
+  heatDiffusion: 1,
+  viscosityCurve: { cold: 6, hot: 0.3 },
+  cohesionCurve: { cold: 1.5, hot: 0.5 },
+  colorMode: 'temperature'
+};
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; step: number; onChange: (v: number) => void; title?: string }> = ({ label, value, min, max, step, onChange, title }) => (
+  <div className="space-y-1" title={title}>
+    <div className="flex justify-between text-[8px] font-bold text-white/40">
+      <span>{label}</span>
+      <span className="text-orange-400">{value.toFixed(2)}</span>
+    </div>
+    <input
+      type="range" min={min} max={max} step={step}
+      value={value}
+      onChange={e => onChange(parseFloat(e.target.value))}
+      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-orange-500"
+    />
+  </div>
+);
+
+const CurveSliders: React.FC<{ label: string; curve: TemperatureCurve; max: number; onChange: (curve: TemperatureCurve) => void; title: string }> = ({ label, curve, max, onChange, title }) => (
+  <div className="grid grid-cols-2 gap-2">
+    <Slider label={`${label} Cold`} value={curve.cold} min={0} max={max} step={0.05} title={title}
+      onChange={cold => onChange({ ...curve, cold })} />
+    <Slider label={`${label} Hot`} value={curve.hot} min={0} max={max} step={0.05} title={title}
+      onChange={hot => onChange({ ...curve, hot })} />
+  </div>
+);
+
+const ThermalEditor: React.FC<Props> = ({ config, onChange }) => {
+  const showing = config.colorMode === 'temperature';
+
+  return (
+    <div className="border-t border-white/5 pt-2 mt-2">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-[9px] font-bold text-white/50 uppercase tracking-wider">Temperature</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onChange(LAVA)}
+            className="text-[8px] px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 text-white/60 hover:text-white transition-colors uppercase"
+            title="Hot floor, cool walls, fluid stiffens as it cools"
+          >
+            Lava
+          </button>
+          <button
+            onClick={() => onChange({ colorMode: showing ? 'phase' : 'temperature' })}
+            className={`text-[8px] px-2 py-0.5 rounded transition-colors uppercase ${showing ? 'bg-orange-500/30 text-orange-300' : 'bg-white/10 hover:bg-white/20 text-white/60 hover:text-white'}`}
+            title="Color particles by temperature"
+          >
+            Colormap
+          </button>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <Slider label="Inject Temp" value={config.injectTemperature} min={0} max={1} step={0.05}
+            onChange={injectTemperature => onChange({ injectTemperature })} />
+          <Slider label="Diffusion" value={config.heatDiffusion} min={0} max={10} step={0.1}
+            title="Heat exchange rate between neighboring particles"
+            onChange={heatDiffusion => onChange({ heatDiffusion })} />
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <Slider label="Floor" value={config.floorTemperature} min={0} max={1} step={0.05}
+            onChange={floorTemperature => onChange({ floorTemperature })} />
+          <Slider label="Walls" value={config.wallTemperature} min={0} max={1} step={0.05}
+            title="Side walls and ceiling"
+            onChange={wallTemperature => onChange({ wallTemperature })} />
+          <Slider label="Wall Xfer" value={config.wallHeatTransfer} min={0} max={5} step={0.1}
+            title="Heat exchange rate with the container (0 = insulated)"
+            onChange={wallHeatTransfer => onChange({ wallHeatTransfer })} />
+        </div>
+        <CurveSliders label="Visc" curve={config.viscosityCurve} max={10}
+          title="Multiplies each phase's viscosity at temperature 0 / 1"
+          onChange={viscosityCurve => onChange({ viscosityCurve })} />
+        <CurveSliders label="Cohesion" curve={config.cohesionCurve} max={3}
+          title="Multiplies each phase's surface tension at temperature 0 / 1 (pressure solver)"
+          onChange={cohesionCurve => onChange({ cohesionCurve })} />
+      </div>
+    </div>
+  );
+};
+
+export default ThermalEditor;
@@ -0,0 +1,38 @@
+import * as THREE from 'three';
+import { RigidBody } from '../services/rigidBodies';
+
+// Scene meshes for the simulated rigid bodies (see services/rigidBodies.ts)
+// One mesh per body, matched by body id and moved to the body pose every frame.
+
+const bodyMaterial = new THREE.MeshStandardMaterial({
+  color: 0xc8833a,
+  roughness: 0.7,
+  metalness: 0.0
+});
+
+function createBodyGeometry(body: RigidBody): THREE.BufferGeometry {
+  const [a, b, c] = body.halfExtents;
+  return body.shape === 'sphere'
+    ? new THREE.SphereGeometry(a, 32, 16)
+    : new THREE.BoxGeometry(a * 2, b * 2, c * 2);
+}
+
+export function syncBodyMeshes(group: THREE.Group, bodies: readonly RigidBody[]): void {
+  const live = new Set(bodies.map(body => String(body.id)));
+  for (const child of [...group.children]) {
+    if (live.has(child.name)) continue;
+    (child as THREE.Mesh).geometry.dispose();
+    group.remove(child);
+  }
+
+  for (const body of bodies) {
+    let mesh = group.getObjectByName(String(body.id));
+    if (!mesh) {
+      mesh = new THREE.Mesh(createBodyGeometry(body), bodyMaterial);
+      mesh.name = String(body.id);
+      group.add(mesh);
+    }
+    mesh.position.copy(body.center);
+    mesh.quaternion.copy(body.orientation);
+  }
+}
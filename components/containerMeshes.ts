@@ -0,0 +1,89 @@
+import * as THREE from 'three';
+import { MarchingCubes } from 'three/examples/jsm/objects/MarchingCubes.js';
+import { ContainerConfig } from '../types';
+import { containerDistance, createPackedContainer, packContainer, PackedContainer } from '../services/container';
+
+// Glass mesh matching the simulated container (see services/container.ts)
+// Analytic shapes use the matching three.js geometry; a custom SDF is
+// polygonized with marching cubes over the boundary cube.
+
+// Glass material - use BackSide (front face culling) for proper glass effect
+const glassMaterial = new THREE.MeshPhysicalMaterial({
+  color: 0xaaddff,
+  transparent: true,
+  opacity: 0.12,
+  roughness: 0.05,
+  metalness: 0,
+  side: THREE.BackSide, // Front face culling - only render back faces
+  envMapIntensity: 0.3,
+  depthWrite: false
+});
+
+const SEGMENTS = 48;
+
+// Marching cubes grid resolution and triangle budget for custom shapes
+const SDF_RESOLUTION = 48;
+const SDF_MAX_TRIANGLES = 60000;
+
+const packed = createPackedContainer();
+
+// Polygonize the zero level set of the container SDF. The grid reaches a few
+// cells past the cube so the faces where the shape is cut stay closed.
+function sdfGeometry(container: PackedContainer): THREE.BufferGeometry {
+  const cubes = new MarchingCubes(SDF_RESOLUTION, glassMaterial, false, false, SDF_MAX_TRIANGLES);
+  const half = cubes.halfsize;
+  const scale = container.bound * half / (half - 3);
+  cubes.isolation = 0;
+
+  // field[size2 * z + size * y + x] at local coordinate (i - halfsize) / halfsize
+  const toWorld = (i: number) => (i - half) / half * scale;
+  for (let z = 0; z < cubes.size; z++) {
+    for (let y = 0; y < cubes.size; y++) {
+      for (let x = 0; x < cubes.size; x++) {
+        cubes.field[cubes.size2 * z + cubes.size * y + x] = -containerDistance(container, toWorld(x), toWorld(y), toWorld(z));
+      }
+    }
+  }
+  cubes.update();
+
+  // Copy the triangles out of the marching cubes buffers
+  const count = Math.min(cubes.count, SDF_MAX_TRIANGLES * 3);
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(cubes.positionArray.slice(0, count * 3), 3));
+  geometry.setAttribute('normal', new THREE.Float32BufferAttribute(cubes.normalArray.slice(0, count * 3), 3));
+  geometry.scale(scale, scale, scale);
+  cubes.geometry.dispose();
+  return geometry;
+}
+
+function containerGeometry(container: PackedContainer): THREE.BufferGeometry {
+  const [a, b, c] = container.size;
+  switch (container.shape) {
+    case 0: return new THREE.BoxGeometry(a * 2, b * 2, c * 2);
+    case 1: return new THREE.CylinderGeometry(a, a, b * 2, SEGMENTS, 1);
+    case 2: return new THREE.SphereGeometry(a, SEGMENTS, SEGMENTS / 2);
+    case 3: return new THREE.CapsuleGeometry(a, b * 2, SEGMENTS / 4, SEGMENTS);
+    case 4: {
+      // Open bowl: quarter circle around the center height, then straight up to the rim
+      const profile: THREE.Vector2[] = [];
+      for (let k = 0; k <= SEGMENTS / 4; k++) {
+        const angle = (k / (SEGMENTS / 4) - 1) * Math.PI / 2;
+        profile.push(new THREE.Vector2(Math.max(Math.cos(angle) * a, 1e-4), b + Math.sin(angle) * a));
+      }
+      profile.push(new THREE.Vector2(a, container.bound));
+      return new THREE.LatheGeometry(profile, SEGMENTS);
+    }
+    default: return sdfGeometry(container);
+  }
+}
+
+// Replace the glass in `group` with the mesh of the configured container
+export function syncContainerMesh(group: THREE.Group, container: ContainerConfig | undefined, boundarySize: number): void {
+  for (const child of [...group.children]) {
+    (child as THREE.Mesh).geometry.dispose();
+    group.remove(child);
+  }
+
+  packContainer(container, boundarySize, packed);
+  group.add(new THREE.Mesh(containerGeometry(packed), glassMaterial));
+}
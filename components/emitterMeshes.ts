@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+import { Drain, Emitter } from '../types';
+import { emitterFrame, MAX_DRAINS, MAX_EMITTERS } from '../services/emitters';
+
+// Wireframe gizmos for the emitters and drains (see services/emitters.ts)
+// Like the obstacle meshes they live in container space. They are editing aids,
+// so the renderer keeps them out of the refraction and fluid passes.
+
+const emitterMaterial = new THREE.LineBasicMaterial({ color: 0x38bdf8 });
+const pausedMaterial = new THREE.LineBasicMaterial({ color: 0x38bdf8, transparent: true, opacity: 0.3 });
+const drainMaterial = new THREE.LineBasicMaterial({ color: 0xfb7185 });
+
+const DISC_SEGMENTS = 32;
+
+function emitterLines(e: Emitter): THREE.BufferGeometry {
+  const { axis, tangent, bitangent } = emitterFrame(e);
+  const points: number[] = [];
+  const segment = (a: number[], b: number[]) => points.push(a[0], a[1], a[2], b[0], b[1], b[2]);
+  const along = (u: number[], s: number) => [u[0] * s, u[1] * s, u[2] * s];
+
+  if (e.shape === 'disc') {
+    for (let k = 0; k < DISC_SEGMENTS; k++) {
+      const rim = (t: number) => {
+        const angle = t / DISC_SEGMENTS * Math.PI * 2;
+        return [0, 1, 2].map(a => (tangent[a] * Math.cos(angle) + bitangent[a] * Math.sin(angle)) * e.size[0]);
+      };
+      segment(rim(k), rim(k + 1));
+    }
+  } else if (e.shape === 'box') {
+    const edges = new THREE.EdgesGeometry(new THREE.BoxGeometry(e.size[0] * 2, e.size[1] * 2, e.size[2] * 2));
+    const box = edges.getAttribute('position').array;
+    for (let k = 0; k < box.length; k++) points.push(box[k]);
+    edges.dispose();
+  } else {
+    // Small cross marking the nozzle
+    const r = 0.15;
+    for (const u of [[1, 0, 0], [0, 1, 0], [0, 0, 1]]) segment(along(u, -r), along(u, r));
+  }
+
+  // Arrow along the emission direction, longer for faster jets
+  const length = 0.5 + e.speed * 0.1;
+  const tip = along(axis, length);
+  segment([0, 0, 0], tip);
+  for (const side of [tangent, bitangent]) {
+    for (const sign of [-1, 1]) {
+      segment(tip, [0, 1, 2].map(a => tip[a] - axis[a] * 0.15 + side[a] * sign * 0.08));
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(points, 3));
+  return geometry;
+}
+
+// Replace the gizmos in `group` with one per simulated emitter and drain
+export function syncEmitterMeshes(group: THREE.Group, emitters: readonly Emitter[], drains: readonly Drain[]): void {
+  for (const child of [...group.children]) {
+    (child as THREE.LineSegments).geometry.dispose();
+    group.remove(child);
+  }
+
+  for (const e of emitters.slice(0, MAX_EMITTERS)) {
+    const lines = new THREE.LineSegments(emitterLines(e), e.enabled ? emitterMaterial : pausedMaterial);
+    lines.position.set(e.position[0], e.position[1], e.position[2]);
+    group.add(lines);
+  }
+
+  for (const d of drains.slice(0, MAX_DRAINS)) {
+    const box = new THREE.BoxGeometry(d.size[0] * 2, d.size[1] * 2, d.size[2] * 2);
+    const lines = new THREE.LineSegments(new THREE.EdgesGeometry(box), drainMaterial);
+    box.dispose();
+    lines.position.set(d.position[0], d.position[1], d.position[2]);
+    group.add(lines);
+  }
+}
@@ -0,0 +1,113 @@
+import * as THREE from 'three';
+import { ForceField } from '../types';
+import { createPackedForceFields, MAX_FORCE_FIELDS, packForceFields } from '../services/forceFields';
+
+// Wireframe gizmos for the force fields (see services/forceFields.ts)
+// Drawn in a local frame with the field direction along +y and the reach as
+// rings of the field radius, then posed every frame at the animated position
+// and direction, so orbiting and spinning fields move with their effect.
+
+const fieldMaterial = new THREE.LineBasicMaterial({ color: 0xa78bfa });
+const disabledMaterial = new THREE.LineBasicMaterial({ color: 0xa78bfa, transparent: true, opacity: 0.3 });
+
+const RING_SEGMENTS = 48;
+const UP = new THREE.Vector3(0, 1, 0);
+
+function fieldLines(f: ForceField): THREE.BufferGeometry {
+  const r = f.radius;
+  const points: number[] = [];
+  const segment = (a: number[], b: number[]) => points.push(a[0], a[1], a[2], b[0], b[1], b[2]);
+  // Circle of radius r in the plane of axes u and v
+  const ring = (u: number, v: number, radius: number, y = 0) => {
+    const at = (k: number) => {
+      const p = [0, y, 0];
+      const angle = k / RING_SEGMENTS * Math.PI * 2;
+      p[u] += Math.cos(angle) * radius;
+      p[v] += Math.sin(angle) * radius;
+      return p;
+    };
+    for (let k = 0; k < RING_SEGMENTS; k++) segment(at(k), at(k + 1));
+  };
+  const arrow = (from: number[], to: number[]) => {
+    segment(from, to);
+    const d = [0, 1, 2].map(a => to[a] - from[a]);
+    const len = Math.hypot(d[0], d[1], d[2]) || 1;
+    const u = d.map(x => x / len);
+    // Any direction across the shaft for the head
+    const side = Math.abs(u[1]) < 0.9 ? [u[2], 0, -u[0]] : [0, -u[2], u[1]];
+    const head = Math.min(0.2, len * 0.3);
+    for (const sign of [-1, 1]) segment(to, [0, 1, 2].map(a => to[a] - u[a] * head + side[a] * sign * head * 0.5));
+  };
+
+  if (f.type === 'wind') {
+    ring(0, 2, r);
+    arrow([0, -r * 0.5, 0], [0, r * 0.5, 0]);
+    for (const [x, z] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) arrow([x * r * 0.5, -r * 0.25, z * r * 0.5], [x * r * 0.5, r * 0.25, z * r * 0.5]);
+  } else if (f.type === 'vortex') {
+    segment([0, -r, 0], [0, r, 0]);
+    ring(0, 2, r);
+    ring(0, 2, r * 0.5);
+    // Swirl direction: axis x radius, -z at +x
+    for (let k = 0; k < 4; k++) {
+      const angle = k * Math.PI / 2;
+      const p = [Math.cos(angle) * r * 0.5, 0, Math.sin(angle) * r * 0.5];
+      const t = [Math.sin(angle), 0, -Math.cos(angle)];
+      arrow(p.map((x, a) => x - t[a] * 0.15), p.map((x, a) => x + t[a] * 0.15));
+    }
+  } else {
+    ring(0, 1, r);
+    ring(1, 2, r);
+    ring(0, 2, r);
+    if (f.type === 'attractor') {
+      // Arrows towards the center, away from it when repelling
+      const inward = f.strength >= 0;
+      for (const u of [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]]) {
+        const outer = u.map(x => x * r * 0.6), inner = u.map(x => x * r * 0.25);
+        if (inward) arrow(outer, inner); else arrow(inner, outer);
+      }
+    } else {
+      // Rings of eddy size inside the reach
+      const eddy = Math.min(f.scale * 0.5, r * 0.5);
+      for (const [x, z] of [[0.5, 0], [-0.5, 0.3], [0, -0.5]]) {
+        const centerRing = (k: number) => {
+          const angle = k / RING_SEGMENTS * Math.PI * 2;
+          return [x * r + Math.cos(angle) * eddy, Math.sin(angle) * eddy, z * r];
+        };
+        for (let k = 0; k < RING_SEGMENTS; k++) segment(centerRing(k), centerRing(k + 1));
+      }
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(points, 3));
+  return geometry;
+}
+
+// Replace the gizmos in `group` with one per force field, in the order of `fields`
+export function syncForceFieldMeshes(group: THREE.Group, fields: readonly ForceField[]): void {
+  for (const child of [...group.children]) {
+    (child as THREE.LineSegments).geometry.dispose();
+    group.remove(child);
+  }
+
+  for (const f of fields.slice(0, MAX_FORCE_FIELDS)) {
+    group.add(new THREE.LineSegments(fieldLines(f), f.enabled ? fieldMaterial : disabledMaterial));
+  }
+}
+
+const packed = createPackedForceFields();
+const axis = new THREE.Vector3();
+
+// Move the gizmos built by syncForceFieldMeshes to the fields as animated at `time`
+export function poseForceFieldMeshes(group: THREE.Group, fields: readonly ForceField[], time: number): void {
+  group.children.forEach((mesh, k) => {
+    const f = fields[k];
+    if (!f) return;
+    packForceFields([{ ...f, enabled: true }], time, packed);
+    mesh.position.fromArray(packed.centers);
+    mesh.quaternion.setFromUnitVectors(UP, axis.fromArray(packed.axes));
+    // Pulsing fields breathe with their strength
+    const share = f.strength !== 0 ? packed.shapes[3] / f.strength : 1;
+    mesh.scale.setScalar(0.75 + 0.25 * share);
+  });
+}
@@ -0,0 +1,48 @@
+import * as THREE from 'three';
+import { Obstacle } from '../types';
+import { MAX_OBSTACLES } from '../services/obstacles';
+
+// Scene meshes for the static SDF obstacles (see services/obstacles.ts)
+// Meshes live in container space, so they rotate with the scene like the particles.
+
+const obstacleMaterial = new THREE.MeshStandardMaterial({
+  color: 0x8a97a8,
+  roughness: 0.55,
+  metalness: 0.1,
+  side: THREE.DoubleSide
+});
+
+function createObstacleGeometry(o: Obstacle, boundarySize: number): THREE.BufferGeometry {
+  const [a, b, c] = o.size;
+  switch (o.shape) {
+    case 'sphere': return new THREE.SphereGeometry(a, 32, 16);
+    case 'box': return new THREE.BoxGeometry(a * 2, b * 2, c * 2);
+    case 'capsule': return new THREE.CapsuleGeometry(a, b * 2, 8, 24);
+    case 'cylinder': return new THREE.CylinderGeometry(a, a, b * 2, 32);
+    case 'plane': {
+      // Solid below the local xz plane: draw its top face across the container
+      const geometry = new THREE.PlaneGeometry(boundarySize, boundarySize);
+      geometry.rotateX(-Math.PI / 2);
+      return geometry;
+    }
+  }
+}
+
+// Replace the meshes in `group` with one per simulated obstacle
+export function syncObstacleMeshes(group: THREE.Group, obstacles: readonly Obstacle[], boundarySize: number): void {
+  for (const child of [...group.children]) {
+    (child as THREE.Mesh).geometry.dispose();
+    group.remove(child);
+  }
+
+  for (const o of obstacles.slice(0, MAX_OBSTACLES)) {
+    const mesh = new THREE.Mesh(createObstacleGeometry(o, boundarySize), obstacleMaterial);
+    mesh.position.set(o.position[0], o.position[1], o.position[2]);
+    mesh.rotation.set(
+      THREE.MathUtils.degToRad(o.rotation[0]),
+      THREE.MathUtils.degToRad(o.rotation[1]),
+      THREE.MathUtils.degToRad(o.rotation[2])
+    );
+    group.add(mesh);
+  }
+}
@@ -0,0 +1,105 @@
+// GLSL compile check for every generated shader
+// Wraps each exported shader in the prefix three.js puts in front of a
+// ShaderMaterial on WebGL2 (GLSL ES 3.00, precision, the texture2D /
+// gl_FragColor / attribute / varying aliases and the built-in uniforms) and
+// runs glslangValidator on it, so a shader that would fail to compile in the
+// browser fails the parity run too. Stages compile separately, not linked.
+
+import { execFileSync } from 'child_process';
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import glslang from 'glslang-validator-prebuilt-predownloaded';
+import * as physicsShaders from '../shaders/physicsShaders';
+import * as fluidShaders from '../shaders/fluidShaders';
+import * as diffuseShaders from '../shaders/diffuseShaders';
+
+const PRECISION = `
+precision highp float;
+precision highp int;
+precision highp sampler2D;
+precision highp samplerCube;
+precision highp sampler3D;
+precision highp sampler2DArray;
+precision highp isampler2D;
+precision highp usampler2D;
+`;
+
+const VERTEX_PREFIX = `#version 300 es
+${PRECISION}
+#define attribute in
+#define varying out
+#define texture2D texture
+uniform mat4 modelMatrix;
+uniform mat4 modelViewMatrix;
+uniform mat4 projectionMatrix;
+uniform mat4 viewMatrix;
+uniform mat3 normalMatrix;
+uniform vec3 cameraPosition;
+uniform bool isOrthographic;
+attribute vec3 position;
+attribute vec3 normal;
+attribute vec2 uv;
+`;
+
+const FRAGMENT_PREFIX = `#version 300 es
+${PRECISION}
+#define varying in
+layout(location = 0) out highp vec4 pc_fragColor;
+#define gl_FragColor pc_fragColor
+#define texture2D texture
+uniform mat4 viewMatrix;
+uniform vec3 cameraPosition;
+uniform bool isOrthographic;
+`;
+
+// Factories that take parameters, with the values FluidSimulator starts with;
+// parameterless factories and plain strings are picked up from the exports
+const PARAMETERIZED: Record<string, string> = {
+  'createBlurFragmentShader(15, 30)': fluidShaders.createBlurFragmentShader(15, 30),
+  'createDepthFragmentShader(0.45)': fluidShaders.createDepthFragmentShader(0.45),
+  'createThicknessFragmentShader(0.05)': fluidShaders.createThicknessFragmentShader(0.05)
+};
+
+function collectShaders(): Map<string, string> {
+  const shaders = new Map<string, string>();
+  for (const module of [physicsShaders, fluidShaders, diffuseShaders]) {
+    for (const [name, value] of Object.entries(module)) {
+      const source = typeof value === 'string' ? value :
+        typeof value === 'function' && value.length === 0 ? (value as () => string)() : null;
+      // Shared snippets such as containerCommon are only compiled as part of a shader
+      if (source !== null && source.includes('void main')) shaders.set(name, source);
+    }
+  }
+  for (const [name, source] of Object.entries(PARAMETERIZED)) shaders.set(name, source);
+  return shaders;
+}
+
+// Returns the number of shaders that failed to compile
+export function compileShaders(): number {
+  const validator: string = glslang.path;
+  chmodSync(validator, 0o755);  // The package ships the binary without the executable bit
+  const dir = mkdtempSync(join(tmpdir(), 'shaders-'));
+  const shaders = collectShaders();
+  let failures = 0;
+
+  try {
+    for (const [name, source] of shaders) {
+      const vertex = /VertexShader/.test(name);
+      const file = join(dir, `${name.replace(/[^A-Za-z0-9]/g, '_')}.${vertex ? 'vert' : 'frag'}`);
+      writeFileSync(file, (vertex ? VERTEX_PREFIX : FRAGMENT_PREFIX) + source);
+      try {
+        execFileSync(validator, [file], { encoding: 'utf8' });
+      } catch (error) {
+        failures++;
+        const output = (error as { stdout?: string }).stdout ?? String(error);
+        console.log(`FAIL  shader ${name}\n${output.trim()}`);
+      }
+    }
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`${shaders.size - failures}/${shaders.size} shaders compile`);
+  return failures;
+}
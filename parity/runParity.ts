@@ -0,0 +1,655 @@
+// CPU-vs-GPU parity harness
+// Runs reference scenes through FluidEngine and the GLSL-semantics reference of
+// the shader passes, comparing positions, densities and velocities after every
+// step. Runs in lockstep: the CPU engine starts each step from the reference
+// state, because splashing scenes amplify float32 rounding ~3x per step and a
+// free run would measure chaos instead of drift. After each scene the CPU
+// engine's readParticles is checked against the fluid slots. GPUFluidEngine's
+// own JavaScript (pass order, uniforms, readbacks) needs WebGL and is not run
+// here; shaderReference.ts mirrors it by hand. Compiles every generated shader
+// first (compileShaders.ts). Exits non-zero when a shader fails to compile, a
+// scene exceeds its tolerances or a readback does not match.
+//
+//   npm run parity
+
+import { FluidConfig } from '../types';
+import { FluidEngine } from '../services/FluidEngine';
+import { boundarySpacing, copyBodyMotion, RigidBodyDesc } from '../services/rigidBodies';
+import { DEFAULT_CONTAINER_SDF } from '../services/sdfExpression';
+import { BrushStroke } from '../services/brush';
+import { FrameMotion } from '../services/containerMotion';
+import { cflSubsteps } from '../services/timeStep';
+import { BASE_FRAME_TIME } from '../services/SimulationClock';
+import { ShaderReference } from './shaderReference';
+import { compileShaders } from './compileShaders';
+
+interface Scene {
+  name: string;
+  config: Partial<FluidConfig>;
+  spawns: { count: number; origin: [number, number, number]; atStep: number; phase?: number; temperature?: number }[];
+  bodies?: { body: Omit<RigidBodyDesc, 'spacing'>; atStep: number }[];
+  compactAt?: number[];   // Steps starting with an on-demand compaction
+  brush?: { stroke: BrushStroke; fromStep: number; toStep: number };  // Cursor brush held over [fromStep, toStep)
+  switchAt?: number[];    // Steps starting with an exportState / importState into a fresh engine
+  frame?: { motion: FrameMotion; fromStep: number; toStep: number };  // Container motion over [fromStep, toStep)
+  adaptive?: boolean;  // Split each 1/60 s step into cflSubsteps of the reference's max speed
+  gravity: [number, number, number];
+  steps: number;
+}
+
+interface Tolerance {
+  position: number;   // Absolute, world units
+  velocity: number;   // Absolute, units / s
+  density: number;    // Relative to the reference density
+  temperature: number;  // Absolute, normalized temperature
+}
+
+// Single-step error of float64 CPU math against float32 textures.
+// Velocities are position deltas / dt, so they carry 60x the position error.
+const TOLERANCE: Tolerance = { position: 1e-4, velocity: 1e-2, density: 1e-4, temperature: 1e-4 };
+
+const BASE_CONFIG: FluidConfig = {
+  particleRadius: 0.3,
+  visualRatio: 1.2,
+  viscosity: 0.04,
+  gravity: 15.0,
+  restDensity: 50.0,
+  stiffness: 500.0,
+  surfaceTension: 0.05,
+  adhesion: 0,
+  material: 'fluid',
+  solver: 'pbf',
+  pbfRelaxation: 0.1,
+  pbfTensileK: 0.05,
+  vorticityEpsilon: 0,
+  staticFriction: 0.6,
+  kineticFriction: 0.4,
+  rheology: { model: 'newtonian', flowIndex: 1, yieldStress: 0 },
+  substeps: 1,
+  solverIterations: 3,
+  timeScale: 1.0,
+  adaptiveTimestep: false,
+  cflNumber: 0.4,
+  maxParticles: 2000,
+  backend: 'cpu',
+  seed: 1,
+  rotationX: 0,
+  rotationY: 0,
+  rotationZ: 0,
+  boundarySize: 10,
+  container: { shape: 'box', extents: [1, 1, 1], sdf: DEFAULT_CONTAINER_SDF },
+  wallRestitution: 0.2,
+  wallStaticFriction: 0,
+  wallKineticFriction: 0,
+  inertialForces: 1,
+  shaking: false,
+  shakeAmplitude: [0, 0, 0],
+  shakeFrequency: 1,
+  interaction: 'rotate',
+  brushMode: 'push',
+  brushRadius: 2,
+  brushStrength: 0.5,
+  obstacles: [],
+  emitters: [],
+  drains: [],
+  forceFields: [],
+  rigidBodyDensity: 0.5,
+  rigidBodySize: 0.8,
+  phases: [],
+  interfaceTension: 0,
+  injectPhase: 0,
+  injectTemperature: 0.5,
+  heatDiffusion: 0,
+  floorTemperature: 0.5,
+  wallTemperature: 0.5,
+  wallHeatTransfer: 0,
+  viscosityCurve: { cold: 1, hot: 1 },
+  cohesionCurve: { cold: 1, hot: 1 },
+  renderMode: 'dot',
+  colorMode: 'phase',
+  renderScale: 0.5,
+  blurRadius: 0,
+  blurDepthFalloff: 0,
+  showContainer: false,
+  diffuseParticles: false,
+  diffuseEmission: 4,
+  diffuseLifetime: 3,
+  ior: 1.33,
+  refractionStrength: 0,
+  fresnelPower: 1,
+  fresnelIntensity: 0,
+  fresnelBias: 0,
+  specularPower: 4,
+  specularIntensity: 0,
+  edgeSampleRadius: 1,
+  edgeSmoothness: 1,
+  depthZOffset: 0.1,
+  thicknessIntensity: 0,
+  absorptionDensity: 0,
+  waterTintR: 0,
+  waterTintG: 0,
+  waterTintB: 0,
+  reflectionIntensity: 0
+};
+
+const SCENES: Scene[] = [
+  {
+    name: 'pbf block falling onto the floor',
+    config: { solver: 'pbf' },
+    spawns: [{ count: 1000, origin: [0, -2.5, 0], atStep: 0 }],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'pbf second batch landing on the first',
+    config: { solver: 'pbf', seed: 42 },
+    spawns: [
+      { count: 600, origin: [0, -3.5, 0], atStep: 0 },
+      { count: 300, origin: [0.5, 0, 0], atStep: 10 }
+    ],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'pressure solver with cohesion',
+    config: { solver: 'pressure', surfaceTension: 0.5 },
+    spawns: [{ count: 800, origin: [0, -3, 0], atStep: 0 }],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'block poured over every obstacle shape',
+    config: {
+      solver: 'pbf',
+      obstacles: [
+        { id: 1, shape: 'sphere', position: [-1.5, -1, 0], rotation: [0, 0, 0], size: [1, 0, 0], friction: 0.2, restitution: 0.3, temperature: 0.5, heatTransfer: 0 },
+        { id: 2, shape: 'box', position: [1.5, -1.5, 0], rotation: [20, 0, 30], size: [1, 0.5, 1], friction: 0.5, restitution: 0, temperature: 0.5, heatTransfer: 0 },
+        { id: 3, shape: 'capsule', position: [0, -2.5, 1.5], rotation: [0, 0, 90], size: [0.5, 1, 0], friction: 0.1, restitution: 0.5, temperature: 0.5, heatTransfer: 0 },
+        { id: 4, shape: 'cylinder', position: [0, -3, -1.5], rotation: [90, 0, 0], size: [0.6, 1, 0], friction: 0.3, restitution: 0.2, temperature: 0.5, heatTransfer: 0 },
+        { id: 5, shape: 'plane', position: [0, -4, 0], rotation: [0, 0, 15], size: [0, 0, 0], friction: 0.05, restitution: 0, temperature: 0.5, heatTransfer: 0 }
+      ]
+    },
+    spawns: [{ count: 1000, origin: [0, 2, 0], atStep: 0 }],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'sideways gravity into a wall',
+    config: { solver: 'pbf', viscosity: 0.5 },
+    spawns: [{ count: 500, origin: [2.5, 0, 0], atStep: 0 }],
+    gravity: [9.8, -2.0, 0],
+    steps: 60
+  },
+  {
+    name: 'pbf dam break with vorticity confinement',
+    config: { solver: 'pbf', vorticityEpsilon: 1.5 },
+    spawns: [{ count: 800, origin: [-2.5, -1.5, -2], atStep: 0 }],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'box and ball dropped into a pool',
+    config: { solver: 'pbf' },
+    spawns: [{ count: 1500, origin: [0, -3, 0], atStep: 0 }],
+    bodies: [
+      { body: { shape: 'box', halfExtents: [0.8, 0.5, 0.8], density: 0.5, position: [-1.5, 1, 0] }, atStep: 0 },
+      { body: { shape: 'sphere', halfExtents: [0.7, 0.7, 0.7], density: 2.0, position: [1.5, 2, 0] }, atStep: 5 }
+    ],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'pbf oil poured onto water',
+    config: {
+      solver: 'pbf',
+      interfaceTension: 0.5,
+      phases: [{ name: 'Oil', density: 0.7, viscosity: 0.3, surfaceTension: 0.03, color: [0.9, 0.65, 0.1] }]
+    },
+    spawns: [
+      { count: 900, origin: [0, -3, 0], atStep: 0 },
+      { count: 500, origin: [0, 1, 0], atStep: 0, phase: 1 }
+    ],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'pressure solver honey into water',
+    config: {
+      solver: 'pressure',
+      surfaceTension: 0.5,
+      interfaceTension: 1,
+      phases: [{ name: 'Honey', density: 1.4, viscosity: 3, surfaceTension: 0.8, color: [0.75, 0.45, 0.05] }]
+    },
+    spawns: [
+      { count: 700, origin: [0, -3, 0], atStep: 0 },
+      { count: 300, origin: [0.5, 0.5, 0], atStep: 5, phase: 1 }
+    ],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'pressure solver lava on a hot floor',
+    config: {
+      solver: 'pressure',
+      surfaceTension: 0.5,
+      heatDiffusion: 2,
+      floorTemperature: 1,
+      wallTemperature: 0,
+      wallHeatTransfer: 3,
+      viscosityCurve: { cold: 8, hot: 0.5 },
+      cohesionCurve: { cold: 2, hot: 0.5 },
+      obstacles: [
+        { id: 1, shape: 'sphere', position: [0, -2, 0], rotation: [0, 0, 0], size: [0.8, 0, 0], friction: 0.1, restitution: 0, temperature: 1, heatTransfer: 4 }
+      ]
+    },
+    spawns: [
+      { count: 600, origin: [0, 1.5, 0], atStep: 0, temperature: 0 },
+      { count: 300, origin: [2, 2.5, 2], atStep: 20, temperature: 1 }
+    ],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'pbf Herschel-Bulkley ketchup over a ball',
+    config: {
+      solver: 'pbf',
+      viscosity: 1,
+      rheology: { model: 'herschelBulkley', flowIndex: 0.5, yieldStress: 2 },
+      phases: [{ name: 'Honey', density: 1.4, viscosity: 3, surfaceTension: 0.08, color: [0.75, 0.4, 0.05] }]
+    },
+    spawns: [
+      { count: 600, origin: [0, -3, 0], atStep: 0 },
+      { count: 300, origin: [1.5, 1, 0], atStep: 0, phase: 1 }
+    ],
+    bodies: [
+      { body: { shape: 'sphere', halfExtents: [0.7, 0.7, 0.7], density: 2.0, position: [-1, 1.5, 0] }, atStep: 0 }
+    ],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'pressure solver shear-thickening power law',
+    config: {
+      solver: 'pressure',
+      surfaceTension: 0.5,
+      viscosity: 0.5,
+      rheology: { model: 'powerLaw', flowIndex: 1.8, yieldStress: 0 }
+    },
+    spawns: [{ count: 800, origin: [2, 0, 0], atStep: 0 }],
+    gravity: [-9.8, -9.8, 0],
+    steps: 60
+  },
+  {
+    name: 'sand poured into a pile around a box',
+    config: { material: 'granular', staticFriction: 0.7, kineticFriction: 0.5 },
+    spawns: [
+      { count: 600, origin: [0, -2, 0], atStep: 0 },
+      { count: 300, origin: [0.5, 1.5, 0], atStep: 15 }
+    ],
+    bodies: [
+      { body: { shape: 'box', halfExtents: [0.6, 0.6, 0.6], density: 1.5, position: [2, 0, 0] }, atStep: 0 }
+    ],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'emitters filling a tank with a floor drain',
+    config: {
+      solver: 'pbf',
+      emitters: [
+        { id: 1, shape: 'disc', position: [0, 3, 0], direction: [0, -1, 0], size: [0.8, 0, 0], speed: 4, rate: 600, phase: 0, temperature: 0.8, enabled: true },
+        { id: 2, shape: 'point', position: [-4, 1, 0], direction: [1, 0.3, 0], size: [0, 0, 0], speed: 6, rate: 240, phase: 0, temperature: 0.5, enabled: true },
+        { id: 3, shape: 'box', position: [2, 2, 2], direction: [0, 0, -1], size: [0.5, 0.5, 0.5], speed: 2, rate: 150, phase: 0, temperature: 0.2, enabled: true }
+      ],
+      drains: [{ id: 1, position: [3.5, -4.5, 0], size: [1.5, 0.6, 5] }]
+    },
+    spawns: [{ count: 400, origin: [2.5, -3.5, 0], atStep: 0 }],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    // Full from step ~20 on, so every draining step compacts before emitting
+    name: 'compaction under a full emitter with a floating box',
+    config: {
+      solver: 'pbf',
+      maxParticles: 900,
+      emitters: [
+        { id: 1, shape: 'point', position: [3, 3, 0], direction: [-1, -1, 0], size: [0, 0, 0], speed: 5, rate: 1200, phase: 0, temperature: 0.7, enabled: true }
+      ],
+      drains: [{ id: 1, position: [-3.5, -4.5, 0], size: [1.5, 0.6, 5] }]
+    },
+    spawns: [{ count: 400, origin: [-2, -3, 0], atStep: 0 }],
+    bodies: [
+      { body: { shape: 'box', halfExtents: [0.6, 0.6, 0.6], density: 0.5, position: [2, -2, 0] }, atStep: 0 }
+    ],
+    compactAt: [15],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'pbf pour into a heated bowl with a ball',
+    config: {
+      solver: 'pbf',
+      container: { shape: 'bowl', extents: [0.8, 1, 1], sdf: DEFAULT_CONTAINER_SDF },
+      floorTemperature: 1,
+      wallTemperature: 0.2,
+      wallHeatTransfer: 0.8
+    },
+    spawns: [{ count: 800, origin: [1.5, 0, 0], atStep: 0, temperature: 0.3 }],
+    bodies: [
+      { body: { shape: 'sphere', halfExtents: [0.7, 0.7, 0.7], density: 0.6, position: [-1.5, 1, 0] }, atStep: 0 }
+    ],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'sand through a custom hourglass container',
+    config: {
+      material: 'granular',
+      staticFriction: 0.5,
+      kineticFriction: 0.4,
+      container: { shape: 'custom', extents: [1, 1, 1], sdf: DEFAULT_CONTAINER_SDF }
+    },
+    spawns: [{ count: 600, origin: [0, 2.5, 0], atStep: 0 }],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'pbf film clinging to walls and a ball with adhesion',
+    config: {
+      solver: 'pbf',
+      adhesion: 1,
+      container: { shape: 'cylinder', extents: [0.7, 1, 1], sdf: DEFAULT_CONTAINER_SDF },
+      obstacles: [
+        { id: 1, shape: 'sphere', position: [0, -0.5, 0], rotation: [0, 0, 0], size: [1, 0, 0], friction: 0.2, restitution: 0, temperature: 0.5, heatTransfer: 0 }
+      ]
+    },
+    spawns: [{ count: 800, origin: [0, 2, 0], atStep: 0 }],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'sph droplets sticking to a box obstacle with adhesion',
+    config: {
+      adhesion: 0.8,
+      obstacles: [
+        { id: 1, shape: 'box', position: [0, -1, 0], rotation: [0, 0, 25], size: [1.2, 0.4, 1.2], friction: 0.2, restitution: 0, temperature: 0.5, heatTransfer: 0 }
+      ]
+    },
+    spawns: [{ count: 600, origin: [0, 2, 0], atStep: 0 }],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'sideways slosh over a sticky floor with slippery walls',
+    config: {
+      wallRestitution: 0.5,
+      wallStaticFriction: 0.1,
+      wallKineticFriction: 0.05,
+      container: {
+        shape: 'box', extents: [1, 1, 1], sdf: DEFAULT_CONTAINER_SDF,
+        faces: { floor: { restitution: 0, staticFriction: 1.5, kineticFriction: 1 } }
+      }
+    },
+    spawns: [{ count: 800, origin: [-1.5, -1.5, 0], atStep: 0 }],
+    gravity: [12, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'pbf pool stirred by a vortex brush',
+    config: { brushMode: 'vortex', brushRadius: 2.5, brushStrength: 0.6 },
+    spawns: [{ count: 1000, origin: [0, -3, 0], atStep: 0 }],
+    brush: { stroke: { center: [0, -3.5, 0], velocity: [0, 0, 0], axis: [0, -1, 0] }, fromStep: 15, toStep: 45 },
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'pressure solver dragged by a spoon brush',
+    config: { solver: 'pressure', brushMode: 'spoon', brushRadius: 2, brushStrength: 0.8 },
+    spawns: [{ count: 800, origin: [0, -3, 0], atStep: 0 }],
+    brush: { stroke: { center: [-1, -3.5, 0], velocity: [6, 2, 0], axis: [0, 0, -1] }, fromStep: 10, toStep: 40 },
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'sand pile pulled towards a brush',
+    config: { material: 'granular', brushMode: 'pull', brushRadius: 2.5, brushStrength: 0.3 },
+    spawns: [{ count: 600, origin: [0, 0, 0], atStep: 0 }],
+    brush: { stroke: { center: [0, -3, 0], velocity: [0, 0, 0], axis: [0, 0, -1] }, fromStep: 25, toStep: 55 },
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'wind and an orbiting attractor over a pbf pool',
+    config: {
+      forceFields: [
+        { id: 1, type: 'wind', position: [-2, -3, 0], direction: [1, 0.3, 0], radius: 4, falloff: 1, strength: 25, scale: 1, animation: 'pulse', frequency: 1.5, enabled: true },
+        { id: 2, type: 'attractor', position: [2, -2, 0], direction: [0, 1, 0], radius: 3, falloff: 2, strength: 40, scale: 1, animation: 'orbit', frequency: 0.8, enabled: true }
+      ]
+    },
+    spawns: [{ count: 1000, origin: [0, -3, 0], atStep: 0 }],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'pressure solver stirred by a spinning vortex and turbulence',
+    config: {
+      solver: 'pressure',
+      forceFields: [
+        { id: 1, type: 'vortex', position: [0, -3, 0], direction: [0.3, 1, 0], radius: 4, falloff: 1, strength: 30, scale: 1, animation: 'spin', frequency: 0.5, enabled: true },
+        { id: 2, type: 'turbulence', position: [0, -3, 0], direction: [0, 1, 0], radius: 5, falloff: 0.5, strength: 40, scale: 1.5, animation: 'none', frequency: 1, enabled: true },
+        { id: 3, type: 'wind', position: [0, 0, 0], direction: [0, 1, 0], radius: 10, falloff: 0, strength: 100, scale: 1, animation: 'none', frequency: 1, enabled: false }
+      ]
+    },
+    spawns: [{ count: 800, origin: [0, -3, 0], atStep: 0 }],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    // No drains or bodies, so the exported slots keep the reference's order
+    name: 'emitter under a pulsing wind handed across backend switches',
+    config: {
+      emitters: [
+        { id: 1, shape: 'point', position: [-3, 2, 0], direction: [1, 0, 0], size: [0, 0, 0], speed: 4, rate: 250, phase: 0, temperature: 0.5, enabled: true },
+        { id: 2, shape: 'disc', position: [2, 3, 0], direction: [0, -1, 0], size: [0.6, 0, 0], speed: 3, rate: 130, phase: 0, temperature: 0.5, enabled: true }
+      ],
+      forceFields: [
+        { id: 1, type: 'wind', position: [0, -3, 0], direction: [1, 0.2, 0], radius: 5, falloff: 1, strength: 30, scale: 1, animation: 'pulse', frequency: 1.3, enabled: true }
+      ]
+    },
+    spawns: [{ count: 400, origin: [0, -3, 0], atStep: 0 }],
+    switchAt: [20, 41],
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'pbf tank jerked sideways and spun about a tilted axis',
+    config: {},
+    spawns: [{ count: 1000, origin: [0, -3, 0], atStep: 0 }],
+    frame: { motion: { acceleration: [12, 0, -4], angularVelocity: [0.4, 1.5, 0], angularAcceleration: [0, 0, 3] }, fromStep: 15, toStep: 45 },
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'pressure solver sloshing a floating box in a half-strength frame',
+    config: { solver: 'pressure', inertialForces: 0.5 },
+    spawns: [{ count: 800, origin: [0, -3, 0], atStep: 0 }],
+    bodies: [
+      { body: { shape: 'box', halfExtents: [0.6, 0.4, 0.6], density: 0.5, position: [0, -1, 0] }, atStep: 0 }
+    ],
+    frame: { motion: { acceleration: [-10, 5, 0], angularVelocity: [0, 0, 2], angularAcceleration: [1, 0, 0] }, fromStep: 10, toStep: 50 },
+    gravity: [0, -15, 0],
+    steps: 60
+  },
+  {
+    name: 'pbf block dropped from the top with adaptive substeps',
+    config: { adaptiveTimestep: true, cflNumber: 0.1 },
+    spawns: [{ count: 800, origin: [0, 2.5, 0], atStep: 0 }],
+    adaptive: true,
+    gravity: [0, -15, 0],
+    steps: 50
+  },
+  {
+    name: 'pressure solver slammed by strong gravity with adaptive substeps',
+    config: { solver: 'pressure', adaptiveTimestep: true, cflNumber: 0.2, substeps: 2 },
+    spawns: [{ count: 800, origin: [0, 1, 0], atStep: 0 }],
+    adaptive: true,
+    gravity: [-20, -40, 0],
+    steps: 40
+  }
+];
+
+interface Drift {
+  position: number;
+  velocity: number;
+  density: number;
+  temperature: number;
+}
+
+function compare(cpu: FluidEngine, gpu: ShaderReference, config: FluidConfig): Drift {
+  const drift: Drift = { position: 0, velocity: 0, density: 0, temperature: 0 };
+  for (let i = 0; i < cpu.particleCount; i++) {
+    for (let a = 0; a < 3; a++) {
+      drift.position = Math.max(drift.position, Math.abs(cpu.positions[i * 3 + a] - gpu.position[i * 4 + a]));
+    }
+    // Drained slots only have to be parked in both; the rest of their state is stale
+    if (gpu.position[i * 4 + 3] < 0.5) continue;
+    for (let a = 0; a < 3; a++) {
+      drift.velocity = Math.max(drift.velocity, Math.abs(cpu.velocities[i * 3 + a] - gpu.velocity[i * 4 + a]));
+    }
+    // Sand has no density solve
+    if (config.material !== 'granular') {
+      const reference = gpu.getDensity(i, config.solver);
+      drift.density = Math.max(drift.density, Math.abs(cpu.densities[i] - reference) / Math.max(1e-6, Math.abs(reference)));
+    }
+    drift.temperature = Math.max(drift.temperature, Math.abs(cpu.temperatures[i] - gpu.temperature[i * 4]));
+  }
+  // The max-speed reduction the adaptive step reads
+  drift.velocity = Math.max(drift.velocity, Math.abs(cpu.maxSpeed() - gpu.maxSpeed()));
+  gpu.rigidBodies.bodies.forEach((body, k) => {
+    const other = cpu.rigidBodies.bodies[k];
+    drift.position = Math.max(drift.position, body.center.distanceTo(other.center));
+    drift.velocity = Math.max(drift.velocity, body.linearVelocity.distanceTo(other.linearVelocity));
+  });
+  return drift;
+}
+
+function syncFromReference(cpu: FluidEngine, gpu: ShaderReference): void {
+  for (let i = 0; i < gpu.particleCount; i++) {
+    for (let a = 0; a < 3; a++) {
+      cpu.positions[i * 3 + a] = gpu.position[i * 4 + a];
+      cpu.velocities[i * 3 + a] = gpu.velocity[i * 4 + a];
+    }
+    cpu.temperatures[i] = gpu.temperature[i * 4];
+  }
+  gpu.rigidBodies.bodies.forEach((body, k) => copyBodyMotion(body, cpu.rigidBodies.bodies[k]));
+}
+
+// Hands the engine's state to a fresh engine the way a backend switch does;
+// null when the clock, the emitter carries or the seed sequence did not survive
+function switchEngine(engine: FluidEngine, config: FluidConfig): FluidEngine | null {
+  const state = engine.exportState();
+  const fresh = new FluidEngine(config);
+  fresh.importState(state);
+  const carried = fresh.exportState();
+  const emission = carried.emission.size === state.emission.size &&
+    [...state.emission].every(([id, owed]) => carried.emission.get(id) === owed);
+  return emission && carried.time === state.time && carried.spawnBatch === state.spawnBatch ? fresh : null;
+}
+
+// readParticles must hold exactly the fluid slots (by the reference's slot
+// types) in slot order, each with that slot's position, velocity and density
+async function checkReadback(cpu: FluidEngine, gpu: ShaderReference, config: FluidConfig): Promise<boolean> {
+  const readback = await cpu.readParticles();
+  const fluid: number[] = [];
+  for (let i = 0; i < gpu.particleCount; i++) {
+    const w = gpu.position[i * 4 + 3];
+    if (w >= 0.5 && w < 1.5) fluid.push(i);
+  }
+  if (readback.count !== fluid.length || readback.slots.length !== fluid.length) return false;
+  // Sand solves no densities, so the readback reports 0
+  const granular = config.material === 'granular';
+  return fluid.every((slot, k) => readback.slots[k] === slot &&
+    readback.densities[k] === (granular ? 0 : cpu.densities[slot]) &&
+    [0, 1, 2].every(a => readback.positions[k * 3 + a] === cpu.positions[slot * 3 + a] &&
+      readback.velocities[k * 3 + a] === cpu.velocities[slot * 3 + a]));
+}
+
+async function runScene(scene: Scene): Promise<boolean> {
+  const config: FluidConfig = { ...BASE_CONFIG, ...scene.config };
+  let cpu = new FluidEngine(config);
+  const gpu = new ShaderReference(config);
+  const worst: Drift = { position: 0, velocity: 0, density: 0, temperature: 0 };
+  let failedAt = -1;
+
+  for (let step = 0; step < scene.steps; step++) {
+    if (scene.compactAt?.includes(step)) {
+      cpu.compact();
+      gpu.compact();
+    }
+    for (const spawn of scene.spawns) {
+      if (spawn.atStep !== step) continue;
+      cpu.addParticles(spawn.count, spawn.origin, spawn.phase, spawn.temperature);
+      gpu.addParticles(spawn.count, spawn.origin, spawn.phase, spawn.temperature);
+    }
+    for (const { body, atStep } of scene.bodies ?? []) {
+      if (atStep !== step) continue;
+      const desc = { ...body, spacing: boundarySpacing(config.particleRadius, config.visualRatio) };
+      cpu.addRigidBody(desc);
+      gpu.addRigidBody(desc);
+    }
+    if (scene.brush) {
+      const held = step >= scene.brush.fromStep && step < scene.brush.toStep;
+      cpu.setBrush(held ? scene.brush.stroke : null);
+      gpu.setBrush(held ? scene.brush.stroke : null);
+    }
+    if (scene.switchAt?.includes(step)) {
+      const switched = switchEngine(cpu, config);
+      if (switched) cpu = switched;
+      else if (failedAt < 0) failedAt = step;
+    }
+    if (scene.frame) {
+      const moving = step >= scene.frame.fromStep && step < scene.frame.toStep;
+      cpu.setFrameMotion(moving ? scene.frame.motion : null);
+      gpu.setFrameMotion(moving ? scene.frame.motion : null);
+    }
+    const substeps = scene.adaptive ? cflSubsteps(gpu.maxSpeed(), Math.hypot(...scene.gravity), config) : 1;
+    for (let sub = 0; sub < substeps; sub++) {
+      syncFromReference(cpu, gpu);
+      cpu.step(BASE_FRAME_TIME / substeps, config, scene.gravity);
+      gpu.step(BASE_FRAME_TIME / substeps, config, scene.gravity);
+
+      const drift = compare(cpu, gpu, config);
+      // Both sides must agree on which slots compaction kept
+      if (cpu.particleCount !== gpu.particleCount) drift.position = Infinity;
+      worst.position = Math.max(worst.position, drift.position);
+      worst.velocity = Math.max(worst.velocity, drift.velocity);
+      worst.density = Math.max(worst.density, drift.density);
+      worst.temperature = Math.max(worst.temperature, drift.temperature);
+      if (failedAt < 0 && (drift.position > TOLERANCE.position || drift.velocity > TOLERANCE.velocity ||
+        drift.density > TOLERANCE.density || drift.temperature > TOLERANCE.temperature)) {
+        failedAt = step;
+      }
+    }
+  }
+
+  const readbackOk = await checkReadback(cpu, gpu, config);
+  const ok = failedAt < 0 && readbackOk;
+  const summary = `position ${worst.position.toExponential(2)}  velocity ${worst.velocity.toExponential(2)}  ` +
+    `density ${worst.density.toExponential(2)}  temperature ${worst.temperature.toExponential(2)}`;
+  const reason = failedAt >= 0 ? `  first exceeded at step ${failedAt}` : readbackOk ? '' : '  readParticles does not match the fluid slots';
+  console.log(`${ok ? 'PASS' : 'FAIL'}  ${scene.name}  (${summary})${reason}`);
+  return ok;
+}
+
+async function main(): Promise<void> {
+  const shaderFailures = compileShaders();
+  let failures = 0;
+  for (const scene of SCENES) {
+    if (!(await runScene(scene))) failures++;
+  }
+  console.log(`${SCENES.length - failures}/${SCENES.length} scenes within tolerance`);
+  process.exitCode = failures + shaderFailures > 0 ? 1 : 0;
+}
+
+main();
@@ -0,0 +1,1172 @@
+// GLSL-semantics reference of the GPU compute passes
+// Each method ports one fragment shader from shaders/physicsShaders.ts and is
+// driven in the same order as GPUFluidEngine.step. Textures are RGBA
+// Float32Arrays indexed by particle slot, so every pass output is rounded to
+// float32 exactly like the RGBA32F render targets. Runs in Node, no WebGL needed.
+
+import { FluidConfig } from '../types';
+import { computeGridLayout, GridLayout } from '../services/SpatialGrid';
+import { latticeRestDensity } from '../services/sphKernels';
+import { batchSeed, hashUnit } from '../services/seededRandom';
+import { createPackedObstacles, packObstacles, PackedObstacles } from '../services/obstacles';
+import { createPackedContainer, packContainer, PackedContainer, packWallSurfaces } from '../services/container';
+import { BrushStroke, createPackedBrush, PackedBrush, packBrush } from '../services/brush';
+import { createPackedForceFields, PackedForceFields, packForceFields, TURBULENCE_WAVES } from '../services/forceFields';
+import { createPackedFrame, FrameMotion, PackedFrame, packFrame } from '../services/containerMotion';
+import { velocityLimit } from '../services/timeStep';
+import { ADHESION_STRENGTH, MAX_WALL_LAYERS } from '../services/wallBoundary';
+import {
+  BODY_MARKER,
+  createPackedBodies,
+  MAX_BODIES,
+  RigidBody,
+  RigidBodyDesc,
+  RigidBodySystem
+} from '../services/rigidBodies';
+import { createPackedPhases, interfacePush, packPhases } from '../services/phases';
+import { AMBIENT_TEMPERATURE, heatDiffusionRate } from '../services/thermal';
+import { effectiveViscosity, rheologyModelIndex, usesViscousForces } from '../services/rheology';
+import { stackingShare, stackingUp } from '../services/granular';
+import { compactionDue, createPackedDrains, EmissionClock, emitterPoint, insideDrain, packDrains } from '../services/emitters';
+
+type Texture = Float32Array;
+
+const PI = 3.14159265;
+
+// GLSL helpers shared by several shaders
+function poly6(r2: number, h2: number): number {
+  if (r2 >= h2) return 0;
+  const diff = h2 - r2;
+  const h9 = h2 * h2 * h2 * h2 * Math.sqrt(h2);
+  return 315.0 / (64.0 * PI * h9) * diff * diff * diff;
+}
+
+function spikyGradMag(d: number, h: number): number {
+  if (d >= h || d < 0.001) return 0;
+  const h6 = h * h * h * h * h * h;
+  return 45.0 / (PI * h6) * (h - d) * (h - d);
+}
+
+// vec3 spikyGrad(r, d, h): gradient of the spiky kernel with respect to x_i
+function spikyGrad(r: number[], d: number, h: number): number[] {
+  if (d >= h || d < 0.001) return [0, 0, 0];
+  const h6 = h * h * h * h * h * h;
+  const coeff = -45.0 / (PI * h6);
+  const term = (h - d) * (h - d);
+  return r.map(x => coeff * term * (x / d));
+}
+
+function cross(a: number[], b: number[]): number[] {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function cohesionKernel(d: number, h: number): number {
+  if (d >= h || d < 0.0001) return 0;
+  const hSafe = Math.max(h, 1.0);
+  const h2 = hSafe * hSafe;
+  const h3 = h2 * hSafe;
+  const h6 = h3 * h3;
+  const h9 = h6 * h3;
+  const k = 32.0 / (PI * h9);
+  const c = h6 / 64.0;
+  const hMinusR = h - d;
+  const hMinusR3 = hMinusR * hMinusR * hMinusR;
+  const r3 = d * d * d;
+  return d > 0.5 * h ? k * hMinusR3 * r3 : k * 2.0 * hMinusR3 * r3 - c;
+}
+
+// GLSL mix
+function mix(x: number, y: number, a: number): number {
+  return x * (1 - a) + y * a;
+}
+
+// clampLength(v, maxLen) in place on a 3-element array
+function clampLength(v: number[], maxLen: number): number[] {
+  const len = Math.hypot(v[0], v[1], v[2]);
+  if (len > maxLen) {
+    const s = maxLen / len;
+    v[0] *= s; v[1] *= s; v[2] *= s;
+  }
+  return v;
+}
+
+// obstacleCommon: obstacleDistance / obstacleNormal
+function obstacleDistance(o: PackedObstacles, k: number, p: number[]): number {
+  const c = [0, 1, 2].map(a => p[a] - o.centers[k * 3 + a]);
+  const m = o.rotations.subarray(k * 9, k * 9 + 9);
+  const q = [0, 1, 2].map(row => m[row] * c[0] + m[row + 3] * c[1] + m[row + 6] * c[2]);
+  const s = o.params.subarray(k * 4, k * 4 + 4);
+  const shape = Math.floor(o.shapes[k * 4] + 0.5);
+
+  if (shape === 0) {
+    return Math.hypot(q[0], q[1], q[2]) - s[0];
+  } else if (shape === 1) {
+    const d = q.map((v, a) => Math.abs(v) - s[a]);
+    return Math.hypot(Math.max(d[0], 0), Math.max(d[1], 0), Math.max(d[2], 0)) + Math.min(Math.max(d[0], Math.max(d[1], d[2])), 0);
+  } else if (shape === 2) {
+    q[1] -= Math.min(s[1], Math.max(-s[1], q[1]));
+    return Math.hypot(q[0], q[1], q[2]) - s[0];
+  } else if (shape === 3) {
+    const d = [Math.hypot(q[0], q[2]) - s[0], Math.abs(q[1]) - s[1]];
+    return Math.min(Math.max(d[0], d[1]), 0) + Math.hypot(Math.max(d[0], 0), Math.max(d[1], 0));
+  }
+  return q[1];
+}
+
+function obstacleNormal(o: PackedObstacles, k: number, p: number[]): number[] {
+  const e = 0.001;
+  const taps = [[e, -e, -e], [-e, -e, e], [-e, e, -e], [e, e, e]];
+  const n = [0, 0, 0];
+  for (const t of taps) {
+    const d = obstacleDistance(o, k, [p[0] + t[0], p[1] + t[1], p[2] + t[2]]);
+    for (let a = 0; a < 3; a++) n[a] += t[a] * d;
+  }
+  const len = Math.hypot(n[0], n[1], n[2]);
+  return len < 1e-8 ? [0, 1, 0] : n.map(v => v / len);
+}
+
+// containerCommon: containerDistance / containerNormal / containerFace
+function containerBox(p: number[], half: number[]): number {
+  const d = p.map((v, a) => Math.abs(v) - half[a]);
+  return Math.hypot(Math.max(d[0], 0), Math.max(d[1], 0), Math.max(d[2], 0)) + Math.min(Math.max(d[0], Math.max(d[1], d[2])), 0);
+}
+
+function containerDistance(c: PackedContainer, p: number[]): number {
+  const s = c.size;
+  let d: number;
+  if (c.shape === 0) {
+    d = containerBox(p, [s[0], s[1], s[2]]);
+  } else if (c.shape === 1) {
+    const e = [Math.hypot(p[0], p[2]) - s[0], Math.abs(p[1]) - s[1]];
+    d = Math.min(Math.max(e[0], e[1]), 0) + Math.hypot(Math.max(e[0], 0), Math.max(e[1], 0));
+  } else if (c.shape === 2) {
+    d = Math.hypot(p[0], p[1], p[2]) - s[0];
+  } else if (c.shape === 3) {
+    d = Math.hypot(p[0], p[1] - Math.min(s[1], Math.max(-s[1], p[1])), p[2]) - s[0];
+  } else if (c.shape === 4) {
+    d = Math.hypot(p[0], Math.min(p[1] - s[1], 0), p[2]) - s[0];
+  } else {
+    d = c.custom(p[0], p[1], p[2], c.bound);
+  }
+  return Math.max(d, containerBox(p, [c.bound, c.bound, c.bound]));
+}
+
+function containerNormal(c: PackedContainer, p: number[]): number[] {
+  const e = 0.001;
+  const taps = [[e, -e, -e], [-e, -e, e], [-e, e, -e], [e, e, e]];
+  const n = [0, 0, 0];
+  for (const t of taps) {
+    const d = containerDistance(c, [p[0] + t[0], p[1] + t[1], p[2] + t[2]]);
+    for (let a = 0; a < 3; a++) n[a] += t[a] * d;
+  }
+  const len = Math.hypot(n[0], n[1], n[2]);
+  return len < 1e-8 ? [0, 1, 0] : n.map(v => v / len);
+}
+
+function containerFace(n: number[]): number {
+  if (n[1] < -0.7) return 0;
+  if (n[1] > 0.7) return 1;
+  if (Math.abs(n[0]) >= Math.abs(n[2])) return n[0] < 0 ? 2 : 3;
+  return n[2] < 0 ? 4 : 5;
+}
+
+// wallCommon: wallLayers / adhesionKernel
+function wallLayers(d: number, h: number, spacing: number): number[] {
+  const h2 = h * h;
+  const norm = 315.0 / (256.0 * h2 * h2 * h2 * h2 * h * spacing * spacing);
+  const sum = [0, 0];
+  for (let k = 0; k < MAX_WALL_LAYERS; k++) {
+    const z = Math.max(d, 0) + spacing * (k + 0.5);
+    if (z >= h) break;
+    const q = h2 - z * z;
+    sum[0] += norm * q * q * q * q;
+    sum[1] += norm * -8.0 * z * q * q * q;
+  }
+  return sum;
+}
+
+function adhesionKernel(r: number, h: number): number {
+  if (r <= 0.5 * h || r >= h) return 0;
+  return Math.pow(Math.max(-4.0 * r * r / h + 6.0 * r - 2.0 * h, 0) / (0.25 * h), 0.25);
+}
+
+export class ShaderReference {
+  public particleCount: number = 0;
+  private maxParticles: number;
+  private baseRadius: number;
+  private seed: number;
+  private spawnBatch: number = 0;
+
+  // Render target stand-ins (RGBA per particle slot)
+  public position: Texture;
+  public velocity: Texture;
+  public density: Texture;       // Legacy: R = density; PBF: R = lambda, G = density
+  public temperature: Texture;   // R = temperature
+  private oldPosition: Texture;
+  private force: Texture;
+
+  private obstacles: PackedObstacles = createPackedObstacles();
+  private container: PackedContainer = createPackedContainer();
+  private wallSpacing = 1;
+  private adhesion = 0;
+
+  // Emission accumulators and uDrainMin / uDrainMax
+  private emission = new EmissionClock();
+  private drains = createPackedDrains();
+  private drainSteps: number = 0;
+  public time = 0;
+  private forceFields: PackedForceFields = createPackedForceFields();
+  private frameMotion: FrameMotion | null = null;
+  private frame: PackedFrame = createPackedFrame();
+  private brushStroke: BrushStroke | null = null;
+  private brush: PackedBrush = createPackedBrush();
+
+  // Rigid bodies: tBodyLocal stand-in and the uniforms of the body passes
+  public readonly rigidBodies = new RigidBodySystem();
+  private bodies = createPackedBodies();
+  private bodyLocal: Texture;
+
+  // tPhase stand-in (one value per slot) and uPhaseProps
+  private phase: Float32Array;
+  private phases = createPackedPhases();
+
+  // uViscosityCurve / uCohesionCurve (cold, hot)
+  private viscosityCurve = [1, 1];
+  private cohesionCurve = [1, 1];
+
+  // Grid after the cell hash / bitonic sort / cell range passes
+  private layout: GridLayout;
+  private sorted: Int32Array;    // Particle indices ordered by (cell id, index)
+  private rangeStart: Int32Array;
+  private rangeEnd: Int32Array;
+
+  constructor(config: FluidConfig) {
+    this.maxParticles = config.maxParticles;
+    this.baseRadius = config.particleRadius;
+    this.seed = config.seed;
+    const texels = this.maxParticles * 4;
+    this.position = new Float32Array(texels);
+    this.velocity = new Float32Array(texels);
+    this.density = new Float32Array(texels);
+    this.temperature = new Float32Array(texels);
+    this.oldPosition = new Float32Array(texels);
+    this.force = new Float32Array(texels);
+    this.bodyLocal = new Float32Array(texels);
+    this.phase = new Float32Array(this.maxParticles);
+    // initializeTextures: inactive slots far away with w = 0, ambient temperature
+    for (let i = 0; i < this.maxParticles; i++) {
+      this.position.fill(10000, i * 4, i * 4 + 3);
+      this.oldPosition.fill(10000, i * 4, i * 4 + 3);
+      this.temperature[i * 4] = AMBIENT_TEMPERATURE;
+    }
+    this.layout = computeGridLayout(config.boundarySize, 1.7);
+    this.sorted = new Int32Array(0);
+    this.rangeStart = new Int32Array(0);
+    this.rangeEnd = new Int32Array(0);
+  }
+
+  public getParticleSpacing(): number {
+    return this.baseRadius * 2.2;
+  }
+
+  // Densities at the end of the last step, as the GPU keeps them
+  public getDensity(i: number, solver: FluidConfig['solver']): number {
+    return this.density[i * 4 + (solver === 'pbf' ? 1 : 0)];
+  }
+
+  // addParticlesShader + copyPositionShader + initVelocityShader + initScalarShader (temperature, phase)
+  public addParticles(count: number, origin: [number, number, number], phase: number = 0, temperature: number = AMBIENT_TEMPERATURE): void {
+    const start = this.particleCount;
+    const end = Math.min(this.maxParticles, start + count);
+    const actualCount = end - start;
+    if (actualCount <= 0) return;
+
+    this.phase.fill(phase, start, end);
+
+    const spacing = this.getParticleSpacing();
+    const gridDim = Math.ceil(Math.cbrt(actualCount));
+    const seed = batchSeed(this.seed, this.spawnBatch++);
+    const offset = (gridDim - 1) * spacing * 0.5;
+    const jitter = 0.3;
+
+    for (let idx = start; idx < end; idx++) {
+      const localIdx = idx - start;
+      const gx = localIdx % gridDim;
+      const gy = Math.floor(localIdx / gridDim) % gridDim;
+      const gz = Math.floor(localIdx / (gridDim * gridDim));
+      const n = localIdx * 3;
+      const t = idx * 4;
+      this.position[t] = origin[0] + gx * spacing - offset + (hashUnit(seed, n) - 0.5) * spacing * jitter;
+      this.position[t + 1] = origin[1] + gy * spacing - offset + (hashUnit(seed, n + 1) - 0.5) * spacing * jitter;
+      this.position[t + 2] = origin[2] + gz * spacing - offset + (hashUnit(seed, n + 2) - 0.5) * spacing * jitter;
+      this.position[t + 3] = 1.0;
+      this.velocity.set([0, 0, 0, 1], t);
+      this.temperature.set([temperature, 0, 0, 1], t);
+    }
+    this.oldPosition.set(this.position);
+    this.particleCount = end;
+  }
+
+  // GPUFluidEngine.runEmitters: emitParticlesShader + copyPositionShader +
+  // initVelocityShader + initScalarShader per batch
+  private runEmitters(config: FluidConfig, dt: number): void {
+    const spacing = this.getParticleSpacing();
+    const p = [0, 0, 0];
+    for (const batch of this.emission.advance(config, dt, this.maxParticles - this.particleCount)) {
+      const { emitter, frame } = batch;
+      const seed = batchSeed(this.seed, this.spawnBatch++);
+      const start = this.particleCount;
+      this.phase.fill(batch.phase, start, start + batch.count);
+      for (let k = 0; k < batch.count; k++) {
+        const t = (start + k) * 4;
+        emitterPoint(batch, seed, k, spacing, dt, p);
+        this.position.set([p[0], p[1], p[2], 1.0], t);
+        this.velocity.set([frame.axis[0] * emitter.speed, frame.axis[1] * emitter.speed, frame.axis[2] * emitter.speed, 1.0], t);
+        this.temperature.set([emitter.temperature, 0, 0, 1], t);
+      }
+      this.oldPosition.set(this.position);
+      this.particleCount = start + batch.count;
+    }
+  }
+
+  // drainShader
+  private drainPass(): Texture {
+    return this.pass(this.position, 'copy', (i, out) => {
+      if (this.boundaryParticle(i)) return;
+      if (insideDrain(this.drains, this.position[i * 4], this.position[i * 4 + 1], this.position[i * 4 + 2])) {
+        out.set([10000, 10000, 10000, 0], i * 4);
+      }
+    });
+  }
+
+  public setBrush(stroke: BrushStroke | null): void {
+    this.brushStroke = stroke;
+  }
+
+  public setFrameMotion(motion: FrameMotion | null): void {
+    this.frameMotion = motion;
+  }
+
+  // GPUFluidEngine.maxSpeed: speedReductionShader levels down to one texel.
+  // The maximum does not depend on the block order, so one loop stands in for them.
+  public maxSpeed(): number {
+    let max = 0;
+    for (let i = 0; i < this.maxParticles; i++) {
+      const w = this.position[i * 4 + 3];
+      if (w < 0.5 || w >= 1.5) continue;
+      max = Math.max(max, Math.fround(Math.hypot(this.velocity[i * 4], this.velocity[i * 4 + 1], this.velocity[i * 4 + 2])));
+    }
+    return max;
+  }
+
+  // GPUFluidEngine.compact: compactFlagShader + prefixSumShader + compactGatherShader,
+  // then the body slots rewritten from the scan
+  public compact(): void {
+    this.drainSteps = 0;
+    const count = this.particleCount;
+    if (count === 0) return;
+
+    const scan = new Float32Array(count);
+    let running = 0;
+    for (let i = 0; i < count; i++) {
+      if (this.active(i)) running++;
+      scan[i] = running;
+    }
+    const live = running;
+    if (live === count) return;
+
+    // Gather: slot j takes the first slot whose running count exceeds j
+    const source = new Int32Array(live);
+    for (let i = 0, j = 0; i < count; i++) {
+      if (scan[i] > j) source[j++] = i;
+    }
+    const gather = (texture: Texture, fill: number[]): Texture => {
+      const out = new Float32Array(texture.length);
+      for (let j = 0; j < this.maxParticles; j++) {
+        out.set(j < live ? texture.subarray(source[j] * 4, source[j] * 4 + 4) : fill, j * 4);
+      }
+      return out;
+    };
+    const inactive = [10000, 10000, 10000, 0];
+    this.position = gather(this.position, inactive);
+    this.oldPosition = gather(this.oldPosition, inactive);
+    this.velocity = gather(this.velocity, [0, 0, 0, 0]);
+    this.temperature = gather(this.temperature, [AMBIENT_TEMPERATURE, 0, 0, 0]);
+    const phase = new Float32Array(this.maxParticles);
+    for (let j = 0; j < live; j++) phase[j] = this.phase[source[j]];
+    this.phase = phase;
+
+    this.bodyLocal.fill(0);
+    this.rigidBodies.bodies.forEach((body, b) => {
+      body.firstSlot = scan[body.firstSlot] - 1;
+      for (let k = 0; k < body.pointCount; k++) {
+        this.bodyLocal.set([body.localPoints[k * 3], body.localPoints[k * 3 + 1], body.localPoints[k * 3 + 2], BODY_MARKER + b], (body.firstSlot + k) * 4);
+      }
+    });
+    this.particleCount = live;
+  }
+
+  // GPUFluidEngine.addRigidBody: claim slots, bodyPoseShader, copy, initVelocityShader
+  public addRigidBody(desc: RigidBodyDesc): RigidBody | null {
+    const body = this.rigidBodies.add(desc, this.particleCount, this.maxParticles);
+    if (!body) return null;
+
+    const marker = BODY_MARKER + this.rigidBodies.bodies.length - 1;
+    this.phase.fill(0, body.firstSlot, body.firstSlot + body.pointCount);
+    for (let k = 0; k < body.pointCount; k++) {
+      const t = (body.firstSlot + k) * 4;
+      this.bodyLocal.set([body.localPoints[k * 3], body.localPoints[k * 3 + 1], body.localPoints[k * 3 + 2], marker], t);
+      this.velocity.set([0, 0, 0, 1], t);
+    }
+    this.position = this.bodyPose();
+    this.oldPosition.set(this.position);
+    this.particleCount = body.firstSlot + body.pointCount;
+    return body;
+  }
+
+  // Mirrors GPUFluidEngine.step pass for pass
+  public step(dt: number, config: FluidConfig, gravityVec: [number, number, number]): void {
+    this.time += dt;
+    if (compactionDue(this.drainSteps, this.particleCount, this.maxParticles)) this.compact();
+    this.runEmitters(config, dt);
+    if (this.particleCount === 0) return;
+
+    const physicsRadius = config.particleRadius / Math.max(1.0, config.visualRatio);
+    const h = 1.7;
+    const minDist = physicsRadius * 2.0;
+    packContainer(config.container, config.boundarySize, this.container);
+    packWallSurfaces(config, this.container);
+    packObstacles(config.obstacles, this.obstacles);
+    this.wallSpacing = physicsRadius * 2.0;
+    this.adhesion = (config.adhesion ?? 0) * ADHESION_STRENGTH * physicsRadius;
+    const collisionStrength = 0.5 + (config.stiffness / 2000.0) * 0.3;
+    const cohesionRadius = physicsRadius * 5.0;
+    packPhases(config, this.phases);
+    const phasePush = interfacePush(config, physicsRadius);
+    this.viscosityCurve = [config.viscosityCurve?.cold ?? 1, config.viscosityCurve?.hot ?? 1];
+    this.cohesionCurve = [config.cohesionCurve?.cold ?? 1, config.cohesionCurve?.hot ?? 1];
+
+    const hasBodies = this.rigidBodies.bodies.length > 0;
+    if (hasBodies) this.position = this.bodyPose();
+
+    this.oldPosition = this.position.slice();
+    this.velocity = this.velocityIntegrate(gravityVec, dt);
+    packForceFields(config.forceFields, this.time, this.forceFields);
+    if (this.forceFields.count > 0) this.velocity = this.forceFieldPass(dt);
+    packFrame(this.frameMotion, config, this.frame);
+    if (this.frame.active) this.velocity = this.framePass(dt);
+    packBrush(this.brushStroke, config, this.brush);
+    if (this.brush.mode >= 0) this.velocity = this.brushPass(dt);
+    this.position = this.integrate(gravityVec, dt);
+    this.buildGrid(Math.max(h, minDist, cohesionRadius), config.boundarySize);
+
+    const iterations = Math.max(1, Math.round(config.solverIterations));
+    const pbfRestDensity = latticeRestDensity(h, physicsRadius * 2.0);
+
+    const granular = config.material === 'granular';
+    for (let iter = 0; iter < iterations; iter++) {
+      if (granular) {
+        this.force = this.granularPass(minDist, config.staticFriction,
+          Math.min(config.kineticFriction, config.staticFriction), stackingUp(gravityVec));
+      } else if (config.solver === 'pbf') {
+        this.density = this.lambdaPass(h, pbfRestDensity, config.pbfRelaxation);
+        this.force = this.pbfDeltaPass(h, pbfRestDensity, config.pbfTensileK, phasePush);
+      } else {
+        this.density = this.densityPass(h);
+        this.force = this.forcePass(h, config.stiffness, config.restDensity, minDist,
+          collisionStrength, cohesionRadius, phasePush);
+      }
+      this.position = this.applyForces(config.particleRadius * 3.0);
+    }
+
+    this.position = this.boundaryPass(physicsRadius, granular ? 0 : physicsRadius * 1.2);
+    const viscousForces = !granular && usesViscousForces(config);
+    this.velocity = this.velocityUpdate(dt, physicsRadius, velocityLimit(config, dt), viscousForces ? 0 : 1);
+    if (viscousForces) {
+      const rheology = this.shearRatePass(h, 1 / pbfRestDensity, rheologyModelIndex(config),
+        config.rheology.flowIndex, config.rheology.yieldStress);
+      this.velocity = this.viscosityPass(h, rheology, 1 / pbfRestDensity, dt);
+    }
+    if (!granular) this.velocity = this.xsphPass(h, 0.01);
+    if (!granular && (config.vorticityEpsilon ?? 0) > 0) {
+      const vorticity = this.vorticityPass(h, 1 / pbfRestDensity);
+      this.velocity = this.confinementPass(h, vorticity, config.vorticityEpsilon, dt);
+    }
+    this.temperature = this.heatPass(h, heatDiffusionRate(config, dt, h, physicsRadius), dt,
+      config.floorTemperature ?? AMBIENT_TEMPERATURE, config.wallTemperature ?? AMBIENT_TEMPERATURE, config.wallHeatTransfer ?? 0);
+
+    if (hasBodies) {
+      this.rigidBodies.integrate(dt, gravityVec, this.bodyReduction(), this.container, this.obstacles, this.frame);
+    }
+
+    packDrains(config.drains, this.drains);
+    if (this.drains.count > 0) {
+      this.position = this.drainPass();
+      this.drainSteps++;
+    }
+  }
+
+  private active(i: number): boolean {
+    return this.position[i * 4 + 3] >= 0.5;
+  }
+
+  private boundaryParticle(i: number): boolean {
+    return this.position[i * 4 + 3] >= 1.5;
+  }
+
+  // phaseCommon: particlePhase / uPhaseProps
+  private particlePhase(i: number): number {
+    return Math.floor(this.phase[i] + 0.5);
+  }
+
+  private phaseProp(i: number, component: number): number {
+    return this.phases.props[this.particlePhase(i) * 4 + component];
+  }
+
+  // thermalCommon: particleTemperature / temperatureCurve
+  private particleTemperature(i: number): number {
+    return this.temperature[i * 4];
+  }
+
+  private temperatureCurve(curve: number[], t: number): number {
+    return mix(curve[0], curve[1], Math.min(1, Math.max(0, t)));
+  }
+
+  // Run `body` for every slot, copying inactive texels through unchanged
+  private pass(source: Texture, inactive: 'copy' | 'zero', body: (i: number, out: Texture) => void): Texture {
+    const out = inactive === 'copy' ? source.slice() : new Float32Array(source.length);
+    for (let i = 0; i < this.maxParticles; i++) {
+      if (this.active(i)) body(i, out);
+    }
+    return out;
+  }
+
+  // cellHashShader + bitonicSortShader + cellRangeShader
+  private buildGrid(cellSize: number, boundarySize: number): void {
+    const layout = computeGridLayout(boundarySize, cellSize);
+    this.layout = layout;
+
+    const keys: { cell: number; index: number }[] = [];
+    for (let s = 0; s < this.particleCount; s++) {
+      if (!this.active(s)) continue;
+      const p = this.position.subarray(s * 4, s * 4 + 3);
+      keys.push({ cell: this.cellId(this.gridCell(p[0], p[1], p[2])), index: s });
+    }
+    keys.sort((a, b) => a.cell - b.cell || a.index - b.index);
+
+    this.sorted = Int32Array.from(keys, k => k.index);
+    this.rangeStart = new Int32Array(layout.cellCount);
+    this.rangeEnd = new Int32Array(layout.cellCount);
+    for (let s = keys.length - 1; s >= 0; s--) this.rangeStart[keys[s].cell] = s;
+    for (let s = 0; s < keys.length; s++) this.rangeEnd[keys[s].cell] = s + 1;
+  }
+
+  private gridCell(x: number, y: number, z: number): number[] {
+    const { origin, dims, cellSize } = this.layout;
+    return [x, y, z].map((v, a) => Math.min(dims[a] - 1, Math.max(0, Math.floor((v - origin[a]) / cellSize))));
+  }
+
+  private cellId(c: number[]): number {
+    const { dims } = this.layout;
+    return c[0] + c[1] * dims[0] + c[2] * dims[0] * dims[1];
+  }
+
+  // forEachNeighbor: 27 cells in z, y, x order, self excluded
+  private forEachNeighbor(i: number, body: (j: number) => void): void {
+    const { dims } = this.layout;
+    const p = this.position;
+    const cell = this.gridCell(p[i * 4], p[i * 4 + 1], p[i * 4 + 2]);
+    for (let oz = -1; oz <= 1; oz++) {
+      for (let oy = -1; oy <= 1; oy++) {
+        for (let ox = -1; ox <= 1; ox++) {
+          const c = [cell[0] + ox, cell[1] + oy, cell[2] + oz];
+          if (c.some((v, a) => v < 0 || v >= dims[a])) continue;
+          const id = this.cellId(c);
+          for (let slot = this.rangeStart[id]; slot < this.rangeEnd[id]; slot++) {
+            const j = this.sorted[slot];
+            if (j !== i) body(j);
+          }
+        }
+      }
+    }
+  }
+
+  private diff(i: number, j: number): number[] {
+    const p = this.position;
+    return [p[i * 4] - p[j * 4], p[i * 4 + 1] - p[j * 4 + 1], p[i * 4 + 2] - p[j * 4 + 2]];
+  }
+
+  // velocityIntegrateShader (runs on every texel but boundary particles)
+  private velocityIntegrate(gravity: [number, number, number], dt: number): Texture {
+    const out = this.velocity.slice();
+    for (let i = 0; i < this.maxParticles; i++) {
+      if (this.boundaryParticle(i)) continue;
+      for (let a = 0; a < 3; a++) out[i * 4 + a] += gravity[a] * dt;
+    }
+    return out;
+  }
+
+  // forceFieldShader
+  private forceFieldPass(dt: number): Texture {
+    const f = this.forceFields;
+    return this.pass(this.velocity, 'copy', (i, out) => {
+      if (this.boundaryParticle(i)) return;
+      const accel = [0, 0, 0];
+      for (let k = 0; k < f.count; k++) {
+        const type = Math.round(f.shapes[k * 4]);
+        const radius = f.shapes[k * 4 + 1];
+        const d = [0, 1, 2].map(a => this.position[i * 4 + a] - f.centers[k * 4 + a]);
+        const axis = [0, 1, 2].map(a => f.axes[k * 4 + a]);
+        const along = d[0] * axis[0] + d[1] * axis[1] + d[2] * axis[2];
+        const r = type === 2 ? d.map((x, a) => x - along * axis[a]) : d;
+        const dist = Math.hypot(r[0], r[1], r[2]);
+        if (dist >= radius) continue;
+        const w = f.shapes[k * 4 + 3] * Math.pow(1.0 - dist / radius, f.shapes[k * 4 + 2]);
+        if (type === 0) {
+          for (let a = 0; a < 3; a++) accel[a] += axis[a] * w;
+        } else if (type === 1) {
+          if (dist >= 1e-4) for (let a = 0; a < 3; a++) accel[a] -= r[a] / dist * w;
+        } else if (type === 2) {
+          if (dist < 1e-4) continue;
+          const c = [axis[1] * r[2] - axis[2] * r[1], axis[2] * r[0] - axis[0] * r[2], axis[0] * r[1] - axis[1] * r[0]];
+          for (let a = 0; a < 3; a++) accel[a] += c[a] / dist * w;
+        } else {
+          const q = d.map(x => x * f.centers[k * 4 + 3]);
+          TURBULENCE_WAVES.forEach(({ k: kv, flow }, m) => {
+            const wave = Math.cos(kv[0] * q[0] + kv[1] * q[1] + kv[2] * q[2] + f.phases[k * 4 + m]);
+            for (let a = 0; a < 3; a++) accel[a] += flow[a] * wave * w / TURBULENCE_WAVES.length;
+          });
+        }
+      }
+      for (let a = 0; a < 3; a++) out[i * 4 + a] += accel[a] * dt;
+    });
+  }
+
+  // frameShader
+  private framePass(dt: number): Texture {
+    const f = this.frame;
+    const cross = (a: ArrayLike<number>, b: ArrayLike<number>) =>
+      [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+    return this.pass(this.velocity, 'copy', (i, out) => {
+      if (this.boundaryParticle(i)) return;
+      const p = [this.position[i * 4], this.position[i * 4 + 1], this.position[i * 4 + 2]];
+      const v = [out[i * 4], out[i * 4 + 1], out[i * 4 + 2]];
+      const centrifugal = cross(f.angularVelocity, cross(f.angularVelocity, p));
+      const coriolis = cross(f.angularVelocity, v);
+      const euler = cross(f.angularAcceleration, p);
+      for (let a = 0; a < 3; a++) {
+        const accel = -f.acceleration[a] - centrifugal[a] - 2.0 * coriolis[a] - euler[a];
+        out[i * 4 + a] += accel * f.scale * dt;
+      }
+    });
+  }
+
+  // brushShader
+  private brushPass(dt: number): Texture {
+    const b = this.brush;
+    return this.pass(this.velocity, 'copy', (i, out) => {
+      if (this.boundaryParticle(i)) return;
+      const d = [0, 1, 2].map(a => this.position[i * 4 + a] - b.center[a]);
+      const r = Math.hypot(d[0], d[1], d[2]);
+      if (r >= b.radius) return;
+      const falloff = (1.0 - r / b.radius) * (1.0 - r / b.radius);
+      if (b.mode === 3) {
+        const blend = Math.min(b.strength * falloff * dt, 1.0);
+        for (let a = 0; a < 3; a++) out[i * 4 + a] += (b.velocity[a] - out[i * 4 + a]) * blend;
+        return;
+      }
+      const n = d.map(x => x / Math.max(r, 1e-6));
+      const push = b.strength * falloff * dt;
+      const dir = b.mode === 2
+        ? [b.axis[1] * n[2] - b.axis[2] * n[1], b.axis[2] * n[0] - b.axis[0] * n[2], b.axis[0] * n[1] - b.axis[1] * n[0]]
+        : n.map(x => (b.mode === 0 ? x : -x));
+      for (let a = 0; a < 3; a++) out[i * 4 + a] += dir[a] * push;
+    });
+  }
+
+  // integrateShader (adds gravity on top of the already integrated velocity)
+  private integrate(gravity: [number, number, number], dt: number): Texture {
+    return this.pass(this.position, 'copy', (i, out) => {
+      if (this.boundaryParticle(i)) return;
+      for (let a = 0; a < 3; a++) {
+        const newVel = this.velocity[i * 4 + a] + gravity[a] * dt;
+        out[i * 4 + a] = this.position[i * 4 + a] + newVel * dt;
+      }
+    });
+  }
+
+  // createDensityShader
+  // wallCommon: wall density at p (x) and its gradient in p (yzw)
+  private wallDensity(i: number, h: number): number[] {
+    const p = [this.position[i * 4], this.position[i * 4 + 1], this.position[i * 4 + 2]];
+    const sum = [0, 0, 0, 0];
+    const d = -containerDistance(this.container, p);
+    if (d < h) {
+      const w = wallLayers(d, h, this.wallSpacing);
+      const n = containerNormal(this.container, p);
+      sum[0] += w[0];
+      for (let a = 0; a < 3; a++) sum[a + 1] -= w[1] * n[a];
+    }
+    for (let k = 0; k < this.obstacles.count; k++) {
+      const dk = obstacleDistance(this.obstacles, k, p);
+      if (dk >= h) continue;
+      const w = wallLayers(dk, h, this.wallSpacing);
+      const n = obstacleNormal(this.obstacles, k, p);
+      sum[0] += w[0];
+      for (let a = 0; a < 3; a++) sum[a + 1] += w[1] * n[a];
+    }
+    return sum;
+  }
+
+  // wallCommon: adhesion position delta
+  private wallAdhesion(i: number, h: number): number[] {
+    const pull = [0, 0, 0];
+    if (this.adhesion <= 0) return pull;
+    const p = [this.position[i * 4], this.position[i * 4 + 1], this.position[i * 4 + 2]];
+    const offset = 0.5 * this.wallSpacing;
+    const d = -containerDistance(this.container, p);
+    if (d < h) {
+      const a = adhesionKernel(d + offset, h);
+      if (a > 0) containerNormal(this.container, p).forEach((n, c) => { pull[c] += a * n; });
+    }
+    for (let k = 0; k < this.obstacles.count; k++) {
+      const dk = obstacleDistance(this.obstacles, k, p);
+      if (dk >= h) continue;
+      const a = adhesionKernel(dk + offset, h);
+      if (a > 0) obstacleNormal(this.obstacles, k, p).forEach((n, c) => { pull[c] -= a * n; });
+    }
+    return pull.map(v => v * this.adhesion);
+  }
+
+  private densityPass(h: number): Texture {
+    const h2 = h * h;
+    return this.pass(this.density, 'zero', (i, out) => {
+      let density = this.phaseProp(i, 0) * poly6(0, h2);
+      this.forEachNeighbor(i, j => {
+        const d = this.diff(i, j);
+        const r2 = d[0] * d[0] + d[1] * d[1] + d[2] * d[2];
+        if (r2 < h2) density += this.phaseProp(j, 0) * poly6(r2, h2);
+      });
+      if (!this.boundaryParticle(i)) density += this.phaseProp(i, 0) * this.wallDensity(i, h)[0];
+      out[i * 4] = density;
+      out[i * 4 + 3] = 1.0;
+    });
+  }
+
+  // createForceShader
+  private forcePass(h: number, stiffness: number, restDensity: number, minDist: number,
+    collisionStrength: number, cohesionRadius: number, interfacePush: number): Texture {
+    return this.pass(this.force, 'zero', (i, out) => {
+      const restDensityI = restDensity * this.phaseProp(i, 0);
+      const densityError = Math.max(0, this.density[i * 4] - restDensityI);
+      const pressure = Math.min(densityError * stiffness * 0.001, restDensityI * 0.5);
+      const pressureForce = [0, 0, 0];
+      const collisionForce = [0, 0, 0];
+      const cohesionForce = [0, 0, 0];
+      const interfaceForce = [0, 0, 0];
+      const coeff = -45.0 / (PI * h * h * h * h * h * h);
+
+      this.forEachNeighbor(i, j => {
+        const diff = this.diff(i, j);
+        const d = Math.sqrt(diff[0] * diff[0] + diff[1] * diff[1] + diff[2] * diff[2]);
+        if (d < 0.001) return;
+        const samePhase = this.boundaryParticle(i) || this.boundaryParticle(j) || this.particlePhase(j) === this.particlePhase(i);
+        const w = 1.0 - d / h;
+        for (let a = 0; a < 3; a++) {
+          const n = diff[a] / d;
+          if (d < h) pressureForce[a] += coeff * (h - d) * (h - d) * n * pressure;
+          if (d < cohesionRadius && samePhase) cohesionForce[a] -= n * cohesionKernel(d, cohesionRadius);
+          if (d < minDist) collisionForce[a] += n * (minDist - d) * collisionStrength;
+          if (d < h && !samePhase) interfaceForce[a] += n * interfacePush * w * w;
+        }
+      });
+
+      let adhesion = [0, 0, 0];
+      if (!this.boundaryParticle(i)) {
+        const wall = this.wallDensity(i, h);
+        for (let a = 0; a < 3; a++) pressureForce[a] -= wall[a + 1] * pressure;
+        adhesion = this.wallAdhesion(i, h);
+      }
+
+      clampLength(pressureForce, 5.0);
+      clampLength(collisionForce, 4.0);
+      const radiusScale = (cohesionRadius * cohesionRadius) / (2.0 * 2.0);
+      const tensionScale = this.phaseProp(i, 2) * this.temperatureCurve(this.cohesionCurve, this.particleTemperature(i)) * 0.3 * radiusScale;
+      const tension = clampLength(cohesionForce.map(v => v * tensionScale), 0.3);
+      const force = clampLength([0, 1, 2].map(a => pressureForce[a] + collisionForce[a] + tension[a] + interfaceForce[a] + adhesion[a]), 10.0);
+      out.set([force[0], force[1], force[2], 1.0], i * 4);
+    });
+  }
+
+  // createLambdaShader
+  private lambdaPass(h: number, restDensity: number, relaxation: number): Texture {
+    const h2 = h * h;
+    return this.pass(this.density, 'zero', (i, out) => {
+      const massI = this.phaseProp(i, 0);
+      const invRest = 1.0 / restDensity / massI;
+      let density = massI * poly6(0, h2);
+      const gradI = [0, 0, 0];
+      let sumGrad2 = 0;
+      this.forEachNeighbor(i, j => {
+        const diff = this.diff(i, j);
+        const r2 = diff[0] * diff[0] + diff[1] * diff[1] + diff[2] * diff[2];
+        if (r2 >= h2) return;
+        const massJ = this.phaseProp(j, 0);
+        density += massJ * poly6(r2, h2);
+        const d = Math.sqrt(r2);
+        if (d < 0.001) return;
+        const g = spikyGradMag(d, h) * invRest * massJ;
+        sumGrad2 += g * g / massJ;
+        for (let a = 0; a < 3; a++) gradI[a] -= g * diff[a] / d;
+      });
+      if (!this.boundaryParticle(i)) {
+        const wall = this.wallDensity(i, h);
+        density += massI * wall[0];
+        for (let a = 0; a < 3; a++) gradI[a] += wall[a + 1] / restDensity;
+      }
+      const constraint = Math.max(0, density * invRest - 1.0);
+      const gradI2 = gradI[0] * gradI[0] + gradI[1] * gradI[1] + gradI[2] * gradI[2];
+      const lambda = -constraint / (sumGrad2 + gradI2 / massI + relaxation);
+      out.set([lambda, density, density * invRest, 1.0], i * 4);
+    });
+  }
+
+  // createPBFDeltaShader
+  private pbfDeltaPass(h: number, restDensity: number, tensileK: number, interfacePush: number): Texture {
+    const h2 = h * h;
+    const invRest = 1.0 / restDensity;
+    const tensileRefW = poly6(0.04 * h2, h2);
+    return this.pass(this.force, 'zero', (i, out) => {
+      const lambdaI = this.density[i * 4];
+      const massI = this.phaseProp(i, 0);
+      const delta = [0, 0, 0];
+      this.forEachNeighbor(i, j => {
+        const diff = this.diff(i, j);
+        const r2 = diff[0] * diff[0] + diff[1] * diff[1] + diff[2] * diff[2];
+        if (r2 >= h2) return;
+        const d = Math.sqrt(r2);
+        if (d < 0.001) return;
+        const ratio = poly6(r2, h2) / tensileRefW;
+        const sCorr = -tensileK * ratio * ratio * ratio * ratio;
+        const massRatio = this.phaseProp(j, 0) / massI;
+        const s = (lambdaI + this.density[j * 4] + sCorr) * spikyGradMag(d, h) * invRest * massRatio / d;
+        for (let a = 0; a < 3; a++) delta[a] -= s * diff[a];
+        if (this.particlePhase(j) !== this.particlePhase(i) && !this.boundaryParticle(i) && !this.boundaryParticle(j)) {
+          const w = 1.0 - d / h;
+          for (let a = 0; a < 3; a++) delta[a] += interfacePush * w * w * diff[a] / d;
+        }
+      });
+      if (!this.boundaryParticle(i)) {
+        const wall = this.wallDensity(i, h);
+        const pull = this.wallAdhesion(i, h);
+        for (let a = 0; a < 3; a++) delta[a] += lambdaI * invRest * wall[a + 1] + pull[a];
+      }
+      out.set([delta[0], delta[1], delta[2], 1.0], i * 4);
+    });
+  }
+
+  // applyForcesShader
+  // createGranularShader
+  private granularPass(contactDistance: number, staticFriction: number, kineticFriction: number, up: number[]): Texture {
+    const friction = (slip: number[], n: number[], pen: number): number[] => {
+      const sn = slip[0] * n[0] + slip[1] * n[1] + slip[2] * n[2];
+      const tangential = slip.map((x, a) => x - sn * n[a]);
+      const len = Math.hypot(tangential[0], tangential[1], tangential[2]);
+      if (len < staticFriction * pen) return tangential.map(x => -x);
+      const keep = Math.min(kineticFriction * pen / Math.max(len, 1e-6), 1.0);
+      return tangential.map(x => -x * keep);
+    };
+    const disp = (k: number) => [0, 1, 2].map(a => this.position[k * 4 + a] - this.oldPosition[k * 4 + a]);
+    return this.pass(this.position, 'zero', (i, out) => {
+      const dispI = disp(i);
+      const invMassI = 1.0 / this.phaseProp(i, 0);
+      const delta = [0, 0, 0];
+      let contacts = 0;
+      this.forEachNeighbor(i, j => {
+        const diff = this.diff(i, j);
+        const d = Math.hypot(diff[0], diff[1], diff[2]);
+        if (d >= contactDistance || d < 0.001) return;
+        const n = diff.map(x => x / d);
+        const pen = contactDistance - d;
+        const rise = -(diff[0] * up[0] + diff[1] * up[1] + diff[2] * up[2]);
+        const share = stackingShare(invMassI, 1.0 / this.phaseProp(j, 0), rise, contactDistance);
+        const dispJ = disp(j);
+        const f = friction(dispI.map((x, a) => x - dispJ[a]), n, pen);
+        for (let a = 0; a < 3; a++) delta[a] += share * (pen * n[a] + f[a]);
+        contacts += 1;
+      });
+      if (!this.boundaryParticle(i)) {
+        const p = [this.position[i * 4], this.position[i * 4 + 1], this.position[i * 4 + 2]];
+        const pen = contactDistance * 0.5 + containerDistance(this.container, p);
+        if (pen > 0) {
+          const n = containerNormal(this.container, p).map(x => -x);
+          const f = friction(dispI, n, pen);
+          for (let b = 0; b < 3; b++) delta[b] += pen * n[b] + f[b];
+          contacts += 1;
+        }
+      }
+      const count = Math.max(contacts, 1);
+      out.set([delta[0] / count, delta[1] / count, delta[2] / count, 1.0], i * 4);
+    });
+  }
+
+  private applyForces(maxPositionDelta: number): Texture {
+    return this.pass(this.position, 'copy', (i, out) => {
+      const delta = clampLength([this.force[i * 4], this.force[i * 4 + 1], this.force[i * 4 + 2]], maxPositionDelta);
+      for (let a = 0; a < 3; a++) out[i * 4 + a] = this.position[i * 4 + a] + delta[a];
+    });
+  }
+
+  // boundaryShader
+  private boundaryPass(boundaryOffset: number, wallRepelDist: number): Texture {
+    const bound = this.container.bound - boundaryOffset;
+    const margin = boundaryOffset;
+    return this.pass(this.position, 'copy', (i, out) => {
+      if (this.boundaryParticle(i)) return;
+      const newPos = [this.position[i * 4], this.position[i * 4 + 1], this.position[i * 4 + 2]];
+      for (let k = 0; k < this.obstacles.count; k++) {
+        const d = obstacleDistance(this.obstacles, k, newPos);
+        if (d < margin) {
+          const n = obstacleNormal(this.obstacles, k, newPos);
+          for (let a = 0; a < 3; a++) newPos[a] += n[a] * (margin - d);
+        }
+      }
+      let d = containerDistance(this.container, newPos) + boundaryOffset;
+      if (d > -wallRepelDist) {
+        const n = containerNormal(this.container, newPos);
+        for (let a = 0; a < 3; a++) newPos[a] -= n[a] * 0.1 * (wallRepelDist + d);
+        d = containerDistance(this.container, newPos) + boundaryOffset;
+        if (d > 0) {
+          const m = containerNormal(this.container, newPos);
+          for (let a = 0; a < 3; a++) newPos[a] -= m[a] * d;
+        }
+      }
+      for (let a = 0; a < 3; a++) out[i * 4 + a] = Math.min(bound, Math.max(-bound, newPos[a]));
+    });
+  }
+
+  // velocityUpdateShader
+  private velocityUpdate(dt: number, boundaryOffset: number, maxVelocity: number, viscosityDamping: number): Texture {
+    return this.pass(this.velocity, 'copy', (i, out) => {
+      if (this.boundaryParticle(i)) return;
+      const v = [0, 1, 2].map(a => (this.position[i * 4 + a] - this.oldPosition[i * 4 + a]) / dt);
+      const velMag = Math.hypot(v[0], v[1], v[2]);
+      if (velMag > maxVelocity) {
+        // mix(softFactor, 1.0, 0.2)
+        const softFactor = (maxVelocity / velMag) * 0.8 + 0.2;
+        for (let a = 0; a < 3; a++) v[a] *= softFactor;
+      }
+      const viscosity = this.phaseProp(i, 1) * this.temperatureCurve(this.viscosityCurve, this.particleTemperature(i));
+      const vL = Math.max(0, 1.0 - viscosity * viscosityDamping * dt);
+      for (let a = 0; a < 3; a++) v[a] *= vL;
+
+      const pos = [this.position[i * 4], this.position[i * 4 + 1], this.position[i * 4 + 2]];
+      for (let k = 0; k < this.obstacles.count; k++) {
+        if (obstacleDistance(this.obstacles, k, pos) >= boundaryOffset * 1.05) continue;
+        const n = obstacleNormal(this.obstacles, k, pos);
+        let vn = v[0] * n[0] + v[1] * n[1] + v[2] * n[2];
+        const vt = v.map((x, a) => x - vn * n[a]);
+        if (vn < 0) vn *= -this.obstacles.shapes[k * 4 + 2];
+        for (let a = 0; a < 3; a++) v[a] = vt[a] * (1.0 - this.obstacles.shapes[k * 4 + 1]) + vn * n[a];
+      }
+
+      if (containerDistance(this.container, pos) >= -boundaryOffset * 1.05) {
+        const n = containerNormal(this.container, pos);
+        const surface = this.container.surfaces.subarray(containerFace(n) * 3);
+        let vn = v[0] * n[0] + v[1] * n[1] + v[2] * n[2];
+        const vt = v.map((x, a) => x - vn * n[a]);
+        if (vn > 0) vn *= -surface[0];
+        const vel = [0, 1, 2].map(a => this.velocity[i * 4 + a]);
+        const load = Math.max(vel[0] * n[0] + vel[1] * n[1] + vel[2] * n[2] - vn, 0);
+        const slip = Math.hypot(vt[0], vt[1], vt[2]);
+        const keep = slip < surface[1] * load ? 0 : 1.0 - Math.min(surface[2] * load / Math.max(slip, 1e-6), 1.0);
+        for (let a = 0; a < 3; a++) v[a] = vt[a] * keep + vn * n[a];
+      }
+      for (let a = 0; a < 3; a++) out[i * 4 + a] = v[a];
+    });
+  }
+
+  // createShearRateShader (boundary particles write zero)
+  private shearRatePass(h: number, invRestDensity: number, model: number, flowIndex: number, yieldStress: number): Texture {
+    const vel = this.velocity;
+    return this.pass(vel, 'zero', (i, out) => {
+      if (this.boundaryParticle(i)) return;
+      // grad[b] = d v / d x_b
+      const grad = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+      this.forEachNeighbor(i, j => {
+        if (this.boundaryParticle(j)) return;
+        const diff = this.diff(i, j);
+        const d = Math.hypot(diff[0], diff[1], diff[2]);
+        if (d >= h) return;
+        const g = spikyGrad(diff, d, h);
+        for (let b = 0; b < 3; b++) {
+          for (let a = 0; a < 3; a++) grad[b][a] += (vel[j * 4 + a] - vel[i * 4 + a]) * g[b];
+        }
+      });
+      const G = grad.map(col => col.map(x => x * invRestDensity));
+      const dxy = 0.5 * (G[0][1] + G[1][0]);
+      const dxz = 0.5 * (G[0][2] + G[2][0]);
+      const dyz = 0.5 * (G[1][2] + G[2][1]);
+      const shearRate = Math.sqrt(2.0 * (G[0][0] * G[0][0] + G[1][1] * G[1][1] + G[2][2] * G[2][2])
+        + 4.0 * (dxy * dxy + dxz * dxz + dyz * dyz));
+      const consistency = this.phaseProp(i, 1) * this.temperatureCurve(this.viscosityCurve, this.particleTemperature(i));
+      out.set([shearRate, effectiveViscosity(model, consistency, flowIndex, yieldStress, shearRate), 0, 1], i * 4);
+    });
+  }
+
+  // createViscosityShader
+  private viscosityPass(h: number, rheology: Texture, invRestDensity: number, dt: number): Texture {
+    const h2 = h * h;
+    const vel = this.velocity;
+    return this.pass(vel, 'copy', (i, out) => {
+      if (this.boundaryParticle(i)) return;
+      const correction = [0, 0, 0];
+      this.forEachNeighbor(i, j => {
+        if (this.boundaryParticle(j)) return;
+        const diff = this.diff(i, j);
+        const r2 = diff[0] * diff[0] + diff[1] * diff[1] + diff[2] * diff[2];
+        if (r2 >= h2) return;
+        const w = Math.min(1, 0.5 * (rheology[i * 4 + 1] + rheology[j * 4 + 1]) * dt) * poly6(r2, h2);
+        for (let a = 0; a < 3; a++) correction[a] += w * (vel[j * 4 + a] - vel[i * 4 + a]);
+      });
+      for (let a = 0; a < 3; a++) out[i * 4 + a] = vel[i * 4 + a] + invRestDensity * correction[a];
+    });
+  }
+
+  // createXSPHShader
+  private xsphPass(h: number, xsphCoeff: number): Texture {
+    const h2 = h * h;
+    const vel = this.velocity;
+    return this.pass(vel, 'copy', (i, out) => {
+      if (this.boundaryParticle(i)) return;
+      const correction = [0, 0, 0];
+      let totalWeight = 0;
+      this.forEachNeighbor(i, j => {
+        if (this.boundaryParticle(j)) return;
+        const diff = this.diff(i, j);
+        const r2 = diff[0] * diff[0] + diff[1] * diff[1] + diff[2] * diff[2];
+        if (r2 >= h2) return;
+        const w = poly6(r2, h2);
+        for (let a = 0; a < 3; a++) correction[a] += (vel[j * 4 + a] - vel[i * 4 + a]) * w;
+        totalWeight += w;
+      });
+      const v = [vel[i * 4], vel[i * 4 + 1], vel[i * 4 + 2]];
+      if (totalWeight > 0.0001) for (let a = 0; a < 3; a++) v[a] += xsphCoeff * correction[a];
+      clampLength(v, 50.0);
+      for (let a = 0; a < 3; a++) out[i * 4 + a] = v[a];
+    });
+  }
+
+  // createVorticityShader (boundary particles write zero)
+  private vorticityPass(h: number, invRestDensity: number): Texture {
+    const vel = this.velocity;
+    return this.pass(vel, 'zero', (i, out) => {
+      if (this.boundaryParticle(i)) return;
+      const omega = [0, 0, 0];
+      this.forEachNeighbor(i, j => {
+        if (this.boundaryParticle(j)) return;
+        const diff = this.diff(i, j);
+        const d = Math.hypot(diff[0], diff[1], diff[2]);
+        if (d >= h) return;
+        const dv = [0, 1, 2].map(a => vel[j * 4 + a] - vel[i * 4 + a]);
+        const c = cross(spikyGrad(diff, d, h), dv);
+        for (let a = 0; a < 3; a++) omega[a] += c[a];
+      });
+      for (let a = 0; a < 3; a++) omega[a] *= invRestDensity;
+      out.set([omega[0], omega[1], omega[2], Math.hypot(omega[0], omega[1], omega[2])], i * 4);
+    });
+  }
+
+  // createVorticityConfinementShader
+  private confinementPass(h: number, vorticity: Texture, epsilon: number, dt: number): Texture {
+    const vel = this.velocity;
+    return this.pass(vel, 'copy', (i, out) => {
+      if (this.boundaryParticle(i)) return;
+      const eta = [0, 0, 0];
+      this.forEachNeighbor(i, j => {
+        if (this.boundaryParticle(j)) return;
+        const diff = this.diff(i, j);
+        const d = Math.hypot(diff[0], diff[1], diff[2]);
+        if (d >= h) return;
+        const g = spikyGrad(diff, d, h);
+        for (let a = 0; a < 3; a++) eta[a] += (vorticity[j * 4 + 3] - vorticity[i * 4 + 3]) * g[a];
+      });
+      const etaLen = Math.hypot(eta[0], eta[1], eta[2]);
+      if (etaLen <= 1e-6) return;
+      const push = cross(eta.map(x => x / etaLen), [vorticity[i * 4], vorticity[i * 4 + 1], vorticity[i * 4 + 2]]);
+      for (let a = 0; a < 3; a++) out[i * 4 + a] = vel[i * 4 + a] + epsilon * push[a] * dt;
+    });
+  }
+
+  // createHeatShader
+  private heatPass(h: number, diffusionRate: number, dt: number,
+    floorTemperature: number, wallTemperature: number, wallHeatTransfer: number): Texture {
+    const h2 = h * h;
+    const exchange = (heatTransfer: number, d: number) =>
+      Math.min(1, Math.max(0, heatTransfer * dt * Math.max(0, 1.0 - d / h)));
+    return this.pass(this.temperature, 'copy', (i, out) => {
+      if (this.boundaryParticle(i)) return;
+      const tI = this.particleTemperature(i);
+      let sum = 0;
+      this.forEachNeighbor(i, j => {
+        if (this.boundaryParticle(j)) return;
+        const diff = this.diff(i, j);
+        const r2 = diff[0] * diff[0] + diff[1] * diff[1] + diff[2] * diff[2];
+        if (r2 < h2) sum += poly6(r2, h2) * (this.particleTemperature(j) - tI);
+      });
+      let t = tI + diffusionRate * sum;
+
+      const p = [this.position[i * 4], this.position[i * 4 + 1], this.position[i * 4 + 2]];
+      const wall = -containerDistance(this.container, p);
+      if (wall < h) {
+        const surface = containerNormal(this.container, p)[1] < -0.7 ? floorTemperature : wallTemperature;
+        t = mix(t, surface, exchange(wallHeatTransfer, wall));
+      }
+      for (let k = 0; k < this.obstacles.count; k++) {
+        const d = obstacleDistance(this.obstacles, k, p);
+        t = mix(t, this.obstacles.params[k * 4 + 3], exchange(this.obstacles.shapes[k * 4 + 3], d));
+      }
+      out.set([t, 0, 0, 1.0], i * 4);
+    });
+  }
+
+  // bodyPoseShader (every texel, keyed by tBodyLocal)
+  private bodyPose(): Texture {
+    this.rigidBodies.pack(this.bodies);
+    const out = this.position.slice();
+    for (let i = 0; i < this.maxParticles; i++) {
+      const local = this.bodyLocal.subarray(i * 4, i * 4 + 4);
+      if (local[3] < 1.5) continue;
+      const k = Math.floor(local[3] - BODY_MARKER + 0.5);
+      const m = this.bodies.rotations.subarray(k * 9, k * 9 + 9);
+      for (let a = 0; a < 3; a++) {
+        out[i * 4 + a] = this.bodies.centers[k * 3 + a] + m[a] * local[0] + m[a + 3] * local[1] + m[a + 6] * local[2];
+      }
+      out[i * 4 + 3] = local[3];
+    }
+    return out;
+  }
+
+  // bodyReductionShader: float32 sums in slot order, then the readback layout
+  // GPUFluidEngine.reduceBodyReactions hands to the body integrator
+  private bodyReduction(): Float32Array {
+    const reactions = new Float32Array(MAX_BODIES * 6);
+    const { centers, rotations, ranges } = this.bodies;
+    for (let k = 0; k < this.bodies.count; k++) {
+      const m = rotations.subarray(k * 9, k * 9 + 9);
+      const sum = new Float32Array(6);
+      for (let s = 0; s < ranges[k * 2 + 1]; s++) {
+        const slot = ranges[k * 2] + s;
+        const local = this.bodyLocal.subarray(slot * 4, slot * 4 + 3);
+        const arm = [0, 1, 2].map(a => Math.fround(m[a] * local[0] + m[a + 3] * local[1] + m[a + 6] * local[2]));
+        const d = arm.map((r, a) => Math.fround(this.position[slot * 4 + a] - Math.fround(centers[k * 3 + a] + r)));
+        sum[0] += d[0]; sum[1] += d[1]; sum[2] += d[2];
+        sum[3] += arm[1] * d[2] - arm[2] * d[1];
+        sum[4] += arm[2] * d[0] - arm[0] * d[2];
+        sum[5] += arm[0] * d[1] - arm[1] * d[0];
+      }
+      reactions.set(sum, k * 6);
+    }
+    return reactions;
+  }
+}
@@ -0,0 +1,301 @@
+import * as THREE from 'three';
+import { FluidConfig } from '../types';
+import { computeVertexShader } from '../shaders/physicsShaders';
+import {
+  gridSplatVertexShader,
+  gridSplatFragmentShader,
+  diffuseVelocityShader,
+  diffusePositionShader,
+  diffuseVertexShader,
+  diffuseFragmentShader
+} from '../shaders/diffuseShaders';
+import { GPUComputeTarget } from './GPUFluidEngine';
+import { SimulationBackend } from './SimulationBackend';
+import { createPackedContainer, packContainer } from './container';
+import { batchSeed } from './seededRandom';
+
+// Secondary whitewater particles: spray, foam and bubbles (after Ihmsen et al.
+// 2012, "Unified spray, foam and bubbles for particle-based fluids")
+// A render-side effect on top of either backend: once per frame it reads the
+// engine's position, velocity and density textures, splats the fluid into a
+// coarse grid, spawns diffuse particles where the fluid traps air or breaks
+// into wave crests, and advects them on its own. Nothing is written back to
+// the simulation. Particles live in the container frame and are drawn as
+// additive sprites over the liquid composite (see shaders/diffuseShaders.ts).
+
+// Diffuse particle slots (DIFFUSE_TEXTURE_SIZE^2)
+export const DIFFUSE_TEXTURE_SIZE = 128;
+
+// Fluid grid: cells per axis over the boundary cube, slices per atlas row
+const GRID_RES = 16;
+const GRID_COLUMNS = 4;
+
+export class DiffuseParticles {
+  private renderer: THREE.WebGLRenderer;
+  private scene: THREE.Scene;
+  private camera: THREE.OrthographicCamera;
+  private quad: THREE.Mesh;
+
+  private positionTarget: GPUComputeTarget;  // xyz, w = life left
+  private velocityTarget: GPUComputeTarget;  // xyz, w = kind
+  private gridTarget: THREE.WebGLRenderTarget;
+  private velocityMaterial: THREE.ShaderMaterial;
+  private positionMaterial: THREE.ShaderMaterial;
+
+  // Fluid splat, one point per engine slot (rebuilt for a new texture size)
+  private splatScene = new THREE.Scene();
+  private splatMaterial: THREE.ShaderMaterial;
+  private splatPoints: THREE.Points | null = null;
+
+  // Sprites, posed with the container every frame
+  private spriteScene = new THREE.Scene();
+  private spriteMaterial: THREE.ShaderMaterial;
+  private sprites: THREE.Points;
+
+  private container = createPackedContainer();
+  private frame = 0;
+  private clearColor = new THREE.Color();
+
+  constructor(renderer: THREE.WebGLRenderer) {
+    this.renderer = renderer;
+    this.scene = new THREE.Scene();
+    this.camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+    this.quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2));
+    this.scene.add(this.quad);
+
+    const size = DIFFUSE_TEXTURE_SIZE;
+    this.positionTarget = new GPUComputeTarget(size, size);
+    this.velocityTarget = new GPUComputeTarget(size, size);
+    this.gridTarget = new THREE.WebGLRenderTarget(GRID_RES * GRID_COLUMNS, GRID_RES * Math.ceil(GRID_RES / GRID_COLUMNS), {
+      minFilter: THREE.LinearFilter,
+      magFilter: THREE.LinearFilter,
+      format: THREE.RGBAFormat,
+      type: THREE.HalfFloatType,
+      depthBuffer: false,
+      stencilBuffer: false
+    });
+
+    const gridUniforms = () => ({
+      uGridRes: { value: GRID_RES },
+      uGridColumns: { value: GRID_COLUMNS },
+      uGridAtlas: { value: new THREE.Vector2(this.gridTarget.width, this.gridTarget.height) },
+      uBound: { value: 1 }
+    });
+
+    this.splatMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tPosition: { value: null },
+        tVelocity: { value: null },
+        uParticleRes: { value: new THREE.Vector2(1, 1) },
+        ...gridUniforms()
+      },
+      vertexShader: gridSplatVertexShader,
+      fragmentShader: gridSplatFragmentShader,
+      blending: THREE.CustomBlending, blendSrc: THREE.OneFactor, blendDst: THREE.OneFactor,
+      depthTest: false, depthWrite: false
+    });
+
+    const stepUniforms = () => ({
+      tDiffusePosition: { value: null },
+      tDiffuseVelocity: { value: null },
+      tGrid: { value: this.gridTarget.texture },
+      uFillScale: { value: 1 },
+      ...gridUniforms(),
+      tFluidPosition: { value: null },
+      tFluidVelocity: { value: null },
+      tFluidDensity: { value: null },
+      uFluidRes: { value: new THREE.Vector2(1, 1) },
+      uFluidCount: { value: 0 },
+      uEmission: { value: 0 },
+      uSpacing: { value: 1 },
+      uSeed: { value: 0 },
+      uDiffuseRes: { value: new THREE.Vector2(size, size) },
+      uDt: { value: 0 }
+    });
+
+    this.velocityMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        ...stepUniforms(),
+        uGravity: { value: new THREE.Vector3() }
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: diffuseVelocityShader
+    });
+
+    this.positionMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        ...stepUniforms(),
+        uLifetime: { value: 1 },
+        uMargin: { value: 0 },
+        uContainerShape: { value: 0 },
+        uContainerSize: { value: this.container.size },
+        uContainerBound: { value: 1 },
+        uWallSurface: { value: this.container.surfaces }
+      },
+      defines: { CONTAINER_SDF: this.container.glsl },
+      vertexShader: computeVertexShader,
+      fragmentShader: diffusePositionShader
+    });
+
+    this.spriteMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tDiffusePosition: { value: null },
+        tDiffuseVelocity: { value: null },
+        uDiffuseRes: { value: new THREE.Vector2(size, size) },
+        uSize: { value: 1 },
+        tDepth: { value: null },
+        uScreenRes: { value: new THREE.Vector2(1, 1) },
+        uOpacity: { value: 1 }
+      },
+      vertexShader: diffuseVertexShader,
+      fragmentShader: diffuseFragmentShader,
+      transparent: true,
+      blending: THREE.CustomBlending, blendSrc: THREE.OneFactor, blendDst: THREE.OneFactor,
+      depthTest: false, depthWrite: false
+    });
+    this.sprites = new THREE.Points(slotGeometry(size * size), this.spriteMaterial);
+    this.sprites.frustumCulled = false;
+    this.sprites.matrixAutoUpdate = false;
+    this.spriteScene.add(this.sprites);
+
+    this.reset();
+  }
+
+  // Advance by `dt` simulated seconds against the engine's current state
+  public update(engine: SimulationBackend, config: FluidConfig, dt: number, gravity: [number, number, number]): void {
+    if (dt <= 0) return;
+    const prevTarget = this.renderer.getRenderTarget();
+    const bound = config.boundarySize / 2;
+    const fluidRes = engine.textureSize;
+
+    // 1. Fluid grid
+    if (!this.splatPoints || this.splatPoints.geometry.getAttribute('slot').count !== fluidRes * fluidRes) {
+      this.splatPoints?.geometry.dispose();
+      if (this.splatPoints) this.splatScene.remove(this.splatPoints);
+      this.splatPoints = new THREE.Points(slotGeometry(fluidRes * fluidRes), this.splatMaterial);
+      this.splatPoints.frustumCulled = false;
+      this.splatScene.add(this.splatPoints);
+    }
+    this.splatPoints.geometry.setDrawRange(0, engine.particleCount);
+    const splat = this.splatMaterial.uniforms;
+    splat.tPosition.value = engine.getPositionTexture();
+    splat.tVelocity.value = engine.getVelocityTexture();
+    splat.uParticleRes.value.set(fluidRes, fluidRes);
+    splat.uBound.value = bound;
+
+    this.renderer.getClearColor(this.clearColor);
+    const clearAlpha = this.renderer.getClearAlpha();
+    this.renderer.setClearColor(0x000000, 0);
+    this.renderer.setRenderTarget(this.gridTarget);
+    this.renderer.clear();
+    this.renderer.render(this.splatScene, this.camera);
+    this.renderer.setClearColor(this.clearColor, clearAlpha);
+
+    // 2-3. Emission and advection, velocity first
+    // Each free slot samples one of the particleCount fluid slots, so scaling the
+    // chance by particleCount / slots makes the expected spawns the fluid's summed
+    // potential times the rate; a full buffer spawns less
+    const spacing = engine.getParticleSpacing();
+    const cell = config.boundarySize / GRID_RES;
+    const slots = DIFFUSE_TEXTURE_SIZE * DIFFUSE_TEXTURE_SIZE;
+    const emission = (config.diffuseEmission ?? 1) * dt * engine.particleCount / slots;
+    const seed = batchSeed(config.seed, this.frame++);
+    for (const material of [this.velocityMaterial, this.positionMaterial]) {
+      const u = material.uniforms;
+      u.tDiffusePosition.value = this.positionTarget.read.texture;
+      u.tDiffuseVelocity.value = this.velocityTarget.read.texture;
+      u.uFillScale.value = (spacing / cell) ** 3;
+      u.uBound.value = bound;
+      u.tFluidPosition.value = engine.getPositionTexture();
+      u.tFluidVelocity.value = engine.getVelocityTexture();
+      u.tFluidDensity.value = engine.getDensityTexture();
+      u.uFluidRes.value.set(fluidRes, fluidRes);
+      u.uFluidCount.value = engine.particleCount;
+      u.uEmission.value = emission;
+      u.uSpacing.value = spacing;
+      u.uSeed.value = seed;
+      u.uDt.value = dt;
+    }
+
+    this.velocityMaterial.uniforms.uGravity.value.fromArray(gravity);
+    this.quad.material = this.velocityMaterial;
+    this.renderer.setRenderTarget(this.velocityTarget.write);
+    this.renderer.render(this.scene, this.camera);
+    this.velocityTarget.swap();
+
+    // 4. Positions and aging, against the container walls
+    packContainer(config.container, config.boundarySize, this.container);
+    const position = this.positionMaterial.uniforms;
+    position.tDiffuseVelocity.value = this.velocityTarget.read.texture;
+    position.uLifetime.value = config.diffuseLifetime ?? 3;
+    position.uMargin.value = spacing * 0.25;
+    position.uContainerShape.value = this.container.shape;
+    position.uContainerBound.value = this.container.bound;
+    if (this.positionMaterial.defines.CONTAINER_SDF !== this.container.glsl) {
+      this.positionMaterial.defines.CONTAINER_SDF = this.container.glsl;
+      this.positionMaterial.needsUpdate = true;
+    }
+    this.quad.material = this.positionMaterial;
+    this.renderer.setRenderTarget(this.positionTarget.write);
+    this.renderer.render(this.scene, this.camera);
+    this.positionTarget.swap();
+
+    this.renderer.setRenderTarget(prevTarget);
+  }
+
+  // Draw the particles into the current render target, in the frame of
+  // `container` (the scene holding the fluid), dimmed below the smoothed
+  // liquid surface `surfaceDepth`
+  public render(camera: THREE.Camera, container: THREE.Object3D, surfaceDepth: THREE.Texture, size: number): void {
+    const u = this.spriteMaterial.uniforms;
+    u.tDiffusePosition.value = this.positionTarget.read.texture;
+    u.tDiffuseVelocity.value = this.velocityTarget.read.texture;
+    u.uSize.value = size;
+    u.tDepth.value = surfaceDepth;
+    this.renderer.getDrawingBufferSize(u.uScreenRes.value);
+    this.sprites.matrix.copy(container.matrixWorld);
+    this.sprites.matrixWorldNeedsUpdate = true;
+    this.renderer.render(this.spriteScene, camera);
+  }
+
+  // Free every slot
+  public reset(): void {
+    const prevTarget = this.renderer.getRenderTarget();
+    this.renderer.getClearColor(this.clearColor);
+    const clearAlpha = this.renderer.getClearAlpha();
+    this.renderer.setClearColor(0x000000, 0);
+    for (const target of [this.positionTarget, this.velocityTarget]) {
+      for (const rt of [target.renderTarget1, target.renderTarget2]) {
+        this.renderer.setRenderTarget(rt);
+        this.renderer.clear();
+      }
+    }
+    this.renderer.setClearColor(this.clearColor, clearAlpha);
+    this.renderer.setRenderTarget(prevTarget);
+    this.frame = 0;
+  }
+
+  public dispose(): void {
+    this.positionTarget.dispose();
+    this.velocityTarget.dispose();
+    this.gridTarget.dispose();
+    this.velocityMaterial.dispose();
+    this.positionMaterial.dispose();
+    this.splatMaterial.dispose();
+    this.spriteMaterial.dispose();
+    this.splatPoints?.geometry.dispose();
+    this.sprites.geometry.dispose();
+    this.quad.geometry.dispose();
+  }
+}
+
+// Point per slot, carrying the slot index (the position attribute is unused
+// but needed by three.js)
+function slotGeometry(count: number): THREE.BufferGeometry {
+  const slots = new Float32Array(count);
+  for (let i = 0; i < count; i++) slots[i] = i;
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('slot', new THREE.BufferAttribute(slots, 1));
+  geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+  return geometry;
+}
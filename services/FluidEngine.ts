@@ -1,71 +1,397 @@
 
+import * as THREE from 'three';
 import { FluidConfig } from '../types';
+import { ParticleReadback, ParticleState, SimulationBackend } from './SimulationBackend';
+import { computeGridLayout, GridLayout } from './SpatialGrid';
+import { cohesionKernel, latticeRestDensity, poly6, spikyGradMagnitude } from './sphKernels';
+import { batchSeed, hashUnit } from './seededRandom';
+import { createPackedObstacles, obstacleDistance, obstacleNormal, packObstacles } from './obstacles';
+import { containerDistance, containerFace, containerNormal, createPackedContainer, packContainer, packWallSurfaces } from './container';
+import { applyBrush, BrushStroke, createPackedBrush, packBrush } from './brush';
+import { createPackedForceFields, forceFieldAcceleration, packForceFields } from './forceFields';
+import { createPackedFrame, frameAcceleration, FrameMotion, packFrame } from './containerMotion';
+import { velocityLimit } from './timeStep';
+import { ADHESION_STRENGTH, wallAdhesion, wallDensity } from './wallBoundary';
+import { BODY_MARKER, copyBodyMotion, MAX_BODIES, RigidBody, RigidBodyDesc, RigidBodySystem } from './rigidBodies';
+import { createPackedPhases, interfacePush, packPhases } from './phases';
+import { AMBIENT_TEMPERATURE, heatDiffusionRate, surfaceExchange, temperatureCurve } from './thermal';
+import { effectiveViscosity, rheologyModelIndex, usesViscousForces, viscousCoupling } from './rheology';
+import { stackingShare, stackingUp } from './granular';
+import { compactionDue, createPackedDrains, EmissionClock, emitterPoint, insideDrain, packDrains } from './emitters';
 
-export class FluidEngine {
+// Scale that limits (x, y, z) to maxLen, the GLSL clampLength helper as a factor
+function clampScale(x: number, y: number, z: number, maxLen: number): number {
+  const len = Math.sqrt(x*x + y*y + z*z);
+  return len > maxLen ? maxLen / len : 1;
+}
+
+export class FluidEngine implements SimulationBackend {
+  public readonly kind = 'cpu' as const;
   public positions: Float32Array;
   public velocities: Float32Array;
   public densities: Float32Array;
+  private densityRatios: Float32Array;  // Density over the rest density of the particle's phase
+  public lambdas: Float32Array;
+  public temperatures: Float32Array;
   private oldPositions: Float32Array;
+  private deltas: Float32Array;         // Jacobi scratch: position corrections, source velocities (XSPH, viscosity), source temperatures
+  private vorticity: Float32Array;      // Curl of velocity (xyz) and its magnitude (w), like the GPU vorticity target
+  private viscosities: Float32Array;    // Non-Newtonian effective viscosity per particle
 
   public particleCount: number = 0;
   private maxParticles: number;
-  private grid: Map<string, number[]>;
+
+  // Uniform grid built with a counting sort (flat typed arrays, no per-step allocation)
+  private gridLayout: GridLayout;
+  private cellIndices: Int32Array;      // Cell of each particle (-1 = inactive)
+  private cellStart: Int32Array;        // Start offset of each cell in sortedIndices (cellCount + 1 entries)
+  private cellCursor: Int32Array;       // Scatter cursor per cell
+  private sortedIndices: Int32Array;    // Particle indices ordered by cell, then index
+  private neighborBuffer: Int32Array;   // Reusable neighbor list for one particle
+  private cellScratch = new Int32Array(3);
+
+  // Obstacles repacked from the config every step (same layout as the GPU uniforms)
+  private obstacles = createPackedObstacles();
+  private container = createPackedContainer();
+  private normalScratch = [0, 0, 0];
+
+  // Emitters and drains (config.emitters / config.drains), applied every step
+  private emission = new EmissionClock();
+  private drains = createPackedDrains();
+  private emitScratch = [0, 0, 0];
+  private drainSteps: number = 0;       // Draining steps since the last compaction
+
+  // Force fields (config.forceFields) animated at the simulated time, applied after gravity
+  public time: number = 0;
+  private forceFields = createPackedForceFields();
+  private fieldScratch = [0, 0, 0];
+
+  // Container motion (setFrameMotion), applied as pseudo-forces after the force fields
+  private frameMotion: FrameMotion | null = null;
+  private frame = createPackedFrame();
+
+  // Cursor brush stroke (setBrush), applied after gravity every step
+  private brushStroke: BrushStroke | null = null;
+  private brush = createPackedBrush();
+
+  // Rigid bodies; their boundary particles occupy particle slots like the fluid
+  public readonly rigidBodies = new RigidBodySystem();
+  private particleBody: Int16Array;     // Body index per slot (-1 = fluid)
+  private bodyReactions = new Float32Array(MAX_BODIES * 6);
+  private bodyPoint = new THREE.Vector3();
+
+  // Fluid phases: index per slot (boundary particles are phase 0), properties repacked every step
+  private particlePhase: Uint8Array;
+  private phases = createPackedPhases();
 
   // Base radius for spawning (set at init, used for spawn spacing)
   private baseRadius: number;
 
+  // Spawn jitter seed; batch k of a run always draws the same numbers
+  private seed: number;
+  private spawnBatch: number = 0;
+
+  // Position uploads for the GPU render shaders (same layout as GPUFluidEngine)
+  public textureSize: number;
+  private positionTexture: THREE.DataTexture | null = null;
+  private previousPositionTexture: THREE.DataTexture | null = null;
+  private phaseTexture: THREE.DataTexture | null = null;
+  private temperatureTexture: THREE.DataTexture | null = null;
+  private velocityTexture: THREE.DataTexture | null = null;
+  private densityTexture: THREE.DataTexture | null = null;
+  private texturesDirty: boolean = true;
+  private densitiesSolved = false;  // The last step ran a density solve (sand has none)
+
   constructor(config: FluidConfig) {
     this.maxParticles = config.maxParticles;
     this.positions = new Float32Array(this.maxParticles * 3).fill(10000);
     this.oldPositions = new Float32Array(this.maxParticles * 3).fill(10000);
     this.velocities = new Float32Array(this.maxParticles * 3);
     this.densities = new Float32Array(this.maxParticles);
+    this.densityRatios = new Float32Array(this.maxParticles);
+    this.lambdas = new Float32Array(this.maxParticles);
+    this.temperatures = new Float32Array(this.maxParticles).fill(AMBIENT_TEMPERATURE);
+    this.deltas = new Float32Array(this.maxParticles * 3);
+    this.vorticity = new Float32Array(this.maxParticles * 4);
+    this.viscosities = new Float32Array(this.maxParticles);
+    this.particleBody = new Int16Array(this.maxParticles).fill(-1);
+    this.particlePhase = new Uint8Array(this.maxParticles);
     this.baseRadius = config.particleRadius;
-    this.grid = new Map();
+    this.seed = config.seed;
+    this.textureSize = Math.ceil(Math.sqrt(this.maxParticles));
+
+    this.gridLayout = computeGridLayout(config.boundarySize, 1.7);
+    this.cellIndices = new Int32Array(this.maxParticles);
+    this.cellStart = new Int32Array(this.gridLayout.cellCount + 1);
+    this.cellCursor = new Int32Array(this.gridLayout.cellCount);
+    this.sortedIndices = new Int32Array(this.maxParticles);
+    this.neighborBuffer = new Int32Array(256);
   }
 
   public getParticleSpacing(): number {
     return this.baseRadius * 2.2;
   }
 
-  public addParticles(count: number, origin: [number, number, number]) {
+  public addParticles(count: number, origin: [number, number, number], phase: number = 0, temperature: number = AMBIENT_TEMPERATURE) {
     const start = this.particleCount;
     const end = Math.min(this.maxParticles, start + count);
-    const spacing = this.getParticleSpacing();
+    const actualCount = end - start;
+    if (actualCount <= 0) return;
 
-    let added = 0;
-    const gridDim = Math.ceil(Math.cbrt(count));
+    const spacing = this.getParticleSpacing();
+    const gridDim = Math.ceil(Math.cbrt(actualCount));
     const offset = (gridDim - 1) * spacing * 0.5;
+    const seed = batchSeed(this.seed, this.spawnBatch++);
 
-    for (let x = 0; x < gridDim && added < (end - start); x++) {
-      for (let y = 0; y < gridDim && added < (end - start); y++) {
-        for (let z = 0; z < gridDim && added < (end - start); z++) {
-          const i = start + added;
-          const idx = i * 3;
-          this.positions[idx] = origin[0] - offset + x * spacing + (Math.random() - 0.5) * spacing * 0.3;
-          this.positions[idx + 1] = origin[1] - offset + y * spacing + (Math.random() - 0.5) * spacing * 0.3;
-          this.positions[idx + 2] = origin[2] - offset + z * spacing + (Math.random() - 0.5) * spacing * 0.3;
-          this.oldPositions.set(this.positions.subarray(idx, idx + 3), idx);
-          added++;
-        }
+    // Same lattice order and jitter stream as addParticlesShader
+    for (let local = 0; local < actualCount; local++) {
+      const gx = local % gridDim;
+      const gy = Math.floor(local / gridDim) % gridDim;
+      const gz = Math.floor(local / (gridDim * gridDim));
+      const idx = (start + local) * 3;
+      const n = local * 3;
+      this.positions[idx] = origin[0] - offset + gx * spacing + (hashUnit(seed, n) - 0.5) * spacing * 0.3;
+      this.positions[idx + 1] = origin[1] - offset + gy * spacing + (hashUnit(seed, n + 1) - 0.5) * spacing * 0.3;
+      this.positions[idx + 2] = origin[2] - offset + gz * spacing + (hashUnit(seed, n + 2) - 0.5) * spacing * 0.3;
+      this.oldPositions.set(this.positions.subarray(idx, idx + 3), idx);
+      this.velocities.fill(0, idx, idx + 3);
+      this.particleBody[start + local] = -1;
+      this.particlePhase[start + local] = phase;
+      this.temperatures[start + local] = temperature;
+    }
+    this.particleCount = end;
+    this.texturesDirty = true;
+  }
+
+  // Emit the particles the enabled emitters owe after dt (emitParticlesShader)
+  private runEmitters(config: FluidConfig, dt: number) {
+    const spacing = this.getParticleSpacing();
+    const p = this.emitScratch;
+    for (const batch of this.emission.advance(config, dt, this.maxParticles - this.particleCount)) {
+      const { emitter, frame } = batch;
+      const seed = batchSeed(this.seed, this.spawnBatch++);
+      const start = this.particleCount;
+      for (let k = 0; k < batch.count; k++) {
+        const idx = (start + k) * 3;
+        emitterPoint(batch, seed, k, spacing, dt, p);
+        this.positions.set(p, idx);
+        this.oldPositions.set(p, idx);
+        this.velocities[idx] = frame.axis[0] * emitter.speed;
+        this.velocities[idx + 1] = frame.axis[1] * emitter.speed;
+        this.velocities[idx + 2] = frame.axis[2] * emitter.speed;
+        this.particleBody[start + k] = -1;
+        this.particlePhase[start + k] = batch.phase;
+        this.temperatures[start + k] = emitter.temperature;
+      }
+      this.particleCount = start + batch.count;
+    }
+  }
+
+  public addRigidBody(desc: RigidBodyDesc): RigidBody | null {
+    const body = this.rigidBodies.add(desc, this.particleCount, this.maxParticles);
+    if (!body) return null;
+
+    const index = this.rigidBodies.bodies.length - 1;
+    this.particleBody.fill(index, body.firstSlot, body.firstSlot + body.pointCount);
+    this.particlePhase.fill(0, body.firstSlot, body.firstSlot + body.pointCount);
+    this.velocities.fill(0, body.firstSlot * 3, (body.firstSlot + body.pointCount) * 3);
+    this.poseBoundaryParticles();
+    this.oldPositions.set(
+      this.positions.subarray(body.firstSlot * 3, (body.firstSlot + body.pointCount) * 3),
+      body.firstSlot * 3
+    );
+    this.particleCount = body.firstSlot + body.pointCount;
+    this.texturesDirty = true;
+    return body;
+  }
+
+  public setBrush(stroke: BrushStroke | null) {
+    this.brushStroke = stroke;
+  }
+
+  public setFrameMotion(motion: FrameMotion | null) {
+    this.frameMotion = motion;
+  }
+
+  public maxSpeed(): number {
+    let max = 0;
+    for (let i = 0; i < this.particleCount; i++) {
+      if (this.particleBody[i] >= 0 || this.inactive(i)) continue;
+      const idx = i * 3;
+      max = Math.max(max, Math.hypot(this.velocities[idx], this.velocities[idx+1], this.velocities[idx+2]));
+    }
+    return max;
+  }
+
+  // Pack the live slots to the front in slot order (compactGatherShader)
+  public compact() {
+    this.drainSteps = 0;
+    const count = this.particleCount;
+    let live = 0;
+    for (let i = 0; i < count; i++) {
+      if (this.inactive(i)) continue;
+      // Bodies keep contiguous slots, moved down by the dead slots before them
+      const b = this.particleBody[i];
+      if (b >= 0 && this.rigidBodies.bodies[b].firstSlot === i) this.rigidBodies.bodies[b].firstSlot = live;
+      if (live !== i) {
+        this.positions.copyWithin(live * 3, i * 3, i * 3 + 3);
+        this.oldPositions.copyWithin(live * 3, i * 3, i * 3 + 3);
+        this.velocities.copyWithin(live * 3, i * 3, i * 3 + 3);
+        this.temperatures[live] = this.temperatures[i];
+        this.particleBody[live] = b;
+        this.particlePhase[live] = this.particlePhase[i];
       }
+      live++;
     }
-    this.particleCount = start + added;
+    if (live === count) return;
+
+    // Freed slots look never used
+    this.positions.fill(10000, live * 3, count * 3);
+    this.oldPositions.fill(10000, live * 3, count * 3);
+    this.velocities.fill(0, live * 3, count * 3);
+    this.temperatures.fill(AMBIENT_TEMPERATURE, live, count);
+    this.particleBody.fill(-1, live, count);
+    this.particlePhase.fill(0, live, count);
+    this.particleCount = live;
+    this.texturesDirty = true;
   }
 
-  private updateGrid(cellSize: number) {
-    this.grid.clear();
+  // Move boundary particles to their body's current pose (bodyPoseShader)
+  private poseBoundaryParticles() {
+    const p = this.bodyPoint;
+    for (const body of this.rigidBodies.bodies) {
+      for (let k = 0; k < body.pointCount; k++) {
+        this.rigidBodies.worldPoint(body, k, p);
+        const idx = (body.firstSlot + k) * 3;
+        this.positions[idx] = p.x;
+        this.positions[idx+1] = p.y;
+        this.positions[idx+2] = p.z;
+      }
+    }
+  }
+
+  // Fluid reaction per body: summed boundary particle displacement from the pose
+  // and its moment about the center, in slot order (bodyReductionShader)
+  private reduceBodyReactions(): Float32Array {
+    const reactions = this.bodyReactions.fill(0);
+    const p = this.bodyPoint;
+    this.rigidBodies.bodies.forEach((body, b) => {
+      for (let k = 0; k < body.pointCount; k++) {
+        this.rigidBodies.worldPoint(body, k, p);
+        const idx = (body.firstSlot + k) * 3;
+        const dx = this.positions[idx] - p.x;
+        const dy = this.positions[idx+1] - p.y;
+        const dz = this.positions[idx+2] - p.z;
+        const rx = p.x - body.center.x, ry = p.y - body.center.y, rz = p.z - body.center.z;
+        reactions[b * 6] += dx;
+        reactions[b * 6 + 1] += dy;
+        reactions[b * 6 + 2] += dz;
+        reactions[b * 6 + 3] += ry * dz - rz * dy;
+        reactions[b * 6 + 4] += rz * dx - rx * dz;
+        reactions[b * 6 + 5] += rx * dy - ry * dx;
+      }
+    });
+    return reactions;
+  }
+
+  // Drained slots stay far away (w = 0 on the GPU) and are skipped by every pass
+  private inactive(i: number): boolean {
+    return this.positions[i * 3] > 5000;
+  }
+
+  private cellOf(px: number, py: number, pz: number, out: Int32Array): void {
+    const { origin, dims, cellSize } = this.gridLayout;
+    out[0] = Math.min(dims[0] - 1, Math.max(0, Math.floor((px - origin[0]) / cellSize)));
+    out[1] = Math.min(dims[1] - 1, Math.max(0, Math.floor((py - origin[1]) / cellSize)));
+    out[2] = Math.min(dims[2] - 1, Math.max(0, Math.floor((pz - origin[2]) / cellSize)));
+  }
+
+  // Counting sort of particles into grid cells. Stable in particle index, so the
+  // neighbor order (and therefore the result) is deterministic for a given input.
+  private updateGrid(cellSize: number, boundarySize: number) {
+    const layout = computeGridLayout(boundarySize, cellSize);
+    this.gridLayout = layout;
+    const { dims, cellCount } = layout;
+
+    if (this.cellStart.length < cellCount + 1) {
+      this.cellStart = new Int32Array(cellCount + 1);
+      this.cellCursor = new Int32Array(cellCount);
+    }
+    const cellStart = this.cellStart;
+    cellStart.fill(0, 0, cellCount + 1);
+
+    const cell = this.cellScratch;
     for (let i = 0; i < this.particleCount; i++) {
       const px = this.positions[i*3], py = this.positions[i*3+1], pz = this.positions[i*3+2];
-      if (px > 5000) continue;
-      const k = `${Math.floor(px/cellSize)},${Math.floor(py/cellSize)},${Math.floor(pz/cellSize)}`;
-      if (!this.grid.has(k)) this.grid.set(k, []);
-      this.grid.get(k)!.push(i);
+      if (this.inactive(i)) { this.cellIndices[i] = -1; continue; }
+      this.cellOf(px, py, pz, cell);
+      const c = cell[0] + cell[1] * dims[0] + cell[2] * dims[0] * dims[1];
+      this.cellIndices[i] = c;
+      cellStart[c + 1]++;
+    }
+
+    // Prefix sum: cellStart[c] .. cellStart[c + 1] is the range of cell c
+    for (let c = 0; c < cellCount; c++) cellStart[c + 1] += cellStart[c];
+
+    this.cellCursor.set(cellStart.subarray(0, cellCount));
+    for (let i = 0; i < this.particleCount; i++) {
+      const c = this.cellIndices[i];
+      if (c < 0) continue;
+      this.sortedIndices[this.cellCursor[c]++] = i;
     }
   }
 
+  // Collect neighbors of particle i within sqrt(radius2) into neighborBuffer.
+  // Returns the neighbor count.
+  private gatherNeighbors(i: number, radius2: number): number {
+    const { dims } = this.gridLayout;
+    const cell = this.cellScratch;
+    const idx = i * 3;
+    const px = this.positions[idx], py = this.positions[idx+1], pz = this.positions[idx+2];
+    this.cellOf(px, py, pz, cell);
+    const gx = cell[0], gy = cell[1], gz = cell[2];
+    let count = 0;
+
+    for (let x = -1; x <= 1; x++) {
+      const cx = gx + x;
+      if (cx < 0 || cx >= dims[0]) continue;
+      for (let y = -1; y <= 1; y++) {
+        const cy = gy + y;
+        if (cy < 0 || cy >= dims[1]) continue;
+        for (let z = -1; z <= 1; z++) {
+          const cz = gz + z;
+          if (cz < 0 || cz >= dims[2]) continue;
+          const c = cx + cy * dims[0] + cz * dims[0] * dims[1];
+          const end = this.cellStart[c + 1];
+          for (let s = this.cellStart[c]; s < end; s++) {
+            const n = this.sortedIndices[s];
+            if (n === i) continue;
+            const nIdx = n * 3;
+            const dx = px - this.positions[nIdx];
+            const dy = py - this.positions[nIdx+1];
+            const dz = pz - this.positions[nIdx+2];
+            if (dx*dx + dy*dy + dz*dz < radius2) {
+              if (count === this.neighborBuffer.length) {
+                const grown = new Int32Array(count * 2);
+                grown.set(this.neighborBuffer);
+                this.neighborBuffer = grown;
+              }
+              this.neighborBuffer[count++] = n;
+            }
+          }
+        }
+      }
+    }
+    return count;
+  }
+
   public step(dt: number, config: FluidConfig, gravityVec: [number, number, number]) {
+    this.time += dt;
+    // Reclaim the slots drains have freed before emitting into new ones
+    if (compactionDue(this.drainSteps, this.particleCount, this.maxParticles)) this.compact();
+    this.runEmitters(config, dt);
     if (this.particleCount === 0) return;
+    this.texturesDirty = true;
 
     // NEW DESIGN: Separate physics and visual radius
     // - particleRadius (from UI) = VISUAL particle size (what user sees/controls)
@@ -77,161 +403,978 @@ export class FluidEngine {
 
     // SPH kernel radius - fixed value for stability
     const h = 1.7;
-    const h2 = h * h;
-    const poly6 = 315 / (64 * Math.PI * Math.pow(h, 9));
-    const spikyGrad = -45 / (Math.PI * Math.pow(h, 6));
-
-    // Rest density - use config value directly
-    const effectiveRestDensity = config.restDensity;
 
     // Collision distance based on physics particle size
     const minDist = physicsRadius * 2.0;
-    const cellSize = Math.max(h, minDist);
+    // Cohesion range scales with physics particle size (same as GPU)
+    const cohesionRadius = physicsRadius * 5.0;
 
-    const boundary = config.boundarySize / 2;
     const boundaryOffset = physicsRadius;
-    const wallRepelDist = physicsRadius * 1.2;
+    const container = packContainer(config.container, config.boundarySize, this.container);
+    packWallSurfaces(config, container);
+    const obstacles = packObstacles(config.obstacles, this.obstacles);
+    // Soft wall cushion for liquids; sand rests on the walls as frictional contacts
+    const granular = config.material === 'granular';
+    const wallRepelDist = granular ? 0 : physicsRadius * 1.2;
+    this.densitiesSolved = !granular;
 
     const sDt = dt;
 
-    // Apply gravity and predict positions
+    const phases = packPhases(config, this.phases);
+    const phasePush = interfacePush(config, physicsRadius);
+    const viscousForces = !granular && usesViscousForces(config);
+
+    this.poseBoundaryParticles();
+
+    // Apply gravity, force fields, container pseudo-forces and the brush, then predict positions
+    // The GPU integrate pass adds gravity again on top of the integrated velocity,
+    // so the prediction uses v + g*dt; velocities are rebuilt from positions later.
+    const fields = packForceFields(config.forceFields, this.time, this.forceFields);
+    const accel = this.fieldScratch;
+    const frame = packFrame(this.frameMotion, config, this.frame);
+    const brush = packBrush(this.brushStroke, config, this.brush);
     for (let i = 0; i < this.particleCount; i++) {
       const idx = i * 3;
       this.oldPositions.set(this.positions.subarray(idx, idx + 3), idx);
+      if (this.particleBody[i] >= 0 || this.inactive(i)) continue;
       this.velocities[idx] += gravityVec[0] * sDt;
       this.velocities[idx+1] += gravityVec[1] * sDt;
       this.velocities[idx+2] += gravityVec[2] * sDt;
-      this.positions[idx] += this.velocities[idx] * sDt;
-      this.positions[idx+1] += this.velocities[idx+1] * sDt;
-      this.positions[idx+2] += this.velocities[idx+2] * sDt;
+      if (fields.count > 0) {
+        forceFieldAcceleration(fields, this.positions[idx], this.positions[idx+1], this.positions[idx+2], accel);
+        this.velocities[idx] += accel[0] * sDt;
+        this.velocities[idx+1] += accel[1] * sDt;
+        this.velocities[idx+2] += accel[2] * sDt;
+      }
+      if (frame.active) {
+        frameAcceleration(frame, this.positions[idx], this.positions[idx+1], this.positions[idx+2],
+          this.velocities[idx], this.velocities[idx+1], this.velocities[idx+2], accel);
+        this.velocities[idx] += accel[0] * sDt;
+        this.velocities[idx+1] += accel[1] * sDt;
+        this.velocities[idx+2] += accel[2] * sDt;
+      }
+      applyBrush(brush, this.positions[idx], this.positions[idx+1], this.positions[idx+2], sDt, this.velocities, idx);
+      this.positions[idx] += (this.velocities[idx] + gravityVec[0] * sDt) * sDt;
+      this.positions[idx+1] += (this.velocities[idx+1] + gravityVec[1] * sDt) * sDt;
+      this.positions[idx+2] += (this.velocities[idx+2] + gravityVec[2] * sDt) * sDt;
     }
 
-    this.updateGrid(cellSize);
+    // Cells must cover the largest interaction radius (same layout as the GPU grid)
+    this.updateGrid(Math.max(h, minDist, cohesionRadius), config.boundarySize);
 
     // Multiple constraint iterations for stability
-    const constraintIterations = 3;
+    const constraintIterations = Math.max(1, Math.round(config.solverIterations));
+
+    if (granular) {
+      this.solveGranularContacts(minDist, config, constraintIterations, stackingUp(gravityVec));
+    } else if (config.solver === 'pbf') {
+      this.solveDensityConstraints(h, physicsRadius, phasePush, config, constraintIterations);
+    } else {
+      this.solvePressureConstraints(h, minDist, cohesionRadius, phasePush, config, constraintIterations);
+    }
+
+    const minBound = -container.bound + boundaryOffset;
+    const maxBound = container.bound - boundaryOffset;
+    const maxVelocity = velocityLimit(config, sDt);
+
+    const n = this.normalScratch;
+
+    for (let i = 0; i < this.particleCount; i++) {
+      const idx = i * 3;
+      // Boundary particles keep their solver displacement for the body reaction
+      if (this.particleBody[i] >= 0 || this.inactive(i)) continue;
+
+      // Project out of obstacles along the SDF normal
+      for (let k = 0; k < obstacles.count; k++) {
+        const d = obstacleDistance(obstacles, k, this.positions[idx], this.positions[idx+1], this.positions[idx+2]);
+        if (d >= physicsRadius) continue;
+        obstacleNormal(obstacles, k, this.positions[idx], this.positions[idx+1], this.positions[idx+2], n);
+        this.positions[idx] += n[0] * (physicsRadius - d);
+        this.positions[idx+1] += n[1] * (physicsRadius - d);
+        this.positions[idx+2] += n[2] * (physicsRadius - d);
+      }
+
+      // Container: soft repulsion along the wall normal, hard projection back
+      // inside, then a safety clamp to the boundary cube
+      let wall = containerDistance(container, this.positions[idx], this.positions[idx+1], this.positions[idx+2]) + boundaryOffset;
+      if (wall > -wallRepelDist) {
+        containerNormal(container, this.positions[idx], this.positions[idx+1], this.positions[idx+2], n);
+        const push = 0.1 * (wallRepelDist + wall);
+        this.positions[idx] -= n[0] * push;
+        this.positions[idx+1] -= n[1] * push;
+        this.positions[idx+2] -= n[2] * push;
+
+        wall = containerDistance(container, this.positions[idx], this.positions[idx+1], this.positions[idx+2]) + boundaryOffset;
+        if (wall > 0) {
+          containerNormal(container, this.positions[idx], this.positions[idx+1], this.positions[idx+2], n);
+          this.positions[idx] -= n[0] * wall;
+          this.positions[idx+1] -= n[1] * wall;
+          this.positions[idx+2] -= n[2] * wall;
+        }
+      }
+      for (let a = idx; a < idx + 3; a++) {
+        this.positions[a] = Math.min(maxBound, Math.max(minBound, this.positions[a]));
+      }
+
+      // Update velocities from position change
+      let vx = (this.positions[idx] - this.oldPositions[idx]) / sDt;
+      let vy = (this.positions[idx+1] - this.oldPositions[idx+1]) / sDt;
+      let vz = (this.positions[idx+2] - this.oldPositions[idx+2]) / sDt;
+
+      // Soft velocity clamp: keep 20% of the excess like the GPU
+      const velMag = Math.sqrt(vx*vx + vy*vy + vz*vz);
+      if (velMag > maxVelocity) {
+        const softFactor = maxVelocity / velMag * 0.8 + 0.2;
+        vx *= softFactor; vy *= softFactor; vz *= softFactor;
+      }
+
+      // Viscosity damping of the particle's phase at its temperature (Newtonian only,
+      // the other models apply viscosity in applyViscousForces)
+      const viscosity = viscousForces ? 0 : phases.props[this.particlePhase[i] * 4 + 1] * temperatureCurve(config.viscosityCurve, this.temperatures[i]);
+      const vL = Math.max(0, 1.0 - viscosity * sDt);
+      vx *= vL; vy *= vL; vz *= vL;
+
+      // Obstacle contact: restitution on the normal part, friction on the tangential part
+      for (let k = 0; k < obstacles.count; k++) {
+        const px = this.positions[idx], py = this.positions[idx+1], pz = this.positions[idx+2];
+        if (obstacleDistance(obstacles, k, px, py, pz) >= physicsRadius * 1.05) continue;
+        obstacleNormal(obstacles, k, px, py, pz, n);
+        let vn = vx * n[0] + vy * n[1] + vz * n[2];
+        const keep = 1.0 - obstacles.shapes[k * 4 + 1];
+        const tx = vx - vn * n[0], ty = vy - vn * n[1], tz = vz - vn * n[2];
+        if (vn < 0) vn *= -obstacles.shapes[k * 4 + 2];
+        vx = tx * keep + vn * n[0];
+        vy = ty * keep + vn * n[1];
+        vz = tz * keep + vn * n[2];
+      }
+
+      // Container wall of this face: restitution on the outward normal velocity,
+      // Coulomb friction on the tangential part, bounded by the normal speed the
+      // wall took out this step (approach speed before the solve plus the bounce)
+      const px = this.positions[idx], py = this.positions[idx+1], pz = this.positions[idx+2];
+      if (containerDistance(container, px, py, pz) >= -boundaryOffset * 1.05) {
+        containerNormal(container, px, py, pz, n);
+        const face = containerFace(n) * 3;
+        let vn = vx * n[0] + vy * n[1] + vz * n[2];
+        let tx = vx - vn * n[0], ty = vy - vn * n[1], tz = vz - vn * n[2];
+        if (vn > 0) vn *= -container.surfaces[face];
+        const approach = this.velocities[idx] * n[0] + this.velocities[idx+1] * n[1] + this.velocities[idx+2] * n[2];
+        const load = Math.max(approach - vn, 0);
+        const slip = Math.sqrt(tx*tx + ty*ty + tz*tz);
+        const keep = slip < container.surfaces[face + 1] * load
+          ? 0 : 1 - Math.min(container.surfaces[face + 2] * load / Math.max(slip, 1e-6), 1);
+        tx *= keep; ty *= keep; tz *= keep;
+        vx = tx + vn * n[0];
+        vy = ty + vn * n[1];
+        vz = tz + vn * n[2];
+      }
+
+      this.velocities[idx] = vx;
+      this.velocities[idx+1] = vy;
+      this.velocities[idx+2] = vz;
+    }
+
+    if (viscousForces) this.applyViscousForces(h, physicsRadius, sDt, config);
+    if (!granular) this.applyXSPH(h, 0.01);
+    if (!granular && (config.vorticityEpsilon ?? 0) > 0) {
+      this.applyVorticityConfinement(h, physicsRadius, config.vorticityEpsilon, sDt);
+    }
+    this.exchangeHeat(h, physicsRadius, sDt, config);
+
+    if (this.rigidBodies.bodies.length > 0) {
+      this.rigidBodies.integrate(sDt, gravityVec, this.reduceBodyReactions(), container, obstacles, frame);
+    }
 
-    for (let iter = 0; iter < constraintIterations; iter++) {
-      // Density calculation and pressure constraints
+    // Drains deactivate the fluid inside them (drainShader)
+    const drains = packDrains(config.drains, this.drains);
+    if (drains.count > 0) {
       for (let i = 0; i < this.particleCount; i++) {
+        if (this.particleBody[i] >= 0 || this.inactive(i)) continue;
         const idx = i * 3;
-        const gx = Math.floor(this.positions[idx]/cellSize);
-        const gy = Math.floor(this.positions[idx+1]/cellSize);
-        const gz = Math.floor(this.positions[idx+2]/cellSize);
-        let density = 0;
-        const neighbors: number[] = [];
-
-        // Search radius covers both SPH kernel and collision distance
-        const searchRadius = Math.max(h2, minDist * minDist);
-
-        for(let x=-1;x<=1;x++) for(let y=-1;y<=1;y++) for(let z=-1;z<=1;z++) {
-          const cell = this.grid.get(`${gx+x},${gy+y},${gz+z}`);
-          if (cell) for (const n of cell) {
-            if (n === i) continue;
-            const nIdx = n * 3;
-            const dx = this.positions[idx]-this.positions[nIdx];
-            const dy = this.positions[idx+1]-this.positions[nIdx+1];
-            const dz = this.positions[idx+2]-this.positions[nIdx+2];
-            const d2 = dx*dx + dy*dy + dz*dz;
-
-            if (d2 < searchRadius) {
-              neighbors.push(n);
-              // SPH density (only within kernel radius)
-              if (d2 < h2) {
-                const w = h2 - d2;
-                density += w*w*w * poly6;
-              }
-            }
-          }
+        if (insideDrain(drains, this.positions[idx], this.positions[idx+1], this.positions[idx+2])) {
+          this.positions.fill(10000, idx, idx + 3);
         }
+      }
+      this.drainSteps++;
+    }
+  }
 
-        // Add self-contribution to density
-        density += Math.pow(h2, 3) * poly6;
+  // Legacy pressure solve, Jacobi like the GPU density / force / applyForces passes.
+  // Note the pressure term attracts (spiky gradient sign); kept for GPU parity.
+  private solvePressureConstraints(h: number, minDist: number, cohesionRadius: number, phasePush: number, config: FluidConfig, iterations: number) {
+    const h2 = h * h;
+    const props = this.phases.props;
+    const phase = this.particlePhase;
+    const selfDensity = poly6(0, h);
+    const searchRadius = Math.max(h, minDist, cohesionRadius);
+    const searchRadius2 = searchRadius * searchRadius;
+
+    const stiffnessNorm = config.stiffness / 2000.0;
+    const collisionStrength = 0.5 + stiffnessNorm * 0.3;
+    // Cohesion is scaled by radius^2 against a reference radius of 2.0
+    const radiusScale = (cohesionRadius * cohesionRadius) / 4.0;
+    const maxDelta = config.particleRadius * 3.0;
+    // Walls and obstacles: lattice at the physics particle diameter (minDist)
+    const adhesion = (config.adhesion ?? 0) * ADHESION_STRENGTH * minDist * 0.5;
+    const wallGrad = [0, 0, 0];
+    const pull = [0, 0, 0];
+
+    for (let iter = 0; iter < iterations; iter++) {
+      // Pass 1: density per particle
+      for (let i = 0; i < this.particleCount; i++) {
+        if (this.inactive(i)) continue;
+        const idx = i * 3;
+        const neighborCount = this.gatherNeighbors(i, h2);
+        const neighbors = this.neighborBuffer;
+        // Mass-weighted: heavier phases weigh more
+        let density = props[phase[i] * 4] * selfDensity;
+        for (let k = 0; k < neighborCount; k++) {
+          const nIdx = neighbors[k] * 3;
+          const dx = this.positions[idx]-this.positions[nIdx];
+          const dy = this.positions[idx+1]-this.positions[nIdx+1];
+          const dz = this.positions[idx+2]-this.positions[nIdx+2];
+          density += props[phase[neighbors[k]] * 4] * poly6(dx*dx + dy*dy + dz*dz, h);
+        }
+        // Walls and obstacles weigh like the particle's own fluid
+        if (this.particleBody[i] < 0) {
+          density += props[phase[i] * 4] * wallDensity(this.container, this.obstacles,
+            this.positions[idx], this.positions[idx+1], this.positions[idx+2], h, minDist, wallGrad);
+        }
         this.densities[i] = density;
+        this.densityRatios[i] = density / (config.restDensity * props[phase[i] * 4]);
+      }
 
-        // Stiffness controls how bouncy/springy the fluid is
-        // Higher stiffness = more resistance to compression = bouncier
-        const stiffnessNorm = config.stiffness / 2000.0;
-        // Pressure calculation matches GPU: densityError * stiffness * 0.001
-        const densityError = Math.max(0, density - effectiveRestDensity);
-        const pressure = densityError * config.stiffness * 0.001;
-        // Clamp pressure like GPU (maxPressure = restDensity * 0.5)
-        const clampedPressure = Math.min(pressure, effectiveRestDensity * 0.5);
-
-        for (const j of neighbors) {
-          const jIdx = j * 3;
-          const dx = this.positions[idx]-this.positions[jIdx];
-          const dy = this.positions[idx+1]-this.positions[jIdx+1];
-          const dz = this.positions[idx+2]-this.positions[jIdx+2];
-          const d2 = dx*dx + dy*dy + dz*dz;
-          const d = Math.sqrt(d2);
+      // Pass 2: pressure, collision and cohesion, each clamped like the GPU
+      for (let i = 0; i < this.particleCount; i++) {
+        if (this.inactive(i)) { this.deltas.fill(0, i * 3, i * 3 + 3); continue; }
+        const idx = i * 3;
+        const neighborCount = this.gatherNeighbors(i, searchRadius2);
+        const neighbors = this.neighborBuffer;
+        // Rest density and surface tension of the particle's phase
+        const restDensity = config.restDensity * props[phase[i] * 4];
+        const tensionScale = props[phase[i] * 4 + 2] * temperatureCurve(config.cohesionCurve, this.temperatures[i]) * 0.3 * radiusScale;
+        const pressure = Math.min(Math.max(0, this.densities[i] - restDensity) * config.stiffness * 0.001, restDensity * 0.5);
+        const boundaryI = this.particleBody[i] >= 0;
+        let px = 0, py = 0, pz = 0;
+        let cx = 0, cy = 0, cz = 0;
+        let tx = 0, ty = 0, tz = 0;
+        let ix = 0, iy = 0, iz = 0;
 
+        for (let k = 0; k < neighborCount; k++) {
+          const j = neighbors[k];
+          const nIdx = j * 3;
+          const dx = this.positions[idx]-this.positions[nIdx];
+          const dy = this.positions[idx+1]-this.positions[nIdx+1];
+          const dz = this.positions[idx+2]-this.positions[nIdx+2];
+          const d = Math.sqrt(dx*dx + dy*dy + dz*dz);
           if (d < 0.001) continue;
-
           const nx = dx/d, ny = dy/d, nz = dz/d;
-          let mx = 0, my = 0, mz = 0;
+          // Boundary particles count as every phase
+          const samePhase = boundaryI || this.particleBody[j] >= 0 || phase[j] === phase[i];
 
-          // SPH pressure force - matches GPU calculation
           if (d < h) {
-            const kernelGrad = spikyGrad * Math.pow(h - d, 2);
-            const force = clampedPressure * kernelGrad;
-            mx += nx * force;
-            my += ny * force;
-            mz += nz * force;
+            const force = -spikyGradMagnitude(d, h) * pressure;
+            px += nx * force; py += ny * force; pz += nz * force;
+          }
+          // Immiscible phases do not attract each other
+          if (d < cohesionRadius && samePhase) {
+            const coh = cohesionKernel(d, cohesionRadius);
+            tx -= nx * coh; ty -= ny * coh; tz -= nz * coh;
           }
-
-          // Soft collision - also affected by stiffness
-          // Higher stiffness = stronger collision response
           if (d < minDist) {
-            const overlap = (minDist - d);
-            // Collision strength matches GPU: 0.5 + stiffnessNorm * 0.3
-            const collisionStrength = 0.5 + stiffnessNorm * 0.3;
-            mx += nx * overlap * collisionStrength;
-            my += ny * overlap * collisionStrength;
-            mz += nz * overlap * collisionStrength;
+            const push = (minDist - d) * collisionStrength;
+            cx += nx * push; cy += ny * push; cz += nz * push;
+          }
+          // Interface tension: push apart neighbors of different phases
+          if (d < h && !samePhase) {
+            const w = 1.0 - d / h;
+            const push = phasePush * w * w;
+            ix += nx * push; iy += ny * push; iz += nz * push;
           }
+        }
 
-          this.positions[idx] += mx;
-          this.positions[idx+1] += my;
-          this.positions[idx+2] += mz;
-          this.positions[jIdx] -= mx;
-          this.positions[jIdx+1] -= my;
-          this.positions[jIdx+2] -= mz;
+        // Walls and obstacles push back along the wall density gradient
+        pull[0] = pull[1] = pull[2] = 0;
+        if (!boundaryI) {
+          wallDensity(this.container, this.obstacles, this.positions[idx], this.positions[idx+1], this.positions[idx+2], h, minDist, wallGrad);
+          px -= wallGrad[0] * pressure; py -= wallGrad[1] * pressure; pz -= wallGrad[2] * pressure;
+          wallAdhesion(this.container, this.obstacles, this.positions[idx], this.positions[idx+1], this.positions[idx+2], h, minDist, adhesion, pull);
         }
+
+        const ps = clampScale(px, py, pz, 5.0);
+        const cs = clampScale(cx, cy, cz, 4.0);
+        const ts = clampScale(tx * tensionScale, ty * tensionScale, tz * tensionScale, 0.3) * tensionScale;
+        let fx = px * ps + cx * cs + tx * ts + ix + pull[0];
+        let fy = py * ps + cy * cs + ty * ts + iy + pull[1];
+        let fz = pz * ps + cz * cs + tz * ts + iz + pull[2];
+        // Total force clamp, then the applyForces position delta clamp
+        const fs = clampScale(fx, fy, fz, 10.0);
+        fx *= fs; fy *= fs; fz *= fs;
+        const ds = clampScale(fx, fy, fz, maxDelta);
+        this.deltas[idx] = fx * ds;
+        this.deltas[idx+1] = fy * ds;
+        this.deltas[idx+2] = fz * ds;
       }
+
+      for (let i = 0; i < this.particleCount * 3; i++) this.positions[i] += this.deltas[i];
     }
+  }
+
+  // Non-Newtonian viscosity (like the GPU shear rate / viscosity passes): every
+  // particle's shear rate sqrt(2 D:D) from the SPH velocity gradient sets its
+  // effective viscosity, then velocity diffuses between neighbors with the
+  // pair's mean viscosity (Jacobi)
+  private applyViscousForces(h: number, physicsRadius: number, dt: number, config: FluidConfig) {
+    const h2 = h * h;
+    const volume = 1 / latticeRestDensity(h, physicsRadius * 2.0);
+    const model = rheologyModelIndex(config);
+    const { flowIndex, yieldStress } = config.rheology;
+    const props = this.phases.props;
+    const mu = this.viscosities;
 
-    // Boundary constraints
     for (let i = 0; i < this.particleCount; i++) {
+      if (this.inactive(i)) continue;
+      mu[i] = 0;
+      if (this.particleBody[i] >= 0) continue;
       const idx = i * 3;
-      for (let a = 0; a < 3; a++) {
-        const cur = idx + a;
-        const minBound = -boundary + boundaryOffset;
-        const maxBound = boundary - boundaryOffset;
+      const neighborCount = this.gatherNeighbors(i, h2);
+      const neighbors = this.neighborBuffer;
+      // Velocity gradient, row a = grad of velocity component a
+      let gxx = 0, gxy = 0, gxz = 0, gyx = 0, gyy = 0, gyz = 0, gzx = 0, gzy = 0, gzz = 0;
+
+      for (let k = 0; k < neighborCount; k++) {
+        if (this.particleBody[neighbors[k]] >= 0) continue;
+        const nIdx = neighbors[k] * 3;
+        const dx = this.positions[idx]-this.positions[nIdx];
+        const dy = this.positions[idx+1]-this.positions[nIdx+1];
+        const dz = this.positions[idx+2]-this.positions[nIdx+2];
+        const d = Math.sqrt(dx*dx + dy*dy + dz*dz);
+        const g = d > 0 ? -spikyGradMagnitude(d, h) / d : 0;
+        const wx = dx * g, wy = dy * g, wz = dz * g;
+        const vx = this.velocities[nIdx] - this.velocities[idx];
+        const vy = this.velocities[nIdx+1] - this.velocities[idx+1];
+        const vz = this.velocities[nIdx+2] - this.velocities[idx+2];
+        gxx += vx * wx; gxy += vx * wy; gxz += vx * wz;
+        gyx += vy * wx; gyy += vy * wy; gyz += vy * wz;
+        gzx += vz * wx; gzy += vz * wy; gzz += vz * wz;
+      }
+
+      const dxy = 0.5 * (gxy + gyx) * volume;
+      const dxz = 0.5 * (gxz + gzx) * volume;
+      const dyz = 0.5 * (gyz + gzy) * volume;
+      const dxx = gxx * volume, dyy = gyy * volume, dzz = gzz * volume;
+      const shearRate = Math.sqrt(2 * (dxx*dxx + dyy*dyy + dzz*dzz) + 4 * (dxy*dxy + dxz*dxz + dyz*dyz));
+      const consistency = props[this.particlePhase[i] * 4 + 1] * temperatureCurve(config.viscosityCurve, this.temperatures[i]);
+      mu[i] = effectiveViscosity(model, consistency, flowIndex, yieldStress, shearRate);
+    }
 
-        // Soft repulsion near walls
-        const distToMin = this.positions[cur] - minBound;
-        const distToMax = maxBound - this.positions[cur];
-        if (distToMin < wallRepelDist) this.positions[cur] += 0.1 * (wallRepelDist - distToMin);
-        if (distToMax < wallRepelDist) this.positions[cur] -= 0.1 * (wallRepelDist - distToMax);
+    const source = this.deltas;
+    source.set(this.velocities.subarray(0, this.particleCount * 3));
 
-        // Hard boundary
-        if (this.positions[cur] < minBound) { this.positions[cur] = minBound; this.velocities[cur] *= -0.2; }
-        else if (this.positions[cur] > maxBound) { this.positions[cur] = maxBound; this.velocities[cur] *= -0.2; }
+    for (let i = 0; i < this.particleCount; i++) {
+      if (this.inactive(i)) continue;
+      if (this.particleBody[i] >= 0) continue;
+      const idx = i * 3;
+      const neighborCount = this.gatherNeighbors(i, h2);
+      const neighbors = this.neighborBuffer;
+      let cx = 0, cy = 0, cz = 0;
+
+      for (let k = 0; k < neighborCount; k++) {
+        const j = neighbors[k];
+        if (this.particleBody[j] >= 0) continue;
+        const nIdx = j * 3;
+        const dx = this.positions[idx]-this.positions[nIdx];
+        const dy = this.positions[idx+1]-this.positions[nIdx+1];
+        const dz = this.positions[idx+2]-this.positions[nIdx+2];
+        const w = viscousCoupling(mu[i], mu[j], dt) * poly6(dx*dx + dy*dy + dz*dz, h);
+        cx += (source[nIdx] - source[idx]) * w;
+        cy += (source[nIdx+1] - source[idx+1]) * w;
+        cz += (source[nIdx+2] - source[idx+2]) * w;
       }
 
-      // Update velocities from position change
-      this.velocities[idx] = (this.positions[idx] - this.oldPositions[idx]) / sDt;
-      this.velocities[idx+1] = (this.positions[idx+1] - this.oldPositions[idx+1]) / sDt;
-      this.velocities[idx+2] = (this.positions[idx+2] - this.oldPositions[idx+2]) / sDt;
+      this.velocities[idx] = source[idx] + volume * cx;
+      this.velocities[idx+1] = source[idx+1] + volume * cy;
+      this.velocities[idx+2] = source[idx+2] + volume * cz;
+    }
+  }
+
+  // XSPH viscosity: blend each velocity towards its neighbors' (Jacobi, like the GPU pass)
+  private applyXSPH(h: number, coeff: number) {
+    const h2 = h * h;
+    const maxVel = 50.0;
+    const source = this.deltas;
+    source.set(this.velocities.subarray(0, this.particleCount * 3));
+
+    for (let i = 0; i < this.particleCount; i++) {
+      if (this.inactive(i)) continue;
+      const idx = i * 3;
+      // Boundary particles follow their body and do not drag the fluid
+      if (this.particleBody[i] >= 0) continue;
+      const neighborCount = this.gatherNeighbors(i, h2);
+      const neighbors = this.neighborBuffer;
+      let cx = 0, cy = 0, cz = 0;
+      let totalWeight = 0;
+
+      for (let k = 0; k < neighborCount; k++) {
+        if (this.particleBody[neighbors[k]] >= 0) continue;
+        const nIdx = neighbors[k] * 3;
+        const dx = this.positions[idx]-this.positions[nIdx];
+        const dy = this.positions[idx+1]-this.positions[nIdx+1];
+        const dz = this.positions[idx+2]-this.positions[nIdx+2];
+        const w = poly6(dx*dx + dy*dy + dz*dz, h);
+        cx += (source[nIdx] - source[idx]) * w;
+        cy += (source[nIdx+1] - source[idx+1]) * w;
+        cz += (source[nIdx+2] - source[idx+2]) * w;
+        totalWeight += w;
+      }
+
+      let vx = source[idx], vy = source[idx+1], vz = source[idx+2];
+      if (totalWeight > 0.0001) {
+        vx += coeff * cx; vy += coeff * cy; vz += coeff * cz;
+      }
+      const vs = clampScale(vx, vy, vz, maxVel);
+      this.velocities[idx] = vx * vs;
+      this.velocities[idx+1] = vy * vs;
+      this.velocities[idx+2] = vz * vs;
+    }
+  }
+
+  // Vorticity confinement (like the GPU vorticity / confinement passes): curl of
+  // velocity for every particle first, then a push along N x omega with N the
+  // normalized gradient of |omega|
+  private applyVorticityConfinement(h: number, physicsRadius: number, epsilon: number, dt: number) {
+    const h2 = h * h;
+    const volume = 1 / latticeRestDensity(h, physicsRadius * 2.0);
+    const omega = this.vorticity;
+
+    for (let i = 0; i < this.particleCount; i++) {
+      if (this.inactive(i)) continue;
+      const o = i * 4;
+      omega[o] = omega[o+1] = omega[o+2] = omega[o+3] = 0;
+      if (this.particleBody[i] >= 0) continue;
+      const idx = i * 3;
+      const neighborCount = this.gatherNeighbors(i, h2);
+      const neighbors = this.neighborBuffer;
+      let wx = 0, wy = 0, wz = 0;
+
+      for (let k = 0; k < neighborCount; k++) {
+        if (this.particleBody[neighbors[k]] >= 0) continue;
+        const nIdx = neighbors[k] * 3;
+        const dx = this.positions[idx]-this.positions[nIdx];
+        const dy = this.positions[idx+1]-this.positions[nIdx+1];
+        const dz = this.positions[idx+2]-this.positions[nIdx+2];
+        const d = Math.sqrt(dx*dx + dy*dy + dz*dz);
+        const g = d > 0 ? -spikyGradMagnitude(d, h) / d : 0;
+        const gx = dx * g, gy = dy * g, gz = dz * g;
+        const vx = this.velocities[nIdx] - this.velocities[idx];
+        const vy = this.velocities[nIdx+1] - this.velocities[idx+1];
+        const vz = this.velocities[nIdx+2] - this.velocities[idx+2];
+        wx += gy * vz - gz * vy;
+        wy += gz * vx - gx * vz;
+        wz += gx * vy - gy * vx;
+      }
+
+      wx *= volume; wy *= volume; wz *= volume;
+      omega[o] = wx; omega[o+1] = wy; omega[o+2] = wz;
+      omega[o+3] = Math.sqrt(wx*wx + wy*wy + wz*wz);
+    }
+
+    for (let i = 0; i < this.particleCount; i++) {
+      if (this.inactive(i)) continue;
+      if (this.particleBody[i] >= 0) continue;
+      const idx = i * 3;
+      const o = i * 4;
+      const neighborCount = this.gatherNeighbors(i, h2);
+      const neighbors = this.neighborBuffer;
+      let ex = 0, ey = 0, ez = 0;
+
+      for (let k = 0; k < neighborCount; k++) {
+        const j = neighbors[k];
+        if (this.particleBody[j] >= 0) continue;
+        const nIdx = j * 3;
+        const dx = this.positions[idx]-this.positions[nIdx];
+        const dy = this.positions[idx+1]-this.positions[nIdx+1];
+        const dz = this.positions[idx+2]-this.positions[nIdx+2];
+        const d = Math.sqrt(dx*dx + dy*dy + dz*dz);
+        const g = d > 0 ? -spikyGradMagnitude(d, h) / d * (omega[j * 4 + 3] - omega[o+3]) : 0;
+        ex += dx * g; ey += dy * g; ez += dz * g;
+      }
+
+      const len = Math.sqrt(ex*ex + ey*ey + ez*ez);
+      if (len <= 1e-6) continue;
+      const nx = ex / len, ny = ey / len, nz = ez / len;
+      const s = epsilon * dt;
+      this.velocities[idx] += (ny * omega[o+2] - nz * omega[o+1]) * s;
+      this.velocities[idx+1] += (nz * omega[o] - nx * omega[o+2]) * s;
+      this.velocities[idx+2] += (nx * omega[o+1] - ny * omega[o]) * s;
+    }
+  }
 
-      // Viscosity damping
-      const vL = 1.0 - (config.viscosity * sDt);
-      this.velocities[idx] *= vL;
-      this.velocities[idx+1] *= vL;
-      this.velocities[idx+2] *= vL;
+  // Heat exchange (Jacobi, like the GPU heat pass): poly6-weighted diffusion
+  // between fluid neighbors, then relaxation towards the container walls and
+  // obstacles within one kernel radius of the particle
+  private exchangeHeat(h: number, physicsRadius: number, dt: number, config: FluidConfig) {
+    const h2 = h * h;
+    const rate = heatDiffusionRate(config, dt, h, physicsRadius);
+    const floorTemperature = config.floorTemperature ?? AMBIENT_TEMPERATURE;
+    const wallTemperature = config.wallTemperature ?? AMBIENT_TEMPERATURE;
+    const wallTransfer = config.wallHeatTransfer ?? 0;
+    const obstacles = this.obstacles;
+    const container = this.container;
+    const n = this.normalScratch;
+    const source = this.deltas;
+    source.set(this.temperatures.subarray(0, this.particleCount));
+
+    for (let i = 0; i < this.particleCount; i++) {
+      if (this.inactive(i)) continue;
+      // Boundary particles neither hold nor pass on heat
+      if (this.particleBody[i] >= 0) continue;
+      const idx = i * 3;
+      const px = this.positions[idx], py = this.positions[idx+1], pz = this.positions[idx+2];
+      const neighborCount = this.gatherNeighbors(i, h2);
+      const neighbors = this.neighborBuffer;
+      let exchange = 0;
+
+      for (let k = 0; k < neighborCount; k++) {
+        const j = neighbors[k];
+        if (this.particleBody[j] >= 0) continue;
+        const nIdx = j * 3;
+        const dx = px - this.positions[nIdx];
+        const dy = py - this.positions[nIdx+1];
+        const dz = pz - this.positions[nIdx+2];
+        exchange += poly6(dx*dx + dy*dy + dz*dz, h) * (source[j] - source[i]);
+      }
+
+      let t = source[i] + rate * exchange;
+
+      // Container: the nearest wall counts as floor where it faces up
+      const wall = -containerDistance(container, px, py, pz);
+      if (wall < h) {
+        containerNormal(container, px, py, pz, n);
+        const surface = n[1] < -0.7 ? floorTemperature : wallTemperature;
+        t += (surface - t) * surfaceExchange(wallTransfer, dt, wall, h);
+      }
+
+      for (let k = 0; k < obstacles.count; k++) {
+        const d = obstacleDistance(obstacles, k, px, py, pz);
+        t += (obstacles.params[k * 4 + 3] - t) * surfaceExchange(obstacles.shapes[k * 4 + 3], dt, d, h);
+      }
+
+      this.temperatures[i] = t;
     }
   }
 
-  public reset() { this.particleCount = 0; this.positions.fill(10000); this.grid.clear(); }
+  // Position-Based Fluids density constraint solve (Macklin & Müller 2013)
+  // Jacobi iterations: all lambdas first, then all position corrections,
+  // which is what the GPU lambda / delta passes compute. Phase densities act
+  // as particle masses, so lighter phases give way and rise.
+  private solveDensityConstraints(h: number, physicsRadius: number, phasePush: number, config: FluidConfig, iterations: number) {
+    const h2 = h * h;
+    const props = this.phases.props;
+    const phase = this.particlePhase;
+    const invRest = 1 / latticeRestDensity(h, physicsRadius * 2.0);
+    const epsilon = config.pbfRelaxation;
+    // s_corr = -k * (W(r) / W(dq))^4 with dq = 0.2h
+    const tensileK = config.pbfTensileK;
+    const tensileRefW = poly6(0.04 * h2, h);
+    const maxDelta = config.particleRadius * 3.0;
+    const selfDensity = poly6(0, h);
+    const spacing = physicsRadius * 2.0;
+    const adhesion = (config.adhesion ?? 0) * ADHESION_STRENGTH * physicsRadius;
+    const wallGrad = [0, 0, 0];
+    const pull = [0, 0, 0];
+
+    for (let iter = 0; iter < iterations; iter++) {
+      // Pass 1: density and lambda per particle
+      for (let i = 0; i < this.particleCount; i++) {
+        if (this.inactive(i)) continue;
+        const idx = i * 3;
+        const neighborCount = this.gatherNeighbors(i, h2);
+        const neighbors = this.neighborBuffer;
+        const massI = props[phase[i] * 4];
+        const invRestI = invRest / massI;
+        let density = massI * selfDensity;
+        let gix = 0, giy = 0, giz = 0;
+        let sumGrad2 = 0;
+
+        for (let k = 0; k < neighborCount; k++) {
+          const nIdx = neighbors[k] * 3;
+          const massJ = props[phase[neighbors[k]] * 4];
+          const dx = this.positions[idx]-this.positions[nIdx];
+          const dy = this.positions[idx+1]-this.positions[nIdx+1];
+          const dz = this.positions[idx+2]-this.positions[nIdx+2];
+          const d2 = dx*dx + dy*dy + dz*dz;
+          const d = Math.sqrt(d2);
+          density += massJ * poly6(d2, h);
+
+          if (d < 0.001) continue;
+          // |grad_pj C_i| = m_j |grad W| / (m_i rho0), grad_pi C_i = -sum of them along r/d
+          const g = spikyGradMagnitude(d, h) * invRestI * massJ;
+          sumGrad2 += g * g / massJ;
+          gix -= g * dx / d;
+          giy -= g * dy / d;
+          giz -= g * dz / d;
+        }
+
+        // Walls and obstacles: fixed, weighing like the particle's own fluid
+        if (this.particleBody[i] < 0) {
+          density += massI * wallDensity(this.container, this.obstacles,
+            this.positions[idx], this.positions[idx+1], this.positions[idx+2], h, spacing, wallGrad);
+          gix += wallGrad[0] * invRest;
+          giy += wallGrad[1] * invRest;
+          giz += wallGrad[2] * invRest;
+        }
+
+        this.densities[i] = density;
+        this.densityRatios[i] = density * invRestI;
+        // Unilateral constraint: only resist compression
+        const constraint = Math.max(0, density * invRestI - 1);
+        this.lambdas[i] = -constraint / (sumGrad2 + (gix*gix + giy*giy + giz*giz) / massI + epsilon);
+      }
+
+      // Pass 2: position corrections from neighbor lambdas
+      for (let i = 0; i < this.particleCount; i++) {
+        if (this.inactive(i)) { this.deltas.fill(0, i * 3, i * 3 + 3); continue; }
+        const idx = i * 3;
+        const neighborCount = this.gatherNeighbors(i, h2);
+        const neighbors = this.neighborBuffer;
+        const lambdaI = this.lambdas[i];
+        const massI = props[phase[i] * 4];
+        const boundaryI = this.particleBody[i] >= 0;
+        let mx = 0, my = 0, mz = 0;
+
+        for (let k = 0; k < neighborCount; k++) {
+          const j = neighbors[k];
+          const nIdx = j * 3;
+          const dx = this.positions[idx]-this.positions[nIdx];
+          const dy = this.positions[idx+1]-this.positions[nIdx+1];
+          const dz = this.positions[idx+2]-this.positions[nIdx+2];
+          const d2 = dx*dx + dy*dy + dz*dz;
+          const d = Math.sqrt(d2);
+          if (d < 0.001) continue;
+
+          const ratio = poly6(d2, h) / tensileRefW;
+          const sCorr = -tensileK * ratio * ratio * ratio * ratio;
+          const massRatio = props[phase[j] * 4] / massI;
+          // grad W points from i towards j, so negative lambdas push i away
+          const s = -(lambdaI + this.lambdas[j] + sCorr) * spikyGradMagnitude(d, h) * invRest * massRatio / d;
+          mx += dx * s;
+          my += dy * s;
+          mz += dz * s;
+
+          // Interface tension: push apart fluid neighbors of different phases
+          if (phase[j] !== phase[i] && !boundaryI && this.particleBody[j] < 0) {
+            const w = 1.0 - d / h;
+            const push = phasePush * w * w / d;
+            mx += dx * push;
+            my += dy * push;
+            mz += dz * push;
+          }
+        }
+
+        // Walls and obstacles take this particle's lambda, plus adhesion
+        if (!boundaryI) {
+          const px = this.positions[idx], py = this.positions[idx+1], pz = this.positions[idx+2];
+          wallDensity(this.container, this.obstacles, px, py, pz, h, spacing, wallGrad);
+          wallAdhesion(this.container, this.obstacles, px, py, pz, h, spacing, adhesion, pull);
+          mx += lambdaI * invRest * wallGrad[0] + pull[0];
+          my += lambdaI * invRest * wallGrad[1] + pull[1];
+          mz += lambdaI * invRest * wallGrad[2] + pull[2];
+        }
+
+        // Same per-iteration clamp as the GPU applyForces pass
+        const len = Math.sqrt(mx*mx + my*my + mz*mz);
+        if (len > maxDelta) {
+          const scale = maxDelta / len;
+          mx *= scale; my *= scale; mz *= scale;
+        }
+        this.deltas[idx] = mx;
+        this.deltas[idx+1] = my;
+        this.deltas[idx+2] = mz;
+      }
+
+      for (let i = 0; i < this.particleCount * 3; i++) this.positions[i] += this.deltas[i];
+    }
+  }
+
+  // PBD sand (Macklin et al. 2014), Jacobi like the GPU granular pass: grains
+  // closer than the contact distance are pushed apart by inverse phase mass
+  // (scaled by height, see services/granular.ts), and
+  // friction cancels their relative tangential slip since the start of the step
+  // (static, below staticFriction * penetration) or limits it (kinetic). Walls
+  // are static contacts; every correction is averaged over the contact count.
+  private solveGranularContacts(contactDistance: number, config: FluidConfig, iterations: number, up: number[]) {
+    const props = this.phases.props;
+    const phase = this.particlePhase;
+    const staticFriction = config.staticFriction;
+    const kineticFriction = Math.min(config.kineticFriction, config.staticFriction);
+    const radius = contactDistance * 0.5;
+    const maxDelta = config.particleRadius * 3.0;
+    const c = [0, 0, 0];
+
+    // Add the correction for a contact of depth pen along n with the given slip
+    const contact = (n: number[], pen: number, sx: number, sy: number, sz: number, share: number) => {
+      const sn = sx * n[0] + sy * n[1] + sz * n[2];
+      const tx = sx - sn * n[0], ty = sy - sn * n[1], tz = sz - sn * n[2];
+      const len = Math.sqrt(tx*tx + ty*ty + tz*tz);
+      const keep = len < staticFriction * pen ? 1 : Math.min(kineticFriction * pen / Math.max(len, 1e-6), 1);
+      c[0] += share * (pen * n[0] - tx * keep);
+      c[1] += share * (pen * n[1] - ty * keep);
+      c[2] += share * (pen * n[2] - tz * keep);
+    };
+    const n = [0, 0, 0];
+
+    for (let iter = 0; iter < iterations; iter++) {
+      for (let i = 0; i < this.particleCount; i++) {
+        if (this.inactive(i)) { this.deltas.fill(0, i * 3, i * 3 + 3); continue; }
+        const idx = i * 3;
+        const neighborCount = this.gatherNeighbors(i, contactDistance * contactDistance);
+        const neighbors = this.neighborBuffer;
+        const px = this.positions[idx], py = this.positions[idx+1], pz = this.positions[idx+2];
+        const invMassI = 1 / props[phase[i] * 4];
+        const dix = px - this.oldPositions[idx];
+        const diy = py - this.oldPositions[idx+1];
+        const diz = pz - this.oldPositions[idx+2];
+        c[0] = c[1] = c[2] = 0;
+        let contacts = 0;
+
+        for (let k = 0; k < neighborCount; k++) {
+          const j = neighbors[k];
+          const nIdx = j * 3;
+          const dx = px - this.positions[nIdx];
+          const dy = py - this.positions[nIdx+1];
+          const dz = pz - this.positions[nIdx+2];
+          const d = Math.sqrt(dx*dx + dy*dy + dz*dz);
+          if (d >= contactDistance || d < 0.001) continue;
+          n[0] = dx / d; n[1] = dy / d; n[2] = dz / d;
+          contact(n, contactDistance - d,
+            dix - (this.positions[nIdx] - this.oldPositions[nIdx]),
+            diy - (this.positions[nIdx+1] - this.oldPositions[nIdx+1]),
+            diz - (this.positions[nIdx+2] - this.oldPositions[nIdx+2]),
+            stackingShare(invMassI, 1 / props[phase[j] * 4], -(dx * up[0] + dy * up[1] + dz * up[2]), contactDistance));
+          contacts++;
+        }
+
+        // Container wall (boundary particles follow their body)
+        if (this.particleBody[i] < 0) {
+          const pen = radius + containerDistance(this.container, px, py, pz);
+          if (pen > 0) {
+            containerNormal(this.container, px, py, pz, n);
+            n[0] = -n[0]; n[1] = -n[1]; n[2] = -n[2];
+            contact(n, pen, dix, diy, diz, 1);
+            contacts++;
+          }
+        }
+
+        let mx = c[0], my = c[1], mz = c[2];
+        if (contacts > 1) {
+          mx /= contacts; my /= contacts; mz /= contacts;
+        }
+        // Same per-iteration clamp as the GPU applyForces pass
+        const len = Math.sqrt(mx*mx + my*my + mz*mz);
+        if (len > maxDelta) {
+          const scale = maxDelta / len;
+          mx *= scale; my *= scale; mz *= scale;
+        }
+        this.deltas[idx] = mx;
+        this.deltas[idx+1] = my;
+        this.deltas[idx+2] = mz;
+      }
+
+      for (let i = 0; i < this.particleCount * 3; i++) this.positions[i] += this.deltas[i];
+    }
+  }
+
+  public reset() {
+    this.particleCount = 0;
+    this.densitiesSolved = false;
+    this.spawnBatch = 0;
+    this.emission.reset();
+    this.drainSteps = 0;
+    this.time = 0;
+    this.positions.fill(10000);
+    this.particleBody.fill(-1);
+    this.particlePhase.fill(0);
+    this.temperatures.fill(AMBIENT_TEMPERATURE);
+    this.rigidBodies.clear();
+    this.texturesDirty = true;
+  }
+
+  public getPositionTexture(): THREE.Texture {
+    this.syncTextures();
+    return this.positionTexture!;
+  }
+
+  public getPreviousPositionTexture(): THREE.Texture {
+    this.syncTextures();
+    return this.previousPositionTexture!;
+  }
+
+  public getPhaseTexture(): THREE.Texture {
+    this.syncTextures();
+    return this.phaseTexture!;
+  }
+
+  public getTemperatureTexture(): THREE.Texture {
+    this.syncTextures();
+    return this.temperatureTexture!;
+  }
+
+  public getVelocityTexture(): THREE.Texture {
+    this.syncTextures();
+    return this.velocityTexture!;
+  }
+
+  // B = density ratio, the channel the GPU density and lambda targets use
+  public getDensityTexture(): THREE.Texture {
+    this.syncTextures();
+    return this.densityTexture!;
+  }
+
+  // Upload positions into RGBA float textures so the *VertexShaderGPU shaders can draw them
+  private syncTextures() {
+    if (!this.positionTexture || !this.previousPositionTexture || !this.phaseTexture || !this.temperatureTexture ||
+        !this.velocityTexture || !this.densityTexture) {
+      const slots = this.textureSize * this.textureSize;
+      this.positionTexture = new THREE.DataTexture(new Float32Array(slots * 4), this.textureSize, this.textureSize, THREE.RGBAFormat, THREE.FloatType);
+      this.previousPositionTexture = new THREE.DataTexture(new Float32Array(slots * 4), this.textureSize, this.textureSize, THREE.RGBAFormat, THREE.FloatType);
+      this.phaseTexture = new THREE.DataTexture(new Float32Array(slots), this.textureSize, this.textureSize, THREE.RedFormat, THREE.FloatType);
+      this.temperatureTexture = new THREE.DataTexture(new Float32Array(slots), this.textureSize, this.textureSize, THREE.RedFormat, THREE.FloatType);
+      this.velocityTexture = new THREE.DataTexture(new Float32Array(slots * 4), this.textureSize, this.textureSize, THREE.RGBAFormat, THREE.FloatType);
+      this.densityTexture = new THREE.DataTexture(new Float32Array(slots * 4), this.textureSize, this.textureSize, THREE.RGBAFormat, THREE.FloatType);
+      this.texturesDirty = true;
+    }
+    if (!this.texturesDirty) return;
+
+    const current = this.positionTexture.image.data as Float32Array;
+    const previous = this.previousPositionTexture.image.data as Float32Array;
+    const phase = this.phaseTexture.image.data as Float32Array;
+    const temperature = this.temperatureTexture.image.data as Float32Array;
+    const velocity = this.velocityTexture.image.data as Float32Array;
+    const density = this.densityTexture.image.data as Float32Array;
+    for (let i = 0; i < this.particleCount; i++) {
+      const idx = i * 3;
+      const active = this.inactive(i) ? 0 : (this.particleBody[i] >= 0 ? BODY_MARKER + this.particleBody[i] : 1);
+      current[i*4] = this.positions[idx];
+      current[i*4+1] = this.positions[idx+1];
+      current[i*4+2] = this.positions[idx+2];
+      current[i*4+3] = active;
+      previous[i*4] = this.oldPositions[idx];
+      previous[i*4+1] = this.oldPositions[idx+1];
+      previous[i*4+2] = this.oldPositions[idx+2];
+      previous[i*4+3] = active;
+      phase[i] = this.particlePhase[i];
+      temperature[i] = this.temperatures[i];
+      velocity[i*4] = this.velocities[idx];
+      velocity[i*4+1] = this.velocities[idx+1];
+      velocity[i*4+2] = this.velocities[idx+2];
+      density[i*4+2] = this.densityRatios[i];
+    }
+    // Clear slots freed by a reset
+    current.fill(0, this.particleCount * 4);
+    previous.fill(0, this.particleCount * 4);
+    phase.fill(0, this.particleCount);
+    temperature.fill(AMBIENT_TEMPERATURE, this.particleCount);
+    velocity.fill(0, this.particleCount * 4);
+    density.fill(0, this.particleCount * 4);
+
+    this.positionTexture.needsUpdate = true;
+    this.previousPositionTexture.needsUpdate = true;
+    this.phaseTexture.needsUpdate = true;
+    this.temperatureTexture.needsUpdate = true;
+    this.velocityTexture.needsUpdate = true;
+    this.densityTexture.needsUpdate = true;
+    this.texturesDirty = false;
+  }
+
+  // Copies of the live arrays; resolves at once. Densities are 0 when the last
+  // step solved none (sand)
+  public readParticles(): Promise<ParticleReadback> {
+    const positions = new Float32Array(this.particleCount * 3);
+    const velocities = new Float32Array(this.particleCount * 3);
+    const densities = new Float32Array(this.particleCount);
+    const slots = new Uint32Array(this.particleCount);
+    let count = 0;
+    for (let i = 0; i < this.particleCount; i++) {
+      const idx = i * 3;
+      if (this.inactive(i) || this.particleBody[i] >= 0) continue;
+      positions.set(this.positions.subarray(idx, idx + 3), count * 3);
+      velocities.set(this.velocities.subarray(idx, idx + 3), count * 3);
+      densities[count] = this.densitiesSolved ? this.densities[i] : 0;
+      slots[count] = i;
+      count++;
+    }
+    return Promise.resolve({
+      count,
+      positions: positions.subarray(0, count * 3),
+      velocities: velocities.subarray(0, count * 3),
+      densities: densities.subarray(0, count),
+      slots: slots.subarray(0, count)
+    });
+  }
+
+  public exportState(): ParticleState {
+    const positions = new Float32Array(this.particleCount * 3);
+    const velocities = new Float32Array(this.particleCount * 3);
+    const phases = new Uint8Array(this.particleCount);
+    const temperatures = new Float32Array(this.particleCount);
+    let count = 0;
+    for (let i = 0; i < this.particleCount; i++) {
+      const idx = i * 3;
+      if (this.inactive(i) || this.particleBody[i] >= 0) continue;
+      positions.set(this.positions.subarray(idx, idx + 3), count * 3);
+      velocities.set(this.velocities.subarray(idx, idx + 3), count * 3);
+      phases[count] = this.particlePhase[i];
+      temperatures[count] = this.temperatures[i];
+      count++;
+    }
+    return {
+      count,
+      positions: positions.subarray(0, count * 3),
+      velocities: velocities.subarray(0, count * 3),
+      phases: phases.subarray(0, count),
+      temperatures: temperatures.subarray(0, count),
+      bodies: this.rigidBodies.bodies,
+      time: this.time,
+      emission: this.emission.carry(),
+      spawnBatch: this.spawnBatch
+    };
+  }
+
+  public importState(state: ParticleState) {
+    this.reset();
+    this.time = state.time;
+    this.emission.restore(state.emission);
+    this.spawnBatch = state.spawnBatch;
+    const count = Math.min(this.maxParticles, state.count);
+    this.positions.set(state.positions.subarray(0, count * 3));
+    this.oldPositions.set(state.positions.subarray(0, count * 3));
+    this.velocities.set(state.velocities.subarray(0, count * 3));
+    this.particlePhase.set(state.phases.subarray(0, count));
+    this.temperatures.set(state.temperatures.subarray(0, count));
+    this.particleCount = count;
+    this.texturesDirty = true;
+
+    for (const snapshot of state.bodies) {
+      const body = this.addRigidBody(snapshot);
+      if (!body) break;
+      copyBodyMotion(snapshot, body);
+      this.poseBoundaryParticles();
+    }
+  }
+
+  public dispose() {
+    this.positionTexture?.dispose();
+    this.previousPositionTexture?.dispose();
+    this.phaseTexture?.dispose();
+    this.temperatureTexture?.dispose();
+    this.velocityTexture?.dispose();
+    this.densityTexture?.dispose();
+    this.positionTexture = null;
+    this.previousPositionTexture = null;
+    this.phaseTexture = null;
+    this.temperatureTexture = null;
+    this.velocityTexture = null;
+    this.densityTexture = null;
+  }
 }
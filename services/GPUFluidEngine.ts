@@ -5,19 +5,73 @@ import {
   computeVertexShader,
   integrateShader,
   velocityIntegrateShader,
+  forceFieldShader,
+  frameShader,
+  brushShader,
   createDensityShader,
   createForceShader,
   applyForcesShader,
   boundaryShader,
   velocityUpdateShader,
   createXSPHShader,
+  createShearRateShader,
+  createViscosityShader,
+  createVorticityShader,
+  createVorticityConfinementShader,
   copyPositionShader,
   addParticlesShader,
-  initVelocityShader
+  emitParticlesShader,
+  drainShader,
+  compactFlagShader,
+  prefixSumShader,
+  compactGatherShader,
+  initVelocityShader,
+  initScalarShader,
+  createHeatShader,
+  cellHashShader,
+  bitonicSortShader,
+  cellRangeShader,
+  createLambdaShader,
+  createPBFDeltaShader,
+  createGranularShader,
+  bodyPoseShader,
+  bodyReductionShader,
+  speedReductionShader
 } from '../shaders/physicsShaders';
+import { computeGridLayout, GridLayout, nextPowerOfTwo } from './SpatialGrid';
+import { latticeRestDensity } from './sphKernels';
+import { ParticleReadback, ParticleState, SimulationBackend } from './SimulationBackend';
+import { batchSeed } from './seededRandom';
+import { createPackedObstacles, packObstacles } from './obstacles';
+import { createPackedContainer, packContainer, packWallSurfaces } from './container';
+import { ADHESION_STRENGTH } from './wallBoundary';
+import { compactionDue, createPackedDrains, EMITTER_SHAPE_IDS, EmissionClock, packDrains, POINT_JITTER } from './emitters';
+import {
+  BODY_MARKER,
+  copyBodyMotion,
+  createPackedBodies,
+  MAX_BODIES,
+  RigidBody,
+  RigidBodyDesc,
+  RigidBodySystem
+} from './rigidBodies';
+import { createPackedPhases, interfacePush, packPhases } from './phases';
+import { AMBIENT_TEMPERATURE, heatDiffusionRate } from './thermal';
+import { rheologyModelIndex, usesViscousForces } from './rheology';
+import { STACKING_STIFFNESS, stackingUp } from './granular';
+import { BrushStroke, createPackedBrush, packBrush } from './brush';
+import { createPackedForceFields, packForceFields } from './forceFields';
+import { createPackedFrame, FrameMotion, packFrame } from './containerMotion';
+import { velocityLimit } from './timeStep';
+
+// Width of the cell range table texture (height grows with cell count)
+const CELL_RANGE_WIDTH = 256;
+
+// Texel written into slots freed by compaction (see initializeTextures)
+const INACTIVE_POSITION = [10000, 10000, 10000, 0];
 
 // GPGPU Compute Target helper
-class GPUComputeTarget {
+export class GPUComputeTarget {
   public renderTarget1: THREE.WebGLRenderTarget;
   public renderTarget2: THREE.WebGLRenderTarget;
   private current: number = 0;
@@ -54,7 +108,12 @@ class GPUComputeTarget {
   }
 }
 
-export class GPUFluidEngine {
+// Determinism: every pass is a pure gather (no atomics, no blending) and the
+// grid sort breaks ties by particle index, so a given seed reproduces the same
+// run on the same device and driver. Results are not bit-identical across GPUs
+// or against the CPU engine, whose float64 math rounds differently.
+export class GPUFluidEngine implements SimulationBackend {
+  public readonly kind = 'gpu' as const;
   private renderer: THREE.WebGLRenderer;
   private scene: THREE.Scene;
   private camera: THREE.OrthographicCamera;
@@ -64,32 +123,129 @@ export class GPUFluidEngine {
   private positionTarget: GPUComputeTarget;
   private velocityTarget: GPUComputeTarget;
   private oldPositionTarget: GPUComputeTarget;
+  private temperatureTarget: GPUComputeTarget;      // R = temperature
+  private phaseTarget: GPUComputeTarget;            // R = phase index
   private densityTarget: THREE.WebGLRenderTarget;
   private forceTarget: THREE.WebGLRenderTarget;
+  private lambdaTarget: THREE.WebGLRenderTarget;  // PBF: R = lambda, G = density
+  private vorticityTarget: THREE.WebGLRenderTarget;  // xyz = curl of velocity, w = magnitude
+  private rheologyTarget: THREE.WebGLRenderTarget;   // R = shear rate, G = effective viscosity
+  private densityOutput: THREE.WebGLRenderTarget;   // densityTarget or lambdaTarget, whichever the last step solved
+  private densitiesSolved = false;                  // The last step ran a density solve (sand has none)
+
+  // Uniform grid (sorted cell keys + per-cell ranges)
+  private sortTarget: GPUComputeTarget;
+  private cellRangeTarget: THREE.WebGLRenderTarget;
+  private scanTarget: GPUComputeTarget;  // Compaction: R = live slots up to and including each slot
+  private sortWidth: number;
+  private sortHeight: number;
+  private cellRangeCapacity: number;
+  private gridLayout: GridLayout;
 
   // Shader materials
   private integrateMaterial: THREE.ShaderMaterial;
   private velocityIntegrateMaterial: THREE.ShaderMaterial;
+  private forceFieldMaterial: THREE.ShaderMaterial;
+  private frameMaterial: THREE.ShaderMaterial;
+  private brushMaterial: THREE.ShaderMaterial;
   private densityMaterial: THREE.ShaderMaterial;
   private forceMaterial: THREE.ShaderMaterial;
   private applyForcesMaterial: THREE.ShaderMaterial;
   private boundaryMaterial: THREE.ShaderMaterial;
   private velocityUpdateMaterial: THREE.ShaderMaterial;
   private xsphMaterial: THREE.ShaderMaterial;  // XSPH viscosity
+  private shearRateMaterial: THREE.ShaderMaterial;   // Non-Newtonian effective viscosity
+  private viscosityMaterial: THREE.ShaderMaterial;   // Non-Newtonian viscous forces
+  private vorticityMaterial: THREE.ShaderMaterial;
+  private confinementMaterial: THREE.ShaderMaterial;  // Vorticity confinement
   private copyMaterial: THREE.ShaderMaterial;
   private addParticlesMaterial: THREE.ShaderMaterial;
+  private emitMaterial: THREE.ShaderMaterial;
+  private drainMaterial: THREE.ShaderMaterial;
   private initVelocityMaterial: THREE.ShaderMaterial;
+  private initScalarMaterial: THREE.ShaderMaterial;   // Temperature and phase of new particles
+  private compactFlagMaterial: THREE.ShaderMaterial;
+  private prefixSumMaterial: THREE.ShaderMaterial;
+  private compactGatherMaterial: THREE.ShaderMaterial;
+  private cellHashMaterial: THREE.ShaderMaterial;
+  private bitonicSortMaterial: THREE.ShaderMaterial;
+  private cellRangeMaterial: THREE.ShaderMaterial;
+  private lambdaMaterial: THREE.ShaderMaterial;
+  private pbfDeltaMaterial: THREE.ShaderMaterial;
+  private granularMaterial: THREE.ShaderMaterial;  // Sand contacts and friction
+  private bodyPoseMaterial: THREE.ShaderMaterial;
+  private bodyReductionMaterial: THREE.ShaderMaterial;
+  private heatMaterial: THREE.ShaderMaterial;
 
   // Particle management
   public particleCount: number = 0;
   private maxParticles: number;
   public textureSize: number;
   private baseRadius: number;
+  private seed: number;
+  private spawnBatch: number = 0;
+
+  // Obstacle uniforms, repacked from the config every step
+  private obstacles = createPackedObstacles();
+  private container = createPackedContainer();
+
+  // Emitters and drains (config.emitters / config.drains), applied every step
+  private emission = new EmissionClock();
+  private drains = createPackedDrains();
+  private spawnVelocity = new THREE.Vector3();
+
+  // Force fields (config.forceFields) animated at the simulated time, applied after gravity
+  public time: number = 0;
+  private forceFields = createPackedForceFields();
+
+  // Container motion (setFrameMotion), applied as pseudo-forces after the force fields
+  private frameMotion: FrameMotion | null = null;
+  private frame = createPackedFrame();
+
+  // Cursor brush stroke (setBrush), applied after gravity every step
+  private brushStroke: BrushStroke | null = null;
+  private brush = createPackedBrush();
+
+  // Draining steps since the last compaction, and the scan texel read back
+  private drainSteps: number = 0;
+  private scanPixel = new Float32Array(4);
+
+  // Rigid bodies: integrated on the CPU, boundary particles posed and reduced on the GPU
+  public readonly rigidBodies = new RigidBodySystem();
+  private bodies = createPackedBodies();
+  private bodyLocalTexture: THREE.DataTexture;        // Per slot: body-space offset, w = BODY_MARKER + body
+  private bodyReactionTarget: THREE.WebGLRenderTarget;  // MAX_BODIES x 2: displacement sum, moment sum
+  private bodyReactionPixels = new Float32Array(MAX_BODIES * 2 * 4);
+  private bodyReactions = new Float32Array(MAX_BODIES * 6);
+  private landedReactions = new Float32Array(MAX_BODIES * 6);  // Newest reduction read back
+  private landedReactionDt = 0;       // Step size it was measured at (0 = none yet)
+  private reactionReadPending = false;
+  private reactionGeneration = 0;     // Bumped when the bodies are replaced, so older reads are dropped
+
+  // Max-speed reduction (maxSpeed): one target per 4x4 reduction level, the last 1 x 1
+  private speedReductionMaterial: THREE.ShaderMaterial;
+  private speedTargets: THREE.WebGLRenderTarget[] = [];
+  private speedPixel = new Float32Array(4);
+  private lastMaxSpeed = 0;           // Result of the newest reduction that landed
+  private speedReadPending = false;   // A reduction's async read is in flight
+  private speedGeneration = 0;        // Bumped by reset, so reads started before it are dropped
+  // maxSpeed, body reactions and readParticles through pixel buffers and fences (WebGL2), off after a failed read
+  private asyncReadback: boolean;
+
+  // Fluid phases: per-slot phase index written on spawn, properties repacked every step
+  private phases = createPackedPhases();
+  private phaseUniform: THREE.IUniform<THREE.Texture | null> = { value: null };  // tPhase, shared by every phase-aware material
+
+  // Temperature curves (cold, hot multipliers) shared by the thermal uniforms
+  private viscosityCurve = new THREE.Vector2(1, 1);
+  private cohesionCurve = new THREE.Vector2(1, 1);
 
   constructor(config: FluidConfig, renderer: THREE.WebGLRenderer) {
     this.renderer = renderer;
+    this.asyncReadback = typeof WebGL2RenderingContext !== 'undefined' && renderer.getContext() instanceof WebGL2RenderingContext;
     this.maxParticles = config.maxParticles;
     this.baseRadius = config.particleRadius;
+    this.seed = config.seed;
 
     // Calculate texture size (square texture to hold all particles)
     this.textureSize = Math.ceil(Math.sqrt(this.maxParticles));
@@ -108,6 +264,9 @@ export class GPUFluidEngine {
     this.positionTarget = new GPUComputeTarget(size, size);
     this.velocityTarget = new GPUComputeTarget(size, size);
     this.oldPositionTarget = new GPUComputeTarget(size, size);
+    this.temperatureTarget = new GPUComputeTarget(size, size);
+    this.phaseTarget = new GPUComputeTarget(size, size);
+    this.scanTarget = new GPUComputeTarget(size, size);
 
     const rtOptions: THREE.RenderTargetOptions = {
       minFilter: THREE.NearestFilter,
@@ -119,6 +278,30 @@ export class GPUFluidEngine {
     };
     this.densityTarget = new THREE.WebGLRenderTarget(size, size, rtOptions);
     this.forceTarget = new THREE.WebGLRenderTarget(size, size, rtOptions);
+    this.lambdaTarget = new THREE.WebGLRenderTarget(size, size, rtOptions);
+    this.vorticityTarget = new THREE.WebGLRenderTarget(size, size, rtOptions);
+    this.rheologyTarget = new THREE.WebGLRenderTarget(size, size, rtOptions);
+    this.densityOutput = this.densityTarget;
+    this.bodyReactionTarget = new THREE.WebGLRenderTarget(MAX_BODIES, 2, rtOptions);
+    let level = size;
+    do {
+      level = Math.ceil(level / 4);
+      this.speedTargets.push(new THREE.WebGLRenderTarget(level, level, rtOptions));
+    } while (level > 1);
+    this.bodyLocalTexture = new THREE.DataTexture(new Float32Array(size * size * 4), size, size, THREE.RGBAFormat, THREE.FloatType);
+    this.bodyLocalTexture.needsUpdate = true;
+    packPhases(config, this.phases);
+
+    // Sort buffer: power-of-two slot count for the bitonic network
+    const sortCapacity = nextPowerOfTwo(this.maxParticles);
+    const sortLog = Math.log2(sortCapacity);
+    this.sortWidth = Math.pow(2, Math.ceil(sortLog / 2));
+    this.sortHeight = sortCapacity / this.sortWidth;
+    this.sortTarget = new GPUComputeTarget(this.sortWidth, this.sortHeight);
+
+    this.gridLayout = computeGridLayout(config.boundarySize, 1.7);
+    this.cellRangeCapacity = 0;
+    this.cellRangeTarget = this.createCellRangeTarget(this.gridLayout.cellCount);
 
     // Initialize textures with inactive particles (w=0)
     this.initializeTextures();
@@ -138,6 +321,7 @@ export class GPUFluidEngine {
 
     this.velocityIntegrateMaterial = new THREE.ShaderMaterial({
       uniforms: {
+        tPosition: { value: null },
         tVelocity: { value: null },
         uGravity: { value: new THREE.Vector3(0, -9.8, 0) },
         uDt: { value: 0.016 }
@@ -146,7 +330,52 @@ export class GPUFluidEngine {
       fragmentShader: velocityIntegrateShader
     });
 
-    // Density shader with reasonable max neighbors
+    this.forceFieldMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tPosition: { value: null },
+        tVelocity: { value: null },
+        uFieldCount: { value: 0 },
+        uFieldShape: { value: this.forceFields.shapes },
+        uFieldCenter: { value: this.forceFields.centers },
+        uFieldAxis: { value: this.forceFields.axes },
+        uFieldPhase: { value: this.forceFields.phases },
+        uDt: { value: 0.016 }
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: forceFieldShader
+    });
+
+    this.frameMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tPosition: { value: null },
+        tVelocity: { value: null },
+        uFrameAcceleration: { value: new THREE.Vector3() },
+        uAngularVelocity: { value: new THREE.Vector3() },
+        uAngularAcceleration: { value: new THREE.Vector3() },
+        uInertialScale: { value: 1 },
+        uDt: { value: 0.016 }
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: frameShader
+    });
+
+    this.brushMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tPosition: { value: null },
+        tVelocity: { value: null },
+        uBrushMode: { value: -1 },
+        uBrushCenter: { value: this.brush.center },
+        uBrushVelocity: { value: this.brush.velocity },
+        uBrushAxis: { value: this.brush.axis },
+        uBrushRadius: { value: 1 },
+        uBrushStrength: { value: 0 },
+        uDt: { value: 0.016 }
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: brushShader
+    });
+
+    // Density shader (neighbors come from the uniform grid)
     this.densityMaterial = new THREE.ShaderMaterial({
       uniforms: {
         tPosition: { value: null },
@@ -154,10 +383,12 @@ export class GPUFluidEngine {
         uKernelRadius: { value: 1.7 },
         uRestDensity: { value: config.restDensity },
         uParticleRes: { value: new THREE.Vector2(size, size) },
-        uParticleCount: { value: 0 }
+        ...this.createGridUniforms(),
+        ...this.createPhaseUniforms(),
+        ...this.createWallUniforms()
       },
       vertexShader: computeVertexShader,
-      fragmentShader: createDensityShader(64)
+      fragmentShader: createDensityShader()
     });
 
     // Force shader
@@ -171,13 +402,67 @@ export class GPUFluidEngine {
         uRestDensity: { value: config.restDensity },
         uMinDist: { value: config.particleRadius * 2.0 * 0.4 },
         uCollisionStrength: { value: 0.45 },
-        uSurfaceTension: { value: config.surfaceTension ?? 0.5 },
         uCohesionRadius: { value: config.particleRadius * 5.0 },  // Cohesion radius based on particle size
+        uInterfacePush: { value: 0 },
         uParticleRes: { value: new THREE.Vector2(size, size) },
-        uParticleCount: { value: 0 }
+        ...this.createGridUniforms(),
+        ...this.createPhaseUniforms(),
+        ...this.createThermalUniforms(),
+        ...this.createWallUniforms()
       },
       vertexShader: computeVertexShader,
-      fragmentShader: createForceShader(64)
+      fragmentShader: createForceShader()
+    });
+
+    // PBF density constraint passes
+    this.lambdaMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tPosition: { value: null },
+        uKernelRadius: { value: 1.7 },
+        uRestDensity: { value: 1.0 },
+        uRelaxation: { value: config.pbfRelaxation },
+        uParticleRes: { value: new THREE.Vector2(size, size) },
+        ...this.createGridUniforms(),
+        ...this.createPhaseUniforms(),
+        ...this.createWallUniforms()
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: createLambdaShader()
+    });
+
+    this.pbfDeltaMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tPosition: { value: null },
+        tLambda: { value: null },
+        uKernelRadius: { value: 1.7 },
+        uRestDensity: { value: 1.0 },
+        uTensileK: { value: config.pbfTensileK },
+        uInterfacePush: { value: 0 },
+        uParticleRes: { value: new THREE.Vector2(size, size) },
+        ...this.createGridUniforms(),
+        ...this.createPhaseUniforms(),
+        ...this.createWallUniforms()
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: createPBFDeltaShader()
+    });
+
+    this.granularMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tPosition: { value: null },
+        tOldPosition: { value: null },
+        uContactDistance: { value: config.particleRadius * 2.0 },
+        uStaticFriction: { value: config.staticFriction },
+        uKineticFriction: { value: config.kineticFriction },
+        uUp: { value: new THREE.Vector3(0, 1, 0) },
+        uStacking: { value: 0 },
+        uParticleRes: { value: new THREE.Vector2(size, size) },
+        ...this.createGridUniforms(),
+        ...this.createPhaseUniforms(),
+        ...this.createContainerUniforms()
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: createGranularShader()
     });
 
     this.applyForcesMaterial = new THREE.ShaderMaterial({
@@ -194,9 +479,10 @@ export class GPUFluidEngine {
       uniforms: {
         tPosition: { value: null },
         tVelocity: { value: null },
-        uBoundary: { value: config.boundarySize / 2 },
         uBoundaryOffset: { value: config.particleRadius * 0.4 },
-        uWallRepelDist: { value: config.particleRadius * 1.2 }
+        uWallRepelDist: { value: config.particleRadius * 1.2 },
+        ...this.createObstacleUniforms(),
+        ...this.createContainerUniforms()
       },
       vertexShader: computeVertexShader,
       fragmentShader: boundaryShader
@@ -208,10 +494,13 @@ export class GPUFluidEngine {
         tOldPosition: { value: null },
         tVelocity: { value: null },
         uDt: { value: 0.016 },
-        uViscosity: { value: config.viscosity },
-        uBoundary: { value: config.boundarySize / 2 },
         uBoundaryOffset: { value: config.particleRadius * 0.4 },
-        uMaxVelocity: { value: 30.0 }  // Max velocity (units per second)
+        uMaxVelocity: { value: 30.0 },  // Max velocity (units per second)
+        uViscosityDamping: { value: 1 },
+        ...this.createObstacleUniforms(),
+        ...this.createContainerUniforms(),
+        ...this.createPhaseUniforms(),
+        ...this.createThermalUniforms()
       },
       vertexShader: computeVertexShader,
       fragmentShader: velocityUpdateShader
@@ -225,10 +514,93 @@ export class GPUFluidEngine {
         uKernelRadius: { value: 1.7 },
         uXSPHCoeff: { value: 0.00 },  // XSPH coefficient (0.01 - 0.1)
         uParticleRes: { value: new THREE.Vector2(size, size) },
-        uParticleCount: { value: 0 }
+        ...this.createGridUniforms()
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: createXSPHShader()
+    });
+
+    // Non-Newtonian viscosity: shear rate -> effective viscosity, then viscous forces
+    this.shearRateMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tPosition: { value: null },
+        tVelocity: { value: null },
+        uKernelRadius: { value: 1.7 },
+        uInvRestDensity: { value: 1 },
+        uRheologyModel: { value: 0 },
+        uFlowIndex: { value: 1 },
+        uYieldStress: { value: 0 },
+        uParticleRes: { value: new THREE.Vector2(size, size) },
+        ...this.createGridUniforms(),
+        ...this.createPhaseUniforms(),
+        ...this.createThermalUniforms()
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: createShearRateShader()
+    });
+
+    this.viscosityMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tPosition: { value: null },
+        tVelocity: { value: null },
+        tRheology: { value: null },
+        uKernelRadius: { value: 1.7 },
+        uInvRestDensity: { value: 1 },
+        uDt: { value: 0.016 },
+        uParticleRes: { value: new THREE.Vector2(size, size) },
+        ...this.createGridUniforms()
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: createViscosityShader()
+    });
+
+    // Vorticity confinement: curl of velocity, then a push along N x omega
+    this.vorticityMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tPosition: { value: null },
+        tVelocity: { value: null },
+        uKernelRadius: { value: 1.7 },
+        uInvRestDensity: { value: 1 },
+        uParticleRes: { value: new THREE.Vector2(size, size) },
+        ...this.createGridUniforms()
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: createVorticityShader()
+    });
+
+    this.confinementMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tPosition: { value: null },
+        tVelocity: { value: null },
+        tVorticity: { value: null },
+        uKernelRadius: { value: 1.7 },
+        uEpsilon: { value: config.vorticityEpsilon },
+        uDt: { value: 0.016 },
+        uParticleRes: { value: new THREE.Vector2(size, size) },
+        ...this.createGridUniforms()
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: createVorticityConfinementShader()
+    });
+
+    // Heat exchange between neighbors and with the container / obstacles
+    this.heatMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tPosition: { value: null },
+        uKernelRadius: { value: 1.7 },
+        uDiffusionRate: { value: 0 },
+        uDt: { value: 0.016 },
+        uFloorTemperature: { value: config.floorTemperature },
+        uWallTemperature: { value: config.wallTemperature },
+        uWallHeatTransfer: { value: config.wallHeatTransfer },
+        uParticleRes: { value: new THREE.Vector2(size, size) },
+        ...this.createGridUniforms(),
+        ...this.createObstacleUniforms(),
+        ...this.createContainerUniforms(),
+        ...this.createThermalUniforms()
       },
       vertexShader: computeVertexShader,
-      fragmentShader: createXSPHShader(64)
+      fragmentShader: createHeatShader()
     });
 
     this.copyMaterial = new THREE.ShaderMaterial({
@@ -255,16 +627,324 @@ export class GPUFluidEngine {
       fragmentShader: addParticlesShader
     });
 
+    this.emitMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tPosition: { value: null },
+        uStartIndex: { value: 0 },
+        uAddCount: { value: 0 },
+        uParticleRes: { value: new THREE.Vector2(size, size) },
+        uSeed: { value: 0 },
+        uShape: { value: 0 },
+        uCenter: { value: new THREE.Vector3() },
+        uSize: { value: new THREE.Vector3() },
+        uAxis: { value: new THREE.Vector3(0, -1, 0) },
+        uTangent: { value: new THREE.Vector3(1, 0, 0) },
+        uBitangent: { value: new THREE.Vector3(0, 0, 1) },
+        uAlong: { value: 0 },
+        uPointSpread: { value: this.getParticleSpacing() * POINT_JITTER }
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: emitParticlesShader
+    });
+
+    this.drainMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tPosition: { value: null },
+        uDrainCount: { value: 0 },
+        uDrainMin: { value: this.drains.min },
+        uDrainMax: { value: this.drains.max }
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: drainShader
+    });
+
     this.initVelocityMaterial = new THREE.ShaderMaterial({
       uniforms: {
         tVelocity: { value: null },
         uStartIndex: { value: 0 },
         uAddCount: { value: 0 },
+        uVelocity: { value: new THREE.Vector3() },
         uParticleRes: { value: new THREE.Vector2(size, size) }
       },
       vertexShader: computeVertexShader,
       fragmentShader: initVelocityShader
     });
+
+    this.initScalarMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tSource: { value: null },
+        uStartIndex: { value: 0 },
+        uAddCount: { value: 0 },
+        uValue: { value: 0 },
+        uParticleRes: { value: new THREE.Vector2(size, size) }
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: initScalarShader
+    });
+
+    // Stream compaction: live flags, prefix sum, gather
+    this.compactFlagMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tPosition: { value: null },
+        uParticleRes: { value: new THREE.Vector2(size, size) },
+        uParticleCount: { value: 0 }
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: compactFlagShader
+    });
+
+    this.prefixSumMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tScan: { value: null },
+        uParticleRes: { value: new THREE.Vector2(size, size) },
+        uOffset: { value: 1 }
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: prefixSumShader
+    });
+
+    this.compactGatherMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tSource: { value: null },
+        tScan: { value: null },
+        uParticleRes: { value: new THREE.Vector2(size, size) },
+        uParticleCount: { value: 0 },
+        uFill: { value: new THREE.Vector4() }
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: compactGatherShader
+    });
+
+    this.cellHashMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tPosition: { value: null },
+        uParticleRes: { value: new THREE.Vector2(size, size) },
+        uSortRes: { value: new THREE.Vector2(this.sortWidth, this.sortHeight) },
+        uParticleCount: { value: 0 },
+        uGridOrigin: { value: new THREE.Vector3() },
+        uGridDim: { value: new THREE.Vector3() },
+        uCellSize: { value: 1.7 }
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: cellHashShader
+    });
+
+    this.bitonicSortMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tSort: { value: null },
+        uSortRes: { value: new THREE.Vector2(this.sortWidth, this.sortHeight) },
+        uSortCount: { value: 1 },
+        uStage: { value: 2 },
+        uPass: { value: 1 }
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: bitonicSortShader
+    });
+
+    this.cellRangeMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tSort: { value: null },
+        uSortRes: { value: new THREE.Vector2(this.sortWidth, this.sortHeight) },
+        uParticleCount: { value: 0 },
+        uCellRangeWidth: { value: CELL_RANGE_WIDTH },
+        uCellCount: { value: 0 }
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: cellRangeShader
+    });
+
+    this.bodyPoseMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tPosition: { value: null },
+        ...this.createBodyUniforms()
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: bodyPoseShader
+    });
+
+    this.bodyReductionMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tPosition: { value: null },
+        uParticleRes: { value: new THREE.Vector2(size, size) },
+        uBodyCount: { value: 0 },
+        uBodyRange: { value: this.bodies.ranges },
+        ...this.createBodyUniforms()
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: bodyReductionShader
+    });
+
+    this.speedReductionMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        tSource: { value: null },
+        tPosition: { value: null },
+        uSourceSize: { value: new THREE.Vector2(size, size) },
+        uFirstLevel: { value: true }
+      },
+      vertexShader: computeVertexShader,
+      fragmentShader: speedReductionShader
+    });
+  }
+
+  // Uniforms read by bodyCommon in the rigid-body shaders
+  private createBodyUniforms(): Record<string, THREE.IUniform> {
+    return {
+      tBodyLocal: { value: this.bodyLocalTexture },
+      uBodyCenter: { value: this.bodies.centers },
+      uBodyRotation: { value: this.bodies.rotations }
+    };
+  }
+
+  // Uniforms read by phaseCommon in the phase-aware shaders
+  private createPhaseUniforms(): Record<string, THREE.IUniform> {
+    return {
+      tPhase: this.phaseUniform,
+      uPhaseProps: { value: this.phases.props }
+    };
+  }
+
+  // Uniforms read by thermalCommon; tTemperature is set per pass (ping-pong)
+  private createThermalUniforms(): Record<string, THREE.IUniform> {
+    return {
+      tTemperature: { value: null },
+      uViscosityCurve: { value: this.viscosityCurve },
+      uCohesionCurve: { value: this.cohesionCurve }
+    };
+  }
+
+  // Uniforms read by gridSearchCommon in the neighbor-search shaders
+  private createGridUniforms(): Record<string, THREE.IUniform> {
+    return {
+      tSortedCells: { value: null },
+      tCellRange: { value: null },
+      uSortRes: { value: new THREE.Vector2(this.sortWidth, this.sortHeight) },
+      uCellRangeWidth: { value: CELL_RANGE_WIDTH },
+      uGridOrigin: { value: new THREE.Vector3() },
+      uGridDim: { value: new THREE.Vector3() },
+      uCellSize: { value: 1.7 }
+    };
+  }
+
+  private setGridUniforms(material: THREE.ShaderMaterial): void {
+    const layout = this.gridLayout;
+    material.uniforms.tSortedCells.value = this.sortTarget.read.texture;
+    material.uniforms.tCellRange.value = this.cellRangeTarget.texture;
+    material.uniforms.uGridOrigin.value.set(layout.origin[0], layout.origin[1], layout.origin[2]);
+    material.uniforms.uGridDim.value.set(layout.dims[0], layout.dims[1], layout.dims[2]);
+    material.uniforms.uCellSize.value = layout.cellSize;
+  }
+
+  private createObstacleUniforms(): Record<string, THREE.IUniform> {
+    return {
+      uObstacleCount: { value: 0 },
+      uObstacleShape: { value: this.obstacles.shapes },
+      uObstacleCenter: { value: this.obstacles.centers },
+      uObstacleParams: { value: this.obstacles.params },
+      uObstacleRotation: { value: this.obstacles.rotations },
+      uObstacleMargin: { value: 0 }
+    };
+  }
+
+  private setObstacleUniforms(material: THREE.ShaderMaterial, margin: number): void {
+    material.uniforms.uObstacleCount.value = this.obstacles.count;
+    material.uniforms.uObstacleMargin.value = margin;
+  }
+
+  private createContainerUniforms(): Record<string, THREE.IUniform> {
+    return {
+      uContainerShape: { value: 0 },
+      uContainerSize: { value: this.container.size },
+      uContainerBound: { value: 1 },
+      uWallSurface: { value: this.container.surfaces }
+    };
+  }
+
+  // The custom container SDF is compiled into the shader, so a new expression
+  // recompiles the material
+  private setContainerUniforms(material: THREE.ShaderMaterial): void {
+    material.uniforms.uContainerShape.value = this.container.shape;
+    material.uniforms.uContainerBound.value = this.container.bound;
+    if (material.defines.CONTAINER_SDF !== this.container.glsl) {
+      material.defines.CONTAINER_SDF = this.container.glsl;
+      material.needsUpdate = true;
+    }
+  }
+
+  // Wall density and adhesion read the obstacle and container SDFs
+  private createWallUniforms(): Record<string, THREE.IUniform> {
+    return {
+      ...this.createObstacleUniforms(),
+      ...this.createContainerUniforms(),
+      uWallSpacing: { value: 1 },
+      uAdhesion: { value: 0 }
+    };
+  }
+
+  private setWallUniforms(material: THREE.ShaderMaterial, physicsRadius: number, adhesion: number): void {
+    this.setObstacleUniforms(material, physicsRadius);
+    this.setContainerUniforms(material);
+    material.uniforms.uWallSpacing.value = physicsRadius * 2.0;
+    material.uniforms.uAdhesion.value = adhesion;
+  }
+
+  private createCellRangeTarget(cellCount: number): THREE.WebGLRenderTarget {
+    const height = Math.max(1, Math.ceil(cellCount / CELL_RANGE_WIDTH));
+    this.cellRangeCapacity = CELL_RANGE_WIDTH * height;
+    return new THREE.WebGLRenderTarget(CELL_RANGE_WIDTH, height, {
+      minFilter: THREE.NearestFilter,
+      magFilter: THREE.NearestFilter,
+      format: THREE.RGBAFormat,
+      type: THREE.FloatType,
+      depthBuffer: false,
+      stencilBuffer: false
+    });
+  }
+
+  // Build the uniform grid: hash particles to cells, sort by cell, find cell ranges
+  private buildGrid(cellSize: number, boundarySize: number): void {
+    const layout = computeGridLayout(boundarySize, cellSize);
+    this.gridLayout = layout;
+
+    if (layout.cellCount > this.cellRangeCapacity) {
+      this.cellRangeTarget.dispose();
+      this.cellRangeTarget = this.createCellRangeTarget(layout.cellCount);
+    }
+
+    // Pass 1: (cell id, particle index) keys
+    this.cellHashMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+    this.cellHashMaterial.uniforms.uParticleCount.value = this.particleCount;
+    this.cellHashMaterial.uniforms.uGridOrigin.value.set(layout.origin[0], layout.origin[1], layout.origin[2]);
+    this.cellHashMaterial.uniforms.uGridDim.value.set(layout.dims[0], layout.dims[1], layout.dims[2]);
+    this.cellHashMaterial.uniforms.uCellSize.value = layout.cellSize;
+
+    this.quad.material = this.cellHashMaterial;
+    this.renderer.setRenderTarget(this.sortTarget.write);
+    this.renderer.render(this.scene, this.camera);
+    this.sortTarget.swap();
+
+    // Pass 2: bitonic sort over the smallest power of two covering all particles
+    const sortCount = nextPowerOfTwo(this.particleCount);
+    this.bitonicSortMaterial.uniforms.uSortCount.value = sortCount;
+    this.quad.material = this.bitonicSortMaterial;
+    for (let stage = 2; stage <= sortCount; stage *= 2) {
+      for (let pass = stage / 2; pass > 0; pass /= 2) {
+        this.bitonicSortMaterial.uniforms.tSort.value = this.sortTarget.read.texture;
+        this.bitonicSortMaterial.uniforms.uStage.value = stage;
+        this.bitonicSortMaterial.uniforms.uPass.value = pass;
+        this.renderer.setRenderTarget(this.sortTarget.write);
+        this.renderer.render(this.scene, this.camera);
+        this.sortTarget.swap();
+      }
+    }
+
+    // Pass 3: per-cell [start, end) ranges via binary search
+    this.cellRangeMaterial.uniforms.tSort.value = this.sortTarget.read.texture;
+    this.cellRangeMaterial.uniforms.uParticleCount.value = this.particleCount;
+    this.cellRangeMaterial.uniforms.uCellCount.value = layout.cellCount;
+
+    this.quad.material = this.cellRangeMaterial;
+    this.renderer.setRenderTarget(this.cellRangeTarget);
+    this.renderer.render(this.scene, this.camera);
   }
 
   private initializeTextures(): void {
@@ -296,8 +976,23 @@ export class GPUFluidEngine {
     this.renderToTarget(velTexture, this.velocityTarget.renderTarget1);
     this.renderToTarget(velTexture, this.velocityTarget.renderTarget2);
 
+    // Initialize temperatures to ambient
+    const tempData = new Float32Array(size * size * 4);
+    for (let i = 0; i < size * size; i++) tempData[i * 4] = AMBIENT_TEMPERATURE;
+    const tempTexture = new THREE.DataTexture(tempData, size, size, THREE.RGBAFormat, THREE.FloatType);
+    tempTexture.needsUpdate = true;
+
+    this.renderToTarget(tempTexture, this.temperatureTarget.renderTarget1);
+    this.renderToTarget(tempTexture, this.temperatureTarget.renderTarget2);
+
+    // Every slot starts as the base fluid
+    this.renderToTarget(velTexture, this.phaseTarget.renderTarget1);
+    this.renderToTarget(velTexture, this.phaseTarget.renderTarget2);
+    this.phaseUniform.value = this.phaseTarget.read.texture;
+
     texture.dispose();
     velTexture.dispose();
+    tempTexture.dispose();
   }
 
   private renderToTarget(texture: THREE.Texture, target: THREE.WebGLRenderTarget): void {
@@ -319,7 +1014,7 @@ export class GPUFluidEngine {
     return this.baseRadius * 2.2;
   }
 
-  public addParticles(count: number, origin: [number, number, number]): void {
+  public addParticles(count: number, origin: [number, number, number], phase: number = 0, temperature: number = AMBIENT_TEMPERATURE): void {
     const start = this.particleCount;
     const end = Math.min(this.maxParticles, start + count);
     const actualCount = end - start;
@@ -328,16 +1023,45 @@ export class GPUFluidEngine {
 
     const gridDim = Math.ceil(Math.cbrt(actualCount));
 
-    // Update position texture with new particles
-    this.addParticlesMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
     this.addParticlesMaterial.uniforms.uOrigin.value.set(origin[0], origin[1], origin[2]);
     this.addParticlesMaterial.uniforms.uSpacing.value = this.getParticleSpacing();
     this.addParticlesMaterial.uniforms.uStartIndex.value = start;
     this.addParticlesMaterial.uniforms.uAddCount.value = actualCount;
     this.addParticlesMaterial.uniforms.uGridDim.value = gridDim;
-    this.addParticlesMaterial.uniforms.uSeed.value = Math.random() * 1000;
+    this.addParticlesMaterial.uniforms.uSeed.value = batchSeed(this.seed, this.spawnBatch++);
+
+    this.spawn(this.addParticlesMaterial, start, actualCount, phase, temperature, this.spawnVelocity.set(0, 0, 0));
+  }
 
-    this.quad.material = this.addParticlesMaterial;
+  // Emit the particles the enabled emitters owe after dt (emitParticlesShader)
+  private runEmitters(config: FluidConfig, dt: number): void {
+    const uniforms = this.emitMaterial.uniforms;
+    for (const batch of this.emission.advance(config, dt, this.maxParticles - this.particleCount)) {
+      const { emitter, frame } = batch;
+      uniforms.uStartIndex.value = this.particleCount;
+      uniforms.uAddCount.value = batch.count;
+      uniforms.uSeed.value = batchSeed(this.seed, this.spawnBatch++);
+      uniforms.uShape.value = EMITTER_SHAPE_IDS[emitter.shape];
+      uniforms.uCenter.value.fromArray(emitter.position);
+      uniforms.uSize.value.fromArray(emitter.size);
+      uniforms.uAxis.value.fromArray(frame.axis);
+      uniforms.uTangent.value.fromArray(frame.tangent);
+      uniforms.uBitangent.value.fromArray(frame.bitangent);
+      uniforms.uAlong.value = emitter.speed * dt;
+      uniforms.uPointSpread.value = this.getParticleSpacing() * POINT_JITTER;
+
+      this.spawnVelocity.fromArray(frame.axis).multiplyScalar(emitter.speed);
+      this.spawn(this.emitMaterial, this.particleCount, batch.count, batch.phase, emitter.temperature, this.spawnVelocity);
+    }
+  }
+
+  // Fill slots [start, start + count) with positionMaterial, then initialize their
+  // old positions, velocity, temperature and phase
+  private spawn(positionMaterial: THREE.ShaderMaterial, start: number, count: number, phase: number, temperature: number, velocity: THREE.Vector3): void {
+    const prevTarget = this.renderer.getRenderTarget();
+
+    positionMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+    this.quad.material = positionMaterial;
     this.renderer.setRenderTarget(this.positionTarget.write);
     this.renderer.render(this.scene, this.camera);
     this.positionTarget.swap();
@@ -352,19 +1076,277 @@ export class GPUFluidEngine {
     // Initialize velocities for new particles
     this.initVelocityMaterial.uniforms.tVelocity.value = this.velocityTarget.read.texture;
     this.initVelocityMaterial.uniforms.uStartIndex.value = start;
-    this.initVelocityMaterial.uniforms.uAddCount.value = actualCount;
+    this.initVelocityMaterial.uniforms.uAddCount.value = count;
+    this.initVelocityMaterial.uniforms.uVelocity.value.copy(velocity);
 
     this.quad.material = this.initVelocityMaterial;
     this.renderer.setRenderTarget(this.velocityTarget.write);
     this.renderer.render(this.scene, this.camera);
     this.velocityTarget.swap();
 
-    this.renderer.setRenderTarget(null);
+    // Initialize temperatures and phases for new particles
+    this.initSlots(this.temperatureTarget, start, count, temperature);
+    this.initSlots(this.phaseTarget, start, count, phase);
+    this.phaseUniform.value = this.phaseTarget.read.texture;
+
+    this.renderer.setRenderTarget(prevTarget);
 
-    this.particleCount = end;
+    this.particleCount = start + count;
+  }
+
+  // initScalarShader: set R of slots [start, start + count) in `target`
+  private initSlots(target: GPUComputeTarget, start: number, count: number, value: number): void {
+    this.initScalarMaterial.uniforms.tSource.value = target.read.texture;
+    this.initScalarMaterial.uniforms.uStartIndex.value = start;
+    this.initScalarMaterial.uniforms.uAddCount.value = count;
+    this.initScalarMaterial.uniforms.uValue.value = value;
+
+    this.quad.material = this.initScalarMaterial;
+    this.renderer.setRenderTarget(target.write);
+    this.renderer.render(this.scene, this.camera);
+    target.swap();
+  }
+
+  // Body-space offsets plus the body marker for the slots of body `index`
+  private writeBodySlots(body: RigidBody, index: number): void {
+    const local = this.bodyLocalTexture.image.data as Float32Array;
+    const marker = BODY_MARKER + index;
+    for (let k = 0; k < body.pointCount; k++) {
+      const texel = (body.firstSlot + k) * 4;
+      local[texel] = body.localPoints[k * 3];
+      local[texel + 1] = body.localPoints[k * 3 + 1];
+      local[texel + 2] = body.localPoints[k * 3 + 2];
+      local[texel + 3] = marker;
+    }
+    this.bodyLocalTexture.needsUpdate = true;
+  }
+
+  public addRigidBody(desc: RigidBodyDesc): RigidBody | null {
+    const body = this.rigidBodies.add(desc, this.particleCount, this.maxParticles);
+    if (!body) return null;
+
+    // Claim the slots
+    this.writeBodySlots(body, this.rigidBodies.bodies.length - 1);
+
+    const prevTarget = this.renderer.getRenderTarget();
+    this.initSlots(this.phaseTarget, body.firstSlot, body.pointCount, 0);
+    this.phaseUniform.value = this.phaseTarget.read.texture;
+    this.poseBoundaryParticles();
+
+    this.copyMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+    this.quad.material = this.copyMaterial;
+    this.renderer.setRenderTarget(this.oldPositionTarget.write);
+    this.renderer.render(this.scene, this.camera);
+    this.oldPositionTarget.swap();
+
+    this.initVelocityMaterial.uniforms.tVelocity.value = this.velocityTarget.read.texture;
+    this.initVelocityMaterial.uniforms.uStartIndex.value = body.firstSlot;
+    this.initVelocityMaterial.uniforms.uAddCount.value = body.pointCount;
+    this.initVelocityMaterial.uniforms.uVelocity.value.set(0, 0, 0);
+    this.quad.material = this.initVelocityMaterial;
+    this.renderer.setRenderTarget(this.velocityTarget.write);
+    this.renderer.render(this.scene, this.camera);
+    this.velocityTarget.swap();
+
+    this.renderer.setRenderTarget(prevTarget);
+    this.particleCount = body.firstSlot + body.pointCount;
+    return body;
+  }
+
+  // Write every boundary particle at its body's current pose
+  private poseBoundaryParticles(): void {
+    this.rigidBodies.pack(this.bodies);
+    this.bodyPoseMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+    this.quad.material = this.bodyPoseMaterial;
+    this.renderer.setRenderTarget(this.positionTarget.write);
+    this.renderer.render(this.scene, this.camera);
+    this.positionTarget.swap();
+  }
+
+  // Sum the fluid reaction per body on the GPU into the MAX_BODIES x 2 target.
+  // Like maxSpeed, the read is asynchronous: a reduction is queued when none is
+  // in flight and the bodies advance on the newest one that landed (a frame
+  // late), rescaled to this step's dt so integrate turns it into the same force.
+  // Without async readback it is read synchronously.
+  private reduceBodyReactions(dt: number): Float32Array {
+    if (!this.reactionReadPending) {
+      this.bodyReductionMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+      this.bodyReductionMaterial.uniforms.uBodyCount.value = this.bodies.count;
+      this.quad.material = this.bodyReductionMaterial;
+      this.renderer.setRenderTarget(this.bodyReactionTarget);
+      this.renderer.render(this.scene, this.camera);
+
+      if (this.asyncReadback) {
+        const generation = this.reactionGeneration;
+        this.reactionReadPending = true;
+        this.renderer.readRenderTargetPixelsAsync(this.bodyReactionTarget, 0, 0, MAX_BODIES, 2, this.bodyReactionPixels)
+          .then(() => {
+            if (generation === this.reactionGeneration) this.landBodyReactions(dt);
+          })
+          .catch(error => {
+            console.warn('Async body reaction readback failed, reading synchronously:', error);
+            this.asyncReadback = false;
+          })
+          .finally(() => { this.reactionReadPending = false; });
+      } else {
+        this.renderer.readRenderTargetPixels(this.bodyReactionTarget, 0, 0, MAX_BODIES, 2, this.bodyReactionPixels);
+        this.landBodyReactions(dt);
+      }
+    }
+
+    // Reactions are displacements over dt^2, so a force held over another dt scales with its square
+    const rescale = this.landedReactionDt > 0 ? (dt / this.landedReactionDt) ** 2 : 0;
+    for (let i = 0; i < this.bodyReactions.length; i++) {
+      this.bodyReactions[i] = this.landedReactions[i] * rescale;
+    }
+    return this.bodyReactions;
+  }
+
+  private landBodyReactions(dt: number): void {
+    const pixels = this.bodyReactionPixels;
+    for (let k = 0; k < MAX_BODIES; k++) {
+      for (let a = 0; a < 3; a++) {
+        this.landedReactions[k * 6 + a] = pixels[k * 4 + a];
+        this.landedReactions[k * 6 + 3 + a] = pixels[(MAX_BODIES + k) * 4 + a];
+      }
+    }
+    this.landedReactionDt = dt;
+  }
+
+  private forgetBodyReactions(): void {
+    this.landedReactions.fill(0);
+    this.landedReactionDt = 0;
+    this.reactionGeneration++;
+  }
+
+  // Fastest fluid particle: reduce the speeds 4x4 at a time on the GPU and read
+  // one texel back. The read is asynchronous, so this returns the newest speed
+  // that landed (the previous frame's) and queues the next reduction if none is
+  // in flight; the frame never waits on the GPU. Without async readback (or if
+  // it fails) the texel is read synchronously instead.
+  public maxSpeed(): number {
+    if (this.particleCount === 0) return 0;
+    if (this.speedReadPending) return this.lastMaxSpeed;
+    const prevTarget = this.renderer.getRenderTarget();
+    const material = this.speedReductionMaterial;
+    material.uniforms.tPosition.value = this.positionTarget.read.texture;
+    this.quad.material = material;
+
+    let source = this.velocityTarget.read;
+    let sourceSize = this.textureSize;
+    this.speedTargets.forEach((target, level) => {
+      material.uniforms.tSource.value = source.texture;
+      material.uniforms.uSourceSize.value.set(sourceSize, sourceSize);
+      material.uniforms.uFirstLevel.value = level === 0;
+      this.renderer.setRenderTarget(target);
+      this.renderer.render(this.scene, this.camera);
+      source = target;
+      sourceSize = target.width;
+    });
+
+    if (this.asyncReadback) {
+      const generation = this.speedGeneration;
+      this.speedReadPending = true;
+      this.renderer.readRenderTargetPixelsAsync(source, 0, 0, 1, 1, this.speedPixel)
+        .then(() => {
+          if (generation === this.speedGeneration) this.lastMaxSpeed = this.speedPixel[0];
+        })
+        .catch(error => {
+          console.warn('Async max-speed readback failed, reading synchronously:', error);
+          this.asyncReadback = false;
+        })
+        .finally(() => { this.speedReadPending = false; });
+    } else {
+      this.renderer.readRenderTargetPixels(source, 0, 0, 1, 1, this.speedPixel);
+      this.lastMaxSpeed = this.speedPixel[0];
+    }
+
+    this.renderer.setRenderTarget(prevTarget);
+    return this.lastMaxSpeed;
+  }
+
+  public setBrush(stroke: BrushStroke | null): void {
+    this.brushStroke = stroke;
+  }
+
+  public setFrameMotion(motion: FrameMotion | null): void {
+    this.frameMotion = motion;
+  }
+
+  // Pack the live slots to the front (compactFlagShader, prefixSumShader,
+  // compactGatherShader) and shrink particleCount to the live count. The live
+  // count and the new first slot of every rigid body are read back from the scan.
+  public compact(): void {
+    this.drainSteps = 0;
+    const count = this.particleCount;
+    if (count === 0) return;
+
+    const prevTarget = this.renderer.getRenderTarget();
+
+    this.compactFlagMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+    this.compactFlagMaterial.uniforms.uParticleCount.value = count;
+    this.quad.material = this.compactFlagMaterial;
+    this.renderer.setRenderTarget(this.scanTarget.write);
+    this.renderer.render(this.scene, this.camera);
+    this.scanTarget.swap();
+
+    this.quad.material = this.prefixSumMaterial;
+    for (let offset = 1; offset < count; offset *= 2) {
+      this.prefixSumMaterial.uniforms.tScan.value = this.scanTarget.read.texture;
+      this.prefixSumMaterial.uniforms.uOffset.value = offset;
+      this.renderer.setRenderTarget(this.scanTarget.write);
+      this.renderer.render(this.scene, this.camera);
+      this.scanTarget.swap();
+    }
+
+    const live = this.readScan(count - 1);
+    if (live < count) {
+      const gather = this.compactGatherMaterial;
+      gather.uniforms.tScan.value = this.scanTarget.read.texture;
+      gather.uniforms.uParticleCount.value = count;
+      this.quad.material = gather;
+
+      const targets: [GPUComputeTarget, number[]][] = [
+        [this.positionTarget, INACTIVE_POSITION],
+        [this.oldPositionTarget, INACTIVE_POSITION],
+        [this.velocityTarget, [0, 0, 0, 0]],
+        [this.temperatureTarget, [AMBIENT_TEMPERATURE, 0, 0, 0]],
+        [this.phaseTarget, [0, 0, 0, 0]]
+      ];
+      for (const [target, fill] of targets) {
+        gather.uniforms.tSource.value = target.read.texture;
+        gather.uniforms.uFill.value.fromArray(fill);
+        this.renderer.setRenderTarget(target.write);
+        this.renderer.render(this.scene, this.camera);
+        target.swap();
+      }
+      this.phaseUniform.value = this.phaseTarget.read.texture;
+
+      // Bodies keep contiguous slots, moved down by the dead slots before them
+      (this.bodyLocalTexture.image.data as Float32Array).fill(0);
+      this.rigidBodies.bodies.forEach((body, b) => {
+        body.firstSlot = this.readScan(body.firstSlot) - 1;
+        this.writeBodySlots(body, b);
+      });
+      this.bodyLocalTexture.needsUpdate = true;
+      this.particleCount = live;
+    }
+
+    this.renderer.setRenderTarget(prevTarget);
+  }
+
+  // Live slots up to and including `slot`, from the last compaction scan
+  private readScan(slot: number): number {
+    const size = this.textureSize;
+    this.renderer.readRenderTargetPixels(this.scanTarget.read, slot % size, Math.floor(slot / size), 1, 1, this.scanPixel);
+    return this.scanPixel[0];
   }
 
   public step(dt: number, config: FluidConfig, gravityVec: [number, number, number]): void {
+    this.time += dt;
+    // Reclaim the slots drains have freed before emitting into new ones
+    if (compactionDue(this.drainSteps, this.particleCount, this.maxParticles)) this.compact();
+    this.runEmitters(config, dt);
     if (this.particleCount === 0) return;
 
     // NEW DESIGN: Separate physics and visual radius
@@ -386,15 +1368,27 @@ export class GPUFluidEngine {
     // Collision distance based on physics particle size
     const minDist = physicsRadius * 2.0;
 
-    const boundary = config.boundarySize / 2;
     const boundaryOffset = physicsRadius;
+    packContainer(config.container, config.boundarySize, this.container);
+    packWallSurfaces(config, this.container);
+    packObstacles(config.obstacles, this.obstacles);
+    const adhesion = (config.adhesion ?? 0) * ADHESION_STRENGTH * physicsRadius;
 
     const stiffnessNorm = config.stiffness / 2000.0;
     const collisionStrength = 0.5 + stiffnessNorm * 0.3;
 
+    packPhases(config, this.phases);
+    const phasePush = interfacePush(config, physicsRadius);
+    this.viscosityCurve.set(config.viscosityCurve?.cold ?? 1, config.viscosityCurve?.hot ?? 1);
+    this.cohesionCurve.set(config.cohesionCurve?.cold ?? 1, config.cohesionCurve?.hot ?? 1);
+
     // Save current render target
     const prevTarget = this.renderer.getRenderTarget();
 
+    // Step 0: Place rigid-body boundary particles at their body poses
+    const hasBodies = this.rigidBodies.bodies.length > 0;
+    if (hasBodies) this.poseBoundaryParticles();
+
     // Step 1: Copy positions to old positions
     this.copyMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
     this.quad.material = this.copyMaterial;
@@ -403,6 +1397,7 @@ export class GPUFluidEngine {
     this.oldPositionTarget.swap();
 
     // Step 2: Apply gravity and integrate velocities
+    this.velocityIntegrateMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
     this.velocityIntegrateMaterial.uniforms.tVelocity.value = this.velocityTarget.read.texture;
     this.velocityIntegrateMaterial.uniforms.uGravity.value.set(gravityVec[0], gravityVec[1], gravityVec[2]);
     this.velocityIntegrateMaterial.uniforms.uDt.value = dt;
@@ -412,6 +1407,53 @@ export class GPUFluidEngine {
     this.renderer.render(this.scene, this.camera);
     this.velocityTarget.swap();
 
+    // Step 2b: Force fields
+    packForceFields(config.forceFields, this.time, this.forceFields);
+    if (this.forceFields.count > 0) {
+      this.forceFieldMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+      this.forceFieldMaterial.uniforms.tVelocity.value = this.velocityTarget.read.texture;
+      this.forceFieldMaterial.uniforms.uFieldCount.value = this.forceFields.count;
+      this.forceFieldMaterial.uniforms.uDt.value = dt;
+
+      this.quad.material = this.forceFieldMaterial;
+      this.renderer.setRenderTarget(this.velocityTarget.write);
+      this.renderer.render(this.scene, this.camera);
+      this.velocityTarget.swap();
+    }
+
+    // Step 2c: Pseudo-forces of the moving container
+    packFrame(this.frameMotion, config, this.frame);
+    if (this.frame.active) {
+      this.frameMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+      this.frameMaterial.uniforms.tVelocity.value = this.velocityTarget.read.texture;
+      this.frameMaterial.uniforms.uFrameAcceleration.value.fromArray(this.frame.acceleration);
+      this.frameMaterial.uniforms.uAngularVelocity.value.fromArray(this.frame.angularVelocity);
+      this.frameMaterial.uniforms.uAngularAcceleration.value.fromArray(this.frame.angularAcceleration);
+      this.frameMaterial.uniforms.uInertialScale.value = this.frame.scale;
+      this.frameMaterial.uniforms.uDt.value = dt;
+
+      this.quad.material = this.frameMaterial;
+      this.renderer.setRenderTarget(this.velocityTarget.write);
+      this.renderer.render(this.scene, this.camera);
+      this.velocityTarget.swap();
+    }
+
+    // Step 2d: Cursor brush
+    packBrush(this.brushStroke, config, this.brush);
+    if (this.brush.mode >= 0) {
+      this.brushMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+      this.brushMaterial.uniforms.tVelocity.value = this.velocityTarget.read.texture;
+      this.brushMaterial.uniforms.uBrushMode.value = this.brush.mode;
+      this.brushMaterial.uniforms.uBrushRadius.value = this.brush.radius;
+      this.brushMaterial.uniforms.uBrushStrength.value = this.brush.strength;
+      this.brushMaterial.uniforms.uDt.value = dt;
+
+      this.quad.material = this.brushMaterial;
+      this.renderer.setRenderTarget(this.velocityTarget.write);
+      this.renderer.render(this.scene, this.camera);
+      this.velocityTarget.swap();
+    }
+
     // Step 3: Integrate positions
     this.integrateMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
     this.integrateMaterial.uniforms.tVelocity.value = this.velocityTarget.read.texture;
@@ -423,40 +1465,98 @@ export class GPUFluidEngine {
     this.renderer.render(this.scene, this.camera);
     this.positionTarget.swap();
 
+    // Step 3b: Build the uniform grid from predicted positions
+    // Cells must cover the largest interaction radius used by the neighbor loops
+    const cohesionRadius = physicsRadius * 5.0;
+    this.buildGrid(Math.max(h, minDist, cohesionRadius), config.boundarySize);
+
     // Constraint iterations
-    const constraintIterations = 3;
-    for (let iter = 0; iter < constraintIterations; iter++) {
-      // Step 4: Compute density
-      this.densityMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
-      this.densityMaterial.uniforms.tVelocity.value = this.velocityTarget.read.texture;
-      this.densityMaterial.uniforms.uKernelRadius.value = h;
-      this.densityMaterial.uniforms.uRestDensity.value = effectiveRestDensity;
-      this.densityMaterial.uniforms.uParticleCount.value = this.particleCount;
-
-      this.quad.material = this.densityMaterial;
-      this.renderer.setRenderTarget(this.densityTarget);
-      this.renderer.render(this.scene, this.camera);
+    const constraintIterations = Math.max(1, Math.round(config.solverIterations));
 
-      // Step 5: Compute forces
-      // Cohesion radius: scales with PHYSICS particle size for proper surface tension behavior
-      // Use 5x physics radius as the cohesion interaction range (same as kernel radius)
-      const cohesionRadius = physicsRadius * 5.0;
-
-      this.forceMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
-      this.forceMaterial.uniforms.tVelocity.value = this.velocityTarget.read.texture;
-      this.forceMaterial.uniforms.tDensity.value = this.densityTarget.texture;
-      this.forceMaterial.uniforms.uKernelRadius.value = h;
-      this.forceMaterial.uniforms.uStiffness.value = config.stiffness;
-      this.forceMaterial.uniforms.uRestDensity.value = effectiveRestDensity;
-      this.forceMaterial.uniforms.uMinDist.value = minDist;
-      this.forceMaterial.uniforms.uCollisionStrength.value = collisionStrength;
-      this.forceMaterial.uniforms.uSurfaceTension.value = config.surfaceTension ?? 0.5;
-      this.forceMaterial.uniforms.uCohesionRadius.value = cohesionRadius;
-      this.forceMaterial.uniforms.uParticleCount.value = this.particleCount;
-
-      this.quad.material = this.forceMaterial;
-      this.renderer.setRenderTarget(this.forceTarget);
-      this.renderer.render(this.scene, this.camera);
+    // Rest density: density of particles packed at the physics diameter (PBF
+    // target, and the inverse particle volume for vorticity and shear rate)
+    const pbfRestDensity = latticeRestDensity(h, physicsRadius * 2.0);
+    const granular = config.material === 'granular';
+    if (!granular) this.densityOutput = config.solver === 'pbf' ? this.lambdaTarget : this.densityTarget;
+    this.densitiesSolved = !granular;
+    const viscousForces = !granular && usesViscousForces(config);
+
+    for (let iter = 0; iter < constraintIterations; iter++) {
+      if (granular) {
+        // Step 4-5 (sand): Contact and friction corrections into the force target
+        this.granularMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+        this.granularMaterial.uniforms.tOldPosition.value = this.oldPositionTarget.read.texture;
+        this.granularMaterial.uniforms.uContactDistance.value = minDist;
+        this.granularMaterial.uniforms.uStaticFriction.value = config.staticFriction;
+        this.granularMaterial.uniforms.uKineticFriction.value = Math.min(config.kineticFriction, config.staticFriction);
+        this.setContainerUniforms(this.granularMaterial);
+        this.granularMaterial.uniforms.uUp.value.fromArray(stackingUp(gravityVec));
+        this.granularMaterial.uniforms.uStacking.value = STACKING_STIFFNESS / minDist;
+        this.setGridUniforms(this.granularMaterial);
+
+        this.quad.material = this.granularMaterial;
+        this.renderer.setRenderTarget(this.forceTarget);
+        this.renderer.render(this.scene, this.camera);
+      } else if (config.solver === 'pbf') {
+        // Step 4 (PBF): Density and lambda per particle
+        this.lambdaMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+        this.lambdaMaterial.uniforms.uKernelRadius.value = h;
+        this.lambdaMaterial.uniforms.uRestDensity.value = pbfRestDensity;
+        this.lambdaMaterial.uniforms.uRelaxation.value = config.pbfRelaxation;
+        this.setGridUniforms(this.lambdaMaterial);
+        this.setWallUniforms(this.lambdaMaterial, physicsRadius, adhesion);
+
+        this.quad.material = this.lambdaMaterial;
+        this.renderer.setRenderTarget(this.lambdaTarget);
+        this.renderer.render(this.scene, this.camera);
+
+        // Step 5 (PBF): Position corrections into the force target
+        this.pbfDeltaMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+        this.pbfDeltaMaterial.uniforms.tLambda.value = this.lambdaTarget.texture;
+        this.pbfDeltaMaterial.uniforms.uKernelRadius.value = h;
+        this.pbfDeltaMaterial.uniforms.uRestDensity.value = pbfRestDensity;
+        this.pbfDeltaMaterial.uniforms.uTensileK.value = config.pbfTensileK;
+        this.pbfDeltaMaterial.uniforms.uInterfacePush.value = phasePush;
+        this.setGridUniforms(this.pbfDeltaMaterial);
+        this.setWallUniforms(this.pbfDeltaMaterial, physicsRadius, adhesion);
+
+        this.quad.material = this.pbfDeltaMaterial;
+        this.renderer.setRenderTarget(this.forceTarget);
+        this.renderer.render(this.scene, this.camera);
+      } else {
+        // Step 4: Compute density
+        this.densityMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+        this.densityMaterial.uniforms.tVelocity.value = this.velocityTarget.read.texture;
+        this.densityMaterial.uniforms.uKernelRadius.value = h;
+        this.densityMaterial.uniforms.uRestDensity.value = effectiveRestDensity;
+        this.setGridUniforms(this.densityMaterial);
+        this.setWallUniforms(this.densityMaterial, physicsRadius, adhesion);
+
+        this.quad.material = this.densityMaterial;
+        this.renderer.setRenderTarget(this.densityTarget);
+        this.renderer.render(this.scene, this.camera);
+
+        // Step 5: Compute forces
+        // Cohesion radius: scales with PHYSICS particle size for proper surface tension behavior
+        // Use 5x physics radius as the cohesion interaction range (same as kernel radius)
+        this.forceMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+        this.forceMaterial.uniforms.tVelocity.value = this.velocityTarget.read.texture;
+        this.forceMaterial.uniforms.tDensity.value = this.densityTarget.texture;
+        this.forceMaterial.uniforms.uKernelRadius.value = h;
+        this.forceMaterial.uniforms.uStiffness.value = config.stiffness;
+        this.forceMaterial.uniforms.uRestDensity.value = effectiveRestDensity;
+        this.forceMaterial.uniforms.uMinDist.value = minDist;
+        this.forceMaterial.uniforms.uCollisionStrength.value = collisionStrength;
+        this.forceMaterial.uniforms.uCohesionRadius.value = cohesionRadius;
+        this.forceMaterial.uniforms.uInterfacePush.value = phasePush;
+        this.forceMaterial.uniforms.tTemperature.value = this.temperatureTarget.read.texture;
+        this.setGridUniforms(this.forceMaterial);
+        this.setWallUniforms(this.forceMaterial, physicsRadius, adhesion);
+
+        this.quad.material = this.forceMaterial;
+        this.renderer.setRenderTarget(this.forceTarget);
+        this.renderer.render(this.scene, this.camera);
+      }
 
       // Step 6: Apply forces
       this.applyForcesMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
@@ -473,9 +1573,11 @@ export class GPUFluidEngine {
     // Step 7: Apply boundary constraints
     this.boundaryMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
     this.boundaryMaterial.uniforms.tVelocity.value = this.velocityTarget.read.texture;
-    this.boundaryMaterial.uniforms.uBoundary.value = boundary;
     this.boundaryMaterial.uniforms.uBoundaryOffset.value = boundaryOffset;
-    this.boundaryMaterial.uniforms.uWallRepelDist.value = physicsRadius * 1.2;
+    // Sand rests on the walls as granular contacts, without the liquid's soft cushion
+    this.boundaryMaterial.uniforms.uWallRepelDist.value = granular ? 0 : physicsRadius * 1.2;
+    this.setObstacleUniforms(this.boundaryMaterial, physicsRadius);
+    this.setContainerUniforms(this.boundaryMaterial);
 
     this.quad.material = this.boundaryMaterial;
     this.renderer.setRenderTarget(this.positionTarget.write);
@@ -487,30 +1589,130 @@ export class GPUFluidEngine {
     this.velocityUpdateMaterial.uniforms.tOldPosition.value = this.oldPositionTarget.read.texture;
     this.velocityUpdateMaterial.uniforms.tVelocity.value = this.velocityTarget.read.texture;
     this.velocityUpdateMaterial.uniforms.uDt.value = dt;
-    this.velocityUpdateMaterial.uniforms.uViscosity.value = config.viscosity;
-    this.velocityUpdateMaterial.uniforms.uBoundary.value = boundary;
     this.velocityUpdateMaterial.uniforms.uBoundaryOffset.value = boundaryOffset;
     // STABILITY FIX: Limit max velocity to prevent explosion
     // Scale with boundary size so particles can traverse the container in ~0.5 seconds
-    this.velocityUpdateMaterial.uniforms.uMaxVelocity.value = config.boundarySize * 2.0;
+    // (loosened to a safety net when the step adapts to the speed, see services/timeStep.ts)
+    this.velocityUpdateMaterial.uniforms.uMaxVelocity.value = velocityLimit(config, dt);
+    this.velocityUpdateMaterial.uniforms.tTemperature.value = this.temperatureTarget.read.texture;
+    this.velocityUpdateMaterial.uniforms.uViscosityDamping.value = viscousForces ? 0 : 1;
+    this.setObstacleUniforms(this.velocityUpdateMaterial, physicsRadius);
+    this.setContainerUniforms(this.velocityUpdateMaterial);
 
     this.quad.material = this.velocityUpdateMaterial;
     this.renderer.setRenderTarget(this.velocityTarget.write);
     this.renderer.render(this.scene, this.camera);
     this.velocityTarget.swap();
 
+    // Step 8b: Non-Newtonian viscosity - effective viscosity from the shear rate,
+    // then viscous forces between neighbors
+    if (viscousForces) {
+      const rheology = config.rheology;
+      this.shearRateMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+      this.shearRateMaterial.uniforms.tVelocity.value = this.velocityTarget.read.texture;
+      this.shearRateMaterial.uniforms.tTemperature.value = this.temperatureTarget.read.texture;
+      this.shearRateMaterial.uniforms.uKernelRadius.value = h;
+      this.shearRateMaterial.uniforms.uInvRestDensity.value = 1 / pbfRestDensity;
+      this.shearRateMaterial.uniforms.uRheologyModel.value = rheologyModelIndex(config);
+      this.shearRateMaterial.uniforms.uFlowIndex.value = rheology.flowIndex;
+      this.shearRateMaterial.uniforms.uYieldStress.value = rheology.yieldStress;
+      this.setGridUniforms(this.shearRateMaterial);
+
+      this.quad.material = this.shearRateMaterial;
+      this.renderer.setRenderTarget(this.rheologyTarget);
+      this.renderer.render(this.scene, this.camera);
+
+      this.viscosityMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+      this.viscosityMaterial.uniforms.tVelocity.value = this.velocityTarget.read.texture;
+      this.viscosityMaterial.uniforms.tRheology.value = this.rheologyTarget.texture;
+      this.viscosityMaterial.uniforms.uKernelRadius.value = h;
+      this.viscosityMaterial.uniforms.uInvRestDensity.value = 1 / pbfRestDensity;
+      this.viscosityMaterial.uniforms.uDt.value = dt;
+      this.setGridUniforms(this.viscosityMaterial);
+
+      this.quad.material = this.viscosityMaterial;
+      this.renderer.setRenderTarget(this.velocityTarget.write);
+      this.renderer.render(this.scene, this.camera);
+      this.velocityTarget.swap();
+    }
+
     // Step 9: XSPH viscosity - smooth velocity towards neighbor average
-    // This prevents particle oscillation and improves stability
-    this.xsphMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
-    this.xsphMaterial.uniforms.tVelocity.value = this.velocityTarget.read.texture;
-    this.xsphMaterial.uniforms.uKernelRadius.value = h;
-    this.xsphMaterial.uniforms.uXSPHCoeff.value = 0.01;  // Reduced for more dynamic splashing
-    this.xsphMaterial.uniforms.uParticleCount.value = this.particleCount;
-
-    this.quad.material = this.xsphMaterial;
-    this.renderer.setRenderTarget(this.velocityTarget.write);
+    // This prevents particle oscillation and improves stability (liquids only)
+    if (!granular) {
+      this.xsphMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+      this.xsphMaterial.uniforms.tVelocity.value = this.velocityTarget.read.texture;
+      this.xsphMaterial.uniforms.uKernelRadius.value = h;
+      this.xsphMaterial.uniforms.uXSPHCoeff.value = 0.01;  // Reduced for more dynamic splashing
+      this.setGridUniforms(this.xsphMaterial);
+
+      this.quad.material = this.xsphMaterial;
+      this.renderer.setRenderTarget(this.velocityTarget.write);
+      this.renderer.render(this.scene, this.camera);
+      this.velocityTarget.swap();
+    }
+
+    // Step 9a: Vorticity confinement - put back swirl lost to damping and XSPH
+    const vorticityEpsilon = granular ? 0 : config.vorticityEpsilon ?? 0;
+    if (vorticityEpsilon > 0) {
+      this.vorticityMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+      this.vorticityMaterial.uniforms.tVelocity.value = this.velocityTarget.read.texture;
+      this.vorticityMaterial.uniforms.uKernelRadius.value = h;
+      this.vorticityMaterial.uniforms.uInvRestDensity.value = 1 / pbfRestDensity;
+      this.setGridUniforms(this.vorticityMaterial);
+
+      this.quad.material = this.vorticityMaterial;
+      this.renderer.setRenderTarget(this.vorticityTarget);
+      this.renderer.render(this.scene, this.camera);
+
+      this.confinementMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+      this.confinementMaterial.uniforms.tVelocity.value = this.velocityTarget.read.texture;
+      this.confinementMaterial.uniforms.tVorticity.value = this.vorticityTarget.texture;
+      this.confinementMaterial.uniforms.uKernelRadius.value = h;
+      this.confinementMaterial.uniforms.uEpsilon.value = vorticityEpsilon;
+      this.confinementMaterial.uniforms.uDt.value = dt;
+      this.setGridUniforms(this.confinementMaterial);
+
+      this.quad.material = this.confinementMaterial;
+      this.renderer.setRenderTarget(this.velocityTarget.write);
+      this.renderer.render(this.scene, this.camera);
+      this.velocityTarget.swap();
+    }
+
+    // Step 9b: Heat exchange between neighbors and with the container / obstacles
+    this.heatMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+    this.heatMaterial.uniforms.tTemperature.value = this.temperatureTarget.read.texture;
+    this.heatMaterial.uniforms.uKernelRadius.value = h;
+    this.heatMaterial.uniforms.uDiffusionRate.value = heatDiffusionRate(config, dt, h, physicsRadius);
+    this.heatMaterial.uniforms.uDt.value = dt;
+    this.heatMaterial.uniforms.uFloorTemperature.value = config.floorTemperature ?? AMBIENT_TEMPERATURE;
+    this.heatMaterial.uniforms.uWallTemperature.value = config.wallTemperature ?? AMBIENT_TEMPERATURE;
+    this.heatMaterial.uniforms.uWallHeatTransfer.value = config.wallHeatTransfer ?? 0;
+    this.setGridUniforms(this.heatMaterial);
+    this.setObstacleUniforms(this.heatMaterial, physicsRadius);
+    this.setContainerUniforms(this.heatMaterial);
+
+    this.quad.material = this.heatMaterial;
+    this.renderer.setRenderTarget(this.temperatureTarget.write);
     this.renderer.render(this.scene, this.camera);
-    this.velocityTarget.swap();
+    this.temperatureTarget.swap();
+
+    // Step 10: Fluid reaction on the rigid bodies, then advance them
+    if (hasBodies) {
+      this.rigidBodies.integrate(dt, gravityVec, this.reduceBodyReactions(dt), this.container, this.obstacles, this.frame);
+    }
+
+    // Step 11: Drains deactivate the fluid inside them
+    packDrains(config.drains, this.drains);
+    if (this.drains.count > 0) {
+      this.drainMaterial.uniforms.tPosition.value = this.positionTarget.read.texture;
+      this.drainMaterial.uniforms.uDrainCount.value = this.drains.count;
+
+      this.quad.material = this.drainMaterial;
+      this.renderer.setRenderTarget(this.positionTarget.write);
+      this.renderer.render(this.scene, this.camera);
+      this.positionTarget.swap();
+      this.drainSteps++;
+    }
 
     // Restore render target
     this.renderer.setRenderTarget(prevTarget);
@@ -521,29 +1723,264 @@ export class GPUFluidEngine {
     return this.positionTarget.read.texture;
   }
 
+  public getPhaseTexture(): THREE.Texture {
+    return this.phaseTarget.read.texture;
+  }
+
+  public getTemperatureTexture(): THREE.Texture {
+    return this.temperatureTarget.read.texture;
+  }
+
+  public getVelocityTexture(): THREE.Texture {
+    return this.velocityTarget.read.texture;
+  }
+
+  public getDensityTexture(): THREE.Texture {
+    return this.densityOutput.texture;
+  }
+
+  // Positions at the start of the last step, for render interpolation
+  public getPreviousPositionTexture(): THREE.Texture {
+    return this.oldPositionTarget.read.texture;
+  }
+
   public reset(): void {
     this.particleCount = 0;
+    this.spawnBatch = 0;
+    this.emission.reset();
+    this.drainSteps = 0;
+    this.time = 0;
+    this.lastMaxSpeed = 0;
+    this.speedGeneration++;
+    this.densitiesSolved = false;
+    this.rigidBodies.clear();
+    this.forgetBodyReactions();
+    (this.bodyLocalTexture.image.data as Float32Array).fill(0);
+    this.bodyLocalTexture.needsUpdate = true;
     this.initializeTextures();
   }
 
+  // Readback of the active particles through pixel buffers: the reads are
+  // queued together with this step's textures and resolve once a fence says
+  // the GPU got there, so the frame never waits. If the async read fails the
+  // promise rejects and later calls read synchronously, which is also what
+  // happens without async readback; either way one result is one step's state.
+  // Densities are 0 when the last step solved none (sand).
+  public async readParticles(): Promise<ParticleReadback> {
+    const count = this.particleCount;
+    const size = this.textureSize;
+    const rows = Math.ceil(count / size);
+    const targets = [this.positionTarget.read, this.velocityTarget.read];
+    if (this.densitiesSolved) targets.push(this.densityOutput);
+    const densityChannel = this.densityOutput === this.lambdaTarget ? 1 : 0;  // PBF: G = density
+    const buffers = targets.map(() => new Float32Array(size * rows * 4));
+    const [posData, velData, densityData] = buffers;
+
+    if (rows > 0) {
+      if (this.asyncReadback) {
+        try {
+          await Promise.all(targets.map((target, k) =>
+            this.renderer.readRenderTargetPixelsAsync(target, 0, 0, size, rows, buffers[k])));
+        } catch (error) {
+          // The textures have moved on by now, so a sync read here would mix steps
+          this.asyncReadback = false;
+          throw error;
+        }
+      } else {
+        targets.forEach((target, k) => this.renderer.readRenderTargetPixels(target, 0, 0, size, rows, buffers[k]));
+      }
+    }
+
+    const positions = new Float32Array(count * 3);
+    const velocities = new Float32Array(count * 3);
+    const densities = new Float32Array(count);
+    const slots = new Uint32Array(count);
+    let active = 0;
+    for (let i = 0; i < count; i++) {
+      // Inactive and rigid-body boundary slots are not fluid
+      if (posData[i * 4 + 3] < 0.5 || posData[i * 4 + 3] >= 1.5) continue;
+      for (let a = 0; a < 3; a++) {
+        positions[active * 3 + a] = posData[i * 4 + a];
+        velocities[active * 3 + a] = velData[i * 4 + a];
+      }
+      densities[active] = densityData ? densityData[i * 4 + densityChannel] : 0;
+      slots[active] = i;
+      active++;
+    }
+    return {
+      count: active,
+      positions: positions.subarray(0, active * 3),
+      velocities: velocities.subarray(0, active * 3),
+      densities: densities.subarray(0, active),
+      slots: slots.subarray(0, active)
+    };
+  }
+
+  // Synchronous readback of the active particles (used for backend switching)
+  public exportState(): ParticleState {
+    const size = this.textureSize;
+    const posData = new Float32Array(size * size * 4);
+    const velData = new Float32Array(size * size * 4);
+    this.renderer.readRenderTargetPixels(this.positionTarget.read, 0, 0, size, size, posData);
+    this.renderer.readRenderTargetPixels(this.velocityTarget.read, 0, 0, size, size, velData);
+    const tempData = new Float32Array(size * size * 4);
+    this.renderer.readRenderTargetPixels(this.temperatureTarget.read, 0, 0, size, size, tempData);
+    const phaseData = new Float32Array(size * size * 4);
+    this.renderer.readRenderTargetPixels(this.phaseTarget.read, 0, 0, size, size, phaseData);
+
+    const positions = new Float32Array(this.particleCount * 3);
+    const velocities = new Float32Array(this.particleCount * 3);
+    const phases = new Uint8Array(this.particleCount);
+    const temperatures = new Float32Array(this.particleCount);
+    let count = 0;
+    for (let i = 0; i < this.particleCount; i++) {
+      // Inactive and rigid-body boundary slots are not fluid
+      if (posData[i * 4 + 3] < 0.5 || posData[i * 4 + 3] >= 1.5) continue;
+      for (let a = 0; a < 3; a++) {
+        positions[count * 3 + a] = posData[i * 4 + a];
+        velocities[count * 3 + a] = velData[i * 4 + a];
+      }
+      phases[count] = phaseData[i * 4];
+      temperatures[count] = tempData[i * 4];
+      count++;
+    }
+    return {
+      count,
+      positions: positions.subarray(0, count * 3),
+      velocities: velocities.subarray(0, count * 3),
+      phases: phases.subarray(0, count),
+      temperatures: temperatures.subarray(0, count),
+      bodies: this.rigidBodies.bodies,
+      time: this.time,
+      emission: this.emission.carry(),
+      spawnBatch: this.spawnBatch
+    };
+  }
+
+  public importState(state: ParticleState): void {
+    this.drainSteps = 0;
+    this.time = state.time;
+    this.emission.restore(state.emission);
+    this.spawnBatch = state.spawnBatch;
+    this.rigidBodies.clear();
+    this.forgetBodyReactions();
+    (this.bodyLocalTexture.image.data as Float32Array).fill(0);
+    this.bodyLocalTexture.needsUpdate = true;
+
+    const size = this.textureSize;
+    const count = Math.min(this.maxParticles, state.count);
+    const posData = new Float32Array(size * size * 4);
+    const velData = new Float32Array(size * size * 4);
+    const tempData = new Float32Array(size * size * 4);
+    const phaseData = new Float32Array(size * size * 4);
+
+    for (let i = 0; i < size * size; i++) {
+      if (i < count) {
+        posData[i * 4] = state.positions[i * 3];
+        posData[i * 4 + 1] = state.positions[i * 3 + 1];
+        posData[i * 4 + 2] = state.positions[i * 3 + 2];
+        posData[i * 4 + 3] = 1;
+        velData[i * 4] = state.velocities[i * 3];
+        velData[i * 4 + 1] = state.velocities[i * 3 + 1];
+        velData[i * 4 + 2] = state.velocities[i * 3 + 2];
+        velData[i * 4 + 3] = 1;
+        tempData[i * 4] = state.temperatures[i];
+        phaseData[i * 4] = state.phases[i];
+      } else {
+        // Inactive slot (w = 0, position far away)
+        posData[i * 4] = 10000;
+        posData[i * 4 + 1] = 10000;
+        posData[i * 4 + 2] = 10000;
+        tempData[i * 4] = AMBIENT_TEMPERATURE;
+      }
+    }
+
+    const posTexture = new THREE.DataTexture(posData, size, size, THREE.RGBAFormat, THREE.FloatType);
+    const velTexture = new THREE.DataTexture(velData, size, size, THREE.RGBAFormat, THREE.FloatType);
+    const tempTexture = new THREE.DataTexture(tempData, size, size, THREE.RGBAFormat, THREE.FloatType);
+    const phaseTexture = new THREE.DataTexture(phaseData, size, size, THREE.RGBAFormat, THREE.FloatType);
+    posTexture.needsUpdate = true;
+    velTexture.needsUpdate = true;
+    tempTexture.needsUpdate = true;
+    phaseTexture.needsUpdate = true;
+
+    this.renderToTarget(posTexture, this.positionTarget.renderTarget1);
+    this.renderToTarget(posTexture, this.positionTarget.renderTarget2);
+    this.renderToTarget(posTexture, this.oldPositionTarget.renderTarget1);
+    this.renderToTarget(posTexture, this.oldPositionTarget.renderTarget2);
+    this.renderToTarget(velTexture, this.velocityTarget.renderTarget1);
+    this.renderToTarget(velTexture, this.velocityTarget.renderTarget2);
+    this.renderToTarget(tempTexture, this.temperatureTarget.renderTarget1);
+    this.renderToTarget(tempTexture, this.temperatureTarget.renderTarget2);
+    this.renderToTarget(phaseTexture, this.phaseTarget.renderTarget1);
+    this.renderToTarget(phaseTexture, this.phaseTarget.renderTarget2);
+
+    posTexture.dispose();
+    velTexture.dispose();
+    tempTexture.dispose();
+    phaseTexture.dispose();
+    this.particleCount = count;
+
+    for (const snapshot of state.bodies) {
+      const body = this.addRigidBody(snapshot);
+      if (!body) break;
+      copyBodyMotion(snapshot, body);
+    }
+    if (this.rigidBodies.bodies.length > 0) this.poseBoundaryParticles();
+  }
+
   public dispose(): void {
     this.positionTarget.dispose();
     this.velocityTarget.dispose();
     this.oldPositionTarget.dispose();
+    this.temperatureTarget.dispose();
+    this.phaseTarget.dispose();
+    this.scanTarget.dispose();
     this.densityTarget.dispose();
     this.forceTarget.dispose();
+    this.lambdaTarget.dispose();
+    this.vorticityTarget.dispose();
+    this.rheologyTarget.dispose();
+    this.sortTarget.dispose();
+    this.cellRangeTarget.dispose();
+    this.bodyReactionTarget.dispose();
+    this.speedTargets.forEach(target => target.dispose());
+    this.bodyLocalTexture.dispose();
 
     this.integrateMaterial.dispose();
     this.velocityIntegrateMaterial.dispose();
+    this.forceFieldMaterial.dispose();
+    this.frameMaterial.dispose();
+    this.brushMaterial.dispose();
     this.densityMaterial.dispose();
     this.forceMaterial.dispose();
     this.applyForcesMaterial.dispose();
     this.boundaryMaterial.dispose();
     this.velocityUpdateMaterial.dispose();
     this.xsphMaterial.dispose();
+    this.shearRateMaterial.dispose();
+    this.viscosityMaterial.dispose();
+    this.vorticityMaterial.dispose();
+    this.confinementMaterial.dispose();
     this.copyMaterial.dispose();
     this.addParticlesMaterial.dispose();
+    this.emitMaterial.dispose();
+    this.drainMaterial.dispose();
     this.initVelocityMaterial.dispose();
+    this.initScalarMaterial.dispose();
+    this.compactFlagMaterial.dispose();
+    this.prefixSumMaterial.dispose();
+    this.compactGatherMaterial.dispose();
+    this.cellHashMaterial.dispose();
+    this.bitonicSortMaterial.dispose();
+    this.cellRangeMaterial.dispose();
+    this.lambdaMaterial.dispose();
+    this.pbfDeltaMaterial.dispose();
+    this.granularMaterial.dispose();
+    this.bodyPoseMaterial.dispose();
+    this.bodyReductionMaterial.dispose();
+    this.speedReductionMaterial.dispose();
+    this.heatMaterial.dispose();
 
     (this.quad.geometry as THREE.BufferGeometry).dispose();
   }
@@ -0,0 +1,94 @@
+import * as THREE from 'three';
+import { FluidConfig } from '../types';
+import { FluidEngine } from './FluidEngine';
+import { GPUFluidEngine } from './GPUFluidEngine';
+import { RigidBody, RigidBodyDesc, RigidBodySystem } from './rigidBodies';
+import { BrushStroke } from './brush';
+import { FrameMotion } from './containerMotion';
+
+export type BackendKind = 'cpu' | 'gpu';
+
+// Active fluid particles read back for analytics, export and picking, packed
+// in slot order with FluidEngine's array layout (xyz per particle for positions
+// and velocities, one density per particle, 0 when the last step solved none);
+// slots maps each to its slot index
+export interface ParticleReadback {
+  count: number;
+  positions: Float32Array;
+  velocities: Float32Array;
+  densities: Float32Array;
+  slots: Uint32Array;
+}
+
+// Packed snapshot of the active fluid particles (xyz, phase and temperature
+// per particle) and the rigid bodies, whose boundary particles are rebuilt on
+// import, plus the clock state a backend switch must carry over
+export interface ParticleState {
+  count: number;
+  positions: Float32Array;
+  velocities: Float32Array;
+  phases: Uint8Array;
+  temperatures: Float32Array;
+  bodies: RigidBody[];
+  time: number;                   // Simulated seconds, drives the force-field animation
+  emission: Map<number, number>;  // Fractional particles each emitter still owes (by emitter id)
+  spawnBatch: number;             // Seed batches drawn so far, so spawning continues the sequence
+}
+
+// Common surface of the CPU and GPU engines.
+// Rendering reads positions from textures laid out textureSize x textureSize,
+// one RGBA texel per particle slot (w = 1 fluid, w >= 2 rigid-body boundary,
+// w < 0.5 inactive).
+export interface SimulationBackend {
+  readonly kind: BackendKind;
+  readonly rigidBodies: RigidBodySystem;
+  particleCount: number;
+  textureSize: number;
+  // Simulated seconds since the last reset; animates the force fields
+  time: number;
+
+  getParticleSpacing(): number;
+  // phase indexes [base fluid, ...config.phases] (see services/phases.ts);
+  // temperature defaults to thermal.AMBIENT_TEMPERATURE
+  addParticles(count: number, origin: [number, number, number], phase?: number, temperature?: number): void;
+  // Returns null when the body limit or the particle budget is reached
+  addRigidBody(desc: RigidBodyDesc): RigidBody | null;
+  step(dt: number, config: FluidConfig, gravityVec: [number, number, number]): void;
+  // Cursor brush for the following steps (config.brushMode), null = none
+  setBrush(stroke: BrushStroke | null): void;
+  // Motion of the container for the following steps, applied as pseudo-forces
+  // (scaled by config.inertialForces); null = at rest
+  setFrameMotion(motion: FrameMotion | null): void;
+  // Speed of the fastest fluid particle, for the adaptive time step (services/timeStep.ts);
+  // GPUFluidEngine reads it back asynchronously and answers with the previous frame's
+  maxSpeed(): number;
+  // Pack the live slots to the front in slot order and shrink particleCount to
+  // them (step also does this after drains have freed slots)
+  compact(): void;
+  reset(): void;
+  dispose(): void;
+
+  getPositionTexture(): THREE.Texture;
+  getPreviousPositionTexture(): THREE.Texture;
+  // Same layout, R = phase index per slot
+  getPhaseTexture(): THREE.Texture;
+  // Same layout, R = temperature per slot
+  getTemperatureTexture(): THREE.Texture;
+  // Same layout, xyz = velocity per slot
+  getVelocityTexture(): THREE.Texture;
+  // Same layout, B = density over the rest density of the slot's phase from the
+  // last density solve (not updated for sand, which has none)
+  getDensityTexture(): THREE.Texture;
+
+  // Active particle data without stalling the frame where the backend can
+  // (see services/readback.ts for reading every few frames)
+  readParticles(): Promise<ParticleReadback>;
+
+  // State transfer used when switching backends at runtime
+  exportState(): ParticleState;
+  importState(state: ParticleState): void;
+}
+
+export function createBackend(kind: BackendKind, config: FluidConfig, renderer: THREE.WebGLRenderer): SimulationBackend {
+  return kind === 'cpu' ? new FluidEngine(config) : new GPUFluidEngine(config, renderer);
+}
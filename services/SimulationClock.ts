@@ -0,0 +1,52 @@
+// Fixed-timestep simulation clock
+// Accumulates wall time (scaled by timeScale) and hands out whole fixed steps,
+// so the simulation speed no longer depends on the display refresh rate.
+// The leftover fraction is exposed as `alpha` for render interpolation.
+
+// Simulated time covered by one frame's worth of substeps
+export const BASE_FRAME_TIME = 1 / 60;
+
+// Longest wall-clock gap counted in one frame (tab switches, breakpoints)
+const MAX_FRAME_TIME = 0.25;
+
+// Cap on steps per frame, in frames' worth of substeps, to avoid a death spiral
+const MAX_CATCH_UP_FRAMES = 3;
+
+export interface ClockTick {
+  steps: number;       // Fixed steps to run this frame
+  dt: number;          // Duration of each step (seconds of simulated time)
+  alpha: number;       // Interpolation factor between the last two states (0 - 1)
+  frameTime: number;   // Wall-clock seconds since the previous frame
+}
+
+export class SimulationClock {
+  private accumulator: number = 0;
+  private lastTime: number | null = null;
+
+  public advance(now: number, substeps: number, timeScale: number): ClockTick {
+    const frameTime = this.lastTime === null ? 0 : Math.min((now - this.lastTime) / 1000, MAX_FRAME_TIME);
+    this.lastTime = now;
+
+    const stepCount = Math.max(1, Math.round(substeps));
+    const dt = BASE_FRAME_TIME / stepCount;
+    const maxSteps = stepCount * MAX_CATCH_UP_FRAMES;
+
+    this.accumulator += frameTime * Math.max(0, timeScale);
+
+    let steps = Math.floor(this.accumulator / dt);
+    if (steps > maxSteps) {
+      // Too far behind: run the cap and drop the rest instead of spiralling
+      steps = maxSteps;
+      this.accumulator = 0;
+    } else {
+      this.accumulator -= steps * dt;
+    }
+
+    return { steps, dt, alpha: Math.min(1, this.accumulator / dt), frameTime };
+  }
+
+  public reset(): void {
+    this.accumulator = 0;
+    this.lastTime = null;
+  }
+}
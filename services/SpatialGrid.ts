@@ -0,0 +1,28 @@
+// Uniform grid layout shared by the CPU and GPU neighbor search
+// The grid covers the container plus a one-cell margin; particles outside it
+// are clamped into the border cells, which keeps neighbor cells adjacent.
+
+export interface GridLayout {
+  cellSize: number;
+  origin: [number, number, number];
+  dims: [number, number, number];
+  cellCount: number;
+}
+
+export function computeGridLayout(boundarySize: number, cellSize: number): GridLayout {
+  const half = boundarySize / 2 + cellSize;
+  const dim = Math.max(1, Math.ceil((half * 2) / cellSize));
+  return {
+    cellSize,
+    origin: [-half, -half, -half],
+    dims: [dim, dim, dim],
+    cellCount: dim * dim * dim
+  };
+}
+
+// Smallest power of two >= n (n >= 1)
+export function nextPowerOfTwo(n: number): number {
+  let p = 1;
+  while (p < n) p *= 2;
+  return p;
+}
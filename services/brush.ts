@@ -0,0 +1,124 @@
+// Cursor brush shared by the CPU and GPU engines
+// While the user drags with the brush, every step changes the velocity of the
+// fluid within brushRadius of the cursor point: push and pull along the radial
+// direction, vortex around the view direction, and spoon blends the velocity
+// towards the cursor velocity. The effect falls off as (1 - r / radius)^2.
+// Matches brushShader in shaders/physicsShaders.ts.
+
+import { BrushMode, FluidConfig } from '../types';
+import { containerDistance, PackedContainer } from './container';
+
+export const BRUSH_MODE_IDS: Record<BrushMode, number> = {
+  push: 0,
+  pull: 1,
+  vortex: 2,
+  spoon: 3
+};
+
+// Acceleration at the brush center for a strength of 1 (push, pull, vortex)
+export const BRUSH_ACCELERATION = 200;
+// Rate the spoon matches the cursor velocity at its center, per second, for a strength of 1
+export const BRUSH_DRAG_RATE = 30;
+
+// Samples along the cursor ray when looking for the container
+const RAY_SAMPLES = 64;
+
+// Cursor state for the steps of one frame (container space)
+export interface BrushStroke {
+  center: [number, number, number];
+  velocity: [number, number, number];  // Cursor velocity, dragged along by the spoon
+  axis: [number, number, number];      // View direction, the vortex axis (unit)
+}
+
+export interface PackedBrush {
+  mode: number;            // BRUSH_MODE_IDS, -1 = no stroke
+  center: Float32Array;
+  velocity: Float32Array;
+  axis: Float32Array;
+  radius: number;
+  strength: number;        // Acceleration, or the spoon rate (see above)
+}
+
+export function createPackedBrush(): PackedBrush {
+  return {
+    mode: -1,
+    center: new Float32Array(3),
+    velocity: new Float32Array(3),
+    axis: new Float32Array([0, 0, -1]),
+    radius: 1,
+    strength: 0
+  };
+}
+
+export function packBrush(stroke: BrushStroke | null, config: FluidConfig, out: PackedBrush): PackedBrush {
+  const mode = config.brushMode ?? 'push';
+  out.mode = stroke && (config.brushStrength ?? 0) > 0 ? BRUSH_MODE_IDS[mode] : -1;
+  if (!stroke) return out;
+  out.center.set(stroke.center);
+  out.velocity.set(stroke.velocity);
+  out.axis.set(stroke.axis);
+  out.radius = Math.max(config.brushRadius ?? 1, 1e-3);
+  out.strength = (config.brushStrength ?? 0) * (mode === 'spoon' ? BRUSH_DRAG_RATE : BRUSH_ACCELERATION);
+  return out;
+}
+
+// Apply one step of the brush to the velocity v of a particle at (x, y, z)
+export function applyBrush(brush: PackedBrush, x: number, y: number, z: number, dt: number, v: Float32Array | number[], offset = 0): void {
+  if (brush.mode < 0) return;
+  const dx = x - brush.center[0], dy = y - brush.center[1], dz = z - brush.center[2];
+  const r = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  if (r >= brush.radius) return;
+  const falloff = (1 - r / brush.radius) * (1 - r / brush.radius);
+
+  if (brush.mode === 3) {
+    const blend = Math.min(brush.strength * falloff * dt, 1);
+    for (let a = 0; a < 3; a++) v[offset + a] += (brush.velocity[a] - v[offset + a]) * blend;
+    return;
+  }
+
+  const inv = 1 / Math.max(r, 1e-6);
+  const nx = dx * inv, ny = dy * inv, nz = dz * inv;
+  const push = brush.strength * falloff * dt;
+  if (brush.mode === 2) {
+    // axis x direction: swirl around the view direction
+    const [ax, ay, az] = brush.axis;
+    v[offset] += (ay * nz - az * ny) * push;
+    v[offset + 1] += (az * nx - ax * nz) * push;
+    v[offset + 2] += (ax * ny - ay * nx) * push;
+    return;
+  }
+  const sign = brush.mode === 0 ? 1 : -1;
+  v[offset] += nx * push * sign;
+  v[offset + 1] += ny * push * sign;
+  v[offset + 2] += nz * push * sign;
+}
+
+// Brush point for a cursor ray (container space, unit direction): the middle
+// of the stretch of the ray inside the container, or null when the ray misses it
+export function brushCenter(container: PackedContainer, origin: number[], dir: number[]): [number, number, number] | null {
+  // Slab test against the boundary cube the container is cut to
+  let near = 0, far = Infinity;
+  for (let a = 0; a < 3; a++) {
+    if (Math.abs(dir[a]) < 1e-9) {
+      if (Math.abs(origin[a]) > container.bound) return null;
+      continue;
+    }
+    const t0 = (-container.bound - origin[a]) / dir[a];
+    const t1 = (container.bound - origin[a]) / dir[a];
+    near = Math.max(near, Math.min(t0, t1));
+    far = Math.min(far, Math.max(t0, t1));
+  }
+  if (near >= far) return null;
+
+  let first = -1, last = -1;
+  for (let k = 0; k < RAY_SAMPLES; k++) {
+    const t = near + (far - near) * (k + 0.5) / RAY_SAMPLES;
+    if (containerDistance(container, origin[0] + dir[0] * t, origin[1] + dir[1] * t, origin[2] + dir[2] * t) < 0) {
+      if (first < 0) first = t;
+      last = t;
+    }
+  }
+  if (first < 0) return null;
+  const t = (first + last) / 2;
+  return [origin[0] + dir[0] * t, origin[1] + dir[1] * t, origin[2] + dir[2] * t];
+}
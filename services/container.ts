@@ -0,0 +1,179 @@
+// Container shapes shared by the CPU and GPU engines
+// The container is a signed distance field (negative inside) intersected with
+// the boundary cube, so walls, floors and custom shapes all collide along the
+// SDF normal. Shape sizes are packed in world units for the uniforms; the
+// distance functions match containerCommon in shaders/physicsShaders.ts.
+
+import { ContainerConfig, ContainerFace, ContainerShape, FluidConfig } from '../types';
+import { compileSdf, DEFAULT_CONTAINER_SDF, SdfFunction } from './sdfExpression';
+
+export const CONTAINER_SHAPE_IDS: Record<ContainerShape, number> = {
+  box: 0,
+  cylinder: 1,
+  sphere: 2,
+  capsule: 3,
+  bowl: 4,
+  custom: 5
+};
+
+export const DEFAULT_CONTAINER: ContainerConfig = {
+  shape: 'box',
+  extents: [1, 1, 1],
+  sdf: DEFAULT_CONTAINER_SDF
+};
+
+// Face order of PackedContainer.surfaces (see containerFace)
+export const CONTAINER_FACES: ContainerFace[] = ['floor', 'ceiling', 'left', 'right', 'back', 'front'];
+
+// Step for the finite-difference SDF normal
+const NORMAL_EPSILON = 0.001;
+
+export interface PackedContainer {
+  shape: number;
+  // box: half extents; cylinder: radius, half height; sphere: radius;
+  // capsule: radius, segment half length; bowl: radius, center height
+  size: Float32Array;
+  bound: number;           // Half the boundary size (the cube the shape is cut to)
+  source: string;          // Custom expression the fields below were compiled from
+  custom: SdfFunction;
+  glsl: string;            // Custom expression as GLSL (CONTAINER_SDF define)
+  // Restitution, static and kinetic friction of each of CONTAINER_FACES
+  surfaces: Float32Array;
+}
+
+export function createPackedContainer(): PackedContainer {
+  return {
+    shape: 0,
+    size: new Float32Array(3),
+    bound: 1,
+    source: '',
+    custom: () => -1,
+    glsl: '-1.0',
+    surfaces: new Float32Array(CONTAINER_FACES.length * 3)
+  };
+}
+
+// Pack the container of a boundary cube of side boundarySize into `out`.
+// An invalid custom expression falls back to the plain cube.
+export function packContainer(container: ContainerConfig | undefined, boundarySize: number, out: PackedContainer): PackedContainer {
+  const c = container ?? DEFAULT_CONTAINER;
+  const B = boundarySize / 2;
+  const [ex, ey, ez] = c.extents;
+  out.bound = B;
+  out.shape = CONTAINER_SHAPE_IDS[c.shape] ?? 0;
+
+  switch (c.shape) {
+    case 'box':
+      out.size.set([ex * B, ey * B, ez * B]);
+      break;
+    case 'cylinder':
+      out.size.set([ex * B, ey * B, 0]);
+      break;
+    case 'capsule':
+      out.size.set([ex * B, Math.max(0, ey * B - ex * B), 0]);
+      break;
+    case 'bowl':
+      out.size.set([ex * B, -B + ex * B, 0]);
+      break;
+    default:
+      out.size.set([ex * B, 0, 0]);
+  }
+
+  if (c.shape === 'custom' && c.sdf !== out.source) {
+    out.source = c.sdf;
+    try {
+      const compiled = compileSdf(c.sdf);
+      out.custom = compiled.evaluate;
+      out.glsl = compiled.glsl;
+    } catch (e) {
+      console.warn('Invalid container SDF, using the full cube:', (e as Error).message);
+      out.custom = () => -1;
+      out.glsl = '-1.0';
+    }
+  }
+  return out;
+}
+
+// Pack the wall restitution and friction of every face, applying the
+// container's per-face overrides. Kinetic friction is capped at static.
+export function packWallSurfaces(config: FluidConfig, out: PackedContainer): PackedContainer {
+  const faces = config.container?.faces ?? {};
+  CONTAINER_FACES.forEach((face, k) => {
+    const surface = faces[face];
+    const restitution = surface?.restitution ?? config.wallRestitution ?? 0.2;
+    const staticFriction = surface?.staticFriction ?? config.wallStaticFriction ?? 0;
+    const kineticFriction = surface?.kineticFriction ?? config.wallKineticFriction ?? 0;
+    out.surfaces[k * 3] = restitution;
+    out.surfaces[k * 3 + 1] = staticFriction;
+    out.surfaces[k * 3 + 2] = Math.min(kineticFriction, staticFriction);
+  });
+  return out;
+}
+
+// Index in CONTAINER_FACES of the face with outward normal n
+export function containerFace(n: number[]): number {
+  if (n[1] < -0.7) return 0;
+  if (n[1] > 0.7) return 1;
+  if (Math.abs(n[0]) >= Math.abs(n[2])) return n[0] < 0 ? 2 : 3;
+  return n[2] < 0 ? 4 : 5;
+}
+
+function boxDistance(x: number, y: number, z: number, hx: number, hy: number, hz: number): number {
+  const dx = Math.abs(x) - hx, dy = Math.abs(y) - hy, dz = Math.abs(z) - hz;
+  const ox = Math.max(dx, 0), oy = Math.max(dy, 0), oz = Math.max(dz, 0);
+  return Math.sqrt(ox * ox + oy * oy + oz * oz) + Math.min(Math.max(dx, Math.max(dy, dz)), 0);
+}
+
+// Signed distance from (x, y, z) to the container wall (negative inside)
+export function containerDistance(packed: PackedContainer, x: number, y: number, z: number): number {
+  const [a, b, c] = packed.size;
+  let d: number;
+  switch (packed.shape) {
+    case 0: // box
+      d = boxDistance(x, y, z, a, b, c);
+      break;
+    case 1: { // cylinder along y
+      const dr = Math.sqrt(x * x + z * z) - a;
+      const dh = Math.abs(y) - b;
+      const or = Math.max(dr, 0), oh = Math.max(dh, 0);
+      d = Math.min(Math.max(dr, dh), 0) + Math.sqrt(or * or + oh * oh);
+      break;
+    }
+    case 2: // sphere
+      d = Math.sqrt(x * x + y * y + z * z) - a;
+      break;
+    case 3: { // capsule along y
+      const qy = y - Math.min(b, Math.max(-b, y));
+      d = Math.sqrt(x * x + qy * qy + z * z) - a;
+      break;
+    }
+    case 4: { // bowl: hemisphere centered at y = b, straight walls above
+      const qy = Math.min(y - b, 0);
+      d = Math.sqrt(x * x + qy * qy + z * z) - a;
+      break;
+    }
+    default:
+      d = packed.custom(x, y, z, packed.bound);
+  }
+  const B = packed.bound;
+  return Math.max(d, boxDistance(x, y, z, B, B, B));
+}
+
+// Outward unit normal of the container wall at (x, y, z), tetrahedral finite
+// differences. Writes into out[0..2]; falls back to +y where the gradient vanishes.
+export function containerNormal(packed: PackedContainer, x: number, y: number, z: number, out: number[]): void {
+  const e = NORMAL_EPSILON;
+  const d0 = containerDistance(packed, x + e, y - e, z - e);
+  const d1 = containerDistance(packed, x - e, y - e, z + e);
+  const d2 = containerDistance(packed, x - e, y + e, z - e);
+  const d3 = containerDistance(packed, x + e, y + e, z + e);
+  const nx = d0 - d1 - d2 + d3;
+  const ny = -d0 - d1 + d2 + d3;
+  const nz = -d0 + d1 - d2 + d3;
+  const len = Math.sqrt(nx * nx + ny * ny + nz * nz);
+  if (len < 1e-8) {
+    out[0] = 0; out[1] = 1; out[2] = 0;
+    return;
+  }
+  out[0] = nx / len; out[1] = ny / len; out[2] = nz / len;
+}
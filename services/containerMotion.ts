@@ -0,0 +1,156 @@
+// Container motion shared by the CPU and GPU engines
+// The simulation runs in the container frame, so a moving container shows up
+// as pseudo-forces on the fluid: -A (the container's linear acceleration),
+// -w x (w x r) (centrifugal), -2 w x v (Coriolis) and -dw/dt x r (Euler), with
+// r measured from the container center. ContainerMotion tracks the container
+// transform on screen (drag-shaking, the shaker table and the scene rotation)
+// and derives them. Matches frameShader in shaders/physicsShaders.ts.
+
+import * as THREE from 'three';
+import { FluidConfig } from '../types';
+
+// The container follows its target (drag offset + shaker table) on a stiff,
+// slightly underdamped spring, so starting, stopping and releasing it slosh
+// instead of teleporting the tank
+const SPRING_FREQUENCY = 6;      // Hz
+const SPRING_DAMPING = 0.7;      // Damping ratio
+const MAX_SPRING_STEP = 1 / 240; // Spring integration step (seconds)
+
+// Rate the angular velocity follows the scene rotation, per second; smooths
+// the frame-to-frame jitter of pointer rotation before it is differentiated
+const ANGULAR_SMOOTHING = 20;
+
+// Motion of the container frame for the following steps (container space)
+export interface FrameMotion {
+  acceleration: [number, number, number];
+  angularVelocity: [number, number, number];
+  angularAcceleration: [number, number, number];
+}
+
+export interface PackedFrame {
+  active: boolean;         // False when there is no motion or inertialForces is 0
+  scale: number;           // config.inertialForces
+  acceleration: Float32Array;
+  angularVelocity: Float32Array;
+  angularAcceleration: Float32Array;
+}
+
+export function createPackedFrame(): PackedFrame {
+  return {
+    active: false,
+    scale: 1,
+    acceleration: new Float32Array(3),
+    angularVelocity: new Float32Array(3),
+    angularAcceleration: new Float32Array(3)
+  };
+}
+
+export function packFrame(motion: FrameMotion | null, config: FluidConfig, out: PackedFrame): PackedFrame {
+  out.scale = config.inertialForces ?? 1;
+  out.active = motion !== null && out.scale > 0;
+  if (!motion) return out;
+  out.acceleration.set(motion.acceleration);
+  out.angularVelocity.set(motion.angularVelocity);
+  out.angularAcceleration.set(motion.angularAcceleration);
+  return out;
+}
+
+// Pseudo-acceleration of the fluid at (x, y, z) moving at (vx, vy, vz), into out[0..2]
+export function frameAcceleration(frame: PackedFrame, x: number, y: number, z: number,
+  vx: number, vy: number, vz: number, out: number[]): number[] {
+  const [wx, wy, wz] = frame.angularVelocity;
+  const [ax, ay, az] = frame.angularAcceleration;
+  // w x r, then w x (w x r)
+  const cx = wy * z - wz * y, cy = wz * x - wx * z, cz = wx * y - wy * x;
+  out[0] = -frame.acceleration[0] - (wy * cz - wz * cy) - 2 * (wy * vz - wz * vy) - (ay * z - az * y);
+  out[1] = -frame.acceleration[1] - (wz * cx - wx * cz) - 2 * (wz * vx - wx * vz) - (az * x - ax * z);
+  out[2] = -frame.acceleration[2] - (wx * cy - wy * cx) - 2 * (wx * vy - wy * vx) - (ax * y - ay * x);
+  for (let a = 0; a < 3; a++) out[a] *= frame.scale;
+  return out;
+}
+
+// Shaker table displacement at `time` (world space)
+function shakerOffset(config: FluidConfig, time: number, out: THREE.Vector3): THREE.Vector3 {
+  if (!config.shaking) return out.set(0, 0, 0);
+  const s = Math.sin(2 * Math.PI * (config.shakeFrequency ?? 1) * time);
+  const [x, y, z] = config.shakeAmplitude ?? [0, 0, 0];
+  return out.set(x * s, y * s, z * s);
+}
+
+const relative = new THREE.Quaternion();
+const spin = new THREE.Vector3();
+const target = new THREE.Vector3();
+
+// Transform of the container on screen and the frame motion it implies
+export class ContainerMotion {
+  // World-space offset of the container center, and its velocity
+  public readonly offset = new THREE.Vector3();
+  public readonly velocity = new THREE.Vector3();
+  // Drag-shake target offset (world space), null when not dragging
+  public dragTarget: THREE.Vector3 | null = null;
+
+  private acceleration = new THREE.Vector3();
+  private angularVelocity = new THREE.Vector3();
+  private angularAcceleration = new THREE.Vector3();
+  private lastOrientation: THREE.Quaternion | null = null;
+  private shakeTime = 0;
+
+  // Advance by `elapsed` simulated seconds, the container having turned to `orientation`
+  public update(elapsed: number, orientation: THREE.Quaternion, config: FluidConfig): void {
+    if (elapsed <= 0) return;
+
+    // Linear: spring towards the drag target plus the shaker table
+    const k = (2 * Math.PI * SPRING_FREQUENCY) ** 2;
+    const c = 2 * SPRING_DAMPING * Math.sqrt(k);
+    const startVelocity = this.velocity.clone();
+    const count = Math.ceil(elapsed / MAX_SPRING_STEP);
+    const h = elapsed / count;
+    for (let n = 0; n < count; n++) {
+      this.shakeTime += h;
+      shakerOffset(config, this.shakeTime, target);
+      if (this.dragTarget) target.add(this.dragTarget);
+      target.sub(this.offset).multiplyScalar(k).addScaledVector(this.velocity, -c);
+      this.velocity.addScaledVector(target, h);
+      this.offset.addScaledVector(this.velocity, h);
+    }
+    this.acceleration.copy(this.velocity).sub(startVelocity).divideScalar(elapsed);
+
+    // Angular: the rotation since the last update, in the container frame
+    if (this.lastOrientation) {
+      relative.copy(this.lastOrientation).invert().multiply(orientation).normalize();
+      if (relative.w < 0) relative.set(-relative.x, -relative.y, -relative.z, -relative.w);
+      const angle = 2 * Math.acos(Math.min(relative.w, 1));
+      const sine = Math.sqrt(Math.max(1 - relative.w * relative.w, 0));
+      spin.set(relative.x, relative.y, relative.z).multiplyScalar(sine > 1e-6 ? angle / sine / elapsed : 2 / elapsed);
+      const previous = this.angularVelocity.clone();
+      this.angularVelocity.lerp(spin, Math.min(elapsed * ANGULAR_SMOOTHING, 1));
+      this.angularAcceleration.copy(this.angularVelocity).sub(previous).divideScalar(elapsed);
+    }
+    this.lastOrientation = orientation.clone();
+  }
+
+  // Pseudo-force inputs for the engines, or null while the container is at rest
+  public frameMotion(orientation: THREE.Quaternion): FrameMotion | null {
+    const still = this.acceleration.lengthSq() < 1e-8 && this.angularVelocity.lengthSq() < 1e-8 &&
+      this.angularAcceleration.lengthSq() < 1e-8;
+    if (still) return null;
+    // World acceleration into the container frame; the angular terms already are
+    const inverse = orientation.clone().invert();
+    return {
+      acceleration: this.acceleration.clone().applyQuaternion(inverse).toArray(),
+      angularVelocity: this.angularVelocity.toArray(),
+      angularAcceleration: this.angularAcceleration.toArray()
+    };
+  }
+
+  // Back to rest at the center, e.g. after the scene rotation was reset
+  public reset(): void {
+    this.offset.set(0, 0, 0);
+    this.velocity.set(0, 0, 0);
+    this.acceleration.set(0, 0, 0);
+    this.angularVelocity.set(0, 0, 0);
+    this.angularAcceleration.set(0, 0, 0);
+    this.lastOrientation = null;
+    this.shakeTime = 0;
+  }
+}
@@ -0,0 +1,171 @@
+// Continuous emitters and drains shared by the CPU and GPU engines
+// Emitters owe rate * dt particles per step; fractions carry over to the next
+// step. A step's batch is spread along the emission direction as if the
+// particles had left the emitter at even intervals during the step, and starts
+// with the emitter velocity. Drains turn fluid particles inside their box into
+// inactive slots (w = 0, far away) until compaction packs the live slots to the
+// front again. Sampling matches emitParticlesShader and drainShader in
+// shaders/physicsShaders.ts.
+
+import { Drain, Emitter, EmitterShape, FluidConfig } from '../types';
+import { hashUnit } from './seededRandom';
+
+// Uniform array lengths in the shaders
+export const MAX_EMITTERS = 4;
+export const MAX_DRAINS = 4;
+
+export const EMITTER_SHAPE_IDS: Record<EmitterShape, number> = {
+  point: 0,
+  disc: 1,
+  box: 2
+};
+
+// Draining steps between automatic compactions of the dead slots drains leave
+// behind (the engines' compact())
+export const COMPACTION_INTERVAL = 120;
+
+// Whether a step should start with compaction: every COMPACTION_INTERVAL
+// draining steps, or as soon as emitters run out of slots after draining
+export function compactionDue(drainSteps: number, particleCount: number, maxParticles: number): boolean {
+  return drainSteps >= COMPACTION_INTERVAL || (drainSteps > 0 && particleCount >= maxParticles);
+}
+
+// Spread of a point emitter, in particle spacings (same as the spawn lattice jitter)
+export const POINT_JITTER = 0.3;
+
+// Emission axis and the disc plane spanned by tangent / bitangent
+export interface EmitterFrame {
+  axis: [number, number, number];
+  tangent: [number, number, number];
+  bitangent: [number, number, number];
+}
+
+export interface EmissionBatch {
+  emitter: Emitter;
+  count: number;
+  phase: number;   // Clamped to the configured phases
+  frame: EmitterFrame;
+}
+
+export function emitterFrame(emitter: Emitter): EmitterFrame {
+  const [dx, dy, dz] = emitter.direction;
+  const len = Math.hypot(dx, dy, dz);
+  const axis: [number, number, number] = len > 1e-6 ? [dx / len, dy / len, dz / len] : [0, -1, 0];
+
+  // tangent = normalize(helper x axis), bitangent = axis x tangent
+  const helper = Math.abs(axis[1]) < 0.9 ? [0, 1, 0] : [1, 0, 0];
+  const tx = helper[1] * axis[2] - helper[2] * axis[1];
+  const ty = helper[2] * axis[0] - helper[0] * axis[2];
+  const tz = helper[0] * axis[1] - helper[1] * axis[0];
+  const tLen = Math.hypot(tx, ty, tz);
+  const tangent: [number, number, number] = [tx / tLen, ty / tLen, tz / tLen];
+  const bitangent: [number, number, number] = [
+    axis[1] * tangent[2] - axis[2] * tangent[1],
+    axis[2] * tangent[0] - axis[0] * tangent[2],
+    axis[0] * tangent[1] - axis[1] * tangent[0]
+  ];
+  return { axis, tangent, bitangent };
+}
+
+// Position of particle k of a batch drawn with `seed`
+export function emitterPoint(batch: EmissionBatch, seed: number, k: number, spacing: number, dt: number, out: number[]): number[] {
+  const { emitter, frame } = batch;
+  const r0 = hashUnit(seed, k * 3);
+  const r1 = hashUnit(seed, k * 3 + 1);
+  const r2 = hashUnit(seed, k * 3 + 2);
+  const shape = EMITTER_SHAPE_IDS[emitter.shape];
+  const along = emitter.speed * dt * (k + 0.5) / batch.count;
+
+  for (let a = 0; a < 3; a++) {
+    let offset: number;
+    if (shape === 0) {
+      offset = ([r0, r1, r2][a] - 0.5) * spacing * POINT_JITTER;
+    } else if (shape === 1) {
+      const radius = emitter.size[0] * Math.sqrt(r0);
+      const angle = 6.2831853 * r1;
+      offset = (frame.tangent[a] * Math.cos(angle) + frame.bitangent[a] * Math.sin(angle)) * radius;
+    } else {
+      offset = ([r0, r1, r2][a] * 2 - 1) * emitter.size[a];
+    }
+    out[a] = emitter.position[a] + offset + frame.axis[a] * along;
+  }
+  return out;
+}
+
+// Per-emitter carry of fractional particles between steps
+export class EmissionClock {
+  private pending = new Map<number, number>();
+
+  // Batches the enabled emitters owe after dt, in config order, cut to the
+  // `capacity` free particle slots (particles that do not fit are dropped)
+  public advance(config: FluidConfig, dt: number, capacity: number): EmissionBatch[] {
+    const batches: EmissionBatch[] = [];
+    let free = Math.max(0, capacity);
+    const phaseCount = config.phases?.length ?? 0;
+    for (const emitter of (config.emitters ?? []).slice(0, MAX_EMITTERS)) {
+      if (!emitter.enabled || emitter.rate <= 0) {
+        this.pending.delete(emitter.id);
+        continue;
+      }
+      const owed = (this.pending.get(emitter.id) ?? 0) + emitter.rate * dt;
+      const whole = Math.floor(owed);
+      this.pending.set(emitter.id, owed - whole);
+      const count = Math.min(whole, free);
+      if (count > 0) {
+        batches.push({ emitter, count, phase: Math.min(emitter.phase, phaseCount), frame: emitterFrame(emitter) });
+        free -= count;
+      }
+    }
+    return batches;
+  }
+
+  public reset(): void {
+    this.pending.clear();
+  }
+
+  // Copy of the carries, to hand them to another engine (backend switching)
+  public carry(): Map<number, number> {
+    return new Map(this.pending);
+  }
+
+  public restore(carry: Map<number, number>): void {
+    this.pending = new Map(carry);
+  }
+}
+
+export interface PackedDrains {
+  count: number;
+  min: Float32Array;   // vec3: box corner
+  max: Float32Array;   // vec3: opposite corner
+}
+
+export function createPackedDrains(): PackedDrains {
+  return {
+    count: 0,
+    min: new Float32Array(MAX_DRAINS * 3),
+    max: new Float32Array(MAX_DRAINS * 3)
+  };
+}
+
+// Pack the first MAX_DRAINS drains into `out`
+export function packDrains(drains: readonly Drain[] | undefined, out: PackedDrains): PackedDrains {
+  const list = drains ?? [];
+  out.count = Math.min(list.length, MAX_DRAINS);
+  for (let k = 0; k < out.count; k++) {
+    for (let a = 0; a < 3; a++) {
+      out.min[k * 3 + a] = list[k].position[a] - list[k].size[a];
+      out.max[k * 3 + a] = list[k].position[a] + list[k].size[a];
+    }
+  }
+  return out;
+}
+
+export function insideDrain(packed: PackedDrains, x: number, y: number, z: number): boolean {
+  for (let k = 0; k < packed.count; k++) {
+    const c = k * 3;
+    if (x >= packed.min[c] && x <= packed.max[c] &&
+        y >= packed.min[c + 1] && y <= packed.max[c + 1] &&
+        z >= packed.min[c + 2] && z <= packed.max[c + 2]) return true;
+  }
+  return false;
+}
@@ -0,0 +1,129 @@
+// Force fields shared by the CPU and GPU engines
+// Each field accelerates the fluid within its radius, scaled by
+// (1 - distance / radius)^falloff: wind blows along its direction, attractors
+// pull towards their center (repel when negative), vortices swirl around their
+// axis and turbulence follows the curl of a few drifting sine waves, so it
+// stirs the fluid without compressing it. Animation is applied when packing,
+// from the simulated time. Matches forceFieldShader in shaders/physicsShaders.ts.
+
+import { ForceField, ForceFieldType } from '../types';
+import { hashUnit } from './seededRandom';
+
+// Uniform array length in the shaders
+export const MAX_FORCE_FIELDS = 4;
+
+export const FORCE_FIELD_TYPE_IDS: Record<ForceFieldType, number> = {
+  wind: 0,
+  attractor: 1,
+  vortex: 2,
+  turbulence: 3
+};
+
+// Turbulence: wave vectors k (per eddy size) and the vector potential
+// directions b. Wave m adds cos(k.q + phase) * (k x b), the curl of
+// b * sin(k.q + phase), so the flow is divergence-free.
+const WAVE_VECTORS = [[0.8, 0.5, -0.3], [-0.6, 1.2, 0.9], [1.9, -0.7, 1.3], [-2.4, -1.8, 2.6]];
+const WAVE_POTENTIALS = [[0, 0.4, 0.9], [0.7, 0, -0.5], [-0.3, 0.8, 0.2], [0.5, 0.5, -0.6]];
+export const TURBULENCE_WAVES = WAVE_VECTORS.map((k, m) => {
+  const b = WAVE_POTENTIALS[m];
+  const flow = [k[1] * b[2] - k[2] * b[1], k[2] * b[0] - k[0] * b[2], k[0] * b[1] - k[1] * b[0]];
+  return { k, flow };
+});
+
+// Phase drift of the turbulence waves in radians per second; wave m drifts
+// (1 + m / 2) times faster, so the eddies keep changing shape
+export const TURBULENCE_DRIFT = 0.8;
+
+export interface PackedForceFields {
+  count: number;
+  shapes: Float32Array;    // vec4: type id, radius, falloff, strength (animated)
+  centers: Float32Array;   // vec4: xyz = position (animated), w = 1 / turbulence scale
+  axes: Float32Array;      // vec4: xyz = unit direction (animated)
+  phases: Float32Array;    // vec4: turbulence wave phases
+}
+
+export function createPackedForceFields(): PackedForceFields {
+  return {
+    count: 0,
+    shapes: new Float32Array(MAX_FORCE_FIELDS * 4),
+    centers: new Float32Array(MAX_FORCE_FIELDS * 4),
+    axes: new Float32Array(MAX_FORCE_FIELDS * 4),
+    phases: new Float32Array(MAX_FORCE_FIELDS * 4)
+  };
+}
+
+// Pack the first MAX_FORCE_FIELDS enabled fields as animated at `time` seconds
+export function packForceFields(fields: readonly ForceField[] | undefined, time: number, out: PackedForceFields): PackedForceFields {
+  const list = (fields ?? []).filter(f => f.enabled).slice(0, MAX_FORCE_FIELDS);
+  out.count = list.length;
+  list.forEach((f, k) => {
+    const angle = 2 * Math.PI * f.frequency * time;
+    const c = Math.cos(angle), s = Math.sin(angle);
+
+    let strength = f.strength;
+    if (f.animation === 'pulse') strength *= 0.5 + 0.5 * s;
+
+    // orbit / spin: rotate about the vertical axis through the container center
+    let [px, py, pz] = f.position;
+    if (f.animation === 'orbit') [px, pz] = [px * c + pz * s, pz * c - px * s];
+    let [dx, dy, dz] = f.direction;
+    if (f.animation === 'spin') [dx, dz] = [dx * c + dz * s, dz * c - dx * s];
+    const len = Math.hypot(dx, dy, dz);
+    if (len > 1e-6) {
+      dx /= len; dy /= len; dz /= len;
+    } else {
+      dx = 0; dy = 1; dz = 0;
+    }
+
+    out.shapes.set([FORCE_FIELD_TYPE_IDS[f.type], Math.max(f.radius, 1e-3), Math.max(f.falloff, 0), strength], k * 4);
+    out.centers.set([px, py, pz, 1 / Math.max(f.scale, 1e-3)], k * 4);
+    out.axes.set([dx, dy, dz, 0], k * 4);
+    for (let m = 0; m < 4; m++) {
+      out.phases[k * 4 + m] = 2 * Math.PI * hashUnit(f.id >>> 0, m) + TURBULENCE_DRIFT * (1 + m / 2) * time;
+    }
+  });
+  return out;
+}
+
+// Acceleration of the fluid at (x, y, z) from every packed field, into out[0..2]
+export function forceFieldAcceleration(packed: PackedForceFields, x: number, y: number, z: number, out: number[]): number[] {
+  out[0] = out[1] = out[2] = 0;
+  for (let k = 0; k < packed.count; k++) {
+    const o = k * 4;
+    const type = packed.shapes[o];
+    const radius = packed.shapes[o + 1];
+    let dx = x - packed.centers[o], dy = y - packed.centers[o + 1], dz = z - packed.centers[o + 2];
+    const ax = packed.axes[o], ay = packed.axes[o + 1], az = packed.axes[o + 2];
+
+    // The vortex reaches out from its axis, the others from their center
+    let rx = dx, ry = dy, rz = dz;
+    if (type === 2) {
+      const along = dx * ax + dy * ay + dz * az;
+      rx -= along * ax; ry -= along * ay; rz -= along * az;
+    }
+    const dist = Math.sqrt(rx * rx + ry * ry + rz * rz);
+    if (dist >= radius) continue;
+    const w = packed.shapes[o + 3] * Math.pow(1 - dist / radius, packed.shapes[o + 2]);
+
+    if (type === 0) {
+      out[0] += ax * w; out[1] += ay * w; out[2] += az * w;
+    } else if (type === 1) {
+      if (dist < 1e-4) continue;
+      out[0] -= rx / dist * w; out[1] -= ry / dist * w; out[2] -= rz / dist * w;
+    } else if (type === 2) {
+      if (dist < 1e-4) continue;
+      out[0] += (ay * rz - az * ry) / dist * w;
+      out[1] += (az * rx - ax * rz) / dist * w;
+      out[2] += (ax * ry - ay * rx) / dist * w;
+    } else {
+      const inv = packed.centers[o + 3];
+      dx *= inv; dy *= inv; dz *= inv;
+      for (let m = 0; m < TURBULENCE_WAVES.length; m++) {
+        const { k: kv, flow } = TURBULENCE_WAVES[m];
+        const wave = Math.cos(kv[0] * dx + kv[1] * dy + kv[2] * dz + packed.phases[o + m]) * w / TURBULENCE_WAVES.length;
+        out[0] += flow[0] * wave; out[1] += flow[1] * wave; out[2] += flow[2] * wave;
+      }
+    }
+  }
+  return out;
+}
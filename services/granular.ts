@@ -0,0 +1,22 @@
+// Granular (sand) contacts shared by the CPU and GPU engines
+// Grains are PBD contacts with Coulomb friction (see granularShader in
+// shaders/physicsShaders.ts). A few Jacobi iterations cannot carry the weight
+// of a tall pile down to the floor, so contact corrections use a height-scaled
+// mass (Macklin et al. 2014, "Unified Particle Physics"): grains lower in the
+// pile act heavier and the ones resting on them give way instead.
+
+// Mass scale per grain diameter of height
+export const STACKING_STIFFNESS = 2.0;
+
+// Unit "up" for the mass scaling (zero without gravity: plain mass ratio)
+export function stackingUp(gravity: [number, number, number]): [number, number, number] {
+  const len = Math.hypot(gravity[0], gravity[1], gravity[2]);
+  if (len < 1e-6) return [0, 0, 0];
+  return [-gravity[0] / len, -gravity[1] / len, -gravity[2] / len];
+}
+
+// Share of a contact correction taken by grain i when grain j sits `rise`
+// higher along up
+export function stackingShare(invMassI: number, invMassJ: number, rise: number, contactDistance: number): number {
+  return invMassI / (invMassI + invMassJ * Math.exp(STACKING_STIFFNESS * rise / contactDistance));
+}
@@ -0,0 +1,124 @@
+// Static SDF obstacles shared by the CPU and GPU engines
+// Obstacles are packed into flat arrays that upload directly as GLSL uniform
+// arrays; the signed distance functions match obstacleCommon in
+// shaders/physicsShaders.ts.
+
+import * as THREE from 'three';
+import { Obstacle, ObstacleShape } from '../types';
+
+// Uniform array length in the shaders
+export const MAX_OBSTACLES = 8;
+
+export const OBSTACLE_SHAPE_IDS: Record<ObstacleShape, number> = {
+  sphere: 0,
+  box: 1,
+  capsule: 2,
+  cylinder: 3,
+  plane: 4
+};
+
+// Step for the finite-difference SDF normal
+const NORMAL_EPSILON = 0.001;
+
+export interface PackedObstacles {
+  count: number;
+  shapes: Float32Array;      // vec4: shape id, friction, restitution, heat transfer
+  centers: Float32Array;     // vec3: world center
+  params: Float32Array;      // vec4: shape size (see Obstacle.size), temperature
+  rotations: Float32Array;   // mat3 (column-major): world to obstacle space
+}
+
+export function createPackedObstacles(): PackedObstacles {
+  return {
+    count: 0,
+    shapes: new Float32Array(MAX_OBSTACLES * 4),
+    centers: new Float32Array(MAX_OBSTACLES * 3),
+    params: new Float32Array(MAX_OBSTACLES * 4),
+    rotations: new Float32Array(MAX_OBSTACLES * 9)
+  };
+}
+
+const euler = new THREE.Euler();
+const rotation4 = new THREE.Matrix4();
+const rotation3 = new THREE.Matrix3();
+
+// Pack the first MAX_OBSTACLES obstacles into `out`
+export function packObstacles(obstacles: readonly Obstacle[] | undefined, out: PackedObstacles): PackedObstacles {
+  const list = obstacles ?? [];
+  out.count = Math.min(list.length, MAX_OBSTACLES);
+
+  for (let k = 0; k < out.count; k++) {
+    const o = list[k];
+    out.shapes.set([OBSTACLE_SHAPE_IDS[o.shape], o.friction, o.restitution, o.heatTransfer ?? 0], k * 4);
+    out.centers.set(o.position, k * 3);
+    out.params.set([o.size[0], o.size[1], o.size[2], o.temperature ?? 0], k * 4);
+
+    // Inverse of a rotation is its transpose
+    euler.set(
+      THREE.MathUtils.degToRad(o.rotation[0]),
+      THREE.MathUtils.degToRad(o.rotation[1]),
+      THREE.MathUtils.degToRad(o.rotation[2])
+    );
+    rotation3.setFromMatrix4(rotation4.makeRotationFromEuler(euler)).transpose();
+    out.rotations.set(rotation3.elements, k * 9);
+  }
+  return out;
+}
+
+// Signed distance from (x, y, z) to obstacle k (negative inside)
+export function obstacleDistance(packed: PackedObstacles, k: number, x: number, y: number, z: number): number {
+  const c = k * 3;
+  const px = x - packed.centers[c];
+  const py = y - packed.centers[c + 1];
+  const pz = z - packed.centers[c + 2];
+
+  const m = packed.rotations;
+  const r = k * 9;
+  const qx = m[r] * px + m[r + 3] * py + m[r + 6] * pz;
+  let qy = m[r + 1] * px + m[r + 4] * py + m[r + 7] * pz;
+  const qz = m[r + 2] * px + m[r + 5] * py + m[r + 8] * pz;
+
+  const a = packed.params[k * 4];
+  const b = packed.params[k * 4 + 1];
+  const cz = packed.params[k * 4 + 2];
+
+  switch (packed.shapes[k * 4]) {
+    case 0: // sphere
+      return Math.sqrt(qx * qx + qy * qy + qz * qz) - a;
+    case 1: { // box
+      const dx = Math.abs(qx) - a, dy = Math.abs(qy) - b, dz = Math.abs(qz) - cz;
+      const ox = Math.max(dx, 0), oy = Math.max(dy, 0), oz = Math.max(dz, 0);
+      return Math.sqrt(ox * ox + oy * oy + oz * oz) + Math.min(Math.max(dx, Math.max(dy, dz)), 0);
+    }
+    case 2: // capsule along local y
+      qy -= Math.min(b, Math.max(-b, qy));
+      return Math.sqrt(qx * qx + qy * qy + qz * qz) - a;
+    case 3: { // cylinder along local y
+      const dr = Math.sqrt(qx * qx + qz * qz) - a;
+      const dh = Math.abs(qy) - b;
+      const or = Math.max(dr, 0), oh = Math.max(dh, 0);
+      return Math.min(Math.max(dr, dh), 0) + Math.sqrt(or * or + oh * oh);
+    }
+    default: // plane: solid below local y = 0
+      return qy;
+  }
+}
+
+// Outward unit normal of obstacle k at (x, y, z), tetrahedral finite differences.
+// Writes into out[0..2]; falls back to +y where the gradient vanishes.
+export function obstacleNormal(packed: PackedObstacles, k: number, x: number, y: number, z: number, out: number[]): void {
+  const e = NORMAL_EPSILON;
+  const d0 = obstacleDistance(packed, k, x + e, y - e, z - e);
+  const d1 = obstacleDistance(packed, k, x - e, y - e, z + e);
+  const d2 = obstacleDistance(packed, k, x - e, y + e, z - e);
+  const d3 = obstacleDistance(packed, k, x + e, y + e, z + e);
+  const nx = d0 - d1 - d2 + d3;
+  const ny = -d0 - d1 + d2 + d3;
+  const nz = -d0 + d1 - d2 + d3;
+  const len = Math.sqrt(nx * nx + ny * ny + nz * nz);
+  if (len < 1e-8) {
+    out[0] = 0; out[1] = 1; out[2] = 0;
+    return;
+  }
+  out[0] = nx / len; out[1] = ny / len; out[2] = nz / len;
+}
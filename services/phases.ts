@@ -0,0 +1,51 @@
+// Fluid phases shared by the CPU and GPU engines
+// Phase 0 is the base fluid described by FluidConfig (viscosity, surface
+// tension, water tint); config.phases adds up to MAX_PHASES - 1 more. Every
+// particle slot stores its phase index, and the packed arrays upload directly
+// as GLSL uniform arrays (see phaseCommon in shaders/physicsShaders.ts).
+
+import { FluidConfig } from '../types';
+
+// Uniform array length in the shaders (base fluid included)
+export const MAX_PHASES = 4;
+
+// Interface push per unit of interfaceTension and physics radius
+const INTERFACE_PUSH_SCALE = 0.02;
+
+export interface PackedPhases {
+  count: number;
+  props: Float32Array;    // vec4: relative density (particle mass), viscosity, surface tension, unused
+  colors: Float32Array;   // vec3: dot color / surface tint
+}
+
+export function createPackedPhases(): PackedPhases {
+  return {
+    count: 1,
+    props: new Float32Array(MAX_PHASES * 4),
+    colors: new Float32Array(MAX_PHASES * 3)
+  };
+}
+
+// Pack the base fluid and the extra phases into `out`. Unused entries repeat
+// the base fluid, so particles of a removed phase fall back to it.
+export function packPhases(config: FluidConfig, out: PackedPhases): PackedPhases {
+  const extra = (config.phases ?? []).slice(0, MAX_PHASES - 1);
+  out.count = extra.length + 1;
+
+  for (let k = 0; k < MAX_PHASES; k++) {
+    const phase = k > 0 ? extra[k - 1] : undefined;
+    if (phase) {
+      out.props.set([phase.density, phase.viscosity, phase.surfaceTension, 0], k * 4);
+      out.colors.set(phase.color, k * 3);
+    } else {
+      out.props.set([1, config.viscosity, config.surfaceTension ?? 0.5, 0], k * 4);
+      out.colors.set([config.waterTintR ?? 0.04, config.waterTintG ?? 0.04, config.waterTintB ?? 0.04], k * 3);
+    }
+  }
+  return out;
+}
+
+// Largest position push between neighbors of different phases (uInterfacePush)
+export function interfacePush(config: FluidConfig, physicsRadius: number): number {
+  return (config.interfaceTension ?? 0) * physicsRadius * INTERFACE_PUSH_SCALE;
+}
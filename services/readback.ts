@@ -0,0 +1,62 @@
+// Throttled particle readback for analytics, export and picking
+// Reading every frame would keep a GPU readback in flight at all times;
+// ReadbackThrottle starts one every `interval` frames, never more than one at
+// a time, and keeps the newest result.
+
+import { ParticleReadback, SimulationBackend } from './SimulationBackend';
+
+export class ReadbackThrottle {
+  // Newest completed readback, null until the first one lands
+  public latest: ParticleReadback | null = null;
+  // Frames between readbacks (1 = every frame)
+  public interval: number;
+
+  private frame = 0;
+  private pending = false;
+  private generation = 0;  // Bumped by reset, so reads started before it are dropped
+
+  constructor(interval = 10) {
+    this.interval = interval;
+  }
+
+  // Call once per frame, after the engine stepped; onResult sees each completed read
+  public tick(engine: SimulationBackend, onResult?: (readback: ParticleReadback) => void): void {
+    const due = this.frame++ % Math.max(1, Math.round(this.interval)) === 0;
+    if (!due || this.pending) return;
+    this.pending = true;
+    const generation = this.generation;
+    engine.readParticles()
+      .then(readback => {
+        if (generation !== this.generation) return;
+        this.latest = readback;
+        onResult?.(readback);
+      })
+      .catch(error => console.warn('Particle readback failed:', error))
+      .finally(() => { this.pending = false; });
+  }
+
+  // Forget the last result, e.g. after the engine was reset or replaced
+  public reset(): void {
+    this.latest = null;
+    this.frame = 0;
+    this.generation++;
+  }
+}
+
+// Fluid speeds of one readback, shown in the stats bar
+export interface FlowStats {
+  meanSpeed: number;
+  maxSpeed: number;
+}
+
+export function flowStats(readback: ParticleReadback): FlowStats {
+  const v = readback.velocities;
+  let sum = 0;
+  let max = 0;
+  for (let i = 0; i < readback.count; i++) {
+    const speed = Math.hypot(v[i * 3], v[i * 3 + 1], v[i * 3 + 2]);
+    sum += speed;
+    max = Math.max(max, speed);
+  }
+  return { meanSpeed: readback.count > 0 ? sum / readback.count : 0, maxSpeed: max };
+}
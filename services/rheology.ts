@@ -0,0 +1,45 @@
+// Rheology models shared by the CPU and GPU engines
+// 'newtonian' keeps the per-step velocity damping of the velocity update. The
+// other models estimate each particle's shear rate from the SPH velocity
+// gradient, turn it into an effective viscosity (the phase viscosity acts as
+// the consistency K) and diffuse velocity between neighbors with it (see
+// shearRateShader / viscosityShader in shaders/physicsShaders.ts).
+
+import { FluidConfig, RheologyModel } from '../types';
+
+// Model order matches uRheologyModel in the shaders
+export const RHEOLOGY_MODELS: RheologyModel[] = ['newtonian', 'powerLaw', 'bingham', 'herschelBulkley'];
+
+// Shear rate floor: keeps n < 1 and the yield term finite for fluid at rest
+export const MIN_SHEAR_RATE = 0.01;
+
+// Effective viscosity of unyielded material
+export const MAX_EFFECTIVE_VISCOSITY = 1000;
+
+export function rheologyModelIndex(config: FluidConfig): number {
+  return Math.max(0, RHEOLOGY_MODELS.indexOf(config.rheology?.model ?? 'newtonian'));
+}
+
+// Non-Newtonian models replace the damping with neighbor viscous forces
+export function usesViscousForces(config: FluidConfig): boolean {
+  return rheologyModelIndex(config) > 0;
+}
+
+// mu(shearRate) for the model index:
+//   power law         K * g^(n-1)
+//   Bingham           K + tau0 / g
+//   Herschel-Bulkley  K * g^(n-1) + tau0 / g
+export function effectiveViscosity(model: number, consistency: number, flowIndex: number, yieldStress: number, shearRate: number): number {
+  const g = Math.max(shearRate, MIN_SHEAR_RATE);
+  let mu = consistency;
+  if (model === 1 || model === 3) mu = consistency * Math.pow(g, flowIndex - 1);
+  if (model === 2 || model === 3) mu += yieldStress / g;
+  return Math.min(mu, MAX_EFFECTIVE_VISCOSITY);
+}
+
+// Fraction of the velocity difference to a neighbor removed this step, before
+// the kernel weight: the pair's mean viscosity times dt, capped so a particle
+// never overshoots its neighbors' velocity
+export function viscousCoupling(muI: number, muJ: number, dt: number): number {
+  return Math.min(1, 0.5 * (muI + muJ) * dt);
+}
@@ -0,0 +1,257 @@
+// Two-way coupled rigid bodies
+// Each body is sampled with boundary particles that live in the particle buffers
+// next to the fluid (GPU texture w = BODY_MARKER + body index). The fluid solver
+// treats them as ordinary neighbors, so pressure / density corrections push on
+// them and they push back. Their displacement away from the rigid pose during the
+// solve is the fluid's reaction; it is summed per body into a force and torque
+// (a reduction pass on the GPU) and the bodies are integrated here, on the CPU,
+// for both backends.
+
+import * as THREE from 'three';
+import { RigidBodyShape } from '../types';
+import { obstacleDistance, obstacleNormal, PackedObstacles } from './obstacles';
+import { containerDistance, containerNormal, PackedContainer } from './container';
+import { frameAcceleration, PackedFrame } from './containerMotion';
+
+// Uniform array length in the shaders
+export const MAX_BODIES = 8;
+
+// Texture w of a boundary particle is BODY_MARKER + body index (fluid uses 1)
+export const BODY_MARKER = 2;
+
+// Velocity damping per second, keeps tumbling bodies from ringing
+const LINEAR_DAMPING = 0.2;
+const ANGULAR_DAMPING = 0.5;
+
+// Fraction of the normal velocity kept when a body hits a wall or obstacle
+const CONTACT_RESTITUTION = 0.2;
+
+export interface RigidBodyDesc {
+  shape: RigidBodyShape;
+  halfExtents: [number, number, number];  // box: half extents; sphere: x = radius
+  density: number;                        // Relative to the fluid (1 = neutrally buoyant)
+  position: [number, number, number];     // Initial center
+  spacing: number;                        // Boundary particle spacing (see boundarySpacing)
+}
+
+export interface RigidBody extends RigidBodyDesc {
+  id: number;
+  mass: number;
+  invInertia: THREE.Vector3;      // Body-space principal axes
+  center: THREE.Vector3;          // Current center of mass
+  orientation: THREE.Quaternion;
+  linearVelocity: THREE.Vector3;
+  angularVelocity: THREE.Vector3;
+  localPoints: Float32Array;      // Boundary particle offsets in body space
+  firstSlot: number;              // Boundary particles use slots [firstSlot, firstSlot + pointCount)
+  pointCount: number;
+}
+
+export interface PackedBodies {
+  count: number;
+  centers: Float32Array;     // vec3
+  rotations: Float32Array;   // mat3 (column-major): body to world
+  ranges: Float32Array;      // vec2: first slot, point count
+}
+
+// Boundary particles sit at the fluid rest spacing (the physics diameter)
+export function boundarySpacing(particleRadius: number, visualRatio: number): number {
+  return 2.0 * particleRadius / Math.max(1.0, visualRatio);
+}
+
+// Surface samples of a body in body space. Samples sit half a spacing inside the
+// surface: fluid settles one spacing from them, i.e. against the true surface,
+// so the displaced volume (buoyancy) matches the body volume.
+function samplePoints(shape: RigidBodyShape, halfExtents: [number, number, number], spacing: number): Float32Array {
+  const points: number[] = [];
+  const inset = halfExtents.map(h => Math.max(h - spacing * 0.5, spacing * 0.25));
+
+  if (shape === 'sphere') {
+    // Fibonacci sphere with roughly one point per spacing^2 of surface
+    const r = inset[0];
+    const n = Math.max(12, Math.ceil(4 * Math.PI * r * r / (spacing * spacing)));
+    const golden = Math.PI * (3 - Math.sqrt(5));
+    for (let i = 0; i < n; i++) {
+      const y = 1 - (2 * i + 1) / n;
+      const ring = Math.sqrt(1 - y * y);
+      points.push(Math.cos(golden * i) * ring * r, y * r, Math.sin(golden * i) * ring * r);
+    }
+    return new Float32Array(points);
+  }
+
+  // Box: lattice points on the six faces (edges and corners once)
+  const counts = inset.map(h => Math.max(1, Math.round(2 * h / spacing)));
+  for (let ix = 0; ix <= counts[0]; ix++) {
+    for (let iy = 0; iy <= counts[1]; iy++) {
+      for (let iz = 0; iz <= counts[2]; iz++) {
+        const onSurface = ix === 0 || iy === 0 || iz === 0 || ix === counts[0] || iy === counts[1] || iz === counts[2];
+        if (!onSurface) continue;
+        points.push(
+          -inset[0] + 2 * inset[0] * ix / counts[0],
+          -inset[1] + 2 * inset[1] * iy / counts[1],
+          -inset[2] + 2 * inset[2] * iz / counts[2]
+        );
+      }
+    }
+  }
+  return new Float32Array(points);
+}
+
+const rotation = new THREE.Matrix3();
+const rotation4 = new THREE.Matrix4();
+const point = new THREE.Vector3();
+const torque = new THREE.Vector3();
+const spin = new THREE.Quaternion();
+
+export class RigidBodySystem {
+  public bodies: RigidBody[] = [];
+  private nextId: number = 1;
+
+  // Create a body whose boundary particles take the slots from firstSlot on.
+  // Returns null when MAX_BODIES is reached or the particles would pass slotLimit.
+  public add(desc: RigidBodyDesc, firstSlot: number, slotLimit: number): RigidBody | null {
+    if (this.bodies.length >= MAX_BODIES) return null;
+    const localPoints = samplePoints(desc.shape, desc.halfExtents, desc.spacing);
+    if (firstSlot + localPoints.length / 3 > slotLimit) return null;
+
+    const [a, b, c] = desc.halfExtents;
+    const volume = desc.shape === 'sphere' ? 4 / 3 * Math.PI * a * a * a : 8 * a * b * c;
+    const mass = Math.max(1e-4, desc.density * volume);
+    const inertia = desc.shape === 'sphere'
+      ? new THREE.Vector3(1, 1, 1).multiplyScalar(0.4 * mass * a * a)
+      : new THREE.Vector3(b * b + c * c, a * a + c * c, a * a + b * b).multiplyScalar(mass / 3);
+
+    const body: RigidBody = {
+      ...desc,
+      halfExtents: [...desc.halfExtents],
+      position: [...desc.position],
+      id: this.nextId++,
+      mass,
+      invInertia: new THREE.Vector3(1 / inertia.x, 1 / inertia.y, 1 / inertia.z),
+      center: new THREE.Vector3(...desc.position),
+      orientation: new THREE.Quaternion(),
+      linearVelocity: new THREE.Vector3(),
+      angularVelocity: new THREE.Vector3(),
+      localPoints,
+      firstSlot,
+      pointCount: localPoints.length / 3
+    };
+    this.bodies.push(body);
+    return body;
+  }
+
+  public clear(): void {
+    this.bodies = [];
+  }
+
+  // World position of boundary point k of a body
+  public worldPoint(body: RigidBody, k: number, out: THREE.Vector3): THREE.Vector3 {
+    return out.fromArray(body.localPoints, k * 3).applyQuaternion(body.orientation).add(body.center);
+  }
+
+  public pack(out: PackedBodies): PackedBodies {
+    out.count = this.bodies.length;
+    this.bodies.forEach((body, k) => {
+      out.centers.set([body.center.x, body.center.y, body.center.z], k * 3);
+      rotation.setFromMatrix4(rotation4.makeRotationFromQuaternion(body.orientation));
+      out.rotations.set(rotation.elements, k * 9);
+      out.ranges.set([body.firstSlot, body.pointCount], k * 2);
+    });
+    return out;
+  }
+
+  // Advance the bodies by dt. reactions holds, per body, the summed boundary
+  // particle displacement (xyz) and its moment about the center (xyz). The
+  // container's pseudo-forces act on the body center.
+  public integrate(dt: number, gravity: [number, number, number], reactions: Float32Array,
+    container: PackedContainer, obstacles: PackedObstacles, frame?: PackedFrame): void {
+    this.bodies.forEach((body, k) => {
+      // Displacement the fluid imposed on a particle of fluid mass -> force
+      const particleMass = body.spacing * body.spacing * body.spacing;
+      const scale = particleMass / (dt * dt);
+
+      const inertial = [0, 0, 0];
+      if (frame?.active) {
+        const { center: c, linearVelocity: v } = body;
+        frameAcceleration(frame, c.x, c.y, c.z, v.x, v.y, v.z, inertial);
+      }
+      body.linearVelocity.x += (reactions[k * 6] * scale / body.mass + gravity[0] + inertial[0]) * dt;
+      body.linearVelocity.y += (reactions[k * 6 + 1] * scale / body.mass + gravity[1] + inertial[1]) * dt;
+      body.linearVelocity.z += (reactions[k * 6 + 2] * scale / body.mass + gravity[2] + inertial[2]) * dt;
+      body.linearVelocity.multiplyScalar(Math.max(0, 1 - LINEAR_DAMPING * dt));
+
+      // Angular: w += R I^-1 R^T tau dt
+      torque.set(reactions[k * 6 + 3], reactions[k * 6 + 4], reactions[k * 6 + 5]).multiplyScalar(scale);
+      const inverse = body.orientation.clone().invert();
+      torque.applyQuaternion(inverse).multiply(body.invInertia).applyQuaternion(body.orientation);
+      body.angularVelocity.addScaledVector(torque, dt);
+      body.angularVelocity.multiplyScalar(Math.max(0, 1 - ANGULAR_DAMPING * dt));
+
+      body.center.addScaledVector(body.linearVelocity, dt);
+      const w = body.angularVelocity;
+      spin.set(w.x * dt * 0.5, w.y * dt * 0.5, w.z * dt * 0.5, 0).multiply(body.orientation);
+      body.orientation.set(
+        body.orientation.x + spin.x,
+        body.orientation.y + spin.y,
+        body.orientation.z + spin.z,
+        body.orientation.w + spin.w
+      ).normalize();
+
+      this.resolveContacts(body, container, obstacles);
+    });
+  }
+
+  // Push the body out of the walls and obstacles using its boundary points
+  private resolveContacts(body: RigidBody, container: PackedContainer, obstacles: PackedObstacles): void {
+    const margin = body.spacing * 0.5;
+    const push = new THREE.Vector3();
+    const normal = [0, 0, 0];
+
+    // Keep the largest push per axis over the points touching a surface
+    const pushAlong = (depth: number, n: number[]) => {
+      for (let a = 0; a < 3; a++) {
+        const p = depth * n[a];
+        if (Math.abs(p) > Math.abs(push.getComponent(a))) push.setComponent(a, p);
+      }
+    };
+
+    for (let k = 0; k < body.pointCount; k++) {
+      this.worldPoint(body, k, point);
+      const wall = containerDistance(container, point.x, point.y, point.z) + margin;
+      if (wall > 0) {
+        containerNormal(container, point.x, point.y, point.z, normal);
+        pushAlong(-wall, normal);
+      }
+      for (let o = 0; o < obstacles.count; o++) {
+        const d = obstacleDistance(obstacles, o, point.x, point.y, point.z);
+        if (d >= 0) continue;
+        obstacleNormal(obstacles, o, point.x, point.y, point.z, normal);
+        pushAlong(-d, normal);
+      }
+    }
+
+    if (push.lengthSq() === 0) return;
+    body.center.add(push);
+    // Bounce the velocity component that drove into the contact
+    const n = push.clone().normalize();
+    const vn = body.linearVelocity.dot(n);
+    if (vn < 0) body.linearVelocity.addScaledVector(n, -(1 + CONTACT_RESTITUTION) * vn);
+  }
+}
+
+// Carry pose and velocities over to a re-created body (backend switching)
+export function copyBodyMotion(from: RigidBody, to: RigidBody): void {
+  to.center.copy(from.center);
+  to.orientation.copy(from.orientation);
+  to.linearVelocity.copy(from.linearVelocity);
+  to.angularVelocity.copy(from.angularVelocity);
+}
+
+export function createPackedBodies(): PackedBodies {
+  return {
+    count: 0,
+    centers: new Float32Array(MAX_BODIES * 3),
+    rotations: new Float32Array(MAX_BODIES * 9),
+    ranges: new Float32Array(MAX_BODIES * 2)
+  };
+}
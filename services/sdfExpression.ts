@@ -0,0 +1,204 @@
+// Tiny expression language for user-provided container SDFs
+// An expression in x, y, z (container space) and s (half the boundary size)
+// is parsed once and compiled twice: to GLSL for the GPU shaders (injected as
+// the CONTAINER_SDF define) and to a JS closure for the CPU engine, so both
+// evaluate the same distance. Only numbers, + - * /, parentheses and the
+// functions below are accepted; anything else is a syntax error.
+
+export type SdfFunction = (x: number, y: number, z: number, s: number) => number;
+
+export interface CompiledSdf {
+  glsl: string;
+  evaluate: SdfFunction;
+}
+
+// Hourglass: a cylinder pinched at the middle, capped at 90% of the cube height
+export const DEFAULT_CONTAINER_SDF = 'max(length(x, z) - 0.5 * s - 0.3 * abs(y), abs(y) - 0.9 * s)';
+
+type Node =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: string }
+  | { kind: 'negate'; arg: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+// Argument counts; -1 = two or more (folded pairwise)
+const FUNCTIONS: Record<string, number> = {
+  abs: 1, sqrt: 1, sin: 1, cos: 1, exp: 1, floor: 1,
+  pow: 2, min: -1, max: -1, clamp: 3, mix: 3, length: -1
+};
+
+const VARIABLES = ['x', 'y', 'z', 's', 'pi'];
+
+function tokenize(source: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_]\w*)|([-+*/(),]))/iy;
+  let index = 0;
+  while (index < source.length) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(source);
+    if (!match) {
+      if (source.slice(index).trim() === '') break;
+      throw new Error(`Unexpected character '${source.slice(index).trim()[0]}'`);
+    }
+    tokens.push(match[1] ?? match[2] ?? match[3]);
+    index = pattern.lastIndex;
+  }
+  return tokens;
+}
+
+// Recursive descent: sum -> product -> unary -> primary
+function parse(source: string): Node {
+  const tokens = tokenize(source);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const expect = (token: string) => {
+    if (tokens[pos] !== token) throw new Error(`Expected '${token}'${tokens[pos] ? ` before '${tokens[pos]}'` : ' at the end'}`);
+    pos++;
+  };
+
+  const sum = (): Node => {
+    let node = product();
+    while (peek() === '+' || peek() === '-') {
+      const op = tokens[pos++];
+      node = { kind: 'binary', op, left: node, right: product() };
+    }
+    return node;
+  };
+
+  const product = (): Node => {
+    let node = unary();
+    while (peek() === '*' || peek() === '/') {
+      const op = tokens[pos++];
+      node = { kind: 'binary', op, left: node, right: unary() };
+    }
+    return node;
+  };
+
+  const unary = (): Node => {
+    if (peek() === '-') {
+      pos++;
+      return { kind: 'negate', arg: unary() };
+    }
+    if (peek() === '+') pos++;
+    return primary();
+  };
+
+  const primary = (): Node => {
+    const token = tokens[pos++];
+    if (token === undefined) throw new Error('Unexpected end of expression');
+    if (token === '(') {
+      const node = sum();
+      expect(')');
+      return node;
+    }
+    if (/^[\d.]/.test(token)) return { kind: 'number', value: parseFloat(token) };
+
+    const name = token.toLowerCase();
+    if (peek() === '(') {
+      const arity = FUNCTIONS[name];
+      if (arity === undefined) throw new Error(`Unknown function '${token}'`);
+      pos++;
+      const args = [sum()];
+      while (peek() === ',') {
+        pos++;
+        args.push(sum());
+      }
+      expect(')');
+      if (arity >= 0 ? args.length !== arity : args.length < 2 || (name === 'length' && args.length > 3)) {
+        throw new Error(`Wrong number of arguments for '${name}'`);
+      }
+      return { kind: 'call', name, args };
+    }
+    if (!VARIABLES.includes(name)) throw new Error(`Unknown name '${token}'`);
+    return { kind: 'variable', name };
+  };
+
+  const root = sum();
+  if (pos < tokens.length) throw new Error(`Unexpected '${tokens[pos]}'`);
+  return root;
+}
+
+function toGlsl(node: Node): string {
+  switch (node.kind) {
+    case 'number': {
+      const text = String(node.value);
+      return /[.e]/.test(text) ? text : `${text}.0`;
+    }
+    case 'variable':
+      if (node.name === 's') return 'uContainerBound';
+      if (node.name === 'pi') return '3.14159265';
+      return `p.${node.name}`;
+    case 'negate':
+      return `(-${toGlsl(node.arg)})`;
+    case 'binary':
+      return `(${toGlsl(node.left)} ${node.op} ${toGlsl(node.right)})`;
+    case 'call': {
+      const args = node.args.map(toGlsl);
+      if (node.name === 'length') return `length(vec${args.length}(${args.join(', ')}))`;
+      if (node.name === 'min' || node.name === 'max') {
+        return args.reduce((acc, arg) => `${node.name}(${acc}, ${arg})`);
+      }
+      return `${node.name}(${args.join(', ')})`;
+    }
+  }
+}
+
+const JS_FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs, sqrt: Math.sqrt, sin: Math.sin, cos: Math.cos, exp: Math.exp, floor: Math.floor,
+  pow: Math.pow,
+  min: (...v) => Math.min(...v),
+  max: (...v) => Math.max(...v),
+  clamp: (v, lo, hi) => Math.min(Math.max(v, lo), hi),
+  mix: (a, b, t) => a + (b - a) * t,
+  length: (...v) => Math.hypot(...v)
+};
+
+type Evaluator = (vars: number[]) => number;
+
+function toJs(node: Node): Evaluator {
+  switch (node.kind) {
+    case 'number': {
+      const value = node.value;
+      return () => value;
+    }
+    case 'variable': {
+      if (node.name === 'pi') return () => 3.14159265;
+      const slot = VARIABLES.indexOf(node.name);
+      return vars => vars[slot];
+    }
+    case 'negate': {
+      const arg = toJs(node.arg);
+      return vars => -arg(vars);
+    }
+    case 'binary': {
+      const left = toJs(node.left);
+      const right = toJs(node.right);
+      switch (node.op) {
+        case '+': return vars => left(vars) + right(vars);
+        case '-': return vars => left(vars) - right(vars);
+        case '*': return vars => left(vars) * right(vars);
+        default: return vars => left(vars) / right(vars);
+      }
+    }
+    case 'call': {
+      const fn = JS_FUNCTIONS[node.name];
+      const args = node.args.map(toJs);
+      return vars => fn(...args.map(arg => arg(vars)));
+    }
+  }
+}
+
+// Throws an Error describing the first syntax problem
+export function compileSdf(source: string): CompiledSdf {
+  const root = parse(source);
+  const evaluator = toJs(root);
+  const vars = [0, 0, 0, 0];
+  return {
+    glsl: toGlsl(root),
+    evaluate: (x, y, z, s) => {
+      vars[0] = x; vars[1] = y; vars[2] = z; vars[3] = s;
+      return evaluator(vars);
+    }
+  };
+}
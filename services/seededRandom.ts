@@ -0,0 +1,20 @@
+// Seeded random numbers shared by the CPU and GPU engines
+// pcgHash is mirrored bit-for-bit by the GLSL version in shaders/physicsShaders.ts,
+// so both engines draw identical spawn jitter for the same seed.
+
+// PCG-style 32-bit integer hash
+export function pcgHash(v: number): number {
+  const state = (Math.imul(v >>> 0, 747796405) + 2891336453) >>> 0;
+  const word = Math.imul(((state >>> ((state >>> 28) + 4)) ^ state) >>> 0, 277803737) >>> 0;
+  return ((word >>> 22) ^ word) >>> 0;
+}
+
+// Hash of (seed, n) mapped to [0, 1) with 24 bits, exact in float32
+export function hashUnit(seed: number, n: number): number {
+  return (pcgHash((seed ^ pcgHash(n)) >>> 0) >>> 8) / 16777216;
+}
+
+// Seed for the k-th spawn batch of a run
+export function batchSeed(seed: number, batch: number): number {
+  return pcgHash((pcgHash(seed >>> 0) + batch) >>> 0);
+}
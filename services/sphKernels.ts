@@ -0,0 +1,44 @@
+// SPH kernel helpers shared by the CPU engine and the GPU uniform setup
+// Kernels match the GLSL versions in shaders/physicsShaders.ts
+
+export function poly6(r2: number, h: number): number {
+  const h2 = h * h;
+  if (r2 >= h2) return 0;
+  const diff = h2 - r2;
+  return 315 / (64 * Math.PI * Math.pow(h, 9)) * diff * diff * diff;
+}
+
+// Magnitude of the spiky kernel gradient at distance d (direction is -r/d)
+export function spikyGradMagnitude(d: number, h: number): number {
+  if (d >= h || d < 0.001) return 0;
+  return 45 / (Math.PI * Math.pow(h, 6)) * (h - d) * (h - d);
+}
+
+// PBF rest density: density of a particle inside a cubic lattice with the given
+// spacing. Particles packed at this spacing satisfy the density constraint exactly.
+export function latticeRestDensity(h: number, spacing: number): number {
+  const range = Math.ceil(h / spacing);
+  let density = 0;
+  for (let x = -range; x <= range; x++) {
+    for (let y = -range; y <= range; y++) {
+      for (let z = -range; z <= range; z++) {
+        const r2 = (x * x + y * y + z * z) * spacing * spacing;
+        density += poly6(r2, h);
+      }
+    }
+  }
+  return density;
+}
+
+// Akinci cohesion kernel: repulsive below h/2, attractive out to h.
+// Normalized with max(h, 1) like the GLSL version to keep small radii stable.
+export function cohesionKernel(d: number, h: number): number {
+  if (d >= h || d < 0.0001) return 0;
+  const hSafe = Math.max(h, 1.0);
+  const h3 = hSafe * hSafe * hSafe;
+  const k = 32 / (Math.PI * h3 * h3 * h3);
+  const c = h3 * h3 / 64;
+  const hMinusR3 = (h - d) * (h - d) * (h - d);
+  const r3 = d * d * d;
+  return d > 0.5 * h ? k * hMinusR3 * r3 : k * 2.0 * hMinusR3 * r3 - c;
+}
@@ -0,0 +1,33 @@
+// Temperature field shared by the CPU and GPU engines
+// Temperatures are normalized (0 = cold, 1 = hot). Heat diffuses between SPH
+// neighbors and is exchanged with the container walls and obstacles within one
+// kernel radius of their surface (see heatShader in shaders/physicsShaders.ts).
+// Viscosity and cohesion follow TemperatureCurve multipliers.
+
+import { FluidConfig, TemperatureCurve } from '../types';
+import { latticeRestDensity } from './sphKernels';
+
+// Temperature of particles spawned without an explicit one
+export const AMBIENT_TEMPERATURE = 0.5;
+
+// Multiplier of `curve` at temperature t
+export function temperatureCurve(curve: TemperatureCurve | undefined, t: number): number {
+  if (!curve) return 1;
+  const x = Math.min(1, Math.max(0, t));
+  return curve.cold + (curve.hot - curve.cold) * x;
+}
+
+// Per-step neighbor exchange factor: the temperature difference to each
+// neighbor is weighted by poly6 and normalized by the lattice kernel sum, so a
+// particle surrounded by fluid relaxes at most fully towards the local mean.
+export function heatDiffusionRate(config: FluidConfig, dt: number, h: number, physicsRadius: number): number {
+  const rate = Math.min(1, (config.heatDiffusion ?? 0) * dt);
+  return rate / latticeRestDensity(h, physicsRadius * 2.0);
+}
+
+// Fraction of the way a particle at distance d from a surface moves towards its
+// temperature this step (d < range only)
+export function surfaceExchange(heatTransfer: number, dt: number, d: number, range: number): number {
+  const w = Math.max(0, 1 - d / range);
+  return Math.min(1, Math.max(0, heatTransfer * dt * w));
+}
@@ -0,0 +1,34 @@
+// CFL-based adaptive substepping
+// With config.adaptiveTimestep each frame splits its simulated time into as
+// many fixed substeps as it takes for the fastest particle to move at most
+// cflNumber kernel radii per step. The speed is read back from the engine
+// after the previous frame (a GPU max-reduction read asynchronously for
+// GPUFluidEngine), plus what gravity can add over the frame. The velocity clamp of the velocity update
+// then only guards against speeds the step was not chosen for.
+
+import { FluidConfig } from '../types';
+import { BASE_FRAME_TIME } from './SimulationClock';
+
+// Kernel radius of the solvers (h in the engines' step)
+export const KERNEL_RADIUS = 1.7;
+
+// Most substeps per frame the adaptive step may pick
+export const MAX_ADAPTIVE_SUBSTEPS = 16;
+
+// Substeps for the next frame: config.substeps, raised as the CFL condition requires
+export function cflSubsteps(maxSpeed: number, gravity: number, config: FluidConfig): number {
+  const minimum = Math.max(1, Math.round(config.substeps));
+  if (!config.adaptiveTimestep) return minimum;
+  const speed = maxSpeed + Math.abs(gravity) * BASE_FRAME_TIME;
+  const travel = Math.max(config.cflNumber ?? 0.4, 0.05) * KERNEL_RADIUS;
+  const needed = Math.ceil(speed * BASE_FRAME_TIME / travel);
+  return Math.min(Math.max(minimum, needed), Math.max(minimum, MAX_ADAPTIVE_SUBSTEPS));
+}
+
+// Speed limit of the velocity update (uMaxVelocity): the legacy stability
+// clamp, or one kernel radius per step when the step adapts to the speed
+export function velocityLimit(config: FluidConfig, dt: number): number {
+  const legacy = config.boundarySize * 2.0;
+  if (!config.adaptiveTimestep || dt <= 0) return legacy;
+  return Math.max(legacy, KERNEL_RADIUS / dt);
+}
@@ -0,0 +1,96 @@
+// Wall density and adhesion shared by the CPU and GPU engines
+// Container walls and obstacles count as planar walls filled with a particle
+// lattice at the physics particle spacing (a density-map take on Akinci et al.
+// 2012 boundary particles): each surface within the kernel radius adds the
+// poly6 density of its lattice layers, integrated over the wall plane, so
+// particles at a wall see the density they would inside the fluid. Adhesion
+// pulls fluid back towards surfaces with the Akinci et al. 2013 adhesion
+// kernel. Matches wallCommon in shaders/physicsShaders.ts.
+
+import { containerDistance, containerNormal, PackedContainer } from './container';
+import { obstacleDistance, obstacleNormal, PackedObstacles } from './obstacles';
+
+// Loop bound for the lattice layers within the kernel radius
+export const MAX_WALL_LAYERS = 32;
+
+// Adhesion pull per solver iteration at the kernel peak, in physics radii,
+// for an adhesion of 1
+export const ADHESION_STRENGTH = 0.05;
+
+// Density of a wall at distance d from the particle and its derivative in d
+// (negative: closer walls weigh more). Writes [density, derivative] to out.
+export function wallLayers(d: number, h: number, spacing: number, out: number[]): number[] {
+  const h2 = h * h;
+  const norm = 315 / (256 * Math.pow(h, 9) * spacing * spacing);
+  out[0] = out[1] = 0;
+  for (let k = 0; k < MAX_WALL_LAYERS; k++) {
+    const z = Math.max(d, 0) + spacing * (k + 0.5);
+    if (z >= h) break;
+    const q = h2 - z * z;
+    out[0] += norm * q * q * q * q;
+    out[1] -= norm * 8 * z * q * q * q;
+  }
+  return out;
+}
+
+// Akinci adhesion kernel, normalized to a peak of 1 at 3h/4
+export function adhesionKernel(r: number, h: number): number {
+  if (r <= 0.5 * h || r >= h) return 0;
+  return Math.pow(Math.max(-4 * r * r / h + 6 * r - 2 * h, 0) / (0.25 * h), 0.25);
+}
+
+const layers = [0, 0];
+const normal = [0, 0, 0];
+
+// Wall density at (x, y, z) from the container and every obstacle within h.
+// Writes its gradient in the particle position to grad[0..2].
+export function wallDensity(container: PackedContainer, obstacles: PackedObstacles,
+  x: number, y: number, z: number, h: number, spacing: number, grad: number[]): number {
+  let density = 0;
+  grad[0] = grad[1] = grad[2] = 0;
+
+  const d = -containerDistance(container, x, y, z);
+  if (d < h) {
+    wallLayers(d, h, spacing, layers);
+    containerNormal(container, x, y, z, normal);
+    density += layers[0];
+    for (let a = 0; a < 3; a++) grad[a] -= layers[1] * normal[a];
+  }
+  for (let k = 0; k < obstacles.count; k++) {
+    const dk = obstacleDistance(obstacles, k, x, y, z);
+    if (dk >= h) continue;
+    wallLayers(dk, h, spacing, layers);
+    obstacleNormal(obstacles, k, x, y, z, normal);
+    density += layers[0];
+    for (let a = 0; a < 3; a++) grad[a] += layers[1] * normal[a];
+  }
+  return density;
+}
+
+// Adhesion position delta towards the walls and obstacles within h, for an
+// `adhesion` already scaled to world units (see ADHESION_STRENGTH)
+export function wallAdhesion(container: PackedContainer, obstacles: PackedObstacles,
+  x: number, y: number, z: number, h: number, spacing: number, adhesion: number, out: number[]): number[] {
+  out[0] = out[1] = out[2] = 0;
+  if (adhesion <= 0) return out;
+  const offset = 0.5 * spacing;
+
+  const d = -containerDistance(container, x, y, z);
+  if (d < h) {
+    const a = adhesionKernel(d + offset, h);
+    if (a > 0) {
+      containerNormal(container, x, y, z, normal);
+      for (let c = 0; c < 3; c++) out[c] += a * normal[c];
+    }
+  }
+  for (let k = 0; k < obstacles.count; k++) {
+    const dk = obstacleDistance(obstacles, k, x, y, z);
+    if (dk >= h) continue;
+    const a = adhesionKernel(dk + offset, h);
+    if (a <= 0) continue;
+    obstacleNormal(obstacles, k, x, y, z, normal);
+    for (let c = 0; c < 3; c++) out[c] -= a * normal[c];
+  }
+  for (let c = 0; c < 3; c++) out[c] *= adhesion;
+  return out;
+}
@@ -0,0 +1,295 @@
+// Whitewater shaders: spray, foam and bubbles (services/DiffuseParticles.ts)
+// Diffuse particles live in their own ping-pong textures, one texel per slot:
+// position (xyz, w = seconds of life left, <= 0 = free slot) and velocity
+// (xyz, w = kind: 0 spray, 1 foam, 2 bubble).
+
+import { containerCommon, hashCommon } from './physicsShaders';
+
+// Fluid grid over the boundary cube: velocity sum (xyz) and particle count (w)
+// per cell, the cell slices laid out side by side in an atlas
+const gridLayoutCommon = `
+  uniform float uGridRes;      // Cells per axis
+  uniform float uGridColumns;  // Slices per atlas row
+  uniform vec2 uGridAtlas;     // Atlas size in texels
+  uniform float uBound;        // Half the boundary size
+
+  vec2 sliceOrigin(float slice) {
+    return vec2(mod(slice, uGridColumns), floor(slice / uGridColumns)) * uGridRes;
+  }
+`;
+
+const gridCommon = `${gridLayoutCommon}
+  uniform sampler2D tGrid;
+  uniform float uFillScale;    // Particle volume over the cell volume
+
+  vec4 gridSlice(vec2 cell, float slice) {
+    // Bilinear within the slice, kept off the neighboring slices
+    vec2 xy = clamp(cell, 0.5, uGridRes - 0.5);
+    return texture2D(tGrid, (sliceOrigin(slice) + xy) / uGridAtlas);
+  }
+
+  vec4 gridSample(vec3 p) {
+    vec3 g = (p + uBound) / (2.0 * uBound) * uGridRes;
+    float z = clamp(g.z - 0.5, 0.0, uGridRes - 1.0);
+    float z0 = floor(z);
+    return mix(gridSlice(g.xy, z0), gridSlice(g.xy, min(z0 + 1.0, uGridRes - 1.0)), z - z0);
+  }
+
+  // Share of the space around p the fluid fills: about 1 inside, 0 in the air
+  float gridFill(vec4 cell) {
+    return cell.w * uFillScale;
+  }
+
+  // Mean velocity of the fluid around p
+  vec3 gridVelocity(vec4 cell) {
+    return cell.w > 1e-3 ? cell.xyz / cell.w : vec3(0.0);
+  }
+
+  // Direction out of the fluid (down the fill gradient), zero away from the surface
+  vec3 gridOutward(vec3 p) {
+    float e = uBound / uGridRes;
+    vec3 g = vec3(
+      gridFill(gridSample(p + vec3(e, 0.0, 0.0))) - gridFill(gridSample(p - vec3(e, 0.0, 0.0))),
+      gridFill(gridSample(p + vec3(0.0, e, 0.0))) - gridFill(gridSample(p - vec3(0.0, e, 0.0))),
+      gridFill(gridSample(p + vec3(0.0, 0.0, e))) - gridFill(gridSample(p - vec3(0.0, 0.0, e))));
+    float len = length(g);
+    return len < 1e-4 ? vec3(0.0) : -g / len;
+  }
+
+  // Spray out in the air, bubbles deep inside, foam on the surface in between
+  float diffuseKind(float fill) {
+    return fill < 0.3 ? 0.0 : (fill > 0.8 ? 2.0 : 1.0);
+  }
+`;
+
+// Vertex shader: splat each fluid particle into its grid cell (one point per
+// slot, summed by additive blending)
+export const gridSplatVertexShader = `
+  uniform sampler2D tPosition;
+  uniform sampler2D tVelocity;
+  uniform vec2 uParticleRes;
+  attribute float slot;
+  varying vec4 vSample;
+${gridLayoutCommon}
+  void main() {
+    vec2 puv = (vec2(mod(slot, uParticleRes.x), floor(slot / uParticleRes.x)) + 0.5) / uParticleRes;
+    vec4 pos = texture2D(tPosition, puv);
+    gl_PointSize = 1.0;
+
+    // Fluid only (w = 1); inactive slots and rigid-body boundary particles are left out
+    if (pos.w < 0.5 || pos.w >= 1.5) {
+      gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+      return;
+    }
+
+    vec3 cell = clamp(floor((pos.xyz + uBound) / (2.0 * uBound) * uGridRes), 0.0, uGridRes - 1.0);
+    vec2 texel = sliceOrigin(cell.z) + cell.xy + 0.5;
+    gl_Position = vec4(texel / uGridAtlas * 2.0 - 1.0, 0.0, 1.0);
+    vSample = vec4(texture2D(tVelocity, puv).xyz, 1.0);
+  }
+`;
+
+export const gridSplatFragmentShader = `
+  varying vec4 vSample;
+  void main() {
+    gl_FragColor = vSample;
+  }
+`;
+
+// Emission from the fluid (Ihmsen et al. 2012). Every free slot samples one
+// fluid slot per frame and spawns there with a chance from its potentials:
+//  - trapped air: the particle moves against the mean flow around it
+//  - wave crest: an under-dense (surface) particle heading out of the fluid
+//  - kinetic energy: scales both, so slow fluid never foams
+// uEmission makes the expected spawns per frame the potentials summed over
+// the fluid times config.diffuseEmission and the frame time.
+const emissionCommon = `${hashCommon}
+  uniform sampler2D tFluidPosition;
+  uniform sampler2D tFluidVelocity;
+  uniform sampler2D tFluidDensity;   // B = density over rest density
+  uniform vec2 uFluidRes;
+  uniform float uFluidCount;         // Slots in use
+  uniform float uEmission;           // Spawn chance at full potential
+  uniform float uSpacing;            // Fluid particle spacing
+  uniform uint uSeed;                // Per-frame seed
+  uniform vec2 uDiffuseRes;
+
+  // Potential thresholds (below: none, above: full)
+  const vec2 TRAPPED_AIR_RANGE = vec2(2.0, 10.0);   // Speed against the mean flow
+  const vec2 WAVE_CREST_RANGE = vec2(0.05, 0.4);    // Density deficit
+  const vec2 KINETIC_RANGE = vec2(5.0, 50.0);       // 0.5 v^2
+  const float MIN_CREST_FACING = 0.6;               // Cosine of velocity and surface normal
+
+  float potential(float value, vec2 range) {
+    return clamp((value - range.x) / (range.y - range.x), 0.0, 1.0);
+  }
+
+  bool spawn(out vec3 position, out vec3 velocity) {
+    uint n = (uint(gl_FragCoord.y) * uint(uDiffuseRes.x) + uint(gl_FragCoord.x)) * 8u;
+    float fi = min(floor(hashUnit(uSeed, n) * uFluidCount), uFluidCount - 1.0);
+    vec2 fuv = (vec2(mod(fi, uFluidRes.x), floor(fi / uFluidRes.x)) + 0.5) / uFluidRes;
+    vec4 pos = texture2D(tFluidPosition, fuv);
+    if (pos.w < 0.5 || pos.w >= 1.5) return false;
+
+    vec3 v = texture2D(tFluidVelocity, fuv).xyz;
+    float speed = length(v);
+    float energy = potential(0.5 * speed * speed, KINETIC_RANGE);
+    if (energy <= 0.0) return false;
+
+    vec4 cell = gridSample(pos.xyz);
+    float trappedAir = potential(length(v - gridVelocity(cell)), TRAPPED_AIR_RANGE);
+    float facing = dot(v / speed, gridOutward(pos.xyz));
+    float deficit = 1.0 - texture2D(tFluidDensity, fuv).b;
+    float waveCrest = facing >= MIN_CREST_FACING ? potential(deficit, WAVE_CREST_RANGE) * facing : 0.0;
+    if (hashUnit(uSeed, n + 1u) >= (trappedAir + waveCrest) * energy * uEmission) return false;
+
+    // Anywhere in a disc across the velocity, up to a frame ahead
+    vec3 dir = v / speed;
+    vec3 e1 = normalize(cross(dir, abs(dir.y) < 0.9 ? vec3(0.0, 1.0, 0.0) : vec3(1.0, 0.0, 0.0)));
+    vec3 e2 = cross(dir, e1);
+    float r = 0.5 * uSpacing * sqrt(hashUnit(uSeed, n + 2u));
+    float angle = 6.2831853 * hashUnit(uSeed, n + 3u);
+    position = pos.xyz + r * (cos(angle) * e1 + sin(angle) * e2) + v * uDt * hashUnit(uSeed, n + 4u);
+    velocity = v;
+    return true;
+  }
+`;
+
+// Fragment shader: velocity and kind of every diffuse slot
+// Spray falls ballistically; foam rides the mean fluid velocity; bubbles rise
+// by buoyancy and are dragged along with the fluid.
+export const diffuseVelocityShader = `
+  precision highp float;
+
+  uniform sampler2D tDiffusePosition;
+  uniform sampler2D tDiffuseVelocity;
+  uniform vec3 uGravity;
+  uniform float uDt;
+  varying vec2 vUv;
+${gridCommon}${emissionCommon}
+  const float BUOYANCY = 2.0;      // Upward pull of a bubble against gravity
+  const float BUBBLE_DRAG = 0.5;   // Share of the slip to the fluid removed per frame
+
+  void main() {
+    vec4 pos = texture2D(tDiffusePosition, vUv);
+
+    if (pos.w <= 0.0) {
+      vec3 p, v;
+      gl_FragColor = spawn(p, v) ? vec4(v, diffuseKind(gridFill(gridSample(p)))) : vec4(0.0);
+      return;
+    }
+
+    vec3 v = texture2D(tDiffuseVelocity, vUv).xyz;
+    vec4 cell = gridSample(pos.xyz);
+    float kind = diffuseKind(gridFill(cell));
+    if (kind < 0.5) {
+      v += uGravity * uDt;
+    } else if (kind < 1.5) {
+      v = gridVelocity(cell);
+    } else {
+      v += -BUOYANCY * uGravity * uDt + BUBBLE_DRAG * (gridVelocity(cell) - v);
+    }
+    gl_FragColor = vec4(v, kind);
+  }
+`;
+
+// Fragment shader: position and remaining life of every diffuse slot
+// Foam dissolves over its lifetime; spray and bubbles age slowly, since they
+// turn into foam once they land or surface. Spray that hits the container
+// breaks up; foam and bubbles are pushed back inside.
+export const diffusePositionShader = `
+  precision highp float;
+
+  uniform sampler2D tDiffusePosition;
+  uniform sampler2D tDiffuseVelocity;  // Already updated this frame
+  uniform float uLifetime;
+  uniform float uMargin;
+  uniform float uDt;
+  varying vec2 vUv;
+${gridCommon}${emissionCommon}${containerCommon}
+  const float UNSETTLED_AGING = 0.25;  // Aging rate of spray and bubbles relative to foam
+
+  void main() {
+    vec4 pos = texture2D(tDiffusePosition, vUv);
+
+    if (pos.w <= 0.0) {
+      vec3 p, v;
+      // Same draw as the velocity pass; lifetimes vary by half
+      float life = uLifetime * (0.5 + 0.5 * hashUnit(uSeed, (uint(gl_FragCoord.y) * uint(uDiffuseRes.x) + uint(gl_FragCoord.x)) * 8u + 5u));
+      gl_FragColor = spawn(p, v) ? vec4(p, life) : vec4(0.0);
+      return;
+    }
+
+    vec4 vel = texture2D(tDiffuseVelocity, vUv);
+    vec3 p = pos.xyz + vel.xyz * uDt;
+    float d = containerDistance(p);
+    if (d > -uMargin) {
+      if (vel.w < 0.5) {
+        gl_FragColor = vec4(0.0);
+        return;
+      }
+      p -= containerNormal(p) * (d + uMargin);
+    }
+
+    float aging = abs(vel.w - 1.0) < 0.5 ? 1.0 : UNSETTLED_AGING;
+    gl_FragColor = vec4(p, pos.w - uDt * aging);
+  }
+`;
+
+// Vertex shader: diffuse particles as sprites in the container frame
+export const diffuseVertexShader = `
+  uniform sampler2D tDiffusePosition;
+  uniform sampler2D tDiffuseVelocity;
+  uniform vec2 uDiffuseRes;
+  uniform float uSize;
+  attribute float slot;
+  varying float vAlpha;
+  varying float vViewZ;
+
+  const float FADE_TIME = 0.5;  // Seconds a dissolving particle fades over
+
+  void main() {
+    vec2 uv = (vec2(mod(slot, uDiffuseRes.x), floor(slot / uDiffuseRes.x)) + 0.5) / uDiffuseRes;
+    vec4 pos = texture2D(tDiffusePosition, uv);
+    if (pos.w <= 0.0) {
+      gl_Position = vec4(0.0, 0.0, -1000.0, 1.0);
+      gl_PointSize = 0.0;
+      return;
+    }
+
+    // Fine spray droplets, larger foam flecks, faint bubbles
+    float kind = texture2D(tDiffuseVelocity, uv).w;
+    float size = kind < 0.5 ? 0.6 : (kind < 1.5 ? 1.0 : 0.8);
+    float opacity = kind < 0.5 ? 0.7 : (kind < 1.5 ? 0.9 : 0.4);
+
+    vec4 mvPos = viewMatrix * modelMatrix * vec4(pos.xyz, 1.0);
+    vViewZ = mvPos.z;
+    vAlpha = opacity * min(pos.w / FADE_TIME, 1.0);
+    gl_Position = projectionMatrix * mvPos;
+    gl_PointSize = (uSize * size * 100.0) / -mvPos.z;
+  }
+`;
+
+// Fragment shader: soft additive sprite over the liquid composite, dimmed
+// with the depth below the liquid surface
+export const diffuseFragmentShader = `
+  uniform sampler2D tDepth;    // Smoothed liquid surface (view z, 0 = no liquid)
+  uniform vec2 uScreenRes;
+  uniform float uOpacity;
+  varying float vAlpha;
+  varying float vViewZ;
+
+  const vec3 FOAM_COLOR = vec3(0.92, 0.96, 1.0);
+  const float SUBMERGED_FADE = 1.5;  // Per unit of depth below the surface
+
+  void main() {
+    vec2 c = gl_PointCoord * 2.0 - 1.0;
+    float r2 = dot(c, c);
+    if (r2 > 1.0) discard;
+
+    float alpha = vAlpha * uOpacity * (1.0 - r2);
+    float surface = texture2D(tDepth, gl_FragCoord.xy / uScreenRes).r;
+    if (surface != 0.0 && vViewZ < surface) alpha *= exp((vViewZ - surface) * SUBMERGED_FADE);
+    gl_FragColor = vec4(FOAM_COLOR * alpha, 1.0);
+  }
+`;
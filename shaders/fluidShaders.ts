@@ -1,3 +1,19 @@
+import { MAX_PHASES } from '../services/phases';
+
+// Temperature colormap (0 = cold blue, 1 = hot yellow) for the temperature color mode
+const temperatureColormap = `
+  vec3 temperatureColor(float t) {
+    t = clamp(t, 0.0, 1.0);
+    vec3 cold = vec3(0.1, 0.25, 0.85);
+    vec3 cool = vec3(0.45, 0.12, 0.5);
+    vec3 warm = vec3(0.95, 0.35, 0.05);
+    vec3 hot = vec3(1.0, 0.9, 0.35);
+    if (t < 1.0 / 3.0) return mix(cold, cool, t * 3.0);
+    if (t < 2.0 / 3.0) return mix(cool, warm, t * 3.0 - 1.0);
+    return mix(warm, hot, t * 3.0 - 2.0);
+  }
+`;
+
 // Depth shader - renders particle spheres to depth buffer
 export const depthVertexShader = `
   uniform float uScale;
@@ -16,6 +32,8 @@ export const depthVertexShaderGPU = `
   uniform float uScale;
   uniform float uRadius;
   uniform sampler2D tPosition;
+  uniform sampler2D tPrevPosition;  // State before the last fixed step
+  uniform float uAlpha;             // Interpolation factor between the two states
   uniform vec2 uParticleRes;
   uniform int uParticleCount;
   attribute float particleIndex;
@@ -36,13 +54,17 @@ export const depthVertexShaderGPU = `
 
     vec4 posData = texture2D(tPosition, puv);
 
-    // Check if particle is active (w >= 0.5)
-    if (posData.w < 0.5) {
+    // Draw active fluid particles only (w = 1; rigid-body boundary particles use w >= 2)
+    if (posData.w < 0.5 || posData.w >= 1.5) {
       gl_Position = vec4(0.0, 0.0, -1000.0, 1.0);
       gl_PointSize = 0.0;
       return;
     }
 
+    // Interpolate between fixed simulation steps for smooth rendering
+    vec3 prevPos = texture2D(tPrevPosition, puv).xyz;
+    posData.xyz = mix(prevPos, posData.xyz, uAlpha);
+
     vec4 mvPos = viewMatrix * modelMatrix * vec4(posData.xyz, 1.0);
     vViewZ = mvPos.z;
     gl_Position = projectionMatrix * mvPos;
@@ -109,7 +131,9 @@ export const createBlurFragmentShader = (radius: number, depthFalloff: number) =
 export const thicknessVertexShader = `
   uniform float uScale;
   uniform float uRadius;
+  varying vec3 vTint;
   void main() {
+    vTint = vec3(0.04);
     vec4 mvPos = viewMatrix * modelMatrix * vec4(position, 1.0);
     gl_Position = projectionMatrix * mvPos;
     gl_PointSize = (2800.0 * uScale * uRadius) / -mvPos.z;
@@ -117,14 +141,22 @@ export const thicknessVertexShader = `
 `;
 
 // GPU Texture-based thickness shader - reads positions from texture
+// and passes the particle's phase (or temperature) tint on for the colored thickness
 export const thicknessVertexShaderGPU = `
   uniform float uScale;
   uniform float uRadius;
   uniform sampler2D tPosition;
+  uniform sampler2D tPrevPosition;  // State before the last fixed step
+  uniform float uAlpha;             // Interpolation factor between the two states
   uniform vec2 uParticleRes;
   uniform int uParticleCount;
+  uniform sampler2D tPhase;         // R = phase index per particle slot
+  uniform vec3 uPhaseColor[${MAX_PHASES}];
+  uniform sampler2D tTemperature;   // R = temperature per particle slot
+  uniform bool uShowTemperature;
   attribute float particleIndex;
-
+  varying vec3 vTint;
+${temperatureColormap}
   void main() {
     int idx = int(particleIndex);
     if (idx >= uParticleCount) {
@@ -139,23 +171,34 @@ export const thicknessVertexShaderGPU = `
 
     vec4 posData = texture2D(tPosition, puv);
 
-    if (posData.w < 0.5) {
+    if (posData.w < 0.5 || posData.w >= 1.5) {
       gl_Position = vec4(0.0, 0.0, -1000.0, 1.0);
       gl_PointSize = 0.0;
       return;
     }
 
+    // Interpolate between fixed simulation steps for smooth rendering
+    vec3 prevPos = texture2D(tPrevPosition, puv).xyz;
+    posData.xyz = mix(prevPos, posData.xyz, uAlpha);
+    vTint = uShowTemperature
+      ? temperatureColor(texture2D(tTemperature, puv).r)
+      : uPhaseColor[int(texture2D(tPhase, puv).r + 0.5)];
+
     vec4 mvPos = viewMatrix * modelMatrix * vec4(posData.xyz, 1.0);
     gl_Position = projectionMatrix * mvPos;
     gl_PointSize = (2800.0 * uScale * uRadius) / -mvPos.z;
   }
 `;
 
+// Output: R = thickness, GBA = tint * thickness (summed with ONE / ONE blending,
+// so the final shader recovers the thickness-weighted tint as GBA / R)
 export const createThicknessFragmentShader = (intensity: number) => `
+  varying vec3 vTint;
   void main() {
     float d = length(gl_PointCoord - 0.5);
     if (d > 0.5) discard;
-    gl_FragColor = vec4(vec3(${intensity.toFixed(3)} * (1.0 - d*2.0)), 1.0);
+    float thickness = ${intensity.toFixed(3)} * (1.0 - d*2.0);
+    gl_FragColor = vec4(thickness, vTint * thickness);
   }
 `;
 
@@ -163,13 +206,23 @@ export const createThicknessFragmentShader = (intensity: number) => `
 export const thicknessFragmentShader = createThicknessFragmentShader(0.05);
 
 // GPU Texture-based dot shader for dot rendering mode
+// Base fluid dots use uColor, other phases their phase color; the temperature
+// color mode replaces both with the colormap
 export const dotVertexShaderGPU = `
   uniform float uSize;
   uniform sampler2D tPosition;
+  uniform sampler2D tPrevPosition;  // State before the last fixed step
+  uniform float uAlpha;             // Interpolation factor between the two states
   uniform vec2 uParticleRes;
   uniform int uParticleCount;
+  uniform vec3 uColor;
+  uniform sampler2D tPhase;         // R = phase index per particle slot
+  uniform vec3 uPhaseColor[${MAX_PHASES}];
+  uniform sampler2D tTemperature;   // R = temperature per particle slot
+  uniform bool uShowTemperature;
   attribute float particleIndex;
-
+  varying vec3 vColor;
+${temperatureColormap}
   void main() {
     int idx = int(particleIndex);
     if (idx >= uParticleCount) {
@@ -184,12 +237,19 @@ export const dotVertexShaderGPU = `
 
     vec4 posData = texture2D(tPosition, puv);
 
-    if (posData.w < 0.5) {
+    if (posData.w < 0.5 || posData.w >= 1.5) {
       gl_Position = vec4(0.0, 0.0, -1000.0, 1.0);
       gl_PointSize = 0.0;
       return;
     }
 
+    // Interpolate between fixed simulation steps for smooth rendering
+    vec3 prevPos = texture2D(tPrevPosition, puv).xyz;
+    posData.xyz = mix(prevPos, posData.xyz, uAlpha);
+    int phase = int(texture2D(tPhase, puv).r + 0.5);
+    vColor = phase == 0 ? uColor : uPhaseColor[phase];
+    if (uShowTemperature) vColor = temperatureColor(texture2D(tTemperature, puv).r);
+
     vec4 mvPos = viewMatrix * modelMatrix * vec4(posData.xyz, 1.0);
     gl_Position = projectionMatrix * mvPos;
     gl_PointSize = (uSize * 100.0) / -mvPos.z;
@@ -197,14 +257,83 @@ export const dotVertexShaderGPU = `
 `;
 
 export const dotFragmentShaderGPU = `
-  uniform vec3 uColor;
   uniform float uOpacity;
+  varying vec3 vColor;
 
   void main() {
     float d = length(gl_PointCoord - 0.5);
     if (d > 0.5) discard;
     float alpha = uOpacity * (1.0 - smoothstep(0.3, 0.5, d));
-    gl_FragColor = vec4(uColor, alpha);
+    gl_FragColor = vec4(vColor, alpha);
+  }
+`;
+
+// Sand grain impostor (granular material): opaque lit spheres with a small
+// per-grain tint variation, depth tested so the pile occludes itself
+export const sandVertexShaderGPU = `
+  uniform float uSize;
+  uniform sampler2D tPosition;
+  uniform sampler2D tPrevPosition;  // State before the last fixed step
+  uniform float uAlpha;             // Interpolation factor between the two states
+  uniform vec2 uParticleRes;
+  uniform int uParticleCount;
+  uniform vec3 uColor;              // Base sand color (phase 0)
+  uniform sampler2D tPhase;
+  uniform vec3 uPhaseColor[${MAX_PHASES}];
+  uniform sampler2D tTemperature;
+  uniform bool uShowTemperature;
+  attribute float particleIndex;
+  varying vec3 vColor;
+${temperatureColormap}
+  void main() {
+    int idx = int(particleIndex);
+    if (idx >= uParticleCount) {
+      gl_Position = vec4(0.0, 0.0, -1000.0, 1.0);
+      gl_PointSize = 0.0;
+      return;
+    }
+
+    float fx = mod(particleIndex, uParticleRes.x);
+    float fy = floor(particleIndex / uParticleRes.x);
+    vec2 puv = (vec2(fx, fy) + 0.5) / uParticleRes;
+
+    vec4 posData = texture2D(tPosition, puv);
+
+    if (posData.w < 0.5 || posData.w >= 1.5) {
+      gl_Position = vec4(0.0, 0.0, -1000.0, 1.0);
+      gl_PointSize = 0.0;
+      return;
+    }
+
+    vec3 prevPos = texture2D(tPrevPosition, puv).xyz;
+    posData.xyz = mix(prevPos, posData.xyz, uAlpha);
+    int phase = int(texture2D(tPhase, puv).r + 0.5);
+    vColor = phase == 0 ? uColor : uPhaseColor[phase];
+    if (uShowTemperature) vColor = temperatureColor(texture2D(tTemperature, puv).r);
+
+    // Stable per-grain shade so the pile reads as individual grains
+    float grain = fract(sin(particleIndex * 12.9898) * 43758.5453);
+    vColor *= 0.8 + 0.3 * grain;
+
+    vec4 mvPos = viewMatrix * modelMatrix * vec4(posData.xyz, 1.0);
+    gl_Position = projectionMatrix * mvPos;
+    gl_PointSize = (uSize * 100.0) / -mvPos.z;
+  }
+`;
+
+export const sandFragmentShaderGPU = `
+  varying vec3 vColor;
+
+  void main() {
+    vec2 c = gl_PointCoord * 2.0 - 1.0;
+    float r2 = dot(c, c);
+    if (r2 > 1.0) discard;
+
+    // Sphere normal in view space (point sprites have y down)
+    vec3 n = vec3(c.x, -c.y, sqrt(1.0 - r2));
+    vec3 lightDir = normalize(vec3(0.4, 0.8, 0.5));
+    float diffuse = max(dot(n, lightDir), 0.0);
+    gl_FragColor = vec4(vColor * (0.35 + 0.75 * diffuse), 1.0);
   }
 `;
 
@@ -300,7 +429,8 @@ export const createFinalFragmentShader = (params: FinalShaderParams) => `
 
   void main() {
     float vZ = texture2D(tDepth, vUv).r;
-    float thickness = texture2D(tThickness, vUv).r;
+    vec4 thicknessData = texture2D(tThickness, vUv);
+    float thickness = thicknessData.r;
     vec3 bgRaw = texture2D(tRefraction, vUv).rgb;
     vec3 bgToned = applyACESToneMap(bgRaw * uExposure);
     vec3 bgFinal = linearToSRGB(bgToned);
@@ -361,7 +491,10 @@ export const createFinalFragmentShader = (params: FinalShaderParams) => `
     vec3 absorption = exp(-absorptionCoeff * thickness * 30.0);
 
     // Apply absorption to refracted background
-    vec3 waterTint = vec3(${params.waterTintR.toFixed(2)}, ${params.waterTintG.toFixed(2)}, ${params.waterTintB.toFixed(2)});
+    // Tint: thickness-weighted mix of the phase colors, base water tint where there is none
+    vec3 waterTint = thickness > 0.0001
+      ? thicknessData.gba / thickness
+      : vec3(${params.waterTintR.toFixed(2)}, ${params.waterTintG.toFixed(2)}, ${params.waterTintB.toFixed(2)});
     vec3 waterColor = bg * absorption;
 
     // Add deep water color where absorption is strong
@@ -2,6 +2,15 @@
 // GPU Physics Shaders for SPH Fluid Simulation
 // Uses GPGPU (General Purpose GPU) computing via WebGL textures
 
+import { MAX_OBSTACLES } from '../services/obstacles';
+import { BODY_MARKER, MAX_BODIES } from '../services/rigidBodies';
+import { MAX_PHASES } from '../services/phases';
+import { MAX_EFFECTIVE_VISCOSITY, MIN_SHEAR_RATE } from '../services/rheology';
+import { MAX_DRAINS } from '../services/emitters';
+import { MAX_WALL_LAYERS } from '../services/wallBoundary';
+import { CONTAINER_FACES } from '../services/container';
+import { MAX_FORCE_FIELDS, TURBULENCE_WAVES } from '../services/forceFields';
+
 // Vertex shader for full-screen quad (used for all compute passes)
 export const computeVertexShader = `
   varying vec2 vUv;
@@ -27,8 +36,9 @@ export const integrateShader = `
     vec4 pos = texture2D(tPosition, vUv);
     vec4 vel = texture2D(tVelocity, vUv);
 
-    // Skip inactive particles (w < 0.5 means inactive)
-    if (pos.w < 0.5) {
+    // Skip inactive particles (w < 0.5) and rigid-body boundary particles (w >= 1.5),
+    // which bodyPoseShader places
+    if (pos.w < 0.5 || pos.w >= 1.5) {
       gl_FragColor = pos;
       return;
     }
@@ -45,6 +55,7 @@ export const integrateShader = `
 export const velocityIntegrateShader = `
   precision highp float;
 
+  uniform sampler2D tPosition;
   uniform sampler2D tVelocity;
   uniform vec3 uGravity;
   uniform float uDt;
@@ -53,74 +64,401 @@ export const velocityIntegrateShader = `
 
   void main() {
     vec4 vel = texture2D(tVelocity, vUv);
+
+    // Rigid-body boundary particles carry no velocity of their own
+    if (texture2D(tPosition, vUv).w >= 1.5) {
+      gl_FragColor = vel;
+      return;
+    }
+
     vec3 newVel = vel.xyz + uGravity * uDt;
     gl_FragColor = vec4(newVel, vel.w);
   }
 `;
 
-// Fragment shader: Build spatial hash grid cell counts
-export const gridBuildShader = `
+// Fragment shader: Force fields (services/forceFields.ts), run after gravity.
+// Wind, attractor, vortex and curl-of-sines turbulence, each scaled by
+// (1 - distance / radius)^falloff; animation is baked into the uniforms.
+export const forceFieldShader = `
+  precision highp float;
+
+  #define MAX_FORCE_FIELDS ${MAX_FORCE_FIELDS}
+
+  uniform sampler2D tPosition;
+  uniform sampler2D tVelocity;
+  uniform int uFieldCount;
+  uniform vec4 uFieldShape[MAX_FORCE_FIELDS];    // x = type id, y = radius, z = falloff, w = strength
+  uniform vec4 uFieldCenter[MAX_FORCE_FIELDS];   // xyz = position, w = 1 / turbulence scale
+  uniform vec4 uFieldAxis[MAX_FORCE_FIELDS];     // xyz = unit direction
+  uniform vec4 uFieldPhase[MAX_FORCE_FIELDS];    // Turbulence wave phases
+  uniform float uDt;
+
+  varying vec2 vUv;
+
+  void main() {
+    vec4 pos = texture2D(tPosition, vUv);
+    vec4 vel = texture2D(tVelocity, vUv);
+
+    if (pos.w < 0.5 || pos.w >= 1.5) {
+      gl_FragColor = vel;
+      return;
+    }
+
+    vec3 accel = vec3(0.0);
+    for (int k = 0; k < MAX_FORCE_FIELDS; k++) {
+      if (k >= uFieldCount) break;
+      int type = int(uFieldShape[k].x + 0.5);
+      float radius = uFieldShape[k].y;
+      vec3 d = pos.xyz - uFieldCenter[k].xyz;
+      vec3 a = uFieldAxis[k].xyz;
+
+      // The vortex reaches out from its axis, the others from their center
+      vec3 r = type == 2 ? d - dot(d, a) * a : d;
+      float dist = length(r);
+      if (dist >= radius) continue;
+      float w = uFieldShape[k].w * pow(1.0 - dist / radius, uFieldShape[k].z);
+
+      if (type == 0) {
+        accel += a * w;
+      } else if (type == 1) {
+        if (dist >= 1e-4) accel -= r / dist * w;
+      } else if (type == 2) {
+        if (dist >= 1e-4) accel += cross(a, r) / dist * w;
+      } else {
+        vec3 q = d * uFieldCenter[k].w;
+        vec3 flow = vec3(0.0);
+${TURBULENCE_WAVES.map((wave, m) => `        flow += vec3(${wave.flow.join(', ')}) * cos(dot(vec3(${wave.k.join(', ')}), q) + uFieldPhase[k][${m}]);`).join('\n')}
+        accel += flow * w / ${TURBULENCE_WAVES.length}.0;
+      }
+    }
+
+    gl_FragColor = vec4(vel.xyz + accel * uDt, vel.w);
+  }
+`;
+
+// Fragment shader: One level of the max-speed reduction (services/timeStep.ts).
+// Each output texel takes the largest value of a 4x4 block of the source: the
+// fluid speeds of the velocity texture on the first level, then the block maxima.
+export const speedReductionShader = `
+  precision highp float;
+
+  uniform sampler2D tSource;
+  uniform sampler2D tPosition;
+  uniform vec2 uSourceSize;
+  uniform bool uFirstLevel;
+
+  void main() {
+    ivec2 base = ivec2(gl_FragCoord.xy) * 4;
+    ivec2 size = ivec2(uSourceSize);
+    float speed = 0.0;
+
+    for (int y = 0; y < 4; y++) {
+      for (int x = 0; x < 4; x++) {
+        ivec2 texel = base + ivec2(x, y);
+        if (texel.x >= size.x || texel.y >= size.y) continue;
+        if (uFirstLevel) {
+          // Fluid only: inactive slots and rigid-body boundary particles are skipped
+          float w = texelFetch(tPosition, texel, 0).w;
+          if (w < 0.5 || w >= 1.5) continue;
+          speed = max(speed, length(texelFetch(tSource, texel, 0).xyz));
+        } else {
+          speed = max(speed, texelFetch(tSource, texel, 0).x);
+        }
+      }
+    }
+
+    gl_FragColor = vec4(speed, 0.0, 0.0, 1.0);
+  }
+`;
+
+// Fragment shader: Pseudo-forces of the moving container (services/containerMotion.ts),
+// run after the force fields: linear acceleration, centrifugal, Coriolis and Euler
+export const frameShader = `
+  precision highp float;
+
+  uniform sampler2D tPosition;
+  uniform sampler2D tVelocity;
+  uniform vec3 uFrameAcceleration;     // Container acceleration (container space)
+  uniform vec3 uAngularVelocity;
+  uniform vec3 uAngularAcceleration;
+  uniform float uInertialScale;
+  uniform float uDt;
+
+  varying vec2 vUv;
+
+  void main() {
+    vec4 pos = texture2D(tPosition, vUv);
+    vec4 vel = texture2D(tVelocity, vUv);
+
+    if (pos.w < 0.5 || pos.w >= 1.5) {
+      gl_FragColor = vel;
+      return;
+    }
+
+    vec3 w = uAngularVelocity;
+    vec3 accel = -uFrameAcceleration - cross(w, cross(w, pos.xyz)) - 2.0 * cross(w, vel.xyz)
+      - cross(uAngularAcceleration, pos.xyz);
+    gl_FragColor = vec4(vel.xyz + accel * uInertialScale * uDt, vel.w);
+  }
+`;
+
+// Fragment shader: Cursor brush (services/brush.ts), run after gravity while a
+// stroke is active. Push / pull along the radial direction, swirl around the
+// view axis, or blend towards the cursor velocity (spoon).
+export const brushShader = `
+  precision highp float;
+
+  uniform sampler2D tPosition;
+  uniform sampler2D tVelocity;
+  uniform int uBrushMode;        // BRUSH_MODE_IDS
+  uniform vec3 uBrushCenter;
+  uniform vec3 uBrushVelocity;   // Cursor velocity (spoon)
+  uniform vec3 uBrushAxis;       // View direction (vortex)
+  uniform float uBrushRadius;
+  uniform float uBrushStrength;  // Acceleration, or the spoon blend rate
+  uniform float uDt;
+
+  varying vec2 vUv;
+
+  void main() {
+    vec4 pos = texture2D(tPosition, vUv);
+    vec4 vel = texture2D(tVelocity, vUv);
+    vec3 d = pos.xyz - uBrushCenter;
+    float r = length(d);
+
+    if (pos.w < 0.5 || pos.w >= 1.5 || r >= uBrushRadius) {
+      gl_FragColor = vel;
+      return;
+    }
+
+    float falloff = (1.0 - r / uBrushRadius) * (1.0 - r / uBrushRadius);
+    vec3 newVel = vel.xyz;
+    if (uBrushMode == 3) {
+      newVel += (uBrushVelocity - newVel) * min(uBrushStrength * falloff * uDt, 1.0);
+    } else {
+      vec3 n = d / max(r, 1e-6);
+      float push = uBrushStrength * falloff * uDt;
+      if (uBrushMode == 2) newVel += cross(uBrushAxis, n) * push;
+      else newVel += n * (uBrushMode == 0 ? push : -push);
+    }
+    gl_FragColor = vec4(newVel, vel.w);
+  }
+`;
+
+// Uniform grid neighbor search
+// Particles are hashed to cells, bitonic-sorted by (cell, index), and each cell
+// stores its [start, end) range into the sorted list. Neighbor loops then only
+// visit the 27 cells around a particle instead of every particle.
+
+// Fragment shader: Compute (cell id, particle index) sort keys
+export const cellHashShader = `
   precision highp float;
 
   uniform sampler2D tPosition;
-  uniform float uCellSize;
-  uniform vec3 uGridMin;
-  uniform vec3 uGridDim;
   uniform vec2 uParticleRes;
+  uniform vec2 uSortRes;
+  uniform int uParticleCount;
+  uniform vec3 uGridOrigin;
+  uniform vec3 uGridDim;
+  uniform float uCellSize;
 
   varying vec2 vUv;
 
-  // Hash function to convert 3D cell to 1D index
-  int hashCell(ivec3 cell) {
-    // Wrap negative cells
-    ivec3 wrapped = ivec3(
-      int(mod(float(cell.x), uGridDim.x)),
-      int(mod(float(cell.y), uGridDim.y)),
-      int(mod(float(cell.z), uGridDim.z))
-    );
-    return wrapped.x + wrapped.y * int(uGridDim.x) + wrapped.z * int(uGridDim.x) * int(uGridDim.y);
+  void main() {
+    int s = int(gl_FragCoord.x) + int(gl_FragCoord.y) * int(uSortRes.x);
+    // Sentinel key sorts after every real cell
+    float sentinel = uGridDim.x * uGridDim.y * uGridDim.z;
+
+    if (s >= uParticleCount) {
+      gl_FragColor = vec4(sentinel, float(s), 0.0, 1.0);
+      return;
+    }
+
+    float px = mod(float(s), uParticleRes.x);
+    float py = floor(float(s) / uParticleRes.x);
+    vec4 pos = texture2D(tPosition, (vec2(px, py) + 0.5) / uParticleRes);
+
+    if (pos.w < 0.5) {
+      gl_FragColor = vec4(sentinel, float(s), 0.0, 1.0);
+      return;
+    }
+
+    ivec3 dim = ivec3(uGridDim);
+    ivec3 cell = clamp(ivec3(floor((pos.xyz - uGridOrigin) / uCellSize)), ivec3(0), dim - 1);
+    int cellId = cell.x + cell.y * dim.x + cell.z * dim.x * dim.y;
+
+    gl_FragColor = vec4(float(cellId), float(s), 0.0, 1.0);
   }
+`;
+
+// Fragment shader: One compare-exchange pass of a bitonic sort
+// Keys are ordered by cell id, then particle index, so the result is deterministic
+export const bitonicSortShader = `
+  precision highp float;
+
+  uniform sampler2D tSort;
+  uniform vec2 uSortRes;
+  uniform int uSortCount;  // Power of two >= particle count
+  uniform int uStage;      // Bitonic sequence size (k)
+  uniform int uPass;       // Compare distance (j)
+
+  varying vec2 vUv;
 
   void main() {
-    // This shader counts particles per cell
-    // Output: R = particle count in this cell
+    int width = int(uSortRes.x);
+    int i = int(gl_FragCoord.x) + int(gl_FragCoord.y) * width;
+    vec4 a = texelFetch(tSort, ivec2(gl_FragCoord.xy), 0);
+
+    if (i >= uSortCount) {
+      gl_FragColor = a;
+      return;
+    }
+
+    int partner = i ^ uPass;
+    vec4 b = texelFetch(tSort, ivec2(partner % width, partner / width), 0);
+
+    bool aLess = a.x < b.x || (a.x == b.x && a.y < b.y);
+    bool ascending = (i & uStage) == 0;
+    // The lower slot of an ascending pair keeps the smaller key
+    bool keepSmaller = ascending == (i < partner);
 
-    int cellIndex = int(gl_FragCoord.x) + int(gl_FragCoord.y) * int(uGridDim.x);
-    int totalCells = int(uGridDim.x * uGridDim.y * uGridDim.z);
+    gl_FragColor = (keepSmaller == aLess) ? a : b;
+  }
+`;
+
+// Fragment shader: Find each cell's [start, end) range in the sorted keys
+export const cellRangeShader = `
+  precision highp float;
+
+  uniform sampler2D tSort;
+  uniform vec2 uSortRes;
+  uniform int uParticleCount;
+  uniform float uCellRangeWidth;
+  uniform int uCellCount;
+
+  varying vec2 vUv;
 
-    if (cellIndex >= totalCells) {
+  float sortedCell(int s) {
+    int width = int(uSortRes.x);
+    return texelFetch(tSort, ivec2(s % width, s / width), 0).x;
+  }
+
+  // First sorted slot whose cell id is >= key
+  int lowerBound(float key) {
+    int lo = 0;
+    int hi = uParticleCount;
+    for (int it = 0; it < 32; it++) {
+      if (lo >= hi) break;
+      int mid = (lo + hi) / 2;
+      if (sortedCell(mid) < key) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  void main() {
+    int cellId = int(gl_FragCoord.x) + int(gl_FragCoord.y) * int(uCellRangeWidth);
+
+    if (cellId >= uCellCount) {
       gl_FragColor = vec4(0.0);
       return;
     }
 
-    // Convert linear index back to 3D cell
-    int gx = int(mod(float(cellIndex), uGridDim.x));
-    int gy = int(mod(float(cellIndex / int(uGridDim.x)), uGridDim.y));
-    int gz = cellIndex / int(uGridDim.x * uGridDim.y);
+    float start = float(lowerBound(float(cellId)));
+    float end = float(lowerBound(float(cellId) + 1.0));
+    gl_FragColor = vec4(start, end, 0.0, 1.0);
+  }
+`;
+
+// Uniforms and helpers shared by every shader that searches the grid
+const gridSearchCommon = `
+  uniform sampler2D tSortedCells;   // R = cell id, G = particle index
+  uniform sampler2D tCellRange;     // R = start, G = end (into tSortedCells)
+  uniform vec2 uSortRes;
+  uniform float uCellRangeWidth;
+  uniform vec3 uGridOrigin;
+  uniform vec3 uGridDim;
+  uniform float uCellSize;
+
+  ivec3 gridCell(vec3 p) {
+    return clamp(ivec3(floor((p - uGridOrigin) / uCellSize)), ivec3(0), ivec3(uGridDim) - 1);
+  }
+
+  vec2 cellRange(ivec3 c) {
+    ivec3 dim = ivec3(uGridDim);
+    int cellId = c.x + c.y * dim.x + c.z * dim.x * dim.y;
+    int width = int(uCellRangeWidth);
+    return texelFetch(tCellRange, ivec2(cellId % width, cellId / width), 0).xy;
+  }
+
+  int sortedParticle(int s) {
+    int width = int(uSortRes.x);
+    return int(texelFetch(tSortedCells, ivec2(s % width, s / width), 0).y);
+  }
+`;
+
+// Per-phase fluid properties (packed by services/phases.ts)
+// Rigid-body boundary slots are phase 0 and count as every phase in the
+// cross-phase terms.
+const phaseCommon = `
+  #define MAX_PHASES ${MAX_PHASES}
+
+  uniform sampler2D tPhase;                 // R = phase index per particle slot
+  uniform vec4 uPhaseProps[MAX_PHASES];     // x = relative density (mass), y = viscosity, z = surface tension
+
+  int particlePhase(vec2 uv) {
+    return int(texture2D(tPhase, uv).r + 0.5);
+  }
+`;
 
-    float count = 0.0;
+// Temperature field (see services/thermal.ts) and the curves that scale
+// viscosity and cohesion with it
+const thermalCommon = `
+  uniform sampler2D tTemperature;   // R = temperature per particle slot (0 = cold, 1 = hot)
+  uniform vec2 uViscosityCurve;     // Multiplier at cold, hot
+  uniform vec2 uCohesionCurve;
 
-    // Count particles in this cell
-    for (float py = 0.0; py < uParticleRes.y; py++) {
-      for (float px = 0.0; px < uParticleRes.x; px++) {
-        vec2 puv = (vec2(px, py) + 0.5) / uParticleRes;
-        vec4 pos = texture2D(tPosition, puv);
+  float particleTemperature(vec2 uv) {
+    return texture2D(tTemperature, uv).r;
+  }
 
-        if (pos.w < 0.5) continue;
+  float temperatureCurve(vec2 curve, float t) {
+    return mix(curve.x, curve.y, clamp(t, 0.0, 1.0));
+  }
+`;
 
-        ivec3 cell = ivec3(floor((pos.xyz - uGridMin) / uCellSize));
-        if (cell.x == gx && cell.y == gy && cell.z == gz) {
-          count += 1.0;
+// Loop over the particles in the 27 cells around pos_i (self excluded).
+// Inside the body, j is the neighbor index and juv its texture coordinate.
+const forEachNeighbor = (body: string) => `
+  {
+    int selfIndex = int(floor(vUv.x * uParticleRes.x) + floor(vUv.y * uParticleRes.y) * uParticleRes.x);
+    ivec3 cell_i = gridCell(pos_i.xyz);
+    ivec3 gridDim = ivec3(uGridDim);
+
+    for (int oz = -1; oz <= 1; oz++) {
+      for (int oy = -1; oy <= 1; oy++) {
+        for (int ox = -1; ox <= 1; ox++) {
+          ivec3 c = cell_i + ivec3(ox, oy, oz);
+          if (any(lessThan(c, ivec3(0))) || any(greaterThanEqual(c, gridDim))) continue;
+
+          vec2 range = cellRange(c);
+          for (int slot = int(range.x); slot < int(range.y); slot++) {
+            int j = sortedParticle(slot);
+            if (j == selfIndex) continue;
+
+            float jx = mod(float(j), uParticleRes.x);
+            float jy = floor(float(j) / uParticleRes.x);
+            vec2 juv = (vec2(jx, jy) + 0.5) / uParticleRes;
+${body}
+          }
         }
       }
     }
-
-    gl_FragColor = vec4(count, 0.0, 0.0, 1.0);
   }
 `;
 
 // Fragment shader: Density calculation using SPH kernels
-export const createDensityShader = (maxNeighbors: number = 64) => `
+export const createDensityShader = () => `
   precision highp float;
 
   uniform sampler2D tPosition;
@@ -128,10 +466,9 @@ export const createDensityShader = (maxNeighbors: number = 64) => `
   uniform float uKernelRadius;
   uniform float uRestDensity;
   uniform vec2 uParticleRes;
-  uniform int uParticleCount;
 
   varying vec2 vUv;
-
+${gridSearchCommon}${phaseCommon}${obstacleCommon}${containerCommon}${wallCommon}
   // SPH Poly6 kernel for density
   float poly6(float r2, float h2) {
     if (r2 >= h2) return 0.0;
@@ -154,40 +491,33 @@ export const createDensityShader = (maxNeighbors: number = 64) => `
     float h2 = h * h;
     float density = 0.0;
 
-    // Self contribution
-    density += poly6(0.0, h2);
-
-    // Loop through all particles for neighbor search
-    // In production, this would use spatial hashing
-    for (int j = 0; j < ${maxNeighbors * 100}; j++) {
-      if (j >= uParticleCount) break;
-
-      float jx = mod(float(j), uParticleRes.x);
-      float jy = floor(float(j) / uParticleRes.x);
-      vec2 juv = (vec2(jx, jy) + 0.5) / uParticleRes;
+    // Self contribution (heavier phases weigh more)
+    float mass_i = uPhaseProps[particlePhase(vUv)].x;
+    density += mass_i * poly6(0.0, h2);
 
-      // Skip self
-      if (abs(juv.x - vUv.x) < 0.0001 && abs(juv.y - vUv.y) < 0.0001) continue;
+    // Neighbor search over the 27 surrounding grid cells
+    ${forEachNeighbor(`
+            vec4 pos_j = texture2D(tPosition, juv);
+            if (pos_j.w < 0.5) continue;
 
-      vec4 pos_j = texture2D(tPosition, juv);
-      if (pos_j.w < 0.5) continue;
+            vec3 diff = pos_i.xyz - pos_j.xyz;
+            float r2 = dot(diff, diff);
 
-      vec3 diff = pos_i.xyz - pos_j.xyz;
-      float r2 = dot(diff, diff);
+            if (r2 < h2) {
+              density += uPhaseProps[particlePhase(juv)].x * poly6(r2, h2);
+            }`)}
 
-      if (r2 < h2) {
-        density += poly6(r2, h2);
-      }
-    }
+    // Walls and obstacles weigh like this particle's own fluid
+    if (pos_i.w < 1.5) density += mass_i * wallDensity(pos_i.xyz, h).x;
 
-    // Output: R = density, G = pressure (computed from density)
-    float pressure = max(0.0, density - uRestDensity);
-    gl_FragColor = vec4(density, pressure, 0.0, 1.0);
+    // Output: R = density, G = pressure (computed from density), B = density ratio
+    float pressure = max(0.0, density - uRestDensity * mass_i);
+    gl_FragColor = vec4(density, pressure, density / (uRestDensity * mass_i), 1.0);
   }
 `;
 
 // Fragment shader: Pressure, collision and surface tension forces
-export const createForceShader = (maxNeighbors: number = 64) => `
+export const createForceShader = () => `
   precision highp float;
 
   uniform sampler2D tPosition;
@@ -198,13 +528,12 @@ export const createForceShader = (maxNeighbors: number = 64) => `
   uniform float uRestDensity;
   uniform float uMinDist;
   uniform float uCollisionStrength;
-  uniform float uSurfaceTension;
   uniform float uCohesionRadius;  // Cohesion kernel radius (based on particle size)
+  uniform float uInterfacePush;   // Push between neighbors of different phases
   uniform vec2 uParticleRes;
-  uniform int uParticleCount;
 
   varying vec2 vUv;
-
+${gridSearchCommon}${phaseCommon}${thermalCommon}${obstacleCommon}${containerCommon}${wallCommon}
   // SPH Spiky gradient kernel for pressure
   vec3 spikyGrad(vec3 r, float d, float h) {
     if (d >= h || d < 0.001) return vec3(0.0);
@@ -275,68 +604,79 @@ export const createForceShader = (maxNeighbors: number = 64) => `
     float h = uKernelRadius;
     float h2 = h * h;
 
+    // Rest density and surface tension of this particle's phase
+    int phase_i = particlePhase(vUv);
+    vec4 props_i = uPhaseProps[phase_i];
+    float restDensity_i = uRestDensity * props_i.x;
+
     // Pressure: directly use stiffness for clearer effect
     // stiffness controls how strongly particles resist compression
-    float densityError = max(0.0, density_i.x - uRestDensity);
+    float densityError = max(0.0, density_i.x - restDensity_i);
     float pressure_i = densityError * uStiffness * 0.001;
 
     // STABILITY FIX: Clamp maximum pressure to prevent explosion
     // At extreme compression, pressure can become unbounded
-    float maxPressure = uRestDensity * 0.5;  // Reasonable upper bound
+    float maxPressure = restDensity_i * 0.5;  // Reasonable upper bound
     pressure_i = min(pressure_i, maxPressure);
 
     // STABILITY FIX: Track each force type separately for individual clamping
     vec3 pressureForce = vec3(0.0);
     vec3 collisionForce = vec3(0.0);
     vec3 cohesionForce = vec3(0.0);
+    vec3 interfaceForce = vec3(0.0);
     int neighborCount = 0;
 
-    // Loop through all particles
-    for (int j = 0; j < ${maxNeighbors * 100}; j++) {
-      if (j >= uParticleCount) break;
-
-      float jx = mod(float(j), uParticleRes.x);
-      float jy = floor(float(j) / uParticleRes.x);
-      vec2 juv = (vec2(jx, jy) + 0.5) / uParticleRes;
-
-      // Skip self
-      if (abs(juv.x - vUv.x) < 0.0001 && abs(juv.y - vUv.y) < 0.0001) continue;
-
-      vec4 pos_j = texture2D(tPosition, juv);
-      if (pos_j.w < 0.5) continue;
-
-      vec3 diff = pos_i.xyz - pos_j.xyz;
-      float r2 = dot(diff, diff);
-      float d = sqrt(r2);
-
-      if (d < 0.001) continue;
-
-      vec3 n = diff / d;
-
-      if (d < h) {
-        neighborCount++;
-
-        // SPH pressure force - pushes particles apart when compressed
-        vec3 kernelGrad = spikyGrad(diff, d, h);
-        pressureForce += kernelGrad * pressure_i;
-      }
-
-      // Akinci surface tension using cohesion kernel
-      // Use cohesion radius (based on particle size) instead of SPH kernel radius
-      // This ensures cohesion force scales properly with particle size
-      if (d < uCohesionRadius) {
-        // The kernel naturally handles repulsion (close) vs attraction (far)
-        float coh = cohesionKernel(d, uCohesionRadius);
-        // Negative coh = repulsion, positive coh = attraction
-        // Force direction: -n points toward neighbor
-        cohesionForce -= n * coh;
-      }
-
-      // Soft collision - additional overlap prevention
-      if (d < uMinDist) {
-        float overlap = uMinDist - d;
-        collisionForce += n * overlap * uCollisionStrength;
-      }
+    // Neighbor search over the 27 surrounding grid cells
+    ${forEachNeighbor(`
+            vec4 pos_j = texture2D(tPosition, juv);
+            if (pos_j.w < 0.5) continue;
+
+            vec3 diff = pos_i.xyz - pos_j.xyz;
+            float r2 = dot(diff, diff);
+            float d = sqrt(r2);
+
+            if (d < 0.001) continue;
+
+            vec3 n = diff / d;
+            bool samePhase = max(pos_i.w, pos_j.w) >= 1.5 || particlePhase(juv) == phase_i;
+
+            if (d < h) {
+              neighborCount++;
+
+              // SPH pressure force - pushes particles apart when compressed
+              vec3 kernelGrad = spikyGrad(diff, d, h);
+              pressureForce += kernelGrad * pressure_i;
+            }
+
+            // Akinci surface tension using cohesion kernel
+            // Use cohesion radius (based on particle size) instead of SPH kernel radius
+            // This ensures cohesion force scales properly with particle size
+            // Immiscible phases do not attract each other
+            if (d < uCohesionRadius && samePhase) {
+              // The kernel naturally handles repulsion (close) vs attraction (far)
+              float coh = cohesionKernel(d, uCohesionRadius);
+              // Negative coh = repulsion, positive coh = attraction
+              // Force direction: -n points toward neighbor
+              cohesionForce -= n * coh;
+            }
+
+            // Soft collision - additional overlap prevention
+            if (d < uMinDist) {
+              float overlap = uMinDist - d;
+              collisionForce += n * overlap * uCollisionStrength;
+            }
+
+            // Interface tension: push apart neighbors of different phases
+            if (d < h && !samePhase) {
+              float w = 1.0 - d / h;
+              interfaceForce += n * uInterfacePush * w * w;
+            }`)}
+
+    // Walls and obstacles push back along the wall density gradient
+    vec3 adhesionForce = vec3(0.0);
+    if (pos_i.w < 1.5) {
+      pressureForce -= wallDensity(pos_i.xyz, h).yzw * pressure_i;
+      adhesionForce = wallAdhesion(pos_i.xyz, h);
     }
 
     // STABILITY FIX: Clamp pressure force to prevent explosion
@@ -353,7 +693,7 @@ export const createForceShader = (maxNeighbors: number = 64) => `
     // Reference radius of 2.0 gives consistent behavior across particle sizes.
     float refRadius = 2.0;
     float radiusScale = (uCohesionRadius * uCohesionRadius) / (refRadius * refRadius);
-    float tensionScale = uSurfaceTension * 0.3 * radiusScale;
+    float tensionScale = props_i.z * temperatureCurve(uCohesionCurve, particleTemperature(vUv)) * 0.3 * radiusScale;
     vec3 tensionForce = cohesionForce * tensionScale;
 
     // STABILITY FIX: More aggressive tension clamp
@@ -362,7 +702,7 @@ export const createForceShader = (maxNeighbors: number = 64) => `
     tensionForce = clampLength(tensionForce, maxTension);
 
     // Combine all forces
-    vec3 force = pressureForce + collisionForce + tensionForce;
+    vec3 force = pressureForce + collisionForce + tensionForce + interfaceForce + adhesionForce;
 
     // STABILITY FIX: Final safety clamp on total force
     // This is a backstop - should rarely activate if individual clamps work
@@ -374,114 +714,519 @@ export const createForceShader = (maxNeighbors: number = 64) => `
   }
 `;
 
-// Fragment shader: Apply forces to positions
-export const applyForcesShader = `
+// Fragment shader: PBF density constraint lambda (Macklin & Müller 2013)
+// lambda_i = -C_i / (sum_k |grad_pk C_i|^2 / m_k + epsilon), C_i = rho_i / (m_i rho_0) - 1
+// with rho_i = sum_j m_j W_ij; the phase density is the particle mass m.
+export const createLambdaShader = () => `
   precision highp float;
 
   uniform sampler2D tPosition;
-  uniform sampler2D tForce;
-  uniform float uMaxPositionDelta;  // Maximum position change per iteration
+  uniform float uKernelRadius;
+  uniform float uRestDensity;   // Lattice rest density (see sphKernels.latticeRestDensity)
+  uniform float uRelaxation;    // Constraint relaxation epsilon
+  uniform vec2 uParticleRes;
 
   varying vec2 vUv;
+${gridSearchCommon}${phaseCommon}${obstacleCommon}${containerCommon}${wallCommon}
+  float poly6(float r2, float h2) {
+    if (r2 >= h2) return 0.0;
+    float diff = h2 - r2;
+    float h9 = h2 * h2 * h2 * h2 * sqrt(h2);
+    return 315.0 / (64.0 * 3.14159265 * h9) * diff * diff * diff;
+  }
+
+  // Magnitude of the spiky kernel gradient (direction is -r/d)
+  float spikyGradMag(float d, float h) {
+    if (d >= h || d < 0.001) return 0.0;
+    float h6 = h * h * h * h * h * h;
+    return 45.0 / (3.14159265 * h6) * (h - d) * (h - d);
+  }
 
   void main() {
-    vec4 pos = texture2D(tPosition, vUv);
-    vec4 force = texture2D(tForce, vUv);
+    vec4 pos_i = texture2D(tPosition, vUv);
 
-    if (pos.w < 0.5) {
-      gl_FragColor = pos;
+    if (pos_i.w < 0.5) {
+      gl_FragColor = vec4(0.0);
       return;
     }
 
-    // STABILITY FIX: Clamp position delta to prevent teleportation
-    // This is critical for corner cases where forces can become extreme
-    vec3 delta = force.xyz;
-    float deltaMag = length(delta);
-    if (deltaMag > uMaxPositionDelta) {
-      delta = delta * (uMaxPositionDelta / deltaMag);
+    float h = uKernelRadius;
+    float h2 = h * h;
+    float mass_i = uPhaseProps[particlePhase(vUv)].x;
+    float invRest = 1.0 / uRestDensity / mass_i;
+
+    float density = mass_i * poly6(0.0, h2);
+    vec3 gradI = vec3(0.0);
+    float sumGrad2 = 0.0;
+
+    ${forEachNeighbor(`
+            vec4 pos_j = texture2D(tPosition, juv);
+            if (pos_j.w < 0.5) continue;
+
+            vec3 diff = pos_i.xyz - pos_j.xyz;
+            float r2 = dot(diff, diff);
+            if (r2 >= h2) continue;
+
+            float mass_j = uPhaseProps[particlePhase(juv)].x;
+            density += mass_j * poly6(r2, h2);
+
+            float d = sqrt(r2);
+            if (d < 0.001) continue;
+            float g = spikyGradMag(d, h) * invRest * mass_j;
+            sumGrad2 += g * g / mass_j;
+            gradI -= g * (diff / d);`)}
+
+    // Walls and obstacles: fixed, weighing like this particle's own fluid
+    if (pos_i.w < 1.5) {
+      vec4 wall = wallDensity(pos_i.xyz, h);
+      density += mass_i * wall.x;
+      gradI += wall.yzw / uRestDensity;
     }
 
-    gl_FragColor = vec4(pos.xyz + delta, pos.w);
+    // Unilateral constraint: only resist compression
+    float constraint = max(0.0, density * invRest - 1.0);
+    float lambda = -constraint / (sumGrad2 + dot(gradI, gradI) / mass_i + uRelaxation);
+
+    // Output: R = lambda, G = density, B = density ratio
+    gl_FragColor = vec4(lambda, density, density * invRest, 1.0);
   }
 `;
 
-// Fragment shader: Boundary constraints
-export const boundaryShader = `
+// Fragment shader: PBF position correction from neighbor lambdas
+// dp_i = 1/rho_0 * sum_j (m_j / m_i) (lambda_i + lambda_j + s_corr) * gradW(p_i - p_j),
+// so lighter phases give way and rise, plus the interface push between phases
+export const createPBFDeltaShader = () => `
   precision highp float;
 
   uniform sampler2D tPosition;
-  uniform sampler2D tVelocity;
-  uniform float uBoundary;
-  uniform float uBoundaryOffset;
-  uniform float uWallRepelDist;
+  uniform sampler2D tLambda;
+  uniform float uKernelRadius;
+  uniform float uRestDensity;
+  uniform float uTensileK;      // s_corr strength
+  uniform float uInterfacePush; // Push between neighbors of different phases
+  uniform vec2 uParticleRes;
 
   varying vec2 vUv;
+${gridSearchCommon}${phaseCommon}${obstacleCommon}${containerCommon}${wallCommon}
+  float poly6(float r2, float h2) {
+    if (r2 >= h2) return 0.0;
+    float diff = h2 - r2;
+    float h9 = h2 * h2 * h2 * h2 * sqrt(h2);
+    return 315.0 / (64.0 * 3.14159265 * h9) * diff * diff * diff;
+  }
+
+  float spikyGradMag(float d, float h) {
+    if (d >= h || d < 0.001) return 0.0;
+    float h6 = h * h * h * h * h * h;
+    return 45.0 / (3.14159265 * h6) * (h - d) * (h - d);
+  }
 
   void main() {
-    vec4 pos = texture2D(tPosition, vUv);
-    vec4 vel = texture2D(tVelocity, vUv);
+    vec4 pos_i = texture2D(tPosition, vUv);
 
-    if (pos.w < 0.5) {
-      gl_FragColor = pos;
+    if (pos_i.w < 0.5) {
+      gl_FragColor = vec4(0.0);
       return;
     }
 
-    vec3 newPos = pos.xyz;
-    float minBound = -uBoundary + uBoundaryOffset;
-    float maxBound = uBoundary - uBoundaryOffset;
-
-    // Soft repulsion near walls
-    for (int a = 0; a < 3; a++) {
-      float p = a == 0 ? newPos.x : (a == 1 ? newPos.y : newPos.z);
-      float distToMin = p - minBound;
-      float distToMax = maxBound - p;
-
-      float delta = 0.0;
-      if (distToMin < uWallRepelDist) delta += 0.1 * (uWallRepelDist - distToMin);
-      if (distToMax < uWallRepelDist) delta -= 0.1 * (uWallRepelDist - distToMax);
-
-      if (a == 0) newPos.x += delta;
-      else if (a == 1) newPos.y += delta;
-      else newPos.z += delta;
+    float h = uKernelRadius;
+    float h2 = h * h;
+    float invRest = 1.0 / uRestDensity;
+    float lambda_i = texture2D(tLambda, vUv).x;
+    int phase_i = particlePhase(vUv);
+    float mass_i = uPhaseProps[phase_i].x;
+
+    // s_corr = -k * (W(r) / W(dq))^4 with dq = 0.2h
+    float tensileRefW = poly6(0.04 * h2, h2);
+
+    vec3 delta = vec3(0.0);
+
+    ${forEachNeighbor(`
+            vec4 pos_j = texture2D(tPosition, juv);
+            if (pos_j.w < 0.5) continue;
+
+            vec3 diff = pos_i.xyz - pos_j.xyz;
+            float r2 = dot(diff, diff);
+            if (r2 >= h2) continue;
+
+            float d = sqrt(r2);
+            if (d < 0.001) continue;
+
+            float ratio = poly6(r2, h2) / tensileRefW;
+            float sCorr = -uTensileK * ratio * ratio * ratio * ratio;
+            float lambda_j = texture2D(tLambda, juv).x;
+            int phase_j = particlePhase(juv);
+            float massRatio = uPhaseProps[phase_j].x / mass_i;
+
+            // gradW points from i towards j, so negative lambdas push i away
+            delta -= (lambda_i + lambda_j + sCorr) * spikyGradMag(d, h) * invRest * massRatio * (diff / d);
+
+            // Interface tension: push apart neighbors of different phases
+            if (phase_j != phase_i && max(pos_i.w, pos_j.w) < 1.5) {
+              float w = 1.0 - d / h;
+              delta += uInterfacePush * w * w * (diff / d);
+            }`)}
+
+    // Walls and obstacles take this particle's lambda, plus adhesion
+    if (pos_i.w < 1.5) {
+      delta += lambda_i * invRest * wallDensity(pos_i.xyz, h).yzw;
+      delta += wallAdhesion(pos_i.xyz, h);
     }
 
-    // Hard boundary clamp
-    newPos = clamp(newPos, vec3(minBound), vec3(maxBound));
-
-    gl_FragColor = vec4(newPos, pos.w);
+    // Output as position delta (clamped in applyForcesShader)
+    gl_FragColor = vec4(delta, 1.0);
   }
 `;
 
-// Fragment shader: Update velocities from position change
-export const velocityUpdateShader = `
+// Fragment shader: Granular contacts (PBD sand, Macklin et al. 2014)
+// Every neighbor closer than the contact distance is pushed out along the
+// contact normal, split by inverse phase mass. Friction acts on the relative
+// tangential displacement since the start of the step: it is removed entirely
+// while below staticFriction * penetration (grains stick, which gives the angle
+// of repose) and limited to kineticFriction * penetration otherwise. Container
+// walls are static contacts. Corrections are averaged over the contact count.
+export const createGranularShader = () => `
   precision highp float;
 
   uniform sampler2D tPosition;
   uniform sampler2D tOldPosition;
-  uniform sampler2D tVelocity;
-  uniform float uDt;
-  uniform float uViscosity;
-  uniform float uBoundary;
-  uniform float uBoundaryOffset;
-  uniform float uMaxVelocity;  // Maximum velocity magnitude
+  uniform float uContactDistance;  // Grain diameter
+  uniform float uStaticFriction;
+  uniform float uKineticFriction;
+  uniform vec3 uUp;                // Against gravity (zero without gravity)
+  uniform float uStacking;         // Mass scale per unit height (services/granular.ts)
+  uniform vec2 uParticleRes;
 
   varying vec2 vUv;
+${gridSearchCommon}${phaseCommon}${containerCommon}
+  // Correction that cancels (or limits) tangential slip for a contact of depth pen
+  vec3 frictionCorrection(vec3 slip, vec3 n, float pen) {
+    vec3 tangential = slip - dot(slip, n) * n;
+    float len = length(tangential);
+    if (len < uStaticFriction * pen) return -tangential;
+    return -tangential * min(uKineticFriction * pen / max(len, 1e-6), 1.0);
+  }
 
   void main() {
-    vec4 pos = texture2D(tPosition, vUv);
-    vec4 oldPos = texture2D(tOldPosition, vUv);
-    vec4 vel = texture2D(tVelocity, vUv);
+    vec4 pos_i = texture2D(tPosition, vUv);
 
-    if (pos.w < 0.5) {
-      gl_FragColor = vel;
+    if (pos_i.w < 0.5) {
+      gl_FragColor = vec4(0.0);
       return;
     }
 
-    // Calculate velocity from position change
-    vec3 newVel = (pos.xyz - oldPos.xyz) / uDt;
+    vec3 disp_i = pos_i.xyz - texture2D(tOldPosition, vUv).xyz;
+    float invMass_i = 1.0 / uPhaseProps[particlePhase(vUv)].x;
+    vec3 delta = vec3(0.0);
+    float contacts = 0.0;
+
+    ${forEachNeighbor(`
+            vec4 pos_j = texture2D(tPosition, juv);
+            if (pos_j.w < 0.5) continue;
+
+            vec3 diff = pos_i.xyz - pos_j.xyz;
+            float d = length(diff);
+            if (d >= uContactDistance || d < 0.001) continue;
+
+            vec3 n = diff / d;
+            float pen = uContactDistance - d;
+            float invMass_j = 1.0 / uPhaseProps[particlePhase(juv)].x;
+            float share = invMass_i / (invMass_i + invMass_j * exp(-uStacking * dot(diff, uUp)));
+            vec3 slip = disp_i - (pos_j.xyz - texture2D(tOldPosition, juv).xyz);
+
+            delta += share * (pen * n + frictionCorrection(slip, n, pen));
+            contacts += 1.0;`)}
+
+    // Container wall (fluid slots only; boundary particles follow their body)
+    if (pos_i.w < 1.5) {
+      float pen = uContactDistance * 0.5 + containerDistance(pos_i.xyz);
+      if (pen > 0.0) {
+        vec3 n = -containerNormal(pos_i.xyz);
+        delta += pen * n + frictionCorrection(disp_i, n, pen);
+        contacts += 1.0;
+      }
+    }
 
-    // STABILITY FIX: Soft velocity clamp to prevent explosion
-    // Use smooth falloff instead of hard clamp to preserve momentum direction
+    // Output as position delta (clamped in applyForcesShader)
+    gl_FragColor = vec4(delta / max(contacts, 1.0), 1.0);
+  }
+`;
+
+// Fragment shader: Apply forces to positions
+export const applyForcesShader = `
+  precision highp float;
+
+  uniform sampler2D tPosition;
+  uniform sampler2D tForce;
+  uniform float uMaxPositionDelta;  // Maximum position change per iteration
+
+  varying vec2 vUv;
+
+  void main() {
+    vec4 pos = texture2D(tPosition, vUv);
+    vec4 force = texture2D(tForce, vUv);
+
+    if (pos.w < 0.5) {
+      gl_FragColor = pos;
+      return;
+    }
+
+    // STABILITY FIX: Clamp position delta to prevent teleportation
+    // This is critical for corner cases where forces can become extreme
+    vec3 delta = force.xyz;
+    float deltaMag = length(delta);
+    if (deltaMag > uMaxPositionDelta) {
+      delta = delta * (uMaxPositionDelta / deltaMag);
+    }
+
+    gl_FragColor = vec4(pos.xyz + delta, pos.w);
+  }
+`;
+
+// Static SDF obstacles (packed by services/obstacles.ts, same distance functions)
+const obstacleCommon = `
+  #define MAX_OBSTACLES ${MAX_OBSTACLES}
+
+  uniform int uObstacleCount;
+  uniform vec4 uObstacleShape[MAX_OBSTACLES];     // x = shape id, y = friction, z = restitution, w = heat transfer
+  uniform vec3 uObstacleCenter[MAX_OBSTACLES];
+  uniform vec4 uObstacleParams[MAX_OBSTACLES];    // xyz = shape size, w = temperature
+  uniform mat3 uObstacleRotation[MAX_OBSTACLES];  // World to obstacle space
+  uniform float uObstacleMargin;                  // Particle radius kept clear of surfaces
+
+  float obstacleDistance(int k, vec3 p) {
+    vec3 q = uObstacleRotation[k] * (p - uObstacleCenter[k]);
+    vec4 s = uObstacleParams[k];
+    int shape = int(uObstacleShape[k].x + 0.5);
+
+    if (shape == 0) {
+      return length(q) - s.x;
+    } else if (shape == 1) {
+      vec3 d = abs(q) - s.xyz;
+      return length(max(d, 0.0)) + min(max(d.x, max(d.y, d.z)), 0.0);
+    } else if (shape == 2) {
+      q.y -= clamp(q.y, -s.y, s.y);
+      return length(q) - s.x;
+    } else if (shape == 3) {
+      vec2 d = vec2(length(q.xz) - s.x, abs(q.y) - s.y);
+      return min(max(d.x, d.y), 0.0) + length(max(d, 0.0));
+    }
+    return q.y;
+  }
+
+  // Outward normal by tetrahedral finite differences
+  vec3 obstacleNormal(int k, vec3 p) {
+    const vec2 e = vec2(1.0, -1.0) * 0.001;
+    vec3 n = e.xyy * obstacleDistance(k, p + e.xyy) +
+             e.yyx * obstacleDistance(k, p + e.yyx) +
+             e.yxy * obstacleDistance(k, p + e.yxy) +
+             e.xxx * obstacleDistance(k, p + e.xxx);
+    float len = length(n);
+    return len < 1e-8 ? vec3(0.0, 1.0, 0.0) : n / len;
+  }
+
+  // Index in CONTAINER_FACES of the face with outward normal n
+  int containerFace(vec3 n) {
+    if (n.y < -0.7) return 0;
+    if (n.y > 0.7) return 1;
+    if (abs(n.x) >= abs(n.z)) return n.x < 0.0 ? 2 : 3;
+    return n.z < 0.0 ? 4 : 5;
+  }
+`;
+
+// Container SDF (packed by services/container.ts, same distance functions).
+// The custom shape's expression is injected as the CONTAINER_SDF define.
+export const containerCommon = `
+  #ifndef CONTAINER_SDF
+  #define CONTAINER_SDF -1.0
+  #endif
+
+  uniform int uContainerShape;     // CONTAINER_SHAPE_IDS
+  uniform vec3 uContainerSize;     // See PackedContainer.size
+  uniform float uContainerBound;   // Half the boundary size
+  uniform vec3 uWallSurface[${CONTAINER_FACES.length}];  // Restitution, static, kinetic friction per containerFace
+
+  float containerBox(vec3 p, vec3 halfSize) {
+    vec3 d = abs(p) - halfSize;
+    return length(max(d, 0.0)) + min(max(d.x, max(d.y, d.z)), 0.0);
+  }
+
+  // Distance to the container wall (negative inside), cut to the boundary cube
+  float containerDistance(vec3 p) {
+    vec3 s = uContainerSize;
+    float d;
+    if (uContainerShape == 0) {
+      d = containerBox(p, s);
+    } else if (uContainerShape == 1) {
+      vec2 c = vec2(length(p.xz) - s.x, abs(p.y) - s.y);
+      d = min(max(c.x, c.y), 0.0) + length(max(c, 0.0));
+    } else if (uContainerShape == 2) {
+      d = length(p) - s.x;
+    } else if (uContainerShape == 3) {
+      d = length(vec3(p.x, p.y - clamp(p.y, -s.y, s.y), p.z)) - s.x;
+    } else if (uContainerShape == 4) {
+      d = length(vec3(p.x, min(p.y - s.y, 0.0), p.z)) - s.x;
+    } else {
+      d = CONTAINER_SDF;
+    }
+    return max(d, containerBox(p, vec3(uContainerBound)));
+  }
+
+  // Outward normal by tetrahedral finite differences
+  vec3 containerNormal(vec3 p) {
+    const vec2 e = vec2(1.0, -1.0) * 0.001;
+    vec3 n = e.xyy * containerDistance(p + e.xyy) +
+             e.yyx * containerDistance(p + e.yyx) +
+             e.yxy * containerDistance(p + e.yxy) +
+             e.xxx * containerDistance(p + e.xxx);
+    float len = length(n);
+    return len < 1e-8 ? vec3(0.0, 1.0, 0.0) : n / len;
+  }
+`;
+
+// Wall density and adhesion from the container and obstacle SDFs
+// (services/wallBoundary.ts). Needs obstacleCommon and containerCommon.
+const wallCommon = `
+  #define MAX_WALL_LAYERS ${MAX_WALL_LAYERS}
+
+  uniform float uWallSpacing;  // Wall lattice spacing (physics particle diameter)
+  uniform float uAdhesion;     // Pull per iteration at the adhesion kernel peak (0 = none)
+
+  // Density of a wall at distance d (x) and its derivative in d (y)
+  vec2 wallLayers(float d, float h) {
+    float h2 = h * h;
+    float norm = 315.0 / (256.0 * h2 * h2 * h2 * h2 * h * uWallSpacing * uWallSpacing);
+    vec2 sum = vec2(0.0);
+    for (int k = 0; k < MAX_WALL_LAYERS; k++) {
+      float z = max(d, 0.0) + uWallSpacing * (float(k) + 0.5);
+      if (z >= h) break;
+      float q = h2 - z * z;
+      sum += norm * vec2(q * q * q * q, -8.0 * z * q * q * q);
+    }
+    return sum;
+  }
+
+  // Akinci adhesion kernel, normalized to a peak of 1 at 3h/4
+  float adhesionKernel(float r, float h) {
+    if (r <= 0.5 * h || r >= h) return 0.0;
+    return pow(max(-4.0 * r * r / h + 6.0 * r - 2.0 * h, 0.0) / (0.25 * h), 0.25);
+  }
+
+  // Wall density at p (x) and its gradient in p (yzw)
+  vec4 wallDensity(vec3 p, float h) {
+    vec4 sum = vec4(0.0);
+    float d = -containerDistance(p);
+    if (d < h) {
+      vec2 w = wallLayers(d, h);
+      sum += vec4(w.x, -w.y * containerNormal(p));
+    }
+    for (int k = 0; k < MAX_OBSTACLES; k++) {
+      if (k >= uObstacleCount) break;
+      float dk = obstacleDistance(k, p);
+      if (dk >= h) continue;
+      vec2 w = wallLayers(dk, h);
+      sum += vec4(w.x, w.y * obstacleNormal(k, p));
+    }
+    return sum;
+  }
+
+  // Adhesion position delta towards the walls and obstacles
+  vec3 wallAdhesion(vec3 p, float h) {
+    if (uAdhesion <= 0.0) return vec3(0.0);
+    float offset = 0.5 * uWallSpacing;
+    vec3 pull = vec3(0.0);
+    float d = -containerDistance(p);
+    if (d < h) {
+      float a = adhesionKernel(d + offset, h);
+      if (a > 0.0) pull += a * containerNormal(p);
+    }
+    for (int k = 0; k < MAX_OBSTACLES; k++) {
+      if (k >= uObstacleCount) break;
+      float dk = obstacleDistance(k, p);
+      if (dk >= h) continue;
+      float a = adhesionKernel(dk + offset, h);
+      if (a > 0.0) pull -= a * obstacleNormal(k, p);
+    }
+    return pull * uAdhesion;
+  }
+`;
+
+// Fragment shader: Boundary constraints
+export const boundaryShader = `
+  precision highp float;
+
+  uniform sampler2D tPosition;
+  uniform sampler2D tVelocity;
+  uniform float uBoundaryOffset;
+  uniform float uWallRepelDist;
+
+  varying vec2 vUv;
+${obstacleCommon}${containerCommon}
+  void main() {
+    vec4 pos = texture2D(tPosition, vUv);
+    vec4 vel = texture2D(tVelocity, vUv);
+
+    if (pos.w < 0.5 || pos.w >= 1.5) {
+      gl_FragColor = pos;
+      return;
+    }
+
+    vec3 newPos = pos.xyz;
+
+    // Project out of obstacles along the SDF normal
+    for (int k = 0; k < MAX_OBSTACLES; k++) {
+      if (k >= uObstacleCount) break;
+      float d = obstacleDistance(k, newPos);
+      if (d < uObstacleMargin) {
+        newPos += obstacleNormal(k, newPos) * (uObstacleMargin - d);
+      }
+    }
+    // Soft repulsion near the container wall, along its normal
+    float d = containerDistance(newPos) + uBoundaryOffset;
+    if (d > -uWallRepelDist) {
+      newPos -= containerNormal(newPos) * 0.1 * (uWallRepelDist + d);
+
+      // Hard projection back inside
+      d = containerDistance(newPos) + uBoundaryOffset;
+      if (d > 0.0) newPos -= containerNormal(newPos) * d;
+    }
+
+    // Safety clamp to the boundary cube
+    newPos = clamp(newPos, vec3(-uContainerBound + uBoundaryOffset), vec3(uContainerBound - uBoundaryOffset));
+
+    gl_FragColor = vec4(newPos, pos.w);
+  }
+`;
+
+// Fragment shader: Update velocities from position change
+export const velocityUpdateShader = `
+  precision highp float;
+
+  uniform sampler2D tPosition;
+  uniform sampler2D tOldPosition;
+  uniform sampler2D tVelocity;
+  uniform float uDt;
+  uniform float uBoundaryOffset;
+  uniform float uMaxVelocity;  // Maximum velocity magnitude
+  uniform float uViscosityDamping;  // 1 = Newtonian damping, 0 = viscosity applied by viscosityShader
+
+  varying vec2 vUv;
+${obstacleCommon}${containerCommon}${phaseCommon}${thermalCommon}
+  void main() {
+    vec4 pos = texture2D(tPosition, vUv);
+    vec4 oldPos = texture2D(tOldPosition, vUv);
+    vec4 vel = texture2D(tVelocity, vUv);
+
+    if (pos.w < 0.5 || pos.w >= 1.5) {
+      gl_FragColor = vel;
+      return;
+    }
+
+    // Calculate velocity from position change
+    vec3 newVel = (pos.xyz - oldPos.xyz) / uDt;
+
+    // STABILITY FIX: Soft velocity clamp to prevent explosion
+    // Use smooth falloff instead of hard clamp to preserve momentum direction
     float velMag = length(newVel);
     if (velMag > uMaxVelocity) {
       // Soft clamp: asymptotic approach, preserves some energy
@@ -491,32 +1236,181 @@ export const velocityUpdateShader = `
       newVel *= softFactor;
     }
 
-    // Apply viscosity damping
-    float vL = 1.0 - (uViscosity * uDt);
+    // Apply viscosity damping of this particle's phase at its temperature
+    float viscosity = uPhaseProps[particlePhase(vUv)].y * temperatureCurve(uViscosityCurve, particleTemperature(vUv));
+    float vL = max(0.0, 1.0 - viscosity * uViscosityDamping * uDt);
     newVel *= vL;
 
-    // Boundary velocity reflection
-    float minBound = -uBoundary + uBoundaryOffset;
-    float maxBound = uBoundary - uBoundaryOffset;
+    // Obstacle contact: restitution on the normal part, friction on the tangential part
+    for (int k = 0; k < MAX_OBSTACLES; k++) {
+      if (k >= uObstacleCount) break;
+      if (obstacleDistance(k, pos.xyz) >= uObstacleMargin * 1.05) continue;
 
-    for (int a = 0; a < 3; a++) {
-      float p = a == 0 ? pos.x : (a == 1 ? pos.y : pos.z);
-      float v = a == 0 ? newVel.x : (a == 1 ? newVel.y : newVel.z);
+      vec3 n = obstacleNormal(k, pos.xyz);
+      float vn = dot(newVel, n);
+      vec3 vt = newVel - vn * n;
+      if (vn < 0.0) vn *= -uObstacleShape[k].z;
+      newVel = vt * (1.0 - uObstacleShape[k].y) + vn * n;
+    }
 
-      if (p <= minBound || p >= maxBound) {
-        if (a == 0) newVel.x *= -0.2;
-        else if (a == 1) newVel.y *= -0.2;
-        else newVel.z *= -0.2;
+    // Container wall of this face: restitution on the outward normal velocity,
+    // Coulomb friction on the tangential part, bounded by the normal speed the
+    // wall took out this step (approach speed before the solve plus the bounce)
+    if (containerDistance(pos.xyz) >= -uBoundaryOffset * 1.05) {
+      vec3 n = containerNormal(pos.xyz);
+      vec3 surface = uWallSurface[containerFace(n)];
+      float vn = dot(newVel, n);
+      vec3 vt = newVel - vn * n;
+      if (vn > 0.0) vn *= -surface.x;
+      float load = max(dot(vel.xyz, n) - vn, 0.0);
+      float slip = length(vt);
+      if (slip < surface.y * load) {
+        vt = vec3(0.0);
+      } else {
+        vt *= 1.0 - min(surface.z * load / max(slip, 1e-6), 1.0);
       }
+      newVel = vt + vn * n;
     }
 
     gl_FragColor = vec4(newVel, vel.w);
   }
 `;
 
+// Fragment shader: Shear rate and effective viscosity (non-Newtonian models)
+// grad v = V * sum_j (v_j - v_i) (x) gradW_ij, D = (grad v + grad v^T) / 2,
+// shear rate = sqrt(2 D:D). Output: R = shear rate, G = effective viscosity
+export const createShearRateShader = () => `
+  precision highp float;
+
+  uniform sampler2D tPosition;
+  uniform sampler2D tVelocity;
+  uniform float uKernelRadius;
+  uniform float uInvRestDensity;  // Particle rest volume
+  uniform int uRheologyModel;     // Index in rheology.RHEOLOGY_MODELS
+  uniform float uFlowIndex;
+  uniform float uYieldStress;
+  uniform vec2 uParticleRes;
+
+  varying vec2 vUv;
+${gridSearchCommon}${phaseCommon}${thermalCommon}
+  vec3 spikyGrad(vec3 r, float d, float h) {
+    if (d >= h || d < 0.001) return vec3(0.0);
+    float h6 = h * h * h * h * h * h;
+    float coeff = -45.0 / (3.14159265 * h6);
+    float term = (h - d) * (h - d);
+    return coeff * term * (r / d);
+  }
+
+  // rheology.effectiveViscosity
+  float effectiveViscosity(float consistency, float shearRate) {
+    float g = max(shearRate, ${MIN_SHEAR_RATE});
+    float mu = consistency;
+    if (uRheologyModel == 1 || uRheologyModel == 3) mu = consistency * pow(g, uFlowIndex - 1.0);
+    if (uRheologyModel == 2 || uRheologyModel == 3) mu += uYieldStress / g;
+    return min(mu, ${MAX_EFFECTIVE_VISCOSITY.toFixed(1)});
+  }
+
+  void main() {
+    vec4 pos_i = texture2D(tPosition, vUv);
+
+    if (pos_i.w < 0.5 || pos_i.w >= 1.5) {
+      gl_FragColor = vec4(0.0);
+      return;
+    }
+
+    vec3 vel_i = texture2D(tVelocity, vUv).xyz;
+    float h = uKernelRadius;
+
+    // Column b holds d v / d x_b
+    vec3 gx = vec3(0.0);
+    vec3 gy = vec3(0.0);
+    vec3 gz = vec3(0.0);
+
+    ${forEachNeighbor(`
+            vec4 pos_j = texture2D(tPosition, juv);
+            if (pos_j.w < 0.5 || pos_j.w >= 1.5) continue;
+
+            vec3 diff = pos_i.xyz - pos_j.xyz;
+            float d = length(diff);
+            if (d < h) {
+              vec3 dv = texture2D(tVelocity, juv).xyz - vel_i;
+              vec3 g = spikyGrad(diff, d, h);
+              gx += dv * g.x;
+              gy += dv * g.y;
+              gz += dv * g.z;
+            }`)}
+
+    gx *= uInvRestDensity;
+    gy *= uInvRestDensity;
+    gz *= uInvRestDensity;
+
+    // Strain rate tensor D: diagonal, then the symmetric off-diagonal terms
+    float dxy = 0.5 * (gx.y + gy.x);
+    float dxz = 0.5 * (gx.z + gz.x);
+    float dyz = 0.5 * (gy.z + gz.y);
+    float shearRate = sqrt(2.0 * (gx.x * gx.x + gy.y * gy.y + gz.z * gz.z)
+      + 4.0 * (dxy * dxy + dxz * dxz + dyz * dyz));
+
+    float consistency = uPhaseProps[particlePhase(vUv)].y * temperatureCurve(uViscosityCurve, particleTemperature(vUv));
+    gl_FragColor = vec4(shearRate, effectiveViscosity(consistency, shearRate), 0.0, 1.0);
+  }
+`;
+
+// Fragment shader: Viscous forces with per-particle effective viscosity
+// v_i += V * sum_j min(1, (mu_i + mu_j) / 2 * dt) W_ij (v_j - v_i), symmetric
+// so momentum is conserved (rheology.viscousCoupling)
+export const createViscosityShader = () => `
+  precision highp float;
+
+  uniform sampler2D tPosition;
+  uniform sampler2D tVelocity;
+  uniform sampler2D tRheology;    // R = shear rate, G = effective viscosity
+  uniform float uKernelRadius;
+  uniform float uInvRestDensity;
+  uniform float uDt;
+  uniform vec2 uParticleRes;
+
+  varying vec2 vUv;
+${gridSearchCommon}
+  float poly6(float r2, float h2) {
+    if (r2 >= h2) return 0.0;
+    float diff = h2 - r2;
+    float h9 = h2 * h2 * h2 * h2 * sqrt(h2);
+    return 315.0 / (64.0 * 3.14159265 * h9) * diff * diff * diff;
+  }
+
+  void main() {
+    vec4 pos_i = texture2D(tPosition, vUv);
+    vec4 vel_i = texture2D(tVelocity, vUv);
+
+    if (pos_i.w < 0.5 || pos_i.w >= 1.5) {
+      gl_FragColor = vel_i;
+      return;
+    }
+
+    float mu_i = texture2D(tRheology, vUv).g;
+    float h = uKernelRadius;
+    float h2 = h * h;
+    vec3 correction = vec3(0.0);
+
+    ${forEachNeighbor(`
+            vec4 pos_j = texture2D(tPosition, juv);
+            if (pos_j.w < 0.5 || pos_j.w >= 1.5) continue;
+
+            vec3 diff = pos_i.xyz - pos_j.xyz;
+            float r2 = dot(diff, diff);
+            if (r2 < h2) {
+              float coupling = min(1.0, 0.5 * (mu_i + texture2D(tRheology, juv).g) * uDt);
+              correction += coupling * poly6(r2, h2) * (texture2D(tVelocity, juv).xyz - vel_i.xyz);
+            }`)}
+
+    gl_FragColor = vec4(vel_i.xyz + uInvRestDensity * correction, vel_i.w);
+  }
+`;
+
 // Fragment shader: XSPH viscosity - smooths velocity towards neighbor average
 // This prevents particle oscillation and improves stability
-export const createXSPHShader = (maxNeighbors: number = 64) => `
+export const createXSPHShader = () => `
   precision highp float;
 
   uniform sampler2D tPosition;
@@ -524,10 +1418,9 @@ export const createXSPHShader = (maxNeighbors: number = 64) => `
   uniform float uKernelRadius;
   uniform float uXSPHCoeff;  // Typically 0.01 - 0.1
   uniform vec2 uParticleRes;
-  uniform int uParticleCount;
 
   varying vec2 vUv;
-
+${gridSearchCommon}
   // SPH Poly6 kernel for weighting
   float poly6(float r2, float h2) {
     if (r2 >= h2) return 0.0;
@@ -540,7 +1433,8 @@ export const createXSPHShader = (maxNeighbors: number = 64) => `
     vec4 pos_i = texture2D(tPosition, vUv);
     vec4 vel_i = texture2D(tVelocity, vUv);
 
-    if (pos_i.w < 0.5) {
+    // Boundary particles (w >= 1.5) follow their rigid body
+    if (pos_i.w < 0.5 || pos_i.w >= 1.5) {
       gl_FragColor = vel_i;
       return;
     }
@@ -551,32 +1445,22 @@ export const createXSPHShader = (maxNeighbors: number = 64) => `
     vec3 velCorrection = vec3(0.0);
     float totalWeight = 0.0;
 
-    // Loop through all particles
-    for (int j = 0; j < ${maxNeighbors * 100}; j++) {
-      if (j >= uParticleCount) break;
-
-      float jx = mod(float(j), uParticleRes.x);
-      float jy = floor(float(j) / uParticleRes.x);
-      vec2 juv = (vec2(jx, jy) + 0.5) / uParticleRes;
-
-      // Skip self
-      if (abs(juv.x - vUv.x) < 0.0001 && abs(juv.y - vUv.y) < 0.0001) continue;
+    // Neighbor search over the 27 surrounding grid cells
+    ${forEachNeighbor(`
+            vec4 pos_j = texture2D(tPosition, juv);
+            if (pos_j.w < 0.5 || pos_j.w >= 1.5) continue;
 
-      vec4 pos_j = texture2D(tPosition, juv);
-      if (pos_j.w < 0.5) continue;
+            vec3 diff = pos_i.xyz - pos_j.xyz;
+            float r2 = dot(diff, diff);
 
-      vec3 diff = pos_i.xyz - pos_j.xyz;
-      float r2 = dot(diff, diff);
+            if (r2 < h2) {
+              vec4 vel_j = texture2D(tVelocity, juv);
+              float w = poly6(r2, h2);
 
-      if (r2 < h2) {
-        vec4 vel_j = texture2D(tVelocity, juv);
-        float w = poly6(r2, h2);
-
-        // XSPH: move velocity towards neighbor's velocity
-        velCorrection += (vel_j.xyz - vel_i.xyz) * w;
-        totalWeight += w;
-      }
-    }
+              // XSPH: move velocity towards neighbor's velocity
+              velCorrection += (vel_j.xyz - vel_i.xyz) * w;
+              totalWeight += w;
+            }`)}
 
     // Apply XSPH correction
     vec3 newVel = vel_i.xyz;
@@ -595,6 +1479,304 @@ export const createXSPHShader = (maxNeighbors: number = 64) => `
   }
 `;
 
+// Fragment shader: Vorticity (curl of velocity) per fluid particle
+// omega_i = V * sum_j gradW_ij x (v_j - v_i), with V the rest volume of a particle
+// Output: xyz = omega, w = |omega|
+export const createVorticityShader = () => `
+  precision highp float;
+
+  uniform sampler2D tPosition;
+  uniform sampler2D tVelocity;
+  uniform float uKernelRadius;
+  uniform float uInvRestDensity;  // Particle rest volume
+  uniform vec2 uParticleRes;
+
+  varying vec2 vUv;
+${gridSearchCommon}
+  vec3 spikyGrad(vec3 r, float d, float h) {
+    if (d >= h || d < 0.001) return vec3(0.0);
+    float h6 = h * h * h * h * h * h;
+    float coeff = -45.0 / (3.14159265 * h6);
+    float term = (h - d) * (h - d);
+    return coeff * term * (r / d);
+  }
+
+  void main() {
+    vec4 pos_i = texture2D(tPosition, vUv);
+
+    if (pos_i.w < 0.5 || pos_i.w >= 1.5) {
+      gl_FragColor = vec4(0.0);
+      return;
+    }
+
+    vec3 vel_i = texture2D(tVelocity, vUv).xyz;
+    float h = uKernelRadius;
+    vec3 omega = vec3(0.0);
+
+    ${forEachNeighbor(`
+            vec4 pos_j = texture2D(tPosition, juv);
+            if (pos_j.w < 0.5 || pos_j.w >= 1.5) continue;
+
+            vec3 diff = pos_i.xyz - pos_j.xyz;
+            float d = length(diff);
+            if (d < h) {
+              vec3 vel_j = texture2D(tVelocity, juv).xyz;
+              omega += cross(spikyGrad(diff, d, h), vel_j - vel_i);
+            }`)}
+
+    omega *= uInvRestDensity;
+    gl_FragColor = vec4(omega, length(omega));
+  }
+`;
+
+// Fragment shader: Vorticity confinement
+// Pushes particles along N x omega, N pointing up the |omega| gradient, to
+// put back the small swirls that damping and XSPH smooth away
+export const createVorticityConfinementShader = () => `
+  precision highp float;
+
+  uniform sampler2D tPosition;
+  uniform sampler2D tVelocity;
+  uniform sampler2D tVorticity;
+  uniform float uKernelRadius;
+  uniform float uEpsilon;
+  uniform float uDt;
+  uniform vec2 uParticleRes;
+
+  varying vec2 vUv;
+${gridSearchCommon}
+  vec3 spikyGrad(vec3 r, float d, float h) {
+    if (d >= h || d < 0.001) return vec3(0.0);
+    float h6 = h * h * h * h * h * h;
+    float coeff = -45.0 / (3.14159265 * h6);
+    float term = (h - d) * (h - d);
+    return coeff * term * (r / d);
+  }
+
+  void main() {
+    vec4 pos_i = texture2D(tPosition, vUv);
+    vec4 vel_i = texture2D(tVelocity, vUv);
+
+    if (pos_i.w < 0.5 || pos_i.w >= 1.5) {
+      gl_FragColor = vel_i;
+      return;
+    }
+
+    vec4 omega_i = texture2D(tVorticity, vUv);
+    float h = uKernelRadius;
+    vec3 eta = vec3(0.0);
+
+    ${forEachNeighbor(`
+            vec4 pos_j = texture2D(tPosition, juv);
+            if (pos_j.w < 0.5 || pos_j.w >= 1.5) continue;
+
+            vec3 diff = pos_i.xyz - pos_j.xyz;
+            float d = length(diff);
+            if (d < h) {
+              eta += (texture2D(tVorticity, juv).w - omega_i.w) * spikyGrad(diff, d, h);
+            }`)}
+
+    vec3 newVel = vel_i.xyz;
+    float etaLen = length(eta);
+    if (etaLen > 1e-6) {
+      newVel += uEpsilon * cross(eta / etaLen, omega_i.xyz) * uDt;
+    }
+
+    gl_FragColor = vec4(newVel, vel_i.w);
+  }
+`;
+
+// Fragment shader: Heat exchange between neighbors, the container and obstacles
+// T_i += rate * sum_j W_ij (T_j - T_i), symmetric so the fluid conserves heat,
+// then relaxation towards every surface within one kernel radius
+export const createHeatShader = () => `
+  precision highp float;
+
+  uniform sampler2D tPosition;
+  uniform float uKernelRadius;
+  uniform float uDiffusionRate;     // See thermal.heatDiffusionRate
+  uniform float uDt;
+  uniform float uFloorTemperature;
+  uniform float uWallTemperature;   // Every container surface but the floor
+  uniform float uWallHeatTransfer;
+  uniform vec2 uParticleRes;
+
+  varying vec2 vUv;
+${gridSearchCommon}${obstacleCommon}${containerCommon}${thermalCommon}
+  float poly6(float r2, float h2) {
+    if (r2 >= h2) return 0.0;
+    float diff = h2 - r2;
+    float h9 = h2 * h2 * h2 * h2 * sqrt(h2);
+    return 315.0 / (64.0 * 3.14159265 * h9) * diff * diff * diff;
+  }
+
+  // Fraction of the way towards a surface temperature at distance d (thermal.surfaceExchange)
+  float surfaceExchange(float heatTransfer, float d, float range) {
+    return clamp(heatTransfer * uDt * max(0.0, 1.0 - d / range), 0.0, 1.0);
+  }
+
+  void main() {
+    vec4 pos_i = texture2D(tPosition, vUv);
+    float t_i = particleTemperature(vUv);
+
+    // Rigid-body boundary particles neither hold nor pass on heat
+    if (pos_i.w < 0.5 || pos_i.w >= 1.5) {
+      gl_FragColor = vec4(t_i, 0.0, 0.0, 1.0);
+      return;
+    }
+
+    float h = uKernelRadius;
+    float h2 = h * h;
+    float exchange = 0.0;
+
+    ${forEachNeighbor(`
+            vec4 pos_j = texture2D(tPosition, juv);
+            if (pos_j.w < 0.5 || pos_j.w >= 1.5) continue;
+
+            vec3 diff = pos_i.xyz - pos_j.xyz;
+            float r2 = dot(diff, diff);
+            if (r2 < h2) {
+              exchange += poly6(r2, h2) * (particleTemperature(juv) - t_i);
+            }`)}
+
+    float t = t_i + uDiffusionRate * exchange;
+
+    // Container: the nearest wall counts as floor where it faces up
+    vec3 p = pos_i.xyz;
+    float wall = -containerDistance(p);
+    if (wall < h) {
+      float surface = containerNormal(p).y < -0.7 ? uFloorTemperature : uWallTemperature;
+      t = mix(t, surface, surfaceExchange(uWallHeatTransfer, wall, h));
+    }
+
+    // Obstacles: heat transfer in uObstacleShape.w, temperature in uObstacleParams.w
+    for (int k = 0; k < MAX_OBSTACLES; k++) {
+      if (k >= uObstacleCount) break;
+      float d = obstacleDistance(k, p);
+      t = mix(t, uObstacleParams[k].w, surfaceExchange(uObstacleShape[k].w, d, h));
+    }
+
+    gl_FragColor = vec4(t, 0.0, 0.0, 1.0);
+  }
+`;
+
+// Fragment shader: Deactivate fluid particles inside a drain box
+// Drained slots look like never-used ones (w = 0, far away) until compaction
+export const drainShader = `
+  precision highp float;
+
+  #define MAX_DRAINS ${MAX_DRAINS}
+
+  uniform sampler2D tPosition;
+  uniform int uDrainCount;
+  uniform vec3 uDrainMin[MAX_DRAINS];
+  uniform vec3 uDrainMax[MAX_DRAINS];
+
+  varying vec2 vUv;
+
+  void main() {
+    vec4 pos = texture2D(tPosition, vUv);
+    gl_FragColor = pos;
+
+    // Boundary particles belong to their body
+    if (pos.w < 0.5 || pos.w >= 1.5) return;
+
+    for (int k = 0; k < MAX_DRAINS; k++) {
+      if (k >= uDrainCount) break;
+      if (all(greaterThanEqual(pos.xyz, uDrainMin[k])) && all(lessThanEqual(pos.xyz, uDrainMax[k]))) {
+        gl_FragColor = vec4(10000.0, 10000.0, 10000.0, 0.0);
+        return;
+      }
+    }
+  }
+`;
+
+// Stream compaction of the particle slots (GPUFluidEngine.compact)
+// Flag the live slots, prefix-sum the flags (Hillis-Steele, one pass per power
+// of two), then every slot gathers the live slot whose running count it is.
+// Live slots keep their order, so rigid-body slot ranges stay contiguous.
+
+// Fragment shader: R = 1 for live slots below uParticleCount, 0 otherwise
+export const compactFlagShader = `
+  precision highp float;
+
+  uniform sampler2D tPosition;
+  uniform vec2 uParticleRes;
+  uniform int uParticleCount;
+
+  void main() {
+    int idx = int(gl_FragCoord.x) + int(gl_FragCoord.y) * int(uParticleRes.x);
+    float w = texelFetch(tPosition, ivec2(gl_FragCoord.xy), 0).w;
+    gl_FragColor = vec4(idx < uParticleCount && w >= 0.5 ? 1.0 : 0.0, 0.0, 0.0, 1.0);
+  }
+`;
+
+// Shared by the scan and gather passes
+const scanCommon = `
+  uniform sampler2D tScan;   // R = live slots up to and including this one
+  uniform vec2 uParticleRes;
+
+  int slotIndex() {
+    return int(gl_FragCoord.x) + int(gl_FragCoord.y) * int(uParticleRes.x);
+  }
+
+  ivec2 slotTexel(int i) {
+    int width = int(uParticleRes.x);
+    return ivec2(i % width, i / width);
+  }
+
+  float scanAt(int i) {
+    return texelFetch(tScan, slotTexel(i), 0).x;
+  }
+`;
+
+// Fragment shader: One Hillis-Steele step, R_i += R_(i - uOffset)
+export const prefixSumShader = `
+  precision highp float;
+
+  ${scanCommon}
+
+  uniform int uOffset;
+
+  void main() {
+    int idx = slotIndex();
+    float sum = scanAt(idx);
+    if (idx >= uOffset) sum += scanAt(idx - uOffset);
+    gl_FragColor = vec4(sum, 0.0, 0.0, 1.0);
+  }
+`;
+
+// Fragment shader: Slot j takes the first slot whose running count exceeds j,
+// the (j + 1)-th live one; slots past the live count get uFill
+export const compactGatherShader = `
+  precision highp float;
+
+  ${scanCommon}
+
+  uniform sampler2D tSource;
+  uniform int uParticleCount;
+  uniform vec4 uFill;
+
+  void main() {
+    int idx = slotIndex();
+    float live = uParticleCount > 0 ? scanAt(uParticleCount - 1) : 0.0;
+    if (float(idx) >= live) {
+      gl_FragColor = uFill;
+      return;
+    }
+
+    int lo = 0;
+    int hi = uParticleCount - 1;
+    for (int it = 0; it < 32; it++) {
+      if (lo >= hi) break;
+      int mid = (lo + hi) / 2;
+      if (scanAt(mid) <= float(idx)) lo = mid + 1;
+      else hi = mid;
+    }
+    gl_FragColor = texelFetch(tSource, slotTexel(lo), 0);
+  }
+`;
+
 // Fragment shader: Copy old positions for velocity calculation
 export const copyPositionShader = `
   precision highp float;
@@ -608,6 +1790,21 @@ export const copyPositionShader = `
   }
 `;
 
+// Seeded random numbers (see services/seededRandom.ts)
+export const hashCommon = `
+  // PCG integer hash - mirrors pcgHash in services/seededRandom.ts bit-for-bit
+  uint pcgHash(uint v) {
+    uint state = v * 747796405u + 2891336453u;
+    uint word = ((state >> ((state >> 28u) + 4u)) ^ state) * 277803737u;
+    return (word >> 22u) ^ word;
+  }
+
+  // 24-bit uniform value in [0, 1), exact in float32
+  float hashUnit(uint seed, uint n) {
+    return float(pcgHash(seed ^ pcgHash(n)) >> 8u) / 16777216.0;
+  }
+`;
+
 // Fragment shader: Add new particles
 export const addParticlesShader = `
   precision highp float;
@@ -620,15 +1817,10 @@ export const addParticlesShader = `
   uniform int uGridDim;
   uniform vec2 uParticleRes;
   uniform float uJitter;
-  uniform float uSeed;
+  uniform uint uSeed;   // Per-batch seed (see seededRandom.batchSeed)
 
   varying vec2 vUv;
-
-  // Simple hash for random jitter
-  float hash(vec2 p) {
-    return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
-  }
-
+${hashCommon}
   void main() {
     vec4 pos = texture2D(tPosition, vUv);
 
@@ -646,11 +1838,11 @@ export const addParticlesShader = `
 
       float offset = float(uGridDim - 1) * uSpacing * 0.5;
 
-      // Random jitter
-      vec2 jitterSeed = vUv + uSeed;
-      float jx = (hash(jitterSeed) - 0.5) * uSpacing * uJitter;
-      float jy = (hash(jitterSeed + vec2(1.0, 0.0)) - 0.5) * uSpacing * uJitter;
-      float jz = (hash(jitterSeed + vec2(0.0, 1.0)) - 0.5) * uSpacing * uJitter;
+      // Seeded jitter, identical to FluidEngine.addParticles
+      uint n = uint(localIdx) * 3u;
+      float jx = (hashUnit(uSeed, n) - 0.5) * uSpacing * uJitter;
+      float jy = (hashUnit(uSeed, n + 1u) - 0.5) * uSpacing * uJitter;
+      float jz = (hashUnit(uSeed, n + 2u) - 0.5) * uSpacing * uJitter;
 
       vec3 newPos = uOrigin + vec3(
         float(gx) * uSpacing - offset + jx,
@@ -665,6 +1857,56 @@ export const addParticlesShader = `
   }
 `;
 
+// Fragment shader: Emit a batch of particles from an emitter
+// Sampling matches emitterPoint in services/emitters.ts
+export const emitParticlesShader = `
+  precision highp float;
+
+  uniform sampler2D tPosition;
+  uniform int uStartIndex;
+  uniform int uAddCount;
+  uniform vec2 uParticleRes;
+  uniform uint uSeed;        // Per-batch seed (see seededRandom.batchSeed)
+  uniform int uShape;        // 0 point, 1 disc, 2 box (emitters.EMITTER_SHAPE_IDS)
+  uniform vec3 uCenter;
+  uniform vec3 uSize;        // disc: x = radius; box: half extents
+  uniform vec3 uAxis;        // Emission direction
+  uniform vec3 uTangent;     // Disc plane
+  uniform vec3 uBitangent;
+  uniform float uAlong;      // Distance travelled along uAxis during the step
+  uniform float uPointSpread;  // Point emitter jitter (world units)
+
+  varying vec2 vUv;
+${hashCommon}
+  void main() {
+    int idx = int(floor(vUv.x * uParticleRes.x) + floor(vUv.y * uParticleRes.y) * uParticleRes.x);
+
+    if (idx < uStartIndex || idx >= uStartIndex + uAddCount) {
+      gl_FragColor = texture2D(tPosition, vUv);
+      return;
+    }
+
+    int k = idx - uStartIndex;
+    uint n = uint(k) * 3u;
+    vec3 r = vec3(hashUnit(uSeed, n), hashUnit(uSeed, n + 1u), hashUnit(uSeed, n + 2u));
+
+    vec3 offset;
+    if (uShape == 0) {
+      offset = (r - 0.5) * uPointSpread;
+    } else if (uShape == 1) {
+      float radius = uSize.x * sqrt(r.x);
+      float angle = 6.2831853 * r.y;
+      offset = (uTangent * cos(angle) + uBitangent * sin(angle)) * radius;
+    } else {
+      offset = (r * 2.0 - 1.0) * uSize;
+    }
+
+    // Spread along the axis as if emitted at even intervals during the step
+    float along = uAlong * (float(k) + 0.5) / float(uAddCount);
+    gl_FragColor = vec4(uCenter + offset + uAxis * along, 1.0);
+  }
+`;
+
 // Fragment shader: Initialize velocity for new particles
 export const initVelocityShader = `
   precision highp float;
@@ -672,6 +1914,7 @@ export const initVelocityShader = `
   uniform sampler2D tVelocity;
   uniform int uStartIndex;
   uniform int uAddCount;
+  uniform vec3 uVelocity;   // Zero for spawned blocks and rigid bodies, the emitter velocity otherwise
   uniform vec2 uParticleRes;
 
   varying vec2 vUv;
@@ -682,9 +1925,103 @@ export const initVelocityShader = `
     int idx = int(floor(vUv.x * uParticleRes.x) + floor(vUv.y * uParticleRes.y) * uParticleRes.x);
 
     if (idx >= uStartIndex && idx < uStartIndex + uAddCount) {
-      gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0); // Zero velocity, active
+      gl_FragColor = vec4(uVelocity, 1.0);
     } else {
       gl_FragColor = vel;
     }
   }
 `;
+
+// Fragment shader: Initialize a per-slot scalar (temperature, phase) for new particles
+export const initScalarShader = `
+  precision highp float;
+
+  uniform sampler2D tSource;
+  uniform int uStartIndex;
+  uniform int uAddCount;
+  uniform float uValue;
+  uniform vec2 uParticleRes;
+
+  varying vec2 vUv;
+
+  void main() {
+    int idx = int(floor(vUv.x * uParticleRes.x) + floor(vUv.y * uParticleRes.y) * uParticleRes.x);
+
+    if (idx >= uStartIndex && idx < uStartIndex + uAddCount) {
+      gl_FragColor = vec4(uValue, 0.0, 0.0, 1.0);
+    } else {
+      gl_FragColor = texture2D(tSource, vUv);
+    }
+  }
+`;
+
+// Rigid-body poses (packed by services/rigidBodies.ts)
+const bodyCommon = `
+  #define MAX_BODIES ${MAX_BODIES}
+  #define BODY_MARKER ${BODY_MARKER.toFixed(1)}
+
+  uniform sampler2D tBodyLocal;                // xyz = body-space offset, w = BODY_MARKER + body (0 = fluid slot)
+  uniform vec3 uBodyCenter[MAX_BODIES];
+  uniform mat3 uBodyRotation[MAX_BODIES];      // Body to world space
+`;
+
+// Fragment shader: Place rigid-body boundary particles at their body's pose
+// Runs at the start of a step; the solver then displaces them like fluid
+// particles and bodyReductionShader measures how far.
+export const bodyPoseShader = `
+  precision highp float;
+
+  uniform sampler2D tPosition;
+
+  varying vec2 vUv;
+${bodyCommon}
+  void main() {
+    vec4 pos = texture2D(tPosition, vUv);
+    vec4 local = texture2D(tBodyLocal, vUv);
+
+    if (local.w < 1.5) {
+      gl_FragColor = pos;
+      return;
+    }
+
+    int k = int(local.w - BODY_MARKER + 0.5);
+    gl_FragColor = vec4(uBodyCenter[k] + uBodyRotation[k] * local.xyz, local.w);
+  }
+`;
+
+// Fragment shader: Sum the fluid reaction on each rigid body
+// Output is MAX_BODIES x 2 texels: x = body, row 0 = summed displacement of its
+// boundary particles from the pose, row 1 = summed moment of those displacements
+// about the body center. Each texel gathers its body's slot range in order.
+export const bodyReductionShader = `
+  precision highp float;
+
+  uniform sampler2D tPosition;
+  uniform vec2 uParticleRes;
+  uniform int uBodyCount;
+${bodyCommon}
+  uniform vec2 uBodyRange[MAX_BODIES];         // First slot, slot count
+  void main() {
+    int k = int(gl_FragCoord.x);
+    int row = int(gl_FragCoord.y);
+    if (k >= uBodyCount) {
+      gl_FragColor = vec4(0.0);
+      return;
+    }
+
+    int width = int(uParticleRes.x);
+    int first = int(uBodyRange[k].x);
+    int count = int(uBodyRange[k].y);
+    vec3 sum = vec3(0.0);
+
+    for (int s = 0; s < count; s++) {
+      int slot = first + s;
+      ivec2 texel = ivec2(slot % width, slot / width);
+      vec3 arm = uBodyRotation[k] * texelFetch(tBodyLocal, texel, 0).xyz;
+      vec3 d = texelFetch(tPosition, texel, 0).xyz - (uBodyCenter[k] + arm);
+      sum += row == 0 ? d : cross(arm, d);
+    }
+
+    gl_FragColor = vec4(sum, 1.0);
+  }
+`;
@@ -1,4 +1,125 @@
 
+export type ObstacleShape = 'sphere' | 'box' | 'capsule' | 'cylinder' | 'plane';
+
+export type RigidBodyShape = 'box' | 'sphere';
+
+// Extra fluid type sharing the container with the base fluid (phase 0)
+export interface FluidPhase {
+  name: string;
+  density: number;                  // Rest density relative to the base fluid (0.3 - 3)
+  viscosity: number;                // Same scale as FluidConfig.viscosity
+  surfaceTension: number;           // Same scale as FluidConfig.surfaceTension
+  color: [number, number, number];  // Dot color and surface tint (0 - 1)
+}
+
+// Static collider inside the container (container space, y up)
+export interface Obstacle {
+  id: number;
+  shape: ObstacleShape;
+  position: [number, number, number];
+  rotation: [number, number, number];  // Euler XYZ, degrees
+  // sphere: x = radius; box: half extents; capsule / cylinder: x = radius, y = half length
+  // along the local y axis; plane: unused (solid below the local xz plane)
+  size: [number, number, number];
+  friction: number;                    // Tangential velocity removed on contact (0 - 1)
+  restitution: number;                 // Normal velocity kept on impact (0 - 1)
+  temperature: number;                 // Surface temperature (0 = cold - 1 = hot)
+  heatTransfer: number;                // Heat exchange rate with touching fluid (0 = insulated, 1 / s)
+}
+
+export type ContainerShape = 'box' | 'cylinder' | 'sphere' | 'capsule' | 'bowl' | 'custom';
+
+// Cursor brush: push / pull the fluid radially, swirl it around the view
+// direction, or drag it along with the cursor
+export type BrushMode = 'push' | 'pull' | 'vortex' | 'spoon';
+
+// Container faces by outward wall normal: the floor faces down (-y), the
+// ceiling up; the side walls by their dominant axis
+export type ContainerFace = 'floor' | 'ceiling' | 'left' | 'right' | 'back' | 'front';
+
+// Fluid response of a wall: restitution on the normal velocity, Coulomb
+// friction on the tangential velocity
+export interface WallSurface {
+  restitution: number;      // Share of the outward velocity bounced back (0 - 1)
+  staticFriction: number;   // Particles stick below this tangential / normal speed ratio (0 - 2)
+  kineticFriction: number;  // Sliding friction (0 - 2, at most staticFriction)
+}
+
+// Fluid container inside the boundary cube (centered, y up)
+export interface ContainerConfig {
+  shape: ContainerShape;
+  // Fractions of half the boundary size. box: half extents; cylinder / capsule:
+  // x = radius, y = half height; sphere / bowl: x = radius
+  extents: [number, number, number];
+  // custom: signed distance expression (negative inside) in x, y, z and s (half
+  // the boundary size), see services/sdfExpression.ts
+  sdf: string;
+  // Faces with their own restitution and friction instead of the wall* config
+  faces?: Partial<Record<ContainerFace, WallSurface>>;
+}
+
+export type EmitterShape = 'point' | 'disc' | 'box';
+
+// Continuous particle source (container space, y up)
+export interface Emitter {
+  id: number;
+  shape: EmitterShape;
+  position: [number, number, number];
+  direction: [number, number, number];  // Emission direction (normalized on use)
+  // point: unused; disc: x = radius (disc faces the direction); box: half extents
+  size: [number, number, number];
+  speed: number;                        // Initial speed along the direction
+  rate: number;                         // Particles per second
+  phase: number;                        // Phase index emitted (0 = base fluid)
+  temperature: number;                  // Temperature of emitted particles (0 - 1)
+  enabled: boolean;
+}
+
+// Region that removes the fluid entering it (axis-aligned box, container space)
+export interface Drain {
+  id: number;
+  position: [number, number, number];
+  size: [number, number, number];       // Half extents
+}
+
+export type ForceFieldType = 'wind' | 'attractor' | 'vortex' | 'turbulence';
+
+// Time animation of a force field, at `frequency` cycles per second: pulse
+// the strength, orbit the position around the vertical axis, or spin the
+// direction around it (wind, vortex)
+export type ForceFieldAnimation = 'none' | 'pulse' | 'orbit' | 'spin';
+
+// External force on the fluid around a point (container space, y up)
+export interface ForceField {
+  id: number;
+  type: ForceFieldType;
+  position: [number, number, number];
+  direction: [number, number, number];  // wind: blowing direction; vortex: spin axis (normalized on use)
+  radius: number;                       // Reach (from the axis for the vortex)
+  falloff: number;                      // Exponent of (1 - distance / radius): 0 = even, 1 = linear, 2 = smooth
+  strength: number;                     // Acceleration at the center (attractor: negative repels)
+  scale: number;                        // turbulence: eddy size
+  animation: ForceFieldAnimation;
+  frequency: number;                    // Animation cycles per second
+  enabled: boolean;
+}
+
+// Property multiplier at temperature 0 (cold) and 1 (hot), linear in between
+export interface TemperatureCurve {
+  cold: number;
+  hot: number;
+}
+
+// Viscosity model: 'newtonian' damps velocity by viscosity * dt every step, the
+// others derive an effective viscosity from each particle's shear rate
+export type RheologyModel = 'newtonian' | 'powerLaw' | 'bingham' | 'herschelBulkley';
+
+export interface Rheology {
+  model: RheologyModel;
+  flowIndex: number;     // Power-law exponent n: < 1 shear thinning, > 1 shear thickening (0.2 - 2.5)
+  yieldStress: number;   // Stress below which the fluid does not flow (Bingham, Herschel-Bulkley; 0 - 20)
+}
+
 export interface FluidConfig {
   particleRadius: number;
   visualRatio: number; // Smoothness: visual/physics ratio. Higher = smaller physics radius = more visual overlap = smoother look
@@ -7,17 +128,66 @@ export interface FluidConfig {
   restDensity: number;
   stiffness: number;
   surfaceTension: number;       // Surface tension / cohesion strength (0 - 1.0)
+  adhesion: number;             // Fluid clinging to container walls and obstacles (0 - 1)
+  material: 'fluid' | 'granular';  // Liquid, or dry sand (frictional contacts, no tension; replaces the solver)
+  solver: 'pressure' | 'pbf';   // Constraint model: legacy clamped pressure push or Position-Based Fluids
+  pbfRelaxation: number;        // PBF constraint relaxation epsilon (0.001 - 1.0)
+  pbfTensileK: number;          // PBF s_corr tensile instability strength (0 - 0.3)
+  vorticityEpsilon: number;     // Vorticity confinement strength (0 - 2, 0 = off)
+  staticFriction: number;       // Sand: grains stick below this slip / penetration ratio (tan of the angle of repose, 0 - 1.5)
+  kineticFriction: number;      // Sand: sliding friction (0 - 1.5, at most staticFriction)
+  rheology: Rheology;           // Viscosity model; each phase's viscosity is its consistency K
+  substeps: number;             // Fixed simulation steps per 1/60 s frame (1 - 8)
+  solverIterations: number;     // Constraint iterations per step (1 - 10)
+  timeScale: number;            // Simulation speed multiplier (0 - 2)
+  adaptiveTimestep: boolean;    // Add substeps as the fluid speeds up (CFL condition; substeps is the minimum)
+  cflNumber: number;            // Adaptive step: kernel radii the fastest particle may cross per step (0.1 - 1)
   maxParticles: number;
+  backend: 'cpu' | 'gpu';       // Simulation backend (switchable at runtime, particle state is kept)
+  seed: number;                 // Spawn jitter seed; same seed + same inputs = same run (applied on reset)
   rotationX: number;
   rotationY: number;
   rotationZ: number;
   boundarySize: number;
+  container: ContainerConfig;   // Container shape within the boundary cube
+  wallRestitution: number;      // Container walls: share of the outward velocity bounced back (0 - 1)
+  wallStaticFriction: number;   // Container walls: stick below this tangential / normal speed ratio (0 - 2)
+  wallKineticFriction: number;  // Container walls: sliding friction (0 - 2, at most wallStaticFriction)
+  inertialForces: number;       // Scale of the pseudo-forces of the moving container (0 = none, 1 = physical)
+  shaking: boolean;             // Drive the container with the shaker table
+  shakeAmplitude: [number, number, number];  // Shaker table displacement amplitude per world axis
+  shakeFrequency: number;       // Shaker table cycles per second
+  obstacles: Obstacle[];        // Static SDF colliders (up to 8)
+  emitters: Emitter[];          // Continuous particle sources (up to 4)
+  drains: Drain[];              // Particle sinks (up to 4)
+  forceFields: ForceField[];    // Wind, attractors, vortices and turbulence on top of gravity (up to 4)
+  interaction: 'rotate' | 'brush' | 'shake';  // What a plain drag does; Shift + drag rotates (brushes when set to rotate)
+  brushMode: BrushMode;
+  brushRadius: number;          // Brush reach in world units (0.5 - 4)
+  brushStrength: number;        // Brush force (0 - 1)
+  rigidBodyDensity: number;     // Density of dropped rigid bodies relative to the fluid (0.2 - 3)
+  rigidBodySize: number;        // Half extent / radius of dropped rigid bodies
+  phases: FluidPhase[];         // Extra fluid types (up to 3); phase 0 is the base fluid configured above
+  interfaceTension: number;     // Repulsion between particles of different phases (0 - 1)
+  injectPhase: number;          // Phase index spawned by Inject (0 = base fluid)
+  injectTemperature: number;    // Temperature of injected particles (0 = cold - 1 = hot)
+  heatDiffusion: number;        // Heat exchange rate between neighboring particles (0 - 10 / s)
+  floorTemperature: number;     // Container floor (walls facing up) temperature (0 - 1)
+  wallTemperature: number;      // Other container walls temperature (0 - 1)
+  wallHeatTransfer: number;     // Heat exchange rate with the container (0 = insulated, 1 / s)
+  viscosityCurve: TemperatureCurve;  // Scales each phase's viscosity with temperature
+  cohesionCurve: TemperatureCurve;   // Scales each phase's surface tension with temperature (pressure solver)
   renderMode: 'surface' | 'dot';
+  colorMode: 'phase' | 'temperature';  // Dot color / surface tint source
   renderScale: number;
   // Rendering debug controls
   blurRadius: number;
   blurDepthFalloff: number;
   showContainer: boolean;
+  // Whitewater (services/DiffuseParticles.ts), drawn in surface mode
+  diffuseParticles: boolean;      // Spray, foam and bubbles where the liquid splashes
+  diffuseEmission: number;        // Particles per second a fluid particle emits at full potential (0 - 20)
+  diffuseLifetime: number;        // Seconds foam lasts before it dissolves (0.5 - 10)
   // Advanced rendering parameters
   ior: number;                    // Index of refraction (1.0 - 3.0)
   refractionStrength: number;     // Refraction offset (0 - 0.2)